@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { changePassword, passwordChangeSchema } from "@/lib/server/auth";
+import { jsonError, readJsonBody, setSessionCookie, withUser } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export const PUT = (request: NextRequest) =>
+  withUser(request, async (user, context) => {
+    const body = await readJsonBody(request, passwordChangeSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const changed = await changePassword(context.store, user, body.data);
+    if (!changed.success) {
+      return jsonError(changed.status, changed.error);
+    }
+
+    return setSessionCookie(NextResponse.json({ user: { email: changed.data.email } }), changed.data, context);
+  });
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { credentialsSchema, register } from "@/lib/server/auth";
+import { jsonError, readJsonBody, setSessionCookie, withContext } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export const POST = (request: NextRequest) =>
+  withContext(async (context) => {
+    if (!context.signupsOpen) {
+      return jsonError(403, "New accounts are closed on this server.");
+    }
+
+    const body = await readJsonBody(request, credentialsSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const created = await register(context.store, body.data);
+    if (!created.success) {
+      return jsonError(created.status, created.error);
+    }
+
+    const response = NextResponse.json({ user: { email: created.data.email } }, { status: 201 });
+    return setSessionCookie(response, created.data, context);
+  });
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { credentialsSchema, signIn } from "@/lib/server/auth";
+import { clearSessionCookie, jsonError, readJsonBody, setSessionCookie, withContext, withUser } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export const GET = (request: NextRequest) =>
+  withUser(request, async (user) => NextResponse.json({ user: { email: user.email } }));
+
+export const POST = (request: NextRequest) =>
+  withContext(async (context) => {
+    const body = await readJsonBody(request, credentialsSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const user = await signIn(context.store, body.data);
+    return user
+      ? setSessionCookie(NextResponse.json({ user: { email: user.email } }), user, context)
+      : jsonError(401, "That email and password don't match an account.");
+  });
+
+// Signing out revokes every session for the account, not just this browser's cookie.
+export const DELETE = (request: NextRequest) =>
+  withUser(request, async (user, { store }) => {
+    await store.revokeSessions(user.id);
+    return clearSessionCookie(new NextResponse(null, { status: 204 }));
+  });
@@ -0,0 +1,11 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { jsonError, withUser } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+export const POST = (request: NextRequest, { params }: { params: Promise<{ id: string }> }) =>
+  withUser(request, async (user, { store }) => {
+    const restored = await store.restore(user, (await params).id);
+    return restored.success ? NextResponse.json({ scenario: restored.data }) : jsonError(restored.status, restored.error);
+  });
@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { jsonError, readJsonBody, withUser } from "@/lib/server/http";
+import { scenarioWriteSchema } from "@/lib/server/scenario-store";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Scenarios owned by someone else answer 404 like missing ones, so ids can't be probed.
+export const GET = (request: NextRequest, { params }: RouteContext) =>
+  withUser(request, async (user, { store }) => {
+    const found = await store.get(user, (await params).id);
+    return found.success ? NextResponse.json({ scenario: found.data }) : jsonError(found.status, found.error);
+  });
+
+export const PUT = (request: NextRequest, { params }: RouteContext) =>
+  withUser(request, async (user, { store }) => {
+    const body = await readJsonBody(request, scenarioWriteSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const updated = await store.update(user, (await params).id, body.data);
+    return updated.success ? NextResponse.json({ scenario: updated.data }) : jsonError(updated.status, updated.error);
+  });
+
+// Soft delete by default; `?purge=true` is delete-on-request and erases the record, including soft-deleted ones.
+export const DELETE = (request: NextRequest, { params }: RouteContext) =>
+  withUser(request, async (user, { store }) => {
+    const purge = request.nextUrl.searchParams.get("purge") === "true";
+    const removed = await store.remove(user, (await params).id, { purge });
+    return removed.success ? new NextResponse(null, { status: 204 }) : jsonError(removed.status, removed.error);
+  });
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { jsonError, readJsonBody, withUser } from "@/lib/server/http";
+import { scenarioWriteSchema } from "@/lib/server/scenario-store";
+
+export const runtime = "nodejs";
+
+// `?deleted=include` also lists soft-deleted scenarios, so they can be restored or purged.
+export const GET = (request: NextRequest) =>
+  withUser(request, async (user, { store }) =>
+    NextResponse.json({
+      scenarios: await store.list(user, { includeDeleted: request.nextUrl.searchParams.get("deleted") === "include" }),
+    }),
+  );
+
+export const POST = (request: NextRequest) =>
+  withUser(request, async (user, { store }) => {
+    const body = await readJsonBody(request, scenarioWriteSchema);
+    if (!body.success) {
+      return body.response;
+    }
+
+    const created = await store.create(user, body.data);
+    return created.success
+      ? NextResponse.json({ scenario: created.data }, { status: 201 })
+      : jsonError(created.status, created.error);
+  });
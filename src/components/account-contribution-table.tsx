@@ -0,0 +1,74 @@
+"use client";
+
+import type { AccountContribution, TierKey } from "@/lib/calculator/types";
+import { cn } from "@/lib/utils";
+
+const MAX_LISTED_CONTRIBUTIONS = 15;
+
+type AccountContributionTableProps = {
+  contributions: AccountContribution[];
+  tierLabels: Record<TierKey, string>;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+};
+
+export function AccountContributionTable({
+  contributions,
+  tierLabels,
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+}: AccountContributionTableProps) {
+  const listed = contributions.slice(0, MAX_LISTED_CONTRIBUTIONS);
+  const treated = contributions.filter((account) => account.treated);
+  // How many accounts it takes to carry half of the incremental gross profit.
+  let carried = 0;
+  const carriers = treated.findIndex((account) => {
+    carried += account.share ?? 0;
+    return carried >= 0.5;
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-lg border bg-background">
+        <table className="w-full min-w-[640px] text-sm">
+          <thead>
+            <tr className="border-b bg-muted/30 text-left">
+              <th className="p-3 font-medium text-muted-foreground">Account</th>
+              <th className="p-3 font-medium text-muted-foreground">ACV</th>
+              <th className="p-3 font-medium text-muted-foreground">In-market</th>
+              <th className="p-3 font-medium text-muted-foreground">Opps</th>
+              <th className="p-3 font-medium text-muted-foreground">Incremental GP</th>
+              <th className="p-3 font-medium text-muted-foreground">Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            {listed.map((account) => (
+              <tr key={account.name} className={cn("border-b", account.treated ? undefined : "text-muted-foreground")}>
+                <td className="p-3 font-medium">
+                  {account.name}
+                  {account.tier ? ` · ${tierLabels[account.tier]}` : ""}
+                  {account.treated ? "" : " (not treated)"}
+                </td>
+                <td className="p-3">{formatCurrency(account.acv)}</td>
+                <td className="p-3">{formatPercent(account.inMarketProbability, 0)}</td>
+                <td className="p-3">{formatNumber(account.expectedOpps, 1)}</td>
+                <td className="p-3">{formatCurrency(account.incrementalGrossProfit)}</td>
+                <td className="p-3">{formatPercent(account.share === null ? null : account.share * 100, 1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {carriers >= 0
+          ? `${carriers + 1} of ${treated.length} treated accounts carry half the incremental gross profit.`
+          : "No incremental gross profit to attribute yet."}
+        {contributions.length > listed.length
+          ? ` Showing the top ${listed.length} of ${contributions.length}; the workbook export lists every account.`
+          : ""}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import type { AllocationObjective, AllocationPlan, TierKey } from "@/lib/calculator/types";
+import { cn } from "@/lib/utils";
+
+const ALLOCATION_OBJECTIVES: Record<AllocationObjective, string> = {
+  incrementalGrossProfit: "Max gross profit",
+  roi: "Max ROI",
+};
+
+type AllocationOptimiserProps = {
+  plan: AllocationPlan;
+  tierLabels: Record<TierKey, string>;
+  onObjectiveChange: (objective: AllocationObjective) => void;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+  currencySymbol: string;
+};
+
+export function AllocationOptimiser({
+  plan,
+  tierLabels,
+  onObjectiveChange,
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+  currencySymbol,
+}: AllocationOptimiserProps) {
+  const formatRoi = (roi: number | null) => formatPercent(roi === null ? null : roi * 100, 1);
+  const maxProfit = Math.max(...plan.frontier.map((point) => point.incrementalGrossProfit), 1);
+  const spend = plan.totalBudget - plan.unallocatedBudget;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="text-sm font-semibold text-foreground">Recommended split</p>
+          <p className="text-xs text-muted-foreground">
+            Best use of {formatCurrency(plan.totalBudget)} across tiers, tested in 5% steps against each tier’s budget
+            per account and the shared team pool.
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(ALLOCATION_OBJECTIVES) as AllocationObjective[]).map((objective) => (
+            <Button
+              key={objective}
+              type="button"
+              size="sm"
+              variant={plan.objective === objective ? "default" : "outline"}
+              aria-pressed={plan.objective === objective}
+              onClick={() => onObjectiveChange(objective)}
+            >
+              {ALLOCATION_OBJECTIVES[objective]}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto rounded-lg border bg-background">
+        <table className="w-full min-w-[560px] text-sm">
+          <thead>
+            <tr className="border-b bg-muted/30 text-left">
+              <th className="p-3 font-medium text-muted-foreground">Tier</th>
+              <th className="p-3 font-medium text-muted-foreground">Budget</th>
+              <th className="p-3 font-medium text-muted-foreground">Team hours</th>
+              <th className="p-3 font-medium text-muted-foreground">Accounts</th>
+              <th className="p-3 font-medium text-muted-foreground">Incremental GP</th>
+              <th className="p-3 font-medium text-muted-foreground">ROI on next {currencySymbol}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.portfolio.tiers.map(({ tier, allocatedBudget, allocatedHours, treatedAccounts, result }) => (
+              <tr key={tier} className="border-b last:border-b-0">
+                <td className="p-3 font-medium text-foreground">{tierLabels[tier]}</td>
+                <td className="p-3">{formatCurrency(allocatedBudget)}</td>
+                <td className="p-3">{formatNumber(allocatedHours, 0)}</td>
+                <td className="p-3">{formatNumber(treatedAccounts, 0)}</td>
+                <td className="p-3">{formatCurrency(result.outputs.incremental.incrementalGrossProfit)}</td>
+                <td className="p-3">{formatRoi(plan.marginalRoi[tier])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Spend {formatCurrency(spend)} for {formatCurrency(plan.portfolio.incremental.incrementalGrossProfit)} incremental
+        gross profit at {formatRoi(plan.portfolio.incremental.roi)} net ROI
+        {plan.unallocatedBudget > 0 ? `; ${formatCurrency(plan.unallocatedBudget)} held back` : ""}.
+      </p>
+      <div>
+        <div className="flex h-28 items-end gap-px" role="img" aria-label="Efficient frontier of budget versus incremental gross profit">
+          {plan.frontier.map((point) => (
+            <div
+              key={point.budget}
+              className={cn(
+                "flex-1 rounded-t-sm",
+                point.budget <= spend + 1e-6 ? "bg-cta" : "bg-muted-foreground/40",
+              )}
+              style={{ height: `${(Math.max(0, point.incrementalGrossProfit) / maxProfit) * 100}%` }}
+              title={`${formatCurrency(point.budget)}: ${formatCurrency(point.incrementalGrossProfit)} GP, ${formatRoi(point.roi)} ROI`}
+            />
+          ))}
+        </div>
+        <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+          <span>{formatCurrency(plan.frontier[0]?.budget ?? null)}</span>
+          <span>Best incremental GP by budget</span>
+          <span>{formatCurrency(plan.totalBudget)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
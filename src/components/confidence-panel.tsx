@@ -0,0 +1,257 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_MONTE_CARLO_ITERATIONS,
+  DEFAULT_MONTE_CARLO_SEED,
+  runMonteCarlo,
+} from "@/lib/calculator/monte-carlo";
+import { inputDistributionSchema } from "@/lib/calculator/schema";
+import type {
+  DistributionKind,
+  InputDistribution,
+  MonteCarloDistributions,
+  ScenarioInputs,
+  UncertainInputKey,
+} from "@/lib/calculator/types";
+import { cn } from "@/lib/utils";
+
+const UNCERTAIN_INPUTS: Array<{ key: UncertainInputKey; label: string }> = [
+  { key: "market.targetAccounts", label: "Target accounts" },
+  { key: "market.inMarketRate", label: "In-market rate" },
+  { key: "market.qualifiedOppsPerAccount", label: "Opps per account" },
+  { key: "market.baselineWinRate", label: "Baseline win rate" },
+  { key: "market.baselineAcv", label: "Baseline ACV" },
+  { key: "market.contributionMargin", label: "Contribution margin" },
+  { key: "market.salesCycleMonthsBaseline", label: "Sales cycle (baseline)" },
+  { key: "market.salesCycleMonthsAbm", label: "Sales cycle (ABM)" },
+  { key: "uplifts.winRateUplift", label: "Win-rate uplift" },
+  { key: "uplifts.acvUplift", label: "ACV uplift" },
+  { key: "uplifts.opportunityRateUplift", label: "Opportunity uplift" },
+];
+
+const DISTRIBUTION_LABELS: Record<DistributionKind, string> = {
+  triangular: "Triangular",
+  pert: "PERT",
+  uniform: "Uniform",
+};
+
+const ITERATION_OPTIONS = [500, 1000, 5000];
+
+const readUncertainInput = (inputs: ScenarioInputs, key: UncertainInputKey): number => {
+  const [group, field] = key.split(".") as ["market" | "uplifts", string];
+  return (inputs[group] as unknown as Record<string, number>)[field];
+};
+
+const roundDistributionValue = (value: number) => Math.round(value * 100) / 100;
+
+type ConfidencePanelProps = {
+  inputs: ScenarioInputs;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+};
+
+export function ConfidencePanel({ inputs, formatCurrency, formatNumber, formatPercent }: ConfidencePanelProps) {
+  const [distributions, setDistributions] = useState<MonteCarloDistributions>({});
+  const [iterations, setIterations] = useState(DEFAULT_MONTE_CARLO_ITERATIONS);
+  const [seed, setSeed] = useState(DEFAULT_MONTE_CARLO_SEED);
+
+  const entries = UNCERTAIN_INPUTS.filter(({ key }) => distributions[key]);
+  const available = UNCERTAIN_INPUTS.filter(({ key }) => !distributions[key]);
+  const invalidLabels = entries
+    .filter(({ key }) => !inputDistributionSchema.safeParse(distributions[key]).success)
+    .map(({ label }) => label);
+  const ready = entries.length > 0 && invalidLabels.length === 0;
+
+  const simulation = useMemo(
+    () => (ready ? runMonteCarlo(inputs, distributions, { iterations, seed }) : null),
+    [ready, inputs, distributions, iterations, seed],
+  );
+
+  const attach = (key: UncertainInputKey) => {
+    const value = readUncertainInput(inputs, key);
+    const spread = Math.abs(value) * 0.2;
+    setDistributions((prev) => ({
+      ...prev,
+      [key]: {
+        kind: "triangular",
+        low: roundDistributionValue(value - spread),
+        mostLikely: roundDistributionValue(value),
+        high: roundDistributionValue(value + spread),
+      },
+    }));
+  };
+
+  const update = (key: UncertainInputKey, patch: Partial<InputDistribution>) =>
+    setDistributions((prev) => ({ ...prev, [key]: { ...prev[key]!, ...patch } }));
+
+  const detach = (key: UncertainInputKey) =>
+    setDistributions((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+  const formatRoi = (value: number | null) => formatPercent(value === null ? null : value * 100, 1);
+  const formatMonths = (value: number | null) => (value === null ? "Beyond horizon" : `${formatNumber(value, 1)} mo`);
+  const maxBinCount = simulation ? Math.max(...simulation.roiHistogram.map((bin) => bin.count), 1) : 1;
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle>Confidence range</CardTitle>
+        <CardDescription>
+          Attach a range to any uncertain input and simulate the spread of outcomes. Runs are seeded, so the same
+          settings always give the same answer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {entries.map(({ key, label }) => {
+          const distribution = distributions[key]!;
+
+          return (
+            <div key={key} className="grid items-end gap-2 sm:grid-cols-[10rem_8rem_repeat(3,minmax(0,1fr))_auto]">
+              <p className="pb-2 font-medium text-foreground">{label}</p>
+              <Select
+                value={distribution.kind}
+                onValueChange={(kind) => update(key, { kind: kind as DistributionKind })}
+              >
+                <SelectTrigger aria-label={`${label} distribution`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DISTRIBUTION_LABELS) as DistributionKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {DISTRIBUTION_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {(["low", "mostLikely", "high"] as const).map((bound) => (
+                <label key={bound} className="space-y-1 text-xs text-muted-foreground">
+                  <span>{bound === "mostLikely" ? "Most likely" : bound === "low" ? "Low" : "High"}</span>
+                  <Input
+                    type="number"
+                    value={distribution[bound]}
+                    disabled={bound === "mostLikely" && distribution.kind === "uniform"}
+                    onChange={(event) => update(key, { [bound]: Number(event.target.value) })}
+                  />
+                </label>
+              ))}
+              <Button type="button" size="sm" variant="ghost" onClick={() => detach(key)}>
+                Remove
+              </Button>
+            </div>
+          );
+        })}
+        {invalidLabels.length > 0 ? (
+          <p className="text-xs text-destructive">
+            Check the ranges for {invalidLabels.join(", ")}: low ≤ most likely ≤ high.
+          </p>
+        ) : null}
+        <div className="flex flex-wrap items-end gap-3">
+          {available.length > 0 ? (
+            <Select value="" onValueChange={(key) => attach(key as UncertainInputKey)}>
+              <SelectTrigger className="w-56" aria-label="Add uncertain input">
+                <SelectValue placeholder="Add uncertain input" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : null}
+          <div className="flex items-center gap-1">
+            {ITERATION_OPTIONS.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={option === iterations ? "default" : "outline"}
+                onClick={() => setIterations(option)}
+              >
+                {formatNumber(option, 0)} runs
+              </Button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Seed
+            <Input
+              type="number"
+              className="w-24"
+              value={seed}
+              onChange={(event) => setSeed(Math.trunc(Number(event.target.value)) || 0)}
+            />
+          </label>
+        </div>
+
+        {simulation ? (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    <th className="py-2 pr-4 font-medium">P10</th>
+                    <th className="py-2 pr-4 font-medium">P50</th>
+                    <th className="py-2 pr-4 font-medium">P90</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[
+                    { label: "Net ROI", summary: simulation.roi, format: formatRoi },
+                    { label: "Incremental gross profit", summary: simulation.incrementalGrossProfit, format: formatCurrency },
+                    { label: "Payback", summary: simulation.paybackMonths, format: formatMonths },
+                  ].map(({ label, summary, format }) => (
+                    <tr key={label} className="border-b last:border-b-0">
+                      <td className="py-2 pr-4 font-medium text-foreground">{label}</td>
+                      <td className="py-2 pr-4">{format(summary.p10)}</td>
+                      <td className="py-2 pr-4">{format(summary.p50)}</td>
+                      <td className="py-2 pr-4">{format(summary.p90)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p>
+              <span className="font-semibold text-foreground">
+                {formatPercent(simulation.breakEvenProbability * 100, 0)}
+              </span>{" "}
+              chance of breaking even across {formatNumber(simulation.iterations, 0)} runs.
+            </p>
+            <div>
+              <div className="flex h-28 items-end gap-px" role="img" aria-label="Distribution of simulated net ROI">
+                {simulation.roiHistogram.map((bin) => (
+                  <div
+                    key={bin.start}
+                    className={cn("flex-1 rounded-t-sm", bin.end <= 0 ? "bg-destructive/60" : "bg-cta")}
+                    style={{ height: `${(bin.count / maxBinCount) * 100}%` }}
+                    title={`${formatRoi(bin.start)} to ${formatRoi(bin.end)}: ${bin.count} runs`}
+                  />
+                ))}
+              </div>
+              <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+                <span>{formatRoi(simulation.roiHistogram[0]?.start ?? null)}</span>
+                <span>Net ROI</span>
+                <span>{formatRoi(simulation.roiHistogram.at(-1)?.end ?? null)}</span>
+              </div>
+            </div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Add at least one uncertain input to see P10/P50/P90 outcomes and the odds of breaking even.
+          </p>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
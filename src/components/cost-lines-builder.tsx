@@ -0,0 +1,181 @@
+"use client";
+
+import { CsvIssueReport, type CsvImportReport } from "@/components/csv-issue-report";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, MAX_COST_LINES } from "@/lib/calculator/costs";
+import { sumMoney } from "@/lib/calculator/decimal";
+import type { CostCategory, CostLineItem } from "@/lib/calculator/types";
+
+type CostLinesBuilderProps = {
+  lines: CostLineItem[];
+  durationMonths: number;
+  report: CsvImportReport | null;
+  onChange: (lines: CostLineItem[]) => void;
+  onUpload: (file: File) => Promise<void>;
+  currencySymbol: string;
+  formatCurrency: (value: number) => string;
+};
+
+export function CostLinesBuilder({
+  lines,
+  durationMonths,
+  report,
+  onChange,
+  onUpload,
+  currencySymbol,
+  formatCurrency,
+}: CostLinesBuilderProps) {
+  const lastMonth = Math.max(1, Math.round(durationMonths));
+  const total = sumMoney(lines.map((line) => line.amount));
+  const updateLine = (index: number, patch: Partial<CostLineItem>) =>
+    onChange(lines.map((line, position) => (position === index ? { ...line, ...patch } : line)));
+  const readMonth = (value: string) => Math.max(1, Math.round(Number(value) || 1));
+
+  return (
+    <div className="mt-6 space-y-3 rounded-lg border bg-background p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <p className="text-sm font-semibold text-foreground">Budget line items</p>
+          <p className="text-xs text-muted-foreground">
+            List spend the way your budget does, or upload a CSV with label, category, amount and start/end month
+            columns. Lines roll up into the categories above and set the monthly spend profile.
+          </p>
+        </div>
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          className="w-56"
+          aria-label="Import budget line items"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void onUpload(file);
+            }
+          }}
+        />
+      </div>
+
+      {lines.length > 0 ? (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-2 font-medium">Line</th>
+              <th className="py-1 pr-2 font-medium">Category</th>
+              <th className="py-1 pr-2 font-medium">Amount ({currencySymbol})</th>
+              <th className="py-1 pr-2 font-medium">From month</th>
+              <th className="py-1 pr-2 font-medium">To month</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={index}>
+                <td className="py-1 pr-2">
+                  <Input
+                    value={line.label}
+                    aria-label={`Line ${index + 1} label`}
+                    onChange={(event) => updateLine(index, { label: event.target.value })}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <Select
+                    value={line.category}
+                    onValueChange={(value) => updateLine(index, { category: value as CostCategory })}
+                  >
+                    <SelectTrigger aria-label={`Line ${index + 1} category`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COST_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {COST_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="py-1 pr-2">
+                  <Input
+                    inputMode="decimal"
+                    value={String(line.amount)}
+                    aria-label={`Line ${index + 1} amount`}
+                    onChange={(event) => updateLine(index, { amount: Math.max(0, Number(event.target.value) || 0) })}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={lastMonth}
+                    value={line.startMonth}
+                    aria-label={`Line ${index + 1} start month`}
+                    onChange={(event) => updateLine(index, { startMonth: readMonth(event.target.value) })}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={lastMonth}
+                    value={line.endMonth}
+                    aria-label={`Line ${index + 1} end month`}
+                    onChange={(event) => updateLine(index, { endMonth: readMonth(event.target.value) })}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(lines.filter((_, position) => position !== index))}
+                  >
+                    Remove
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={lines.length >= MAX_COST_LINES}
+          onClick={() =>
+            onChange([
+              ...lines,
+              { label: `Line ${lines.length + 1}`, category: "other", amount: 0, startMonth: 1, endMonth: lastMonth },
+            ])
+          }
+        >
+          Add line
+        </Button>
+        {lines.length > 0 ? (
+          <>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange([])}>
+              Clear lines
+            </Button>
+            <Badge variant="secondary">
+              {lines.length} {lines.length === 1 ? "line" : "lines"} · {formatCurrency(total)}
+            </Badge>
+          </>
+        ) : null}
+      </div>
+
+      {report?.warnings.map((warning) => (
+        <p key={warning} className="text-xs text-amber-700">
+          {warning}
+        </p>
+      ))}
+
+      {report?.error ? <CsvIssueReport report={report} /> : null}
+    </div>
+  );
+}
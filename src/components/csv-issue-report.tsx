@@ -0,0 +1,44 @@
+"use client";
+
+import type { CsvRowIssue } from "@/lib/calculator/types";
+
+export type CsvImportReport = {
+  error: string | null;
+  issues: CsvRowIssue[];
+  warnings: string[];
+};
+
+const MAX_LISTED_IMPORT_ISSUES = 12;
+
+export function CsvIssueReport({ report }: { report: CsvImportReport }) {
+  return (
+    <div className="space-y-2 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-sm">
+      <p className="font-medium text-destructive">{report.error}</p>
+      {report.issues.length > 0 ? (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-3 font-medium">Row</th>
+              <th className="py-1 pr-3 font-medium">Column</th>
+              <th className="py-1 font-medium">Problem</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.issues.slice(0, MAX_LISTED_IMPORT_ISSUES).map((issue, index) => (
+              <tr key={`${issue.row}-${issue.column}-${index}`}>
+                <td className="py-1 pr-3 tabular-nums">{issue.row}</td>
+                <td className="py-1 pr-3">{issue.column ?? "—"}</td>
+                <td className="py-1">{issue.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+      {report.issues.length > MAX_LISTED_IMPORT_ISSUES ? (
+        <p className="text-xs text-muted-foreground">
+          …and {report.issues.length - MAX_LISTED_IMPORT_ISSUES} more.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import type { Control, FieldPath } from "react-hook-form";
+import { Info } from "lucide-react";
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { guardrailKey } from "@/lib/calculator/guardrails";
+import type { Guardrail, GuardrailLevel } from "@/lib/calculator/types";
+import type { ScenarioInputSchema } from "@/lib/calculator/schema";
+import { cn } from "@/lib/utils";
+
+export const numberParser = (value: string) => {
+  if (value === "") {
+    return "";
+  }
+
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? value : parsed;
+};
+
+// Filled by the planner with the live guardrails so every field can show the ones keyed to it.
+export const GuardrailContext = createContext<Guardrail[]>([]);
+
+export const GUARDRAIL_TONE: Record<GuardrailLevel, string> = {
+  info: "text-muted-foreground",
+  warning: "text-amber-600",
+  error: "text-destructive",
+};
+
+export function HintTooltip({ hint, label }: { hint?: ReactNode; label: string }) {
+  if (!hint) {
+    return null;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          className="text-muted-foreground transition-colors hover:text-foreground"
+          aria-label={`${label} info`}
+        >
+          <Info className="h-4 w-4" aria-hidden />
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="top" align="end" className="max-w-xs space-y-1 text-sm">
+        {hint}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+type NumberFieldProps<Name extends FieldPath<ScenarioInputSchema>> = {
+  control: Control<ScenarioInputSchema>;
+  name: Name;
+  label: string;
+  prefix?: string;
+  suffix?: string;
+  hint?: string;
+  sublabel?: string;
+  disabled?: boolean;
+};
+
+export function NumberField<Name extends FieldPath<ScenarioInputSchema>>({
+  control,
+  name,
+  label,
+  prefix,
+  suffix,
+  hint,
+  sublabel,
+  disabled,
+}: NumberFieldProps<Name>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex items-center justify-between gap-2">
+            <FormLabel>{label}</FormLabel>
+            <HintTooltip hint={hint} label={label} />
+          </div>
+          {sublabel ? (
+            <p className="text-xs text-muted-foreground">{sublabel}</p>
+          ) : null}
+          <FormControl>
+            <div className="relative">
+              {prefix ? (
+                <span className="pointer-events-none absolute inset-y-0 left-3 flex items-center text-sm text-muted-foreground">
+                  {prefix}
+                </span>
+              ) : null}
+              <Input
+                inputMode="decimal"
+                value={field.value === undefined ? "" : String(field.value)}
+                onChange={(event) => field.onChange(numberParser(event.target.value))}
+                className={cn(prefix ? "pl-7" : undefined, suffix ? "pr-7" : undefined)}
+                disabled={disabled}
+              />
+              {suffix ? (
+                <span className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-sm text-muted-foreground">
+                  {suffix}
+                </span>
+              ) : null}
+            </div>
+          </FormControl>
+          <FormMessage />
+          <FieldGuardrails name={name} />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export function FieldGuardrails({ name }: { name: string }) {
+  const guardrails = useContext(GuardrailContext);
+  const matches = guardrails.filter((guardrail) => guardrailKey(guardrail) === name);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      {matches.map((guardrail) => (
+        <p key={guardrail.message} className={cn("text-xs", GUARDRAIL_TONE[guardrail.level])}>
+          {guardrail.message}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { compareScenarios } from "@/lib/calculator/compare";
+import type { CurrencyCode, IncrementalOutputs, InputDifference, ScenarioResult } from "@/lib/calculator/types";
+import { formatAssumptionValue, listAssumptions } from "@/lib/export/assumptions";
+import {
+  formatCurrency as formatCurrencyIntl,
+  formatNumber as formatNumberIntl,
+  formatPercent as formatPercentIntl,
+} from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+export const CURRENT_SCENARIO_ID = "current";
+
+type CompareMetricFormat = "currency" | "percent" | "ratio" | "number" | "months";
+
+const COMPARE_METRICS: Array<{ key: keyof IncrementalOutputs; label: string; format: CompareMetricFormat }> = [
+  { key: "incrementalRevenue", label: "Incremental revenue", format: "currency" },
+  { key: "incrementalGrossProfit", label: "Incremental gross profit", format: "currency" },
+  { key: "totalCost", label: "Programme cost", format: "currency" },
+  { key: "profitAfterSpend", label: "Profit after spend", format: "currency" },
+  { key: "roi", label: "Net ROI", format: "ratio" },
+  { key: "grossRoi", label: "Gross ROI", format: "ratio" },
+  { key: "incrementalWins", label: "Incremental wins", format: "number" },
+  { key: "breakEvenWins", label: "Break-even wins", format: "number" },
+  { key: "paybackMonths", label: "Payback", format: "months" },
+];
+
+const COMPARE_DRIVER_LIMIT = 3;
+
+export type CompareColumn = {
+  id: string;
+  name: string;
+  result: ScenarioResult;
+};
+
+type ScenarioCompareProps = {
+  columns: CompareColumn[];
+  referenceId: string;
+  locale: string;
+  currency: CurrencyCode;
+  onSelectReference: (id: string) => void;
+  onLoad: (id: string) => void;
+  onRemove: (id: string) => void;
+};
+
+export function ScenarioCompare({
+  columns,
+  referenceId,
+  locale,
+  currency,
+  onSelectReference,
+  onLoad,
+  onRemove,
+}: ScenarioCompareProps) {
+  const reference = columns.find((column) => column.id === referenceId) ?? columns[0];
+  const comparisons = useMemo(
+    () => compareScenarios(reference.result, columns.map((column) => column.result)),
+    [reference, columns],
+  );
+  const assumptionRows = useMemo(
+    () => new Map(listAssumptions(reference.result.inputs).map((row) => [row.path, row])),
+    [reference],
+  );
+
+  const formatMetric = (value: number | null, format: CompareMetricFormat, signed = false) => {
+    const sign = signed && value !== null && value > 0 ? "+" : "";
+    switch (format) {
+      case "currency":
+        return `${sign}${formatCurrencyIntl(value, locale, currency)}`;
+      case "ratio":
+        return `${sign}${formatPercentIntl(value === null ? null : value * 100, locale, { fractionDigits: 1 })}`;
+      case "months":
+        return `${sign}${formatNumberIntl(value, locale, { fractionDigits: 1 })} mo`;
+      default:
+        return `${sign}${formatNumberIntl(value, locale, { fractionDigits: 1 })}`;
+    }
+  };
+
+  const formatDriverValue = (driver: InputDifference, value: unknown) => {
+    const row = assumptionRows.get(driver.path);
+    if (!row) {
+      return Array.isArray(value) ? value.join(", ") : String(value ?? "—");
+    }
+
+    return formatAssumptionValue(
+      { ...row, value: value === undefined ? null : (value as typeof row.value) },
+      locale,
+      currency,
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-lg border bg-background">
+        <table className="w-full min-w-[640px] text-sm">
+          <thead>
+            <tr className="border-b bg-muted/30 text-left">
+              <th className="p-3 font-medium text-muted-foreground">Metric</th>
+              {columns.map((column) => (
+                <th key={column.id} className="p-3 align-top">
+                  <div className="font-semibold text-foreground">{column.name}</div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {column.id === reference.id ? (
+                      <Badge variant="outline">Reference</Badge>
+                    ) : (
+                      <Button type="button" size="sm" variant="ghost" onClick={() => onSelectReference(column.id)}>
+                        Set as reference
+                      </Button>
+                    )}
+                    {column.id !== CURRENT_SCENARIO_ID ? (
+                      <>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => onLoad(column.id)}>
+                          Load
+                        </Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => onRemove(column.id)}>
+                          Remove
+                        </Button>
+                      </>
+                    ) : null}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARE_METRICS.map((metric) => (
+              <tr key={metric.key} className="border-b last:border-b-0">
+                <td className="p-3 font-medium text-foreground">{metric.label}</td>
+                {comparisons.map((comparison, index) => {
+                  const delta = comparison.deltas[metric.key];
+                  const isReference = columns[index].id === reference.id;
+
+                  return (
+                    <td key={columns[index].id} className="p-3">
+                      <div>{formatMetric(comparison.result.outputs.incremental[metric.key], metric.format)}</div>
+                      {!isReference ? (
+                        <div
+                          className={cn(
+                            "text-xs",
+                            delta === null || delta === 0
+                              ? "text-muted-foreground"
+                              : "font-medium text-cta",
+                          )}
+                        >
+                          {delta === null
+                            ? "—"
+                            : `${formatMetric(delta, metric.format, true)} vs ${reference.name}`}
+                        </div>
+                      ) : null}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {columns.length > 1 ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {comparisons.map((comparison, index) =>
+            columns[index].id === reference.id ? null : (
+              <Card key={columns[index].id}>
+                <CardHeader>
+                  <CardTitle className="text-base">What drives {columns[index].name}</CardTitle>
+                  <CardDescription>
+                    Each input swapped into {reference.name} on its own, ranked by ROI impact.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {comparison.drivers.length === 0 ? (
+                    <p className="text-muted-foreground">Inputs match the reference.</p>
+                  ) : (
+                    comparison.drivers.slice(0, COMPARE_DRIVER_LIMIT).map((driver) => (
+                      <div key={driver.path} className="space-y-0.5">
+                        <p className="font-medium text-foreground">
+                          {assumptionRows.get(driver.path)?.term ?? driver.path}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDriverValue(driver, driver.reference)} → {formatDriverValue(driver, driver.candidate)}
+                        </p>
+                        <p className="text-xs">
+                          ROI {formatMetric(driver.roiImpact, "ratio", true)} · GP{" "}
+                          {formatMetric(driver.incrementalGrossProfitImpact, "currency", true)}
+                        </p>
+                      </div>
+                    ))
+                  )}
+                  {comparison.drivers.length > COMPARE_DRIVER_LIMIT ? (
+                    <p className="text-xs text-muted-foreground">
+                      +{comparison.drivers.length - COMPARE_DRIVER_LIMIT} smaller differences
+                    </p>
+                  ) : null}
+                </CardContent>
+              </Card>
+            ),
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Save a snapshot, change some inputs, and the differences will appear here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  MAX_SCENARIO_TEXT_LENGTH,
+  searchScenarios,
+  type SavedScenario,
+  type ScenarioMetadata,
+} from "@/lib/scenario-library";
+import { cn } from "@/lib/utils";
+
+export type LibraryNotice = { tone: "error" | "info"; text: string };
+
+type ScenarioLibraryPanelProps = {
+  scenarios: SavedScenario[];
+  active: SavedScenario | null;
+  initialMetadata: ScenarioMetadata | null;
+  notice: LibraryNotice | null;
+  locale: string;
+  onSave: (metadata: ScenarioMetadata, asNew: boolean) => void;
+  onExportFile: (metadata: ScenarioMetadata) => void;
+  onImportFile: (file: File) => Promise<void>;
+  onOpen: (scenario: SavedScenario) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => boolean;
+  onDelete: (id: string) => void;
+};
+
+export function ScenarioLibraryPanel({
+  scenarios,
+  active,
+  initialMetadata,
+  notice,
+  locale,
+  onSave,
+  onExportFile,
+  onImportFile,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: ScenarioLibraryPanelProps) {
+  const [metadata, setMetadata] = useState<ScenarioMetadata>(() => ({
+    name: initialMetadata?.name ?? "",
+    client: initialMetadata?.client ?? "",
+    owner: initialMetadata?.owner ?? "",
+  }));
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const matches = searchScenarios(scenarios, query);
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" });
+  const metadataField = (key: keyof ScenarioMetadata, label: string, placeholder: string) => (
+    <div className="space-y-1">
+      <label htmlFor={`library-${key}`} className="block text-sm font-medium text-foreground">
+        {label}
+      </label>
+      <Input
+        id={`library-${key}`}
+        value={metadata[key]}
+        maxLength={MAX_SCENARIO_TEXT_LENGTH}
+        placeholder={placeholder}
+        onChange={(event) => setMetadata((current) => ({ ...current, [key]: event.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle>Scenario library</CardTitle>
+        <CardDescription>
+          Scenarios are saved in this browser only. Your working draft is kept automatically, so a refresh picks up
+          where you left off. Export an .abmroi.json file to move a scenario between browsers or keep a copy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          {metadataField("name", "Scenario name", "Q3 expansion plan")}
+          {metadataField("client", "Client", "Optional")}
+          {metadataField("owner", "Owner", "Optional")}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button type="button" size="sm" onClick={() => onSave(metadata, false)}>
+            {active ? `Save to “${active.name}”` : "Save scenario"}
+          </Button>
+          {active ? (
+            <Button type="button" size="sm" variant="outline" onClick={() => onSave(metadata, true)}>
+              Save as new
+            </Button>
+          ) : null}
+          <Button type="button" size="sm" variant="outline" onClick={() => onExportFile(metadata)}>
+            Export file
+          </Button>
+          <Input
+            type="file"
+            accept=".json,application/json"
+            className="w-56"
+            aria-label="Import scenario file"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void onImportFile(file);
+              }
+            }}
+          />
+        </div>
+        {notice ? (
+          <p className={cn("text-sm", notice.tone === "error" ? "text-destructive" : "text-muted-foreground")}>
+            {notice.text}
+          </p>
+        ) : null}
+
+        {scenarios.length > 0 ? (
+          <div className="space-y-2">
+            <Input
+              value={query}
+              placeholder="Search by name, client or owner"
+              aria-label="Search scenarios"
+              className="max-w-sm"
+              onChange={(event) => setQuery(event.target.value)}
+            />
+            <div className="overflow-x-auto rounded-lg border bg-background">
+              <table className="w-full min-w-[640px] text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/30 text-left">
+                    <th className="p-3 font-medium text-muted-foreground">Scenario</th>
+                    <th className="p-3 font-medium text-muted-foreground">Client</th>
+                    <th className="p-3 font-medium text-muted-foreground">Owner</th>
+                    <th className="p-3 font-medium text-muted-foreground">Updated</th>
+                    <th className="p-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map((scenario) => (
+                    <tr key={scenario.id} className="border-b last:border-b-0">
+                      <td className="p-3 font-medium text-foreground">
+                        {renaming?.id === scenario.id ? (
+                          <Input
+                            autoFocus
+                            value={renaming.name}
+                            maxLength={MAX_SCENARIO_TEXT_LENGTH}
+                            aria-label={`Rename ${scenario.name}`}
+                            onChange={(event) => setRenaming({ id: scenario.id, name: event.target.value })}
+                            onKeyDown={(event) => {
+                              if (event.key === "Enter") {
+                                event.preventDefault();
+                                if (onRename(scenario.id, renaming.name)) {
+                                  setRenaming(null);
+                                }
+                              } else if (event.key === "Escape") {
+                                setRenaming(null);
+                              }
+                            }}
+                          />
+                        ) : (
+                          <span className="flex items-center gap-2">
+                            {scenario.name}
+                            {scenario.id === active?.id ? <Badge variant="secondary">Open</Badge> : null}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-3">{scenario.client || "—"}</td>
+                      <td className="p-3">{scenario.owner || "—"}</td>
+                      <td className="p-3 text-muted-foreground">{formatDate(scenario.updatedAt)}</td>
+                      <td className="p-3">
+                        <div className="flex justify-end gap-1">
+                          {pendingDeleteId === scenario.id ? (
+                            <>
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => {
+                                  onDelete(scenario.id);
+                                  setPendingDeleteId(null);
+                                }}
+                              >
+                                Delete
+                              </Button>
+                              <Button type="button" size="sm" variant="ghost" onClick={() => setPendingDeleteId(null)}>
+                                Keep
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button type="button" size="sm" variant="outline" onClick={() => onOpen(scenario)}>
+                                Open
+                              </Button>
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="ghost"
+                                onClick={() =>
+                                  renaming?.id === scenario.id
+                                    ? onRename(scenario.id, renaming.name) && setRenaming(null)
+                                    : setRenaming({ id: scenario.id, name: scenario.name })
+                                }
+                              >
+                                {renaming?.id === scenario.id ? "Done" : "Rename"}
+                              </Button>
+                              <Button type="button" size="sm" variant="ghost" onClick={() => onDuplicate(scenario.id)}>
+                                Duplicate
+                              </Button>
+                              <Button type="button" size="sm" variant="ghost" onClick={() => setPendingDeleteId(scenario.id)}>
+                                Delete
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {matches.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="p-3 text-muted-foreground">
+                        No scenarios match “{query}”.
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No saved scenarios yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,7 @@
 import Image from "next/image";
 import Link from "next/link";
 import {
+  useCallback,
   useEffect,
   useLayoutEffect,
   useMemo,
@@ -22,7 +23,24 @@ import {
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Info } from "lucide-react";
 
+import { AccountContributionTable } from "@/components/account-contribution-table";
+import { AllocationOptimiser } from "@/components/allocation-optimiser";
+import { ConfidencePanel } from "@/components/confidence-panel";
+import { CostLinesBuilder } from "@/components/cost-lines-builder";
+import { CsvIssueReport, type CsvImportReport } from "@/components/csv-issue-report";
+import {
+  FieldGuardrails,
+  GUARDRAIL_TONE,
+  GuardrailContext,
+  HintTooltip,
+  NumberField,
+  numberParser,
+} from "@/components/form-fields";
+import { CURRENT_SCENARIO_ID, ScenarioCompare } from "@/components/scenario-compare";
+import { ScenarioLibraryPanel, type LibraryNotice } from "@/components/scenario-library-panel";
+import { SegmentsEditor } from "@/components/segments-editor";
 import { SliderWithBenchmark } from "@/components/slider-with-benchmark";
+import { TornadoChartView } from "@/components/tornado-chart";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -41,42 +59,109 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { buildSensitivityGrid, calculateScenario } from "@/lib/calculator/calculator";
+import { parseAccountCsv } from "@/lib/calculator/accounts";
+import { type AcvBasis, crmSnapshotToMarket, describeCrmSnapshot, parseCrmSnapshot } from "@/lib/calculator/crm";
+import { COST_CATEGORIES, parseCostLinesCsv } from "@/lib/calculator/costs";
 import {
-  ALIGNMENT_MULTIPLIERS,
-  deriveCoverage,
-  deriveIntensity,
-} from "@/lib/calculator/capacity";
+  BENCHMARK_PACKS,
+  DEFAULT_BENCHMARK_PACK,
+  findBenchmarkPack,
+  parseBenchmarkPack,
+  resolveBenchmarkPack,
+  toBenchmarkRef,
+} from "@/lib/calculator/benchmarks";
+import { calculateScenario } from "@/lib/calculator/calculator";
+import { ALIGNMENT_MULTIPLIERS } from "@/lib/calculator/capacity";
 import type { CapacityBottleneck } from "@/lib/calculator/capacity";
-import type { AlignmentLevel } from "@/lib/calculator/types";
+import { CURRENCY_CODES, DEFAULT_FX_TABLE, convertAmount, convertScenarioCurrency } from "@/lib/calculator/currency";
+import { sumMoney } from "@/lib/calculator/decimal";
+import { goalSeek } from "@/lib/calculator/goal-seek";
+import { guardrailKey } from "@/lib/calculator/guardrails";
+import { DEFAULT_ALLOCATION_OBJECTIVE, optimiseAllocation } from "@/lib/calculator/optimiser";
+import { DEFAULT_POINT_IN_TIME_SHARE, applyPresetMultipliers, planScenario } from "@/lib/calculator/planner";
+import {
+  TIER_KEYS,
+  calculatePortfolio,
+  estimateBudgetPerAccount,
+} from "@/lib/calculator/portfolio";
+import {
+  DEFAULT_COLUMN_AXIS,
+  DEFAULT_ROW_AXIS,
+  DEFAULT_SENSITIVITY_METRIC,
+  SENSITIVITY_AXES,
+  SENSITIVITY_METRICS,
+  buildSensitivityGrid,
+} from "@/lib/calculator/sensitivity";
+import { applySegmentTotals, calculateSegments } from "@/lib/calculator/segments";
+import { DEFAULT_TORNADO_SWING_PERCENT, buildTornado } from "@/lib/calculator/tornado";
+import type {
+  AccountList,
+  AccountModel,
+  AccountListSummary,
+  AlignmentLevel,
+  AllocationObjective,
+  CrmSnapshotRef,
+  CrmSnapshotSummary,
+  BenchmarkPack,
+  CostCategory,
+  CostLineItem,
+  CurrencyCode,
+  CyclePresetKey,
+  FxTable,
+  GoalSeekInput,
+  GoalSeekResult,
+  GoalSeekTarget,
+  Guardrail,
+  GuardrailLevel,
+  InMarketSliderBounds,
+  MarketSegment,
+  PlannerSettings,
+  PortfolioResult,
+  PortfolioTierInputs,
+  PresetKey,
+  ScenarioResult,
+  SensitivityAxis,
+  SensitivityGrid,
+  SensitivityMetric,
+  TierKey,
+} from "@/lib/calculator/types";
 import {
+  DEFAULT_LIFETIME,
+  DEFAULT_PORTFOLIO,
   DEFAULT_SCENARIO,
   scenarioSchema,
   type ScenarioInputSchema,
 } from "@/lib/calculator/schema";
 import {
   formatCurrency as formatCurrencyIntl,
+  formatCurrencySymbol,
   formatNumber as formatNumberIntl,
   formatPercent as formatPercentIntl,
+  formatSensitivityValue,
 } from "@/lib/format";
-import { deriveInMarketPct } from "@/lib/in-market";
+import { exportBusinessCasePdf } from "@/lib/export/business-case-pdf";
+import { exportScenarioXlsx } from "@/lib/export/scenario-workbook";
+import {
+  MAX_SCENARIO_LINK_LENGTH,
+  SCENARIO_LINK_PARAM,
+  decodeScenarioLink,
+  encodeScenarioLink,
+  type ScenarioLinkState,
+} from "@/lib/scenario-link";
+import { parseScenarioFile, scenarioFileName, serializeScenarioFile } from "@/lib/scenario-file";
+import {
+  createScenarioLibrary,
+  type SavedScenario,
+  type ScenarioLibrary,
+  type ScenarioLibraryResult,
+  type ScenarioMetadata,
+} from "@/lib/scenario-library";
 import { cn } from "@/lib/utils";
-import type { SensitivityCell } from "@/lib/calculator/types";
-
-const numberParser = (value: string) => {
-  if (value === "") {
-    return "";
-  }
-
-  const parsed = Number(value);
-  return Number.isNaN(parsed) ? value : parsed;
-};
 
-const CURRENCY_OPTIONS = [
-  { value: "GBP", label: "GBP (£)" },
-  { value: "USD", label: "USD ($)" },
-  { value: "EUR", label: "EUR (€)" },
-] as const;
+const CURRENCY_OPTIONS = CURRENCY_CODES.map((code) => {
+  const symbol = formatCurrencySymbol("en-GB", code);
+  return { value: code, label: symbol === code ? code : `${code} (${symbol})` };
+});
 
 const LOCALE_OPTIONS = [
   { value: "en-GB", label: "English (UK)" },
@@ -84,11 +169,47 @@ const LOCALE_OPTIONS = [
   { value: "de-DE", label: "German (EU)" },
 ] as const;
 
-type Mode = "setup" | "tune" | "present";
+const downloadFile = (bytes: Uint8Array<ArrayBuffer>, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const GUARDRAIL_BADGE: Record<GuardrailLevel, "outline" | "default" | "destructive"> = {
+  info: "outline",
+  warning: "default",
+  error: "destructive",
+};
+
+type Mode = "setup" | "tune" | "present" | "compare";
+
+const MODE_LABELS: Record<Mode, string> = {
+  setup: "Setup",
+  tune: "Tune",
+  present: "Present",
+  compare: "Compare",
+};
+
+type ScenarioSnapshot = {
+  id: string;
+  name: string;
+  state: ScenarioLinkState;
+  result: ScenarioResult;
+};
+
+type EconomicsView = "period" | "lifetime";
+
+type CrmImportState = CsvImportReport & {
+  fileName: string;
+  summary: CrmSnapshotSummary | null;
+};
+
+const DRAFT_AUTOSAVE_DELAY_MS = 800;
+const TIER_SHORT_LABELS: Record<TierKey, string> = { oneToOne: "1:1", oneToFew: "1:few", oneToMany: "1:many" };
 type SetupStep = "programme" | "market" | "budget";
-type TierKey = "oneToOne" | "oneToFew" | "oneToMany";
-type PresetKey = "conservative" | "expected" | "stretch";
-type CyclePresetKey = "typical" | "stretch";
 
 type StepConfig = {
   id: SetupStep;
@@ -121,33 +242,6 @@ const SETUP_STEPS: StepConfig[] = [
   },
 ];
 
-const TIER_CONFIG: Record<
-  TierKey,
-  {
-    label: string;
-    helper: string;
-    defaultAccounts: number;
-  }
-> = {
-  oneToOne: {
-    label: "Single Account (1:1)",
-    helper: "High touch, 3-5 accounts. Expect deeper personalization.",
-    defaultAccounts: 4,
-  },
-  oneToFew: {
-    label: "Clustered (1:few)",
-    helper: "Clustered pods, 10–25 accounts. Balanced scale vs depth.",
-    defaultAccounts: 20,
-  },
-  oneToMany: {
-    label: "Programmatic (1:many)",
-    helper: "At-scale motions, 100+ accounts. Efficiency matters.",
-    defaultAccounts: 100,
-  },
-};
-
-const TIER_KEYS: readonly TierKey[] = ["oneToOne", "oneToFew", "oneToMany"] as const;
-
 const deriveInitialTier = (accounts: number): TierKey => {
   if (!Number.isFinite(accounts)) {
     return "oneToFew";
@@ -157,7 +251,7 @@ const deriveInitialTier = (accounts: number): TierKey => {
   let bestDelta = Number.POSITIVE_INFINITY;
 
   for (const key of TIER_KEYS) {
-    const diff = Math.abs(TIER_CONFIG[key].defaultAccounts - accounts);
+    const diff = Math.abs(DEFAULT_BENCHMARK_PACK.tiers[key].defaultAccounts - accounts);
     if (diff < bestDelta) {
       bestDelta = diff;
       selected = key;
@@ -169,89 +263,7 @@ const deriveInitialTier = (accounts: number): TierKey => {
 
 const DEFAULT_TIER = deriveInitialTier(DEFAULT_SCENARIO.market.targetAccounts);
 
-const PRESET_CONFIG: Record<
-  PresetKey,
-  {
-    label: string;
-    helper: string;
-    upliftMultipliers: {
-      winRate: number;
-      acv: number;
-      opportunity: number;
-    };
-    inMarketMultiplier?: number;
-  }
-> = {
-  conservative: {
-    label: "Conservative",
-    helper: "Building your first ABM programme? Start here.",
-    upliftMultipliers: {
-      winRate: 0.5,
-      acv: 0.4,
-      opportunity: 0.5,
-    },
-    inMarketMultiplier: 0.67,
-  },
-  expected: {
-    label: "Expected",
-    helper: "Got some ABM experience and ready to get started.",
-    upliftMultipliers: {
-      winRate: 1,
-      acv: 1,
-      opportunity: 1,
-    },
-    inMarketMultiplier: 1,
-  },
-  stretch: {
-    label: "Stretch",
-    helper: "Been running established ABM programmes with reliable success? Push for upside.",
-    upliftMultipliers: {
-      winRate: 1.5,
-      acv: 1.6666666666666667,
-      opportunity: 1.75,
-    },
-    inMarketMultiplier: 1.33,
-  },
-};
-
-const DEFAULT_POINT_IN_TIME_SHARE = 0.05;
 const BUYING_WINDOW_OPTIONS = [2, 3, 4, 6] as const;
-const DEFAULT_BUYING_WINDOW_MONTHS: Record<TierKey, number> = {
-  oneToOne: 3,
-  oneToFew: 3,
-  oneToMany: 2,
-};
-
-const IN_MARKET_SLIDER_BOUNDS = {
-  min: 5,
-  max: 35,
-  baseMin: 15,
-  baseMax: 20,
-  stretchMin: 22,
-  stretchMax: 28,
-};
-
-const TIER_CYCLE_REDUCTION: Record<
-  TierKey,
-  { typical: number; stretch: number }
-> = {
-  oneToOne: { typical: 0.2, stretch: 0.35 },
-  oneToFew: { typical: 0.15, stretch: 0.25 },
-  oneToMany: { typical: 0.1, stretch: 0.2 },
-};
-
-const TEAM_HOURS_PER_ACCOUNT: Record<TierKey, number> = {
-  oneToOne: 32,
-  oneToFew: 12,
-  oneToMany: 3,
-};
-
-const BUDGET_PER_ACCOUNT_ESTIMATE: Record<TierKey, number> = {
-  oneToOne: 60000,
-  oneToFew: 23500,
-  oneToMany: 6000,
-};
-
 const setupValidationMap: Record<SetupStep, Array<FieldPath<ScenarioInputSchema>>> = {
   programme: ["programme.durationMonths"],
   market: [
@@ -298,13 +310,37 @@ export function ScenarioPlanner() {
   const [coachStep, setCoachStep] = useState(0);
   const [showDetails, setShowDetails] = useState(false);
   const [showBaselineComparison, setShowBaselineComparison] = useState(false);
+  const [economicsView, setEconomicsView] = useState<EconomicsView>("period");
   const [inMarketAuto, setInMarketAuto] = useState(true);
   const [buyingWindowMonths, setBuyingWindowMonths] = useState(
-    () => DEFAULT_BUYING_WINDOW_MONTHS[DEFAULT_TIER],
+    () => DEFAULT_BENCHMARK_PACK.tiers[DEFAULT_TIER].buyingWindowMonths,
   );
   const [customBuyingWindow, setCustomBuyingWindow] = useState(false);
   const [flatBudget, setFlatBudget] = useState(0);
-
+  const [linkReady, setLinkReady] = useState(false);
+  const [linkNotice, setLinkNotice] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [snapshots, setSnapshots] = useState<ScenarioSnapshot[]>([]);
+  const [snapshotName, setSnapshotName] = useState("");
+  const [compareReferenceId, setCompareReferenceId] = useState(CURRENT_SCENARIO_ID);
+  const [tornadoSwing, setTornadoSwing] = useState(DEFAULT_TORNADO_SWING_PERCENT);
+  const [goalKind, setGoalKind] = useState<GoalKind>("breakEven");
+  const [allocationObjective, setAllocationObjective] = useState<AllocationObjective>(DEFAULT_ALLOCATION_OBJECTIVE);
+  const [goalValue, setGoalValue] = useState(GOAL_KINDS.breakEven.defaultValue);
+  const [customBenchmarkPacks, setCustomBenchmarkPacks] = useState<BenchmarkPack[]>([]);
+  const [benchmarkNotice, setBenchmarkNotice] = useState<string | null>(null);
+  const [accountImport, setAccountImport] = useState<CsvImportReport | null>(null);
+  const [crmImport, setCrmImport] = useState<CrmImportState | null>(null);
+  const [crmAcvBasis, setCrmAcvBasis] = useState<AcvBasis>("median");
+  const [costLineImport, setCostLineImport] = useState<CsvImportReport | null>(null);
+  const [sensitivitySegment, setSensitivitySegment] = useState<number | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryScenarios, setLibraryScenarios] = useState<SavedScenario[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [libraryNotice, setLibraryNotice] = useState<LibraryNotice | null>(null);
+  const [importedMetadata, setImportedMetadata] = useState<ScenarioMetadata | null>(null);
+
+  const skipPresetSyncRef = useRef<PresetKey | null>(null);
   const modeNavRef = useRef<HTMLDivElement | null>(null);
   const setupStepsRef = useRef<HTMLDivElement | null>(null);
   const presetRef = useRef<HTMLDivElement | null>(null);
@@ -322,6 +358,48 @@ export function ScenarioPlanner() {
     }
   }, []);
 
+  const applyScenarioState = useCallback(
+    ({ inputs, planner }: ScenarioLinkState) => {
+      // Saved uplifts already include the preset multipliers, so skip the next preset sync.
+      skipPresetSyncRef.current =
+        planner.preset !== "expected" || !planner.inMarketAuto ? planner.preset : null;
+      form.reset(inputs);
+      setTier(planner.tier);
+      setPreset(planner.preset);
+      setCyclePreset(planner.cyclePreset);
+      setCycleOverrideEnabled(planner.cycleOverride);
+      setInMarketAuto(planner.inMarketAuto);
+      setBuyingWindowMonths(planner.buyingWindowMonths);
+      setCustomBuyingWindow(
+        planner.buyingWindowMonths !== resolveBenchmarkPack(inputs.benchmarks).tiers[planner.tier].buyingWindowMonths,
+      );
+      setFlatBudget(planner.flatBudget);
+    },
+    [form],
+  );
+
+  useEffect(() => {
+    const library = createScenarioLibrary(window.localStorage);
+    const draft = library.readDraft();
+    const encoded = new URLSearchParams(window.location.search).get(SCENARIO_LINK_PARAM);
+    // A refresh carries the draft's own link in the URL; the draft wins then because it keeps what links can't.
+    if (draft && (!encoded || encodeScenarioLink(draft.state) === encoded)) {
+      applyScenarioState(draft.state);
+      setActiveScenarioId(draft.scenarioId);
+    } else if (encoded) {
+      const decoded = decodeScenarioLink(encoded);
+      if (decoded.success) {
+        applyScenarioState(decoded.data);
+        setMode("present");
+      } else {
+        setLinkNotice(`${decoded.error} Showing the default scenario instead.`);
+      }
+    }
+
+    setLibraryScenarios(library.list());
+    setLinkReady(true);
+  }, [applyScenarioState]);
+
   const markCoachSeen = () => {
     if (typeof window !== "undefined") {
       window.localStorage.setItem("sabm-roi-coach", "1");
@@ -357,6 +435,21 @@ export function ScenarioPlanner() {
       return Number.isFinite(parsed) ? parsed : fallback;
     };
 
+    const toPortfolioTier = (
+      value: Partial<PortfolioTierInputs> | undefined,
+      fallback: PortfolioTierInputs,
+    ): PortfolioTierInputs => ({
+      targetAccounts: toNumber(value?.targetAccounts),
+      hoursPerAccount: toNumber(value?.hoursPerAccount, fallback.hoursPerAccount),
+      budgetPerAccount: toNumber(value?.budgetPerAccount),
+      uplifts: {
+        winRateUplift: toNumber(value?.uplifts?.winRateUplift),
+        acvUplift: toNumber(value?.uplifts?.acvUplift),
+        opportunityRateUplift: toNumber(value?.uplifts?.opportunityRateUplift),
+      },
+      cycleReduction: toNumber(value?.cycleReduction),
+    });
+
     return {
       programme: {
         durationMonths: toNumber(watchedInputs.programme?.durationMonths),
@@ -397,6 +490,17 @@ export function ScenarioPlanner() {
         agency: toNumber(watchedInputs.costs?.agency),
         other: toNumber(watchedInputs.costs?.other),
         totalOverride: toNumber(watchedInputs.costs?.totalOverride),
+        lines: watchedInputs.costs?.lines?.length
+          ? watchedInputs.costs.lines.map((line) => ({
+              label: line?.label ?? "",
+              category: COST_CATEGORIES.includes(line?.category as CostCategory)
+                ? (line?.category as CostCategory)
+                : "other",
+              amount: toNumber(line?.amount),
+              startMonth: toNumber(line?.startMonth, 1),
+              endMonth: toNumber(line?.endMonth, 1),
+            }))
+          : undefined,
       },
       capacity: {
         source: watchedInputs.capacity?.source === "team" ? "team" : "budget",
@@ -438,25 +542,73 @@ export function ScenarioPlanner() {
         resolution:
           watchedInputs.sensitivity?.resolution ??
           DEFAULT_SCENARIO.sensitivity.resolution,
+        rowAxis: watchedInputs.sensitivity?.rowAxis ?? DEFAULT_ROW_AXIS,
+        columnAxis: watchedInputs.sensitivity?.columnAxis ?? DEFAULT_COLUMN_AXIS,
+        metric: watchedInputs.sensitivity?.metric ?? DEFAULT_SENSITIVITY_METRIC,
+      },
+      lifetime: {
+        enabled: watchedInputs.lifetime?.enabled === true,
+        years: toNumber(watchedInputs.lifetime?.years, DEFAULT_LIFETIME.years),
+        grossRetention: toNumber(
+          watchedInputs.lifetime?.grossRetention,
+          DEFAULT_LIFETIME.grossRetention,
+        ),
+        netExpansion: toNumber(watchedInputs.lifetime?.netExpansion),
+        discountRate: toNumber(watchedInputs.lifetime?.discountRate),
+      },
+      portfolio: {
+        enabled: watchedInputs.portfolio?.enabled === true,
+        tiers: {
+          oneToOne: toPortfolioTier(watchedInputs.portfolio?.tiers?.oneToOne, DEFAULT_PORTFOLIO.tiers.oneToOne),
+          oneToFew: toPortfolioTier(watchedInputs.portfolio?.tiers?.oneToFew, DEFAULT_PORTFOLIO.tiers.oneToFew),
+          oneToMany: toPortfolioTier(watchedInputs.portfolio?.tiers?.oneToMany, DEFAULT_PORTFOLIO.tiers.oneToMany),
+        },
+      },
+      segments: {
+        enabled: watchedInputs.segments?.enabled === true,
+        segments: (watchedInputs.segments?.segments ?? []).map(
+          (segment): MarketSegment => ({
+            name: segment?.name ?? "",
+            targetAccounts: toNumber(segment?.targetAccounts),
+            inMarketRate: toNumber(segment?.inMarketRate),
+            baselineWinRate: toNumber(segment?.baselineWinRate),
+            baselineAcv: toNumber(segment?.baselineAcv),
+            contributionMargin: toNumber(segment?.contributionMargin),
+            salesCycleMonthsBaseline: toNumber(segment?.salesCycleMonthsBaseline),
+          }),
+        ),
+      },
+      fx: {
+        base: watchedInputs.fx?.base ?? DEFAULT_FX_TABLE.base,
+        asOf: watchedInputs.fx?.asOf || DEFAULT_FX_TABLE.asOf,
+        rates: Object.fromEntries(
+          CURRENCY_CODES.map((code) => [code, toNumber(watchedInputs.fx?.rates?.[code], DEFAULT_FX_TABLE.rates[code])]),
+        ) as FxTable["rates"],
       },
+      benchmarks:
+        watchedInputs.benchmarks?.id && watchedInputs.benchmarks.version
+          ? { id: watchedInputs.benchmarks.id, version: watchedInputs.benchmarks.version }
+          : toBenchmarkRef(DEFAULT_BENCHMARK_PACK),
+      accountList: watchedInputs.accountList?.accounts?.length ? (watchedInputs.accountList as AccountList) : undefined,
+      crmSnapshot: watchedInputs.crmSnapshot?.note ? (watchedInputs.crmSnapshot as CrmSnapshotRef) : undefined,
+      accountModel: watchedInputs.accountModel === "perAccount" ? ("perAccount" as AccountModel) : undefined,
     } satisfies ScenarioInputSchema;
   }, [watchedInputs]);
 
-  const influenceWindowMonths = Math.max(
-    0,
-    sanitizedInputs.programme.durationMonths - sanitizedInputs.programme.rampMonths,
+  const benchmarkPacks = useMemo(() => [...BENCHMARK_PACKS, ...customBenchmarkPacks], [customBenchmarkPacks]);
+  const benchmarkPackMissing = findBenchmarkPack(sanitizedInputs.benchmarks, benchmarkPacks) === null;
+  const benchmarkPack = useMemo(
+    () => resolveBenchmarkPack(sanitizedInputs.benchmarks, benchmarkPacks),
+    [sanitizedInputs.benchmarks, benchmarkPacks],
   );
+  const benchmarkPackRef = useRef(benchmarkPack);
+  useEffect(() => {
+    benchmarkPackRef.current = benchmarkPack;
+  }, [benchmarkPack]);
 
   const categoryTotal = useMemo(() => {
     const costs = sanitizedInputs.costs;
-    return (
-      costs.people +
-      costs.media +
-      costs.dataTech +
-      costs.content +
-      costs.agency +
-      costs.other
-    );
+    return sumMoney([costs.people, costs.media, costs.dataTech, costs.content, costs.agency, costs.other]);
   }, [sanitizedInputs.costs]);
 
   useEffect(() => {
@@ -465,63 +617,47 @@ export function ScenarioPlanner() {
     }
   }, [categoryTotal, flatBudget]);
 
-  const availableBudgetTotal = categoryTotal > 0 ? categoryTotal : flatBudget;
-  const programmeCostOverride = flatBudget > 0
-    ? flatBudget
-    : sanitizedInputs.costs.totalOverride && sanitizedInputs.costs.totalOverride > 0
-      ? sanitizedInputs.costs.totalOverride
-      : undefined;
-
-  const budgetCapacityEstimate = useMemo(() => {
-    if (sanitizedInputs.capacity.source !== "budget") {
-      return undefined;
-    }
-
-    const perAccount = BUDGET_PER_ACCOUNT_ESTIMATE[tier];
-    if (!Number.isFinite(perAccount) || perAccount <= 0) {
-      return undefined;
-    }
-
-    const raw = Math.floor(availableBudgetTotal / perAccount);
-    return Math.max(0, Math.min(5000, raw));
-  }, [sanitizedInputs.capacity.source, availableBudgetTotal, tier]);
-
-  const capacityWithBudget = useMemo(() => {
-    if (sanitizedInputs.capacity.source === "budget") {
-      return {
-        ...sanitizedInputs.capacity,
-        budgetCapacityAccounts: budgetCapacityEstimate,
-      } satisfies ScenarioInputSchema["capacity"];
-    }
-
-    return sanitizedInputs.capacity;
-  }, [sanitizedInputs.capacity, budgetCapacityEstimate]);
+  const tierBudgetBenchmarks = useMemo(
+    () =>
+      Object.fromEntries(
+        TIER_KEYS.map((key) => [
+          key,
+          estimateBudgetPerAccount(key, sanitizedInputs.programme.currency, sanitizedInputs.fx, benchmarkPack),
+        ]),
+      ) as Record<TierKey, number>,
+    [sanitizedInputs.programme.currency, sanitizedInputs.fx, benchmarkPack],
+  );
 
-  const derivedInMarketShare = useMemo(() => {
-    return deriveInMarketPct({
-      durationMonths: sanitizedInputs.programme.durationMonths,
-      rampMonths: sanitizedInputs.programme.rampMonths,
+  const plannerSettings = useMemo<PlannerSettings>(
+    () => ({
+      tier,
+      preset,
+      cyclePreset,
       buyingWindowMonths,
-      pointInTimeShare: DEFAULT_POINT_IN_TIME_SHARE,
-    });
-  }, [
-    sanitizedInputs.programme.durationMonths,
-    sanitizedInputs.programme.rampMonths,
-    buyingWindowMonths,
-  ]);
+      inMarketAuto,
+      cycleOverride: cycleOverrideEnabled,
+      flatBudget,
+    }),
+    [tier, preset, cyclePreset, buyingWindowMonths, inMarketAuto, cycleOverrideEnabled, flatBudget],
+  );
 
-  const derivedInMarketPercent = Math.round(Math.min(1, derivedInMarketShare) * 100);
-  const cappedDerivedInMarketPercent = Math.min(70, derivedInMarketPercent);
-  const baseInMarketRate = inMarketAuto
-    ? cappedDerivedInMarketPercent
-    : sanitizedInputs.market.inMarketRate;
+  const plan = useMemo(
+    () => planScenario(sanitizedInputs, plannerSettings, benchmarkPack),
+    [sanitizedInputs, plannerSettings, benchmarkPack],
+  );
 
-  const marketForCoverage = {
-    ...sanitizedInputs.market,
-    inMarketRate: baseInMarketRate,
-  };
+  const tierLabels = useMemo(
+    () => Object.fromEntries(TIER_KEYS.map((key) => [key, benchmarkPack.tiers[key].label])) as Record<TierKey, string>,
+    [benchmarkPack],
+  );
 
-  const coverageSummary = deriveCoverage(marketForCoverage, capacityWithBudget);
+  const availableBudgetTotal = plan.budget.availableBudget;
+  const programmeCostOverride = plan.budget.costOverride;
+  const influenceWindowMonths = plan.inMarket.influenceWindowMonths;
+  const cappedDerivedInMarketPercent = plan.inMarket.derivedRate;
+  const baseInMarketRate = plan.inMarket.appliedRate;
+
+  const coverageSummary = plan.coverage;
   const coveragePercent = Math.max(0, Math.round(coverageSummary.coverageRate * 100));
   const alignmentMultipliers = ALIGNMENT_MULTIPLIERS[sanitizedInputs.alignment.level];
   const { opportunity: alignmentOpportunity, win: alignmentWin, velocity: alignmentVelocity } =
@@ -532,94 +668,64 @@ export function ScenarioPlanner() {
       : sanitizedInputs.alignment.level === "excellent"
         ? "Excellent"
         : "Standard";
-  const coverageIntensity = deriveIntensity(coverageSummary.saturationRate);
-  const perAccountBenchmark =
-    sanitizedInputs.capacity.source === "budget" ? BUDGET_PER_ACCOUNT_ESTIMATE[tier] : null;
-  const requiredBudgetValue =
-    sanitizedInputs.capacity.source === "budget" && perAccountBenchmark !== null
-      ? coverageSummary.requestedAccounts * perAccountBenchmark
-      : null;
-  const actualBudgetUsedValue =
-    sanitizedInputs.capacity.source === "budget" && perAccountBenchmark !== null
-      ? Math.min(availableBudgetTotal, coverageSummary.treatedAccounts * perAccountBenchmark)
-      : availableBudgetTotal;
-  const budgetLeftoverValue =
-    sanitizedInputs.capacity.source === "budget"
-      ? Math.max(0, availableBudgetTotal - actualBudgetUsedValue)
-      : 0;
-  const budgetShortfallValue =
-    sanitizedInputs.capacity.source === "budget" && requiredBudgetValue !== null
-      ? Math.max(0, requiredBudgetValue - availableBudgetTotal)
-      : 0;
+  const requiredBudgetValue = plan.budget.requiredBudget;
+  const actualBudgetUsedValue = plan.budget.usedBudget;
+  const budgetLeftoverValue = plan.budget.leftoverBudget;
+  const budgetShortfallValue = plan.budget.shortfallBudget;
   const budgetIsHigh =
     sanitizedInputs.capacity.source === "budget" &&
     requiredBudgetValue !== null &&
     availableBudgetTotal > requiredBudgetValue;
   const alignmentEffectsText = `Opp ×${alignmentOpportunity.toFixed(2)}, Win ×${alignmentWin.toFixed(2)}, Velocity ×${alignmentVelocity.toFixed(2)}`;
 
-  const effectiveCosts = useMemo(() => {
-    if (sanitizedInputs.capacity.source !== "budget") {
-      return sanitizedInputs.costs;
+  useEffect(() => {
+    if (!inMarketAuto || plan.inMarket.fromAccounts) {
+      return;
     }
 
-    if (availableBudgetTotal <= 0 || actualBudgetUsedValue <= 0) {
-      return sanitizedInputs.costs;
-    }
+    const target = cappedDerivedInMarketPercent;
+    const current = Number(form.getValues("market.inMarketRate"));
 
-    if (Math.abs(actualBudgetUsedValue - availableBudgetTotal) < 1) {
-      return sanitizedInputs.costs;
+    if (!Number.isFinite(current) || Math.abs(current - target) > 0.5) {
+      form.setValue("market.inMarketRate", target, {
+        shouldValidate: true,
+        shouldDirty: false,
+      });
     }
+  }, [inMarketAuto, cappedDerivedInMarketPercent, plan.inMarket.fromAccounts, form]);
 
-    const ratio = actualBudgetUsedValue / availableBudgetTotal;
-    const keys = ["people", "media", "dataTech", "content", "agency", "other"] as const;
-    const scaled: ScenarioInputSchema["costs"] = { ...sanitizedInputs.costs };
-    let running = 0;
+  // Keep the typed market fields showing what an imported account list derives, so links and exports agree.
+  useEffect(() => {
+    if (!plan.accounts) {
+      return;
+    }
 
-    keys.forEach((key, index) => {
-      const base = sanitizedInputs.costs[key];
-      let value = Math.max(0, Math.round(base * ratio));
+    const updates: Array<[FieldPath<ScenarioInputSchema>, number]> = [
+      ["market.targetAccounts", plan.inputs.market.targetAccounts],
+      ["market.baselineAcv", plan.inputs.market.baselineAcv],
+      ["market.inMarketRate", plan.inputs.market.inMarketRate],
+    ];
 
-      if (index === keys.length - 1) {
-        value = Math.max(0, Math.round(actualBudgetUsedValue - running));
-      } else {
-        running += value;
+    updates.forEach(([name, value]) => {
+      if (Number(form.getValues(name)) !== value) {
+        form.setValue(name, value, { shouldValidate: true, shouldDirty: false });
       }
-
-      scaled[key] = value;
     });
+  }, [plan, form]);
 
-    const totalScaled = keys.reduce((sum, key) => sum + scaled[key], 0);
-
-    if (totalScaled <= 0) {
-      scaled.people = Math.max(0, Math.round(actualBudgetUsedValue));
-    } else if (totalScaled !== Math.round(actualBudgetUsedValue)) {
-      const diff = Math.round(actualBudgetUsedValue) - totalScaled;
-      scaled.people = Math.max(0, scaled.people + diff);
-    }
-
-    return scaled;
-  }, [
-    sanitizedInputs.costs,
-    sanitizedInputs.capacity.source,
-    availableBudgetTotal,
-    actualBudgetUsedValue,
-  ]);
-
+  // Budget line items own the category fields while there are any; show their roll-up there.
   useEffect(() => {
-    if (!inMarketAuto) {
+    const totals = plan.budget.lineItemTotals;
+    if (!totals) {
       return;
     }
 
-    const target = cappedDerivedInMarketPercent;
-    const current = Number(form.getValues("market.inMarketRate"));
-
-    if (!Number.isFinite(current) || Math.abs(current - target) > 0.5) {
-      form.setValue("market.inMarketRate", target, {
-        shouldValidate: true,
-        shouldDirty: false,
-      });
-    }
-  }, [inMarketAuto, cappedDerivedInMarketPercent, form]);
+    COST_CATEGORIES.forEach((category) => {
+      if (Number(form.getValues(`costs.${category}`)) !== totals[category]) {
+        form.setValue(`costs.${category}`, totals[category], { shouldValidate: true, shouldDirty: false });
+      }
+    });
+  }, [plan.budget.lineItemTotals, form]);
 
   const handleBuyingWindowChange = (months: number) => {
     if (!Number.isFinite(months)) {
@@ -633,7 +739,103 @@ export function ScenarioPlanner() {
 
   const handleResetBuyingWindow = () => {
     setCustomBuyingWindow(false);
-    setBuyingWindowMonths(DEFAULT_BUYING_WINDOW_MONTHS[tier]);
+    setBuyingWindowMonths(benchmarkPack.tiers[tier].buyingWindowMonths);
+  };
+
+  const handleAccountListUpload = async (file: File) => {
+    const result = parseAccountCsv(await file.text(), file.name);
+    if (!result.success) {
+      setAccountImport({ error: result.error, issues: result.issues, warnings: [] });
+      return;
+    }
+
+    form.setValue("accountList", result.data, { shouldDirty: true });
+    setAccountImport({ error: null, issues: [], warnings: result.warnings });
+  };
+
+  const handleClearAccountList = () => {
+    form.setValue("accountList", undefined, { shouldDirty: true });
+    setAccountImport(null);
+  };
+
+  const handleCrmSnapshotUpload = async (file: File) => {
+    const result = parseCrmSnapshot(await file.text(), file.name);
+    setCrmImport(
+      result.success
+        ? { fileName: file.name, summary: result.data, error: null, issues: [], warnings: result.warnings }
+        : { fileName: file.name, summary: null, error: result.error, issues: result.issues, warnings: [] },
+    );
+  };
+
+  const handleApplyCrmSnapshot = () => {
+    if (!crmImport?.summary) {
+      return;
+    }
+
+    const values = crmSnapshotToMarket(crmImport.summary, crmAcvBasis);
+    (Object.keys(values) as Array<keyof typeof values>).forEach((key) => {
+      form.setValue(`market.${key}`, values[key] as number, { shouldValidate: true, shouldDirty: true });
+    });
+    form.setValue(
+      "crmSnapshot",
+      {
+        fileName: crmImport.fileName,
+        importedAt: new Date().toISOString().slice(0, 10),
+        note: describeCrmSnapshot(crmImport.summary),
+      },
+      { shouldDirty: true },
+    );
+    setCrmImport(null);
+  };
+
+  const handleClearCrmSnapshot = () => {
+    form.setValue("crmSnapshot", undefined, { shouldDirty: true });
+  };
+
+  const handleCostLinesChange = (lines: CostLineItem[]) => {
+    form.setValue("costs.lines", lines.length > 0 ? lines : undefined, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const handleCostLinesUpload = async (file: File) => {
+    const result = parseCostLinesCsv(await file.text(), file.name, sanitizedInputs.programme.durationMonths);
+    if (!result.success) {
+      setCostLineImport({ error: result.error, issues: result.issues, warnings: [] });
+      return;
+    }
+
+    handleCostLinesChange(result.data);
+    setCostLineImport({ error: null, issues: [], warnings: result.warnings });
+  };
+
+  const handleBenchmarkPackChange = (pack: BenchmarkPack) => {
+    form.setValue("benchmarks", toBenchmarkRef(pack), { shouldDirty: true });
+    if (!customBuyingWindow) {
+      setBuyingWindowMonths(pack.tiers[tier].buyingWindowMonths);
+    }
+  };
+
+  const handleBenchmarkPackUpload = async (file: File) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      setBenchmarkNotice(`${file.name} is not valid JSON.`);
+      return;
+    }
+
+    const parsed = parseBenchmarkPack(raw);
+    if (!parsed.success) {
+      setBenchmarkNotice(parsed.error);
+      return;
+    }
+
+    const pack = parsed.data;
+    setCustomBenchmarkPacks((current) => [
+      ...current.filter((entry) => entry.id !== pack.id || entry.version !== pack.version),
+      pack,
+    ]);
+    setBenchmarkNotice(`Loaded ${pack.name} v${pack.version}.`);
+    handleBenchmarkPackChange(pack);
   };
 
   const handleManualInMarketChange = (value: number) => {
@@ -660,103 +862,65 @@ export function ScenarioPlanner() {
   };
 
   useEffect(() => {
-    const presetDefaults = PRESET_CONFIG[preset];
-    const { upliftMultipliers, inMarketMultiplier } = presetDefaults;
-
-    const uplifts = form.getValues("uplifts");
+    if (skipPresetSyncRef.current === preset) {
+      skipPresetSyncRef.current = null;
+      return;
+    }
 
-    const clamp = (value: number, min: number, max: number) =>
-      Math.min(max, Math.max(min, value));
-
-    const applyMultiplier = (
-      currentValue: unknown,
-      multiplier: number,
-      fallback: number,
-      min: number,
-      max: number,
-    ): number => {
-      const numeric = Number(currentValue);
-      const base = Number.isFinite(numeric) ? numeric : fallback;
-      const next = clamp(base * multiplier, min, max);
-      return Number.isFinite(next) ? Number(next.toFixed(1)) : fallback;
+    const toNumber = (value: unknown, fallback: number) => {
+      const numeric = Number(value);
+      return Number.isFinite(numeric) ? numeric : fallback;
     };
 
-    const winRateCurrent = Number(uplifts?.winRateUplift);
-    const winRateNext = applyMultiplier(
-      uplifts?.winRateUplift,
-      upliftMultipliers.winRate,
-      DEFAULT_SCENARIO.uplifts.winRateUplift,
-      0,
-      20,
+    const uplifts = form.getValues("uplifts");
+    const next = applyPresetMultipliers(
+      {
+        winRateUplift: toNumber(uplifts?.winRateUplift, DEFAULT_SCENARIO.uplifts.winRateUplift),
+        acvUplift: toNumber(uplifts?.acvUplift, DEFAULT_SCENARIO.uplifts.acvUplift),
+        opportunityRateUplift: toNumber(
+          uplifts?.opportunityRateUplift,
+          DEFAULT_SCENARIO.uplifts.opportunityRateUplift,
+        ),
+      },
+      inMarketAuto
+        ? null
+        : toNumber(form.getValues("market.inMarketRate"), DEFAULT_SCENARIO.market.inMarketRate),
+      preset,
+      benchmarkPackRef.current,
     );
-    if (!Number.isFinite(winRateCurrent) || Math.abs(winRateCurrent - winRateNext) > 0.001) {
-      form.setValue("uplifts.winRateUplift", winRateNext, {
-        shouldValidate: true,
-        shouldDirty: true,
-      });
-    }
 
-    const acvCurrent = Number(uplifts?.acvUplift);
-    const acvNext = applyMultiplier(
-      uplifts?.acvUplift,
-      upliftMultipliers.acv,
-      DEFAULT_SCENARIO.uplifts.acvUplift,
-      -30,
-      100,
-    );
-    if (!Number.isFinite(acvCurrent) || Math.abs(acvCurrent - acvNext) > 0.001) {
-      form.setValue("uplifts.acvUplift", acvNext, {
-        shouldValidate: true,
-        shouldDirty: true,
-      });
-    }
-
-    const opportunityCurrent = Number(uplifts?.opportunityRateUplift);
-    const opportunityNext = applyMultiplier(
-      uplifts?.opportunityRateUplift,
-      upliftMultipliers.opportunity,
-      DEFAULT_SCENARIO.uplifts.opportunityRateUplift,
-      0,
-      100,
-    );
-    if (!Number.isFinite(opportunityCurrent) || Math.abs(opportunityCurrent - opportunityNext) > 0.001) {
-      form.setValue("uplifts.opportunityRateUplift", opportunityNext, {
-        shouldValidate: true,
-        shouldDirty: true,
-      });
-    }
+    const updates: Array<[FieldPath<ScenarioInputSchema>, number | null]> = [
+      ["uplifts.winRateUplift", next.uplifts.winRateUplift],
+      ["uplifts.acvUplift", next.uplifts.acvUplift],
+      ["uplifts.opportunityRateUplift", next.uplifts.opportunityRateUplift],
+      ["market.inMarketRate", next.inMarketRate],
+    ];
 
-    if (!inMarketAuto && inMarketMultiplier !== undefined) {
-      const currentMarketRate = Number(form.getValues("market.inMarketRate"));
-      const nextMarketRate = applyMultiplier(
-        currentMarketRate,
-        inMarketMultiplier,
-        DEFAULT_SCENARIO.market.inMarketRate,
-        0,
-        70,
-      );
+    updates.forEach(([name, value]) => {
+      if (value === null) {
+        return;
+      }
 
-      if (
-        !Number.isFinite(currentMarketRate) ||
-        Math.abs(currentMarketRate - nextMarketRate) > 0.001
-      ) {
-        form.setValue("market.inMarketRate", nextMarketRate, {
+      const current = Number(form.getValues(name));
+      if (!Number.isFinite(current) || Math.abs(current - value) > 0.001) {
+        form.setValue(name, value, {
           shouldValidate: true,
           shouldDirty: true,
         });
       }
-    }
+    });
   }, [preset, form, inMarketAuto]);
 
+  const hoursPerAccountDirty = Boolean(
+    (dirtyFields.capacity as FieldNamesMarkedBoolean<ScenarioInputSchema["capacity"]> | undefined)?.hoursPerAccount,
+  );
+
   useEffect(() => {
-    const capacityDirty = dirtyFields.capacity as
-      | FieldNamesMarkedBoolean<ScenarioInputSchema["capacity"]>
-      | undefined;
-    if (capacityDirty?.hoursPerAccount) {
+    if (hoursPerAccountDirty) {
       return;
     }
 
-    const defaultHours = TEAM_HOURS_PER_ACCOUNT[tier];
+    const defaultHours = benchmarkPack.tiers[tier].hoursPerAccount;
     const current = Number(form.getValues("capacity.hoursPerAccount"));
 
     if (!Number.isFinite(current) || current <= 0) {
@@ -765,7 +929,7 @@ export function ScenarioPlanner() {
         shouldDirty: false,
       });
     }
-  }, [tier, form, dirtyFields.capacity?.hoursPerAccount]);
+  }, [tier, benchmarkPack, form, hoursPerAccountDirty]);
 
   useEffect(() => {
     const teamWarnings: Array<{
@@ -794,7 +958,7 @@ export function ScenarioPlanner() {
         condition:
           sanitizedInputs.capacity.source === "team" &&
           Number.isFinite(sanitizedInputs.capacity.hoursPerAccount) &&
-          sanitizedInputs.capacity.hoursPerAccount < TEAM_HOURS_PER_ACCOUNT[tier],
+          sanitizedInputs.capacity.hoursPerAccount < benchmarkPack.tiers[tier].hoursPerAccount,
         message: "Below typical effort—expect reduced quality.",
       },
     ];
@@ -810,30 +974,132 @@ export function ScenarioPlanner() {
         form.clearErrors(name);
       }
     });
-  }, [form, sanitizedInputs.capacity, tier]);
+  }, [form, sanitizedInputs.capacity, tier, benchmarkPack]);
 
-  const scenarioInputs = useMemo<ScenarioInputSchema>(() => {
-    return {
-      ...sanitizedInputs,
-      costs: {
-        ...effectiveCosts,
-        totalOverride: programmeCostOverride,
-      },
-      capacity: capacityWithBudget,
-      market: {
-        ...sanitizedInputs.market,
-        inMarketRate: baseInMarketRate,
+  const scenarioInputs: ScenarioInputSchema = plan.inputs;
+
+  const linkState = useMemo<ScenarioLinkState>(
+    () => ({
+      inputs: {
+        ...sanitizedInputs,
+        costs: { ...sanitizedInputs.costs, totalOverride: programmeCostOverride },
       },
-    };
-  }, [
-    sanitizedInputs,
-    effectiveCosts,
-    capacityWithBudget,
-    baseInMarketRate,
-    programmeCostOverride,
-  ]);
+      planner: plannerSettings,
+    }),
+    [sanitizedInputs, programmeCostOverride, plannerSettings],
+  );
+
+  const shareLink = useMemo(() => encodeScenarioLink(linkState), [linkState]);
+  // A long account list can push the link past what servers accept, so it stays out of the address bar.
+  const shareLinkTooLong = shareLink.length > MAX_SCENARIO_LINK_LENGTH;
+
+  useEffect(() => {
+    if (!linkReady) {
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    if (shareLinkTooLong) {
+      url.searchParams.delete(SCENARIO_LINK_PARAM);
+    } else {
+      url.searchParams.set(SCENARIO_LINK_PARAM, shareLink);
+    }
+    window.history.replaceState(window.history.state, "", url);
+  }, [linkReady, shareLink, shareLinkTooLong]);
+
+  useEffect(() => {
+    if (!linkCopied) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => setLinkCopied(false), 2000);
+    return () => window.clearTimeout(timeout);
+  }, [linkCopied]);
+
+  useEffect(() => {
+    if (!linkReady) {
+      return;
+    }
+
+    const timeout = window.setTimeout(
+      () => createScenarioLibrary(window.localStorage).writeDraft(linkState, activeScenarioId),
+      DRAFT_AUTOSAVE_DELAY_MS,
+    );
+    return () => window.clearTimeout(timeout);
+  }, [linkReady, linkState, activeScenarioId]);
+
+  const runLibraryAction = <T,>(action: (library: ScenarioLibrary) => ScenarioLibraryResult<T>): T | null => {
+    const library = createScenarioLibrary(window.localStorage);
+    const result = action(library);
+    setLibraryScenarios(library.list());
+    setLibraryNotice(result.success ? null : { tone: "error", text: result.error });
+    return result.success ? result.data : null;
+  };
+
+  const activeScenario = libraryScenarios.find((scenario) => scenario.id === activeScenarioId) ?? null;
+
+  const handleSaveToLibrary = (metadata: ScenarioMetadata, asNew: boolean) => {
+    const saved = runLibraryAction((library) => library.save(metadata, linkState, asNew ? null : activeScenarioId));
+    if (saved) {
+      setActiveScenarioId(saved.id);
+    }
+  };
+
+  const handleOpenFromLibrary = (scenario: SavedScenario) => {
+    applyScenarioState(scenario.state);
+    setActiveScenarioId(scenario.id);
+    setLibraryNotice(null);
+  };
+
+  const handleExportScenarioFile = (metadata: ScenarioMetadata) => {
+    downloadFile(
+      new TextEncoder().encode(serializeScenarioFile(linkState, metadata)),
+      "application/json",
+      scenarioFileName(metadata.name),
+    );
+  };
+
+  const handleImportScenarioFile = async (file: File) => {
+    const result = parseScenarioFile(await file.text(), file.name);
+    if (!result.success) {
+      setLibraryNotice({ tone: "error", text: [result.error, ...result.issues.slice(0, 3)].join(" ") });
+      return;
+    }
+
+    const { state, metadata, fromVersion, warnings } = result.data;
+    applyScenarioState(state);
+    setActiveScenarioId(null);
+    setImportedMetadata(metadata);
+    const upgraded = warnings.length > 0 ? `, upgraded from schema version ${fromVersion}` : "";
+    setLibraryNotice({ tone: "info", text: [`Imported ${file.name}${upgraded}.`, ...warnings].join(" ") });
+  };
+
+  const handleDeleteFromLibrary = (id: string) => {
+    if (runLibraryAction((library) => library.remove(id)) && id === activeScenarioId) {
+      setActiveScenarioId(null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (shareLinkTooLong) {
+      const accounts = sanitizedInputs.accountList?.accounts.length;
+      const reason = accounts ? ` with its ${accounts}-account list` : "";
+      setLinkNotice(`This scenario is too large to share as a link${reason}. Export a scenario file from the library instead.`);
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.set(SCENARIO_LINK_PARAM, shareLink);
+
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setLinkCopied(true);
+    } catch {
+      setLinkNotice("Couldn’t copy automatically—copy the link from the address bar instead.");
+    }
+  };
 
-  const scenarioResult = useMemo(() => {
+  const singleFunnelResult = useMemo(() => {
     const parsed = scenarioSchema.safeParse(scenarioInputs);
     if (!parsed.success) {
       return null;
@@ -842,6 +1108,24 @@ export function ScenarioPlanner() {
     return calculateScenario(parsed.data);
   }, [scenarioInputs]);
 
+  const segmentedResult = useMemo(() => {
+    const segments = singleFunnelResult?.inputs.segments;
+    if (!singleFunnelResult || !segments?.enabled || segments.segments.length === 0) {
+      return null;
+    }
+
+    return calculateSegments(singleFunnelResult.inputs, segments.segments);
+  }, [singleFunnelResult]);
+
+  // With segments on, their roll-up is the headline and export total.
+  const scenarioResult = useMemo(
+    () =>
+      singleFunnelResult && segmentedResult
+        ? applySegmentTotals(singleFunnelResult, segmentedResult)
+        : singleFunnelResult,
+    [singleFunnelResult, segmentedResult],
+  );
+
   const sensitivityGrid = useMemo(() => {
     if (!scenarioResult) {
       return null;
@@ -850,11 +1134,110 @@ export function ScenarioPlanner() {
     return buildSensitivityGrid(scenarioResult.inputs);
   }, [scenarioResult]);
 
+  // Exports keep the whole-plan grid; the on-screen grid can be narrowed to one segment's funnel.
+  const displayedSensitivityGrid = useMemo(() => {
+    const segment = sensitivitySegment === null ? undefined : segmentedResult?.segments[sensitivitySegment];
+    return segment ? buildSensitivityGrid(segment.result.inputs) : sensitivityGrid;
+  }, [segmentedResult, sensitivitySegment, sensitivityGrid]);
+
+  const tornado = useMemo(() => {
+    if (!scenarioResult || !showDetails) {
+      return null;
+    }
+
+    return buildTornado(scenarioResult.inputs, { swingPercent: tornadoSwing });
+  }, [scenarioResult, showDetails, tornadoSwing]);
+
+  const portfolioResult = useMemo(() => {
+    if (!scenarioResult?.inputs.portfolio?.enabled) {
+      return null;
+    }
+
+    return calculatePortfolio(scenarioResult.inputs, scenarioResult.inputs.portfolio);
+  }, [scenarioResult]);
+
+  const allocationPlan = useMemo(() => {
+    if (!scenarioResult?.inputs.portfolio?.enabled || mode !== "tune") {
+      return null;
+    }
+
+    return optimiseAllocation(scenarioResult.inputs, scenarioResult.inputs.portfolio, {
+      objective: allocationObjective,
+    });
+  }, [scenarioResult, mode, allocationObjective]);
+
+  const goalAnswers = useMemo(() => {
+    if (!scenarioResult || mode !== "tune") {
+      return null;
+    }
+
+    const target = GOAL_KINDS[goalKind].toTarget(goalValue);
+    return Object.fromEntries(
+      GOAL_SEEK_UPLIFTS.map((input) => [input, goalSeek(scenarioResult.inputs, input, target)]),
+    ) as Record<(typeof GOAL_SEEK_UPLIFTS)[number], GoalSeekResult>;
+  }, [scenarioResult, mode, goalKind, goalValue]);
+
+  const handleExportXlsx = () => {
+    if (!scenarioResult || !sensitivityGrid) {
+      return;
+    }
+
+    downloadFile(
+      exportScenarioXlsx(scenarioResult, sensitivityGrid),
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "abm-roi-scenario.xlsx",
+    );
+  };
+
+  const handleExportPdf = () => {
+    if (!scenarioResult || !sensitivityGrid) {
+      return;
+    }
+
+    downloadFile(
+      exportBusinessCasePdf(scenarioResult, sensitivityGrid, { generatedAt: new Date() }),
+      "application/pdf",
+      "abm-business-case.pdf",
+    );
+  };
+
+  const compareColumns = useMemo(
+    () =>
+      scenarioResult
+        ? [{ id: CURRENT_SCENARIO_ID, name: "Current scenario", result: scenarioResult }, ...snapshots]
+        : [],
+    [scenarioResult, snapshots],
+  );
+
+  const handleSaveSnapshot = () => {
+    if (!scenarioResult) {
+      return;
+    }
+
+    const name = snapshotName.trim() || `${benchmarkPack.presets[preset].label} scenario ${snapshots.length + 1}`;
+    setSnapshots((prev) => [
+      ...prev,
+      { id: `snapshot-${Date.now()}-${prev.length}`, name, state: linkState, result: scenarioResult },
+    ]);
+    setSnapshotName("");
+  };
+
+  const handleLoadSnapshot = (snapshot: ScenarioSnapshot) => {
+    applyScenarioState(snapshot.state);
+    setMode("present");
+  };
+
+  const handleRemoveSnapshot = (id: string) => {
+    setSnapshots((prev) => prev.filter((snapshot) => snapshot.id !== id));
+    setCompareReferenceId((prev) => (prev === id ? CURRENT_SCENARIO_ID : prev));
+  };
+
   const locale =
     sanitizedInputs.programme.numberFormatLocale ??
     DEFAULT_SCENARIO.programme.numberFormatLocale;
   const currency =
     sanitizedInputs.programme.currency ?? DEFAULT_SCENARIO.programme.currency;
+  const currencySymbol = formatCurrencySymbol(locale, currency);
 
   const formatCurrencyValue = (
     value: number | null | undefined,
@@ -890,6 +1273,8 @@ export function ScenarioPlanner() {
       ? abmWinsValue - baselineWinsValue
       : null;
   const paybackValue = scenarioResult?.outputs.incremental.paybackMonths ?? null;
+  const lifetimeOutputs = scenarioResult?.outputs.lifetime ?? null;
+  const showLifetimeEconomics = economicsView === "lifetime" && lifetimeOutputs !== null;
   const expectedInMarketAccounts = Math.max(0, Math.round(coverageSummary.requestedAccounts));
   const baselineGrossProfitValue = scenarioResult?.outputs.baseline.grossProfit ?? null;
   const deltaProfitAfterSpendValue =
@@ -1008,35 +1393,9 @@ export function ScenarioPlanner() {
 
   const dilutionRisk = intensityMultiplier > 0.75 && sanitizedInputs.market.targetAccounts > 120;
 
-  const cycleIntensity = coverageIntensity;
-
-  const derivedSalesCycle = useMemo(() => {
-    const baseline = sanitizedInputs.market.salesCycleMonthsBaseline;
-    if (!Number.isFinite(baseline) || baseline <= 0) {
-      return 0;
-    }
-
-    const reductionBase = TIER_CYCLE_REDUCTION[tier][cyclePreset];
-    const reduction = reductionBase * Math.min(1, Math.max(0, cycleIntensity * alignmentVelocity));
-    const derived = baseline * (1 - reduction);
-    const clamped = Math.max(1, Math.min(baseline, derived));
-    return Number.isFinite(clamped) ? Number(clamped.toFixed(1)) : baseline;
-  }, [
-    cycleIntensity,
-    cyclePreset,
-    sanitizedInputs.market.salesCycleMonthsBaseline,
-    tier,
-    alignmentVelocity,
-  ]);
-
-  const cycleReductionPercent = useMemo(() => {
-    const baseline = sanitizedInputs.market.salesCycleMonthsBaseline;
-    if (!Number.isFinite(baseline) || baseline <= 0) {
-      return 0;
-    }
-
-    return ((baseline - derivedSalesCycle) / baseline) * 100;
-  }, [derivedSalesCycle, sanitizedInputs.market.salesCycleMonthsBaseline]);
+  const cycleIntensity = plan.salesCycle.intensity;
+  const derivedSalesCycle = plan.salesCycle.derivedMonths;
+  const cycleReductionPercent = plan.salesCycle.reductionPercent;
 
   useEffect(() => {
     if (cycleOverrideEnabled) {
@@ -1088,6 +1447,44 @@ export function ScenarioPlanner() {
     });
   };
 
+  // Converts every money input at the scenario's FX table so the plan keeps its size in the new currency.
+  const handleCurrencyChange = (next: CurrencyCode) => {
+    const from = sanitizedInputs.programme.currency;
+    const conversion = convertScenarioCurrency(sanitizedInputs, next);
+    if (!conversion.success) {
+      form.setError("programme.currency", { type: "manual", message: conversion.error });
+      return;
+    }
+
+    const options = { shouldDirty: true, shouldValidate: true };
+    form.clearErrors("programme.currency");
+    form.setValue("programme.currency", next, options);
+    form.setValue("market.baselineAcv", conversion.data.market.baselineAcv, options);
+    form.setValue("costs", conversion.data.costs, options);
+    if (conversion.data.portfolio) {
+      form.setValue("portfolio.tiers", conversion.data.portfolio.tiers, options);
+    }
+    if (conversion.data.accountList) {
+      form.setValue("accountList", conversion.data.accountList, options);
+    }
+    if (conversion.data.segments) {
+      form.setValue("segments", conversion.data.segments, options);
+    }
+    // A snapshot still waiting to be applied is read in the new currency too.
+    setCrmImport((current) => {
+      if (!current?.summary) {
+        return current;
+      }
+      const convert = (amount: number | null) =>
+        amount === null ? null : convertAmount(amount, from, next, sanitizedInputs.fx);
+      const { medianAcv, meanAcv } = current.summary;
+      return { ...current, summary: { ...current.summary, medianAcv: convert(medianAcv), meanAcv: convert(meanAcv) } };
+    });
+    if (flatBudget > 0) {
+      setFlatBudget(convertAmount(flatBudget, from, next, sanitizedInputs.fx) ?? flatBudget);
+    }
+  };
+
   const goToNextStep = async () => {
     const fields = setupValidationMap[setupStep];
     const valid = await form.trigger(fields, {
@@ -1186,8 +1583,10 @@ export function ScenarioPlanner() {
     }
   }, [showCoach, availableCoachStepCount, coachStep]);
 
+  const guardrails = scenarioResult?.guardrails ?? [];
+
   return (
-    <TooltipProvider delayDuration={200}>
+    <PlannerProviders guardrails={guardrails}>
       <Form {...form}>
         <form className="min-h-dvh bg-background" noValidate>
           <div className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-10 lg:px-10">
@@ -1211,6 +1610,15 @@ export function ScenarioPlanner() {
                 </div>
               </div>
               <div className="flex flex-col items-start gap-3 sm:flex-row sm:items-center">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={showLibrary ? "default" : "outline"}
+                  aria-expanded={showLibrary}
+                  onClick={() => setShowLibrary((open) => !open)}
+                >
+                  Scenario library
+                </Button>
                 <Button
                   type="button"
                   size="sm"
@@ -1225,17 +1633,47 @@ export function ScenarioPlanner() {
                   size="lg"
                   className="self-start bg-cta text-white hover:bg-cta/90"
                   disabled={!setupComplete}
+                  onClick={handleExportXlsx}
                 >
-                  Export (coming soon)
+                  Export XLSX
                 </Button>
               </div>
             </header>
 
+            {linkNotice ? (
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                <p>{linkNotice}</p>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setLinkNotice(null)}>
+                  Dismiss
+                </Button>
+              </div>
+            ) : null}
+
+            {showLibrary ? (
+              <ScenarioLibraryPanel
+                key={
+                  activeScenario ? `${activeScenario.id}:${activeScenario.name}` : `unsaved:${importedMetadata?.name}`
+                }
+                scenarios={libraryScenarios}
+                active={activeScenario}
+                initialMetadata={activeScenario ?? importedMetadata}
+                notice={libraryNotice}
+                locale={locale}
+                onSave={handleSaveToLibrary}
+                onExportFile={handleExportScenarioFile}
+                onImportFile={handleImportScenarioFile}
+                onOpen={handleOpenFromLibrary}
+                onDuplicate={(id) => runLibraryAction((library) => library.duplicate(id))}
+                onRename={(id, name) => runLibraryAction((library) => library.rename(id, name)) !== null}
+                onDelete={handleDeleteFromLibrary}
+              />
+            ) : null}
+
             <nav
               ref={modeNavRef}
               className="flex flex-wrap items-center gap-3 rounded-lg border bg-muted/30 p-2 text-sm font-medium"
             >
-              {(["setup", "tune", "present"] as Mode[]).map((tab) => (
+              {(["setup", "tune", "present", "compare"] as Mode[]).map((tab) => (
                 <button
                   key={tab}
                   type="button"
@@ -1246,7 +1684,7 @@ export function ScenarioPlanner() {
                       : "text-muted-foreground hover:text-foreground"
                   }`}
                 >
-                  {tab === "setup" ? "Setup" : tab === "tune" ? "Tune" : "Present"}
+                  {MODE_LABELS[tab]}
                 </button>
               ))}
             </nav>
@@ -1304,10 +1742,12 @@ export function ScenarioPlanner() {
                       {setupStep === "programme" ? (
                         <ProgrammeStep
                           control={form.control}
+                          onCurrencyChange={handleCurrencyChange}
                           onSelectTier={setTier}
                           selectedTier={tier}
                           onSelectPreset={setPreset}
                           selectedPreset={preset}
+                          benchmarks={benchmarkPack}
                           highlightRef={presetRef}
                         />
                       ) : null}
@@ -1315,7 +1755,24 @@ export function ScenarioPlanner() {
                       {setupStep === "market" ? (
                         <MarketStep
                           control={form.control}
+                          currencySymbol={currencySymbol}
                           tier={tier}
+                          benchmarks={benchmarkPack}
+                          accountList={sanitizedInputs.accountList ?? null}
+                          accountSummary={plan.accounts}
+                          accountImport={accountImport}
+                          onAccountListUpload={handleAccountListUpload}
+                          onClearAccountList={handleClearAccountList}
+                          crmSnapshot={sanitizedInputs.crmSnapshot ?? null}
+                          crmImport={crmImport}
+                          crmAcvBasis={crmAcvBasis}
+                          onCrmAcvBasisChange={setCrmAcvBasis}
+                          onCrmSnapshotUpload={handleCrmSnapshotUpload}
+                          onApplyCrmSnapshot={handleApplyCrmSnapshot}
+                          onDismissCrmSnapshot={() => setCrmImport(null)}
+                          onClearCrmSnapshot={handleClearCrmSnapshot}
+                          formatCurrency={formatCurrencyValue}
+                          inMarketFromAccounts={plan.inMarket.fromAccounts}
                           autoEnabled={inMarketAuto}
                           onAutoToggle={handleToggleInMarketAuto}
                           derivedPercent={cappedDerivedInMarketPercent}
@@ -1334,6 +1791,11 @@ export function ScenarioPlanner() {
                           control={form.control}
                           availableBudgetTotal={availableBudgetTotal}
                           onTotalCostChange={handleTotalCostChange}
+                          costLines={sanitizedInputs.costs.lines ?? []}
+                          durationMonths={sanitizedInputs.programme.durationMonths}
+                          costLineReport={costLineImport}
+                          onCostLinesChange={handleCostLinesChange}
+                          onCostLinesUpload={handleCostLinesUpload}
                           capacitySummary={{
                             source: sanitizedInputs.capacity.source,
                             treatedAccounts,
@@ -1347,6 +1809,8 @@ export function ScenarioPlanner() {
                           }}
                           alignmentLevel={sanitizedInputs.alignment.level}
                           locale={locale}
+                          currency={currency}
+                          tierBudgetBenchmarks={tierBudgetBenchmarks}
                         />
                       ) : null}
 
@@ -1386,6 +1850,39 @@ export function ScenarioPlanner() {
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-6">
+                      <div className="flex flex-wrap items-end gap-3 rounded-lg border border-dashed bg-muted/20 p-3 text-sm">
+                        <span className="pb-2 font-medium text-foreground">What would it take to</span>
+                        <Select
+                          value={goalKind}
+                          onValueChange={(value) => {
+                            setGoalKind(value as GoalKind);
+                            setGoalValue(GOAL_KINDS[value as GoalKind].defaultValue);
+                          }}
+                        >
+                          <SelectTrigger className="w-48" aria-label="Goal">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(GOAL_KINDS) as GoalKind[]).map((kind) => (
+                              <SelectItem key={kind} value={kind}>
+                                {GOAL_KINDS[kind].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {goalKind !== "breakEven" ? (
+                          <Input
+                            type="number"
+                            className="w-32"
+                            aria-label={GOAL_KINDS[goalKind].valueLabel}
+                            value={goalValue}
+                            onChange={(event) => setGoalValue(Number(event.target.value) || 0)}
+                          />
+                        ) : null}
+                        {goalKind !== "breakEven" ? (
+                          <span className="pb-2 text-muted-foreground">{GOAL_KINDS[goalKind].valueLabel}</span>
+                        ) : null}
+                      </div>
                       <SliderWithBenchmark
                         label="Win-rate uplift (pp)"
                         value={sanitizedInputs.uplifts.winRateUplift}
@@ -1404,6 +1901,11 @@ export function ScenarioPlanner() {
                         unit="pp"
                         description="Above stretch? Trim treated accounts or capture proof points in the assumptions deck."
                       />
+                      <FieldGuardrails name="uplifts.winRateUplift" />
+                      <GoalSeekAnswer
+                        result={goalAnswers?.["uplifts.winRateUplift"]}
+                        formatValue={(value) => `${formatNumberValue(value, 1)} pp`}
+                      />
                       <SliderWithBenchmark
                         label="ACV uplift (%)"
                         value={sanitizedInputs.uplifts.acvUplift}
@@ -1421,6 +1923,11 @@ export function ScenarioPlanner() {
                         stretchMax={35}
                         unit="%"
                       />
+                      <FieldGuardrails name="uplifts.acvUplift" />
+                      <GoalSeekAnswer
+                        result={goalAnswers?.["uplifts.acvUplift"]}
+                        formatValue={(value) => formatPercentValue(value, 1)}
+                      />
                       <SliderWithBenchmark
                         label="Opportunity uplift (%)"
                         value={sanitizedInputs.uplifts.opportunityRateUplift}
@@ -1438,21 +1945,31 @@ export function ScenarioPlanner() {
                         stretchMax={45}
                         unit="%"
                       />
-                      <InMarketField
-                        control={form.control}
-                        variant="tune"
-                        autoEnabled={inMarketAuto}
-                        onAutoToggle={handleToggleInMarketAuto}
-                        derivedPercent={cappedDerivedInMarketPercent}
-                        influenceWindowMonths={influenceWindowMonths}
-                        buyingWindowMonths={buyingWindowMonths}
-                        onBuyingWindowChange={handleBuyingWindowChange}
-                        onResetBuyingWindow={handleResetBuyingWindow}
-                        hasCustomBuyingWindow={customBuyingWindow}
-                        onManualChange={handleManualInMarketChange}
-                        currentValue={baseInMarketRate}
-                        manualDescription="Anchor this to intent data or historical opportunity scans."
+                      <FieldGuardrails name="uplifts.opportunityRateUplift" />
+                      <GoalSeekAnswer
+                        result={goalAnswers?.["uplifts.opportunityRateUplift"]}
+                        formatValue={(value) => formatPercentValue(value, 1)}
                       />
+                      {plan.accounts && plan.inMarket.fromAccounts ? (
+                        <InMarketFromAccountsNote summary={plan.accounts} appliedRate={baseInMarketRate} />
+                      ) : (
+                        <InMarketField
+                          control={form.control}
+                          variant="tune"
+                          sliderBounds={benchmarkPack.inMarketSlider}
+                          autoEnabled={inMarketAuto}
+                          onAutoToggle={handleToggleInMarketAuto}
+                          derivedPercent={cappedDerivedInMarketPercent}
+                          influenceWindowMonths={influenceWindowMonths}
+                          buyingWindowMonths={buyingWindowMonths}
+                          onBuyingWindowChange={handleBuyingWindowChange}
+                          onResetBuyingWindow={handleResetBuyingWindow}
+                          hasCustomBuyingWindow={customBuyingWindow}
+                          onManualChange={handleManualInMarketChange}
+                          currentValue={baseInMarketRate}
+                          manualDescription="Anchor this to intent data or historical opportunity scans."
+                        />
+                      )}
                     </CardContent>
                   </Card>
 
@@ -1516,16 +2033,215 @@ export function ScenarioPlanner() {
                         onCyclePresetChange={setCyclePreset}
                         cycleReductionPercent={cycleReductionPercent}
                         cycleIntensity={cycleIntensity}
-                        tier={tier}
+                        cycleReduction={benchmarkPack.tiers[tier].cycleReduction}
                       />
                       <p className="text-xs text-muted-foreground">
-                        Typical {Math.round(TIER_CYCLE_REDUCTION[tier].typical * 100)}% · stretch {Math.round(
-                          TIER_CYCLE_REDUCTION[tier].stretch * 100,
+                        Typical {Math.round(benchmarkPack.tiers[tier].cycleReduction.typical * 100)}% · stretch {Math.round(
+                          benchmarkPack.tiers[tier].cycleReduction.stretch * 100,
                         )}% reduction bands per tier.
                       </p>
                     </CardContent>
                   </Card>
 
+                  <Card className="shadow-sm">
+                    <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <CardTitle>Lifetime economics</CardTitle>
+                        <CardDescription>
+                          Project renewals from ABM-won accounts to see NPV, IRR, and LTV:CAC beyond this period.
+                        </CardDescription>
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={sanitizedInputs.lifetime.enabled ? "default" : "outline"}
+                        aria-pressed={sanitizedInputs.lifetime.enabled}
+                        onClick={() =>
+                          form.setValue("lifetime.enabled", !sanitizedInputs.lifetime.enabled, {
+                            shouldValidate: true,
+                            shouldDirty: true,
+                          })
+                        }
+                      >
+                        {sanitizedInputs.lifetime.enabled ? "Lifetime on" : "Enable lifetime"}
+                      </Button>
+                    </CardHeader>
+                    {sanitizedInputs.lifetime.enabled ? (
+                      <CardContent className="grid gap-4 sm:grid-cols-2">
+                        <NumberField
+                          control={form.control}
+                          name="lifetime.years"
+                          label="Horizon (years)"
+                          suffix="yr"
+                          hint="Years of revenue to project, including the programme year."
+                        />
+                        <NumberField
+                          control={form.control}
+                          name="lifetime.grossRetention"
+                          label="Gross retention (%)"
+                          suffix="%"
+                          hint="Share of won revenue that renews each year before expansion."
+                        />
+                        <NumberField
+                          control={form.control}
+                          name="lifetime.netExpansion"
+                          label="Net expansion (%)"
+                          suffix="%"
+                          hint="Annual growth on retained revenue from upsell and cross-sell."
+                        />
+                        <NumberField
+                          control={form.control}
+                          name="lifetime.discountRate"
+                          label="Discount rate (%)"
+                          suffix="%"
+                          hint="Annual rate used to discount future gross profit for NPV and LTV:CAC."
+                        />
+                      </CardContent>
+                    ) : null}
+                  </Card>
+
+                  {scenarioResult?.outputs.accounts ? (
+                    <Card className="shadow-sm">
+                      <CardHeader>
+                        <CardTitle>Account contributions</CardTitle>
+                        <CardDescription>
+                          Which accounts carry the business case, ranked by the incremental gross profit each adds.
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <AccountContributionTable
+                          contributions={scenarioResult.outputs.accounts}
+                          tierLabels={TIER_SHORT_LABELS}
+                          formatCurrency={formatCurrencyValue}
+                          formatNumber={formatNumberValue}
+                          formatPercent={formatPercentValue}
+                        />
+                      </CardContent>
+                    </Card>
+                  ) : null}
+
+                  <Card className="shadow-sm">
+                    <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <CardTitle>Tier portfolio</CardTitle>
+                        <CardDescription>
+                          Run 1:1, 1:few, and 1:many motions on one team. 1:1 accounts are covered first; lower tiers
+                          share what capacity is left.
+                        </CardDescription>
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={sanitizedInputs.portfolio.enabled ? "default" : "outline"}
+                        aria-pressed={sanitizedInputs.portfolio.enabled}
+                        onClick={() =>
+                          form.setValue("portfolio.enabled", !sanitizedInputs.portfolio.enabled, {
+                            shouldValidate: true,
+                            shouldDirty: true,
+                          })
+                        }
+                      >
+                        {sanitizedInputs.portfolio.enabled ? "Portfolio on" : "Enable portfolio"}
+                      </Button>
+                    </CardHeader>
+                    {sanitizedInputs.portfolio.enabled ? (
+                      <CardContent className="space-y-6">
+                        {TIER_KEYS.map((key) => (
+                          <div key={key} className="space-y-3">
+                            <p className="text-sm font-semibold text-foreground">{tierLabels[key]}</p>
+                            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.targetAccounts`}
+                                label="Target accounts"
+                              />
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.hoursPerAccount`}
+                                label="Hours per account"
+                                suffix="h"
+                                hint="Monthly team hours each treated account in this tier needs."
+                              />
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.budgetPerAccount`}
+                                label="Budget per account"
+                                prefix={currencySymbol}
+                                hint="Benchmark spend per treated account. Sets this tier’s share of the investment."
+                              />
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.cycleReduction`}
+                                label="Cycle reduction (%)"
+                                suffix="%"
+                                hint="Sales-cycle reduction at full coverage, scaled by intensity and alignment."
+                              />
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.uplifts.winRateUplift`}
+                                label="Win-rate uplift (pts)"
+                                suffix="pts"
+                              />
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.uplifts.acvUplift`}
+                                label="ACV uplift (%)"
+                                suffix="%"
+                              />
+                              <NumberField
+                                control={form.control}
+                                name={`portfolio.tiers.${key}.uplifts.opportunityRateUplift`}
+                                label="Opportunity uplift (%)"
+                                suffix="%"
+                              />
+                            </div>
+                          </div>
+                        ))}
+                        {portfolioResult ? (
+                          <PortfolioBreakdown
+                            portfolio={portfolioResult}
+                            tierLabels={tierLabels}
+                            formatCurrency={formatCurrencyValue}
+                            formatNumber={formatNumberValue}
+                            formatPercent={formatPercentValue}
+                          />
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            Fix the highlighted inputs to see the portfolio roll-up.
+                          </p>
+                        )}
+                        {allocationPlan ? (
+                          <AllocationOptimiser
+                            plan={allocationPlan}
+                            tierLabels={tierLabels}
+                            onObjectiveChange={setAllocationObjective}
+                            formatCurrency={formatCurrencyValue}
+                            formatNumber={formatNumberValue}
+                            formatPercent={formatPercentValue}
+                            currencySymbol={currencySymbol}
+                          />
+                        ) : null}
+                      </CardContent>
+                    ) : null}
+                  </Card>
+
+                  <SegmentsEditor
+                    control={form.control}
+                    settings={sanitizedInputs.segments}
+                    market={sanitizedInputs.market}
+                    segmented={segmentedResult}
+                    onChange={(segments) =>
+                      form.setValue("segments", segments, { shouldValidate: true, shouldDirty: true })
+                    }
+                    onRename={(index, name) =>
+                      form.setValue(`segments.segments.${index}.name`, name, { shouldValidate: true, shouldDirty: true })
+                    }
+                    currencySymbol={currencySymbol}
+                    formatCurrency={formatCurrencyValue}
+                    formatNumber={formatNumberValue}
+                    formatPercent={formatPercentValue}
+                  />
+
                   <AdvancedBlock title="Sensitivity (advanced)">
                     <div className="grid gap-4 sm:grid-cols-2">
                       <FormField
@@ -1576,7 +2292,126 @@ export function ScenarioPlanner() {
                           </FormItem>
                         )}
                       />
+                      <SensitivitySelectField
+                        control={form.control}
+                        name="sensitivity.rowAxis"
+                        label="Grid rows"
+                        options={SENSITIVITY_AXIS_OPTIONS}
+                      />
+                      <SensitivitySelectField
+                        control={form.control}
+                        name="sensitivity.columnAxis"
+                        label="Grid columns"
+                        options={SENSITIVITY_AXIS_OPTIONS}
+                      />
+                      <SensitivitySelectField
+                        control={form.control}
+                        name="sensitivity.metric"
+                        label="Grid metric"
+                        options={SENSITIVITY_METRIC_OPTIONS}
+                      />
+                      <SensitivitySelectField
+                        control={form.control}
+                        name="sensitivity.resolution"
+                        label="Steps per axis"
+                        options={SENSITIVITY_RESOLUTION_OPTIONS}
+                      />
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      The range lists set the span for in-market and win uplift; other inputs flex ±30% around
+                      their current value.
+                    </p>
+                  </AdvancedBlock>
+
+                  <AdvancedBlock title="Exchange rates (advanced)">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="fx.asOf"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>FX rates as of</FormLabel>
+                            <FormControl>
+                              <Input type="date" value={field.value ?? ""} onChange={field.onChange} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      {CURRENCY_CODES.filter((code) => code !== sanitizedInputs.fx.base).map((code) => (
+                        <NumberField
+                          key={code}
+                          control={form.control}
+                          name={`fx.rates.${code}`}
+                          label={code}
+                          hint={`Units of ${code} per 1 ${sanitizedInputs.fx.base}.`}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Rates are quoted per 1 {sanitizedInputs.fx.base}. They apply the next time you switch currency
+                      and are printed as an FX note on exports.
+                    </p>
+                  </AdvancedBlock>
+
+                  <AdvancedBlock title="Benchmark pack (advanced)">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-2">
+                        <span className="text-sm font-medium text-foreground">Pack</span>
+                        <Select
+                          value={`${benchmarkPack.id}@${benchmarkPack.version}`}
+                          onValueChange={(value) => {
+                            const next = benchmarkPacks.find((pack) => `${pack.id}@${pack.version}` === value);
+                            if (next) {
+                              handleBenchmarkPackChange(next);
+                            }
+                          }}
+                        >
+                          <SelectTrigger aria-label="Benchmark pack">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {benchmarkPacks.map((pack) => (
+                              <SelectItem key={`${pack.id}@${pack.version}`} value={`${pack.id}@${pack.version}`}>
+                                {pack.name} · v{pack.version}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          {benchmarkPack.region} · figures in {benchmarkPack.currency} · published{" "}
+                          {benchmarkPack.publishedAt}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <span className="text-sm font-medium text-foreground">Load a pack (JSON)</span>
+                        <Input
+                          type="file"
+                          accept="application/json,.json"
+                          aria-label="Load benchmark pack"
+                          onChange={(event) => {
+                            const file = event.target.files?.[0];
+                            event.target.value = "";
+                            if (file) {
+                              void handleBenchmarkPackUpload(file);
+                            }
+                          }}
+                        />
+                        {benchmarkNotice ? <p className="text-xs text-muted-foreground">{benchmarkNotice}</p> : null}
+                      </div>
+                    </div>
+                    {benchmarkPackMissing ? (
+                      <p className="text-xs text-amber-700">
+                        This scenario was built on {sanitizedInputs.benchmarks.id} v{sanitizedInputs.benchmarks.version},
+                        which isn’t loaded. Showing {benchmarkPack.name} v{benchmarkPack.version} instead.
+                      </p>
+                    ) : null}
+                    <p className="text-xs text-muted-foreground">
+                      Tier defaults, budget per account, cycle reductions and preset multipliers come from the pack.
+                      Switching packs keeps your own inputs; presets re-apply the next time you pick one.
+                    </p>
                   </AdvancedBlock>
                 </div>
 
@@ -1668,6 +2503,7 @@ export function ScenarioPlanner() {
                           ? "Add programme investment so ROI reflects reality."
                           : `Total investment captured: ${formatCurrencyValue(availableBudgetTotal)}.`}
                       </p>
+                      <GuardrailList guardrails={guardrails} />
                     </CardContent>
                   </Card>
                 </aside>
@@ -1678,42 +2514,105 @@ export function ScenarioPlanner() {
               <section className="space-y-6">
                 {scenarioResult ? (
                   <>
-                    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-                      <KpiTile
-                        label="Programme revenue"
-                        value={formatCurrencyValue(programmeRevenueValue)}
-                        helper="ABM-attributed top-line for this period."
-                      />
-                      <KpiTile
-                        label="Programme gross profit"
-                        value={formatCurrencyValue(programmeGrossProfitValue)}
-                        helper="Before programme spend."
-                      />
-                      <KpiTile
-                        label="Programme cost"
-                        value={formatCurrencyValue(totalCostValue)}
-                        helper={
-                          sanitizedInputs.capacity.source === "budget" && requiredBudgetValue !== null
-                            ? budgetIsHigh
-                              ? `Using ${formatCurrencyValue(totalCostValue)} of ${formatCurrencyValue(availableBudgetTotal)} available (leftover ≈${formatCurrencyValue(budgetLeftoverValue)})`
-                              : budgetShortfallValue > 0
-                                ? `Using all available ${formatCurrencyValue(availableBudgetTotal)} (needs ≈${formatCurrencyValue(requiredBudgetValue)})`
-                                : `Using ${formatCurrencyValue(totalCostValue)} of ${formatCurrencyValue(availableBudgetTotal)} available.`
-                            : "All-in ABM investment entered above."
-                        }
-                        tone={budgetIsHigh ? "negative" : budgetShortfallValue > 0 ? "negative" : "neutral"}
-                      />
-                      <KpiTile
-                        label="Programme profit after spend"
-                        value={formatCurrencyValue(profitAfterSpendValue)}
-                        helper={
-                          totalCostValue !== null
-                            ? `Programme cost ${formatCurrencyValue(totalCostValue)}`
-                            : undefined
-                        }
-                        tone={profitTone}
-                      />
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <p className="text-sm text-muted-foreground">
+                        {showLifetimeEconomics && lifetimeOutputs
+                          ? `Lifetime economics over ${lifetimeOutputs.years.length} years of retained revenue, discounted at ${formatPercentValue(sanitizedInputs.lifetime.discountRate, 1)}.`
+                          : "Single-period economics for this programme."}
+                      </p>
+                      <div className="flex items-center gap-1">
+                        <Button type="button" size="sm" variant="outline" onClick={handleCopyLink}>
+                          {linkCopied ? "Link copied" : "Copy link"}
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={handleExportPdf}>
+                          Download PDF
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={handleSaveSnapshot}>
+                          Save snapshot
+                        </Button>
+                        {(["period", "lifetime"] as EconomicsView[]).map((view) => (
+                          <Button
+                            key={view}
+                            type="button"
+                            size="sm"
+                            variant={(view === "lifetime") === showLifetimeEconomics ? "default" : "outline"}
+                            onClick={() => setEconomicsView(view)}
+                            disabled={view === "lifetime" && !lifetimeOutputs}
+                          >
+                            {view === "period" ? "Single period" : "Lifetime"}
+                          </Button>
+                        ))}
+                      </div>
                     </div>
+                    {showLifetimeEconomics && lifetimeOutputs ? (
+                      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                        <KpiTile
+                          label="Lifetime incremental gross profit"
+                          value={formatCurrencyValue(lifetimeOutputs.lifetimeIncrementalGrossProfit)}
+                          helper={`Incremental revenue ${formatCurrencyValue(lifetimeOutputs.lifetimeIncrementalRevenue)} before discounting.`}
+                        />
+                        <KpiTile
+                          label="NPV"
+                          value={formatCurrencyValue(lifetimeOutputs.npv)}
+                          helper={`After programme cost ${formatCurrencyValue(totalCostValue)}.`}
+                          tone={lifetimeOutputs.npv >= 0 ? "positive" : "negative"}
+                        />
+                        <KpiTile
+                          label="IRR"
+                          value={formatPercentValue(
+                            lifetimeOutputs.irr === null ? null : lifetimeOutputs.irr * 100,
+                            1,
+                          )}
+                          helper="Annual rate at which NPV is zero."
+                        />
+                        <KpiTile
+                          label="LTV:CAC"
+                          value={
+                            lifetimeOutputs.ltvToCac === null
+                              ? formatNumberValue(null, 1)
+                              : `${formatNumberValue(lifetimeOutputs.ltvToCac, 1)}×`
+                          }
+                          helper="Discounted lifetime incremental gross profit ÷ programme cost."
+                        />
+                      </div>
+                    ) : (
+                      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                        <KpiTile
+                          label="Programme revenue"
+                          value={formatCurrencyValue(programmeRevenueValue)}
+                          helper="ABM-attributed top-line for this period."
+                        />
+                        <KpiTile
+                          label="Programme gross profit"
+                          value={formatCurrencyValue(programmeGrossProfitValue)}
+                          helper="Before programme spend."
+                        />
+                        <KpiTile
+                          label="Programme cost"
+                          value={formatCurrencyValue(totalCostValue)}
+                          helper={
+                            sanitizedInputs.capacity.source === "budget" && requiredBudgetValue !== null
+                              ? budgetIsHigh
+                                ? `Using ${formatCurrencyValue(totalCostValue)} of ${formatCurrencyValue(availableBudgetTotal)} available (leftover ≈${formatCurrencyValue(budgetLeftoverValue)})`
+                                : budgetShortfallValue > 0
+                                  ? `Using all available ${formatCurrencyValue(availableBudgetTotal)} (needs ≈${formatCurrencyValue(requiredBudgetValue)})`
+                                  : `Using ${formatCurrencyValue(totalCostValue)} of ${formatCurrencyValue(availableBudgetTotal)} available.`
+                              : "All-in ABM investment entered above."
+                          }
+                          tone={budgetIsHigh ? "negative" : budgetShortfallValue > 0 ? "negative" : "neutral"}
+                        />
+                        <KpiTile
+                          label="Programme profit after spend"
+                          value={formatCurrencyValue(profitAfterSpendValue)}
+                          helper={
+                            totalCostValue !== null
+                              ? `Programme cost ${formatCurrencyValue(totalCostValue)}`
+                              : undefined
+                          }
+                          tone={profitTone}
+                        />
+                      </div>
+                    )}
                     <Card className="shadow-sm">
                       <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                         <div>
@@ -1880,7 +2779,23 @@ export function ScenarioPlanner() {
                         </p>
                       </CardContent>
                     </Card>
- 
+                    <ConfidencePanel
+                      inputs={scenarioResult.inputs}
+                      formatCurrency={(value) => formatCurrencyValue(value)}
+                      formatNumber={formatNumberValue}
+                      formatPercent={formatPercentValue}
+                    />
+                    <Card className="shadow-sm">
+                      <CardHeader>
+                        <CardTitle>Notes</CardTitle>
+                        <CardDescription>
+                          Assumption checks to address or explain before sharing the business case.
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="text-sm">
+                        <GuardrailList guardrails={guardrails} />
+                      </CardContent>
+                    </Card>
                   </>
                 ) : (
                   <Card className="border-dashed bg-muted/30 text-center">
@@ -1893,6 +2808,54 @@ export function ScenarioPlanner() {
               </section>
             ) : null}
 
+            {mode === "compare" ? (
+              <section className="space-y-6">
+                <div className="flex flex-wrap items-end justify-between gap-3">
+                  <div className="space-y-1">
+                    <h2 className="text-lg font-semibold text-foreground">Compare scenarios</h2>
+                    <p className="text-sm text-muted-foreground">
+                      Snapshot the current scenario, tweak it, then compare outcomes side by side.
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={snapshotName}
+                      onChange={(event) => setSnapshotName(event.target.value)}
+                      placeholder={`${benchmarkPack.presets[preset].label} scenario ${snapshots.length + 1}`}
+                      aria-label="Snapshot name"
+                      className="w-56"
+                    />
+                    <Button type="button" onClick={handleSaveSnapshot} disabled={!scenarioResult}>
+                      Save snapshot
+                    </Button>
+                  </div>
+                </div>
+                {compareColumns.length > 0 ? (
+                  <ScenarioCompare
+                    columns={compareColumns}
+                    referenceId={compareReferenceId}
+                    locale={locale}
+                    currency={currency}
+                    onSelectReference={setCompareReferenceId}
+                    onLoad={(id) => {
+                      const snapshot = snapshots.find((candidate) => candidate.id === id);
+                      if (snapshot) {
+                        handleLoadSnapshot(snapshot);
+                      }
+                    }}
+                    onRemove={handleRemoveSnapshot}
+                  />
+                ) : (
+                  <Card className="border-dashed bg-muted/30 text-center">
+                    <CardContent className="space-y-3 py-10 text-sm text-muted-foreground">
+                      <p>Complete setup and tune inputs before comparing scenarios.</p>
+                      <Button type="button" variant="outline" onClick={() => setMode("setup")}>Back to step 1</Button>
+                    </CardContent>
+                  </Card>
+                )}
+              </section>
+            ) : null}
+
             <footer className="mt-12 border-t border-border/60 pt-6">
               <p className="text-xs text-muted-foreground">
                 Need a refresher on the inputs and outputs?{" "}
@@ -1935,7 +2898,7 @@ export function ScenarioPlanner() {
               <div>
                 <h2 className="text-lg font-semibold">Programme detail</h2>
                 <p className="text-sm text-muted-foreground">
-                  Baseline vs ABM breakdown and ROI sensitivity grid.
+                  Baseline vs ABM breakdown, monthly timeline, ROI drivers, and sensitivity grid.
                 </p>
               </div>
               <Button type="button" variant="ghost" onClick={() => setShowDetails(false)}>
@@ -2053,52 +3016,116 @@ export function ScenarioPlanner() {
 
               <section className="space-y-3">
                 <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
-                  ROI sensitivity
+                  Monthly timeline
                 </h3>
-                {sensitivityGrid ? (
-                  <div className="overflow-x-auto">
-                    <table className="min-w-full border text-sm">
-                      <thead className="bg-muted">
-                        <tr>
-                          <th className="px-3 py-2 text-left text-muted-foreground">In-market %</th>
-                          {scenarioResult.inputs.sensitivity.winRateUpliftRange.map((column: number) => (
-                            <th key={column} className="px-3 py-2 text-right text-muted-foreground">
-                              {column}% uplift
-                            </th>
-                          ))}
+                <p className="text-xs text-muted-foreground">
+                  Opportunities ramp in over {scenarioResult.inputs.programme.rampMonths} months and close after the
+                  baseline ({scenarioResult.inputs.market.salesCycleMonthsBaseline} mo) or ABM
+                  ({scenarioResult.inputs.market.salesCycleMonthsAbm} mo) sales cycle. Payback is where the cumulative
+                  net position turns positive.
+                </p>
+                <div className="max-h-80 overflow-auto rounded-md border">
+                  <table className="min-w-full text-sm">
+                    <thead className="sticky top-0 bg-muted text-left text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Month</th>
+                        <th className="px-3 py-2 text-right font-medium">ABM opps</th>
+                        <th className="px-3 py-2 text-right font-medium">ABM wins</th>
+                        <th className="px-3 py-2 text-right font-medium">ABM revenue</th>
+                        <th className="px-3 py-2 text-right font-medium">Incremental GP</th>
+                        <th className="px-3 py-2 text-right font-medium">Spend</th>
+                        <th className="px-3 py-2 text-right font-medium">Cumulative net</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {scenarioResult.outputs.timeline.months.map((month) => (
+                        <tr key={month.month} className="odd:bg-background even:bg-muted/20">
+                          <td className="px-3 py-2 text-muted-foreground">{month.month}</td>
+                          <td className="px-3 py-2 text-right">{formatNumberValue(month.abmOpps, 1)}</td>
+                          <td className="px-3 py-2 text-right">{formatNumberValue(month.abmWins, 1)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrencyValue(month.abmRevenue)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrencyValue(month.incrementalGrossProfit)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrencyValue(month.spend)}</td>
+                          <td
+                            className={cn(
+                              "px-3 py-2 text-right font-medium",
+                              month.cumulativeNetPosition >= 0 ? "text-foreground" : "text-destructive",
+                            )}
+                          >
+                            {formatCurrencyValue(month.cumulativeNetPosition)}
+                          </td>
                         </tr>
-                      </thead>
-                      <tbody>
-                        {scenarioResult.inputs.sensitivity.inMarketRange.map((inMarketRate: number, rowIdx: number) => (
-                          <tr key={inMarketRate} className="odd:bg-background even:bg-muted/20">
-                            <td className="px-3 py-2 text-left text-muted-foreground">
-                              {inMarketRate}%
-                            </td>
-                            {scenarioResult.inputs.sensitivity.winRateUpliftRange.map((_, colIdx: number) => {
-                              const cell: SensitivityCell | undefined = sensitivityGrid?.[rowIdx]?.[colIdx];
-                              const roiPercent =
-                                !cell || cell.roi === null
-                                  ? formatPercentValue(null, 1)
-                                  : formatPercentValue(cell.roi * 100, 1);
-                              const tone =
-                                cell && typeof cell.roi === "number" && cell.roi >= 0
-                                  ? "text-foreground"
-                                  : "text-destructive";
-
-                              return (
-                                <td
-                                  key={`${inMarketRate}-${colIdx}`}
-                                  className={`px-3 py-2 text-right font-medium ${tone}`}
-                                >
-                                  {roiPercent}
-                                </td>
-                              );
-                            })}
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              <section className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    ROI drivers
+                  </h3>
+                  <div className="flex items-center gap-1">
+                    {TORNADO_SWING_OPTIONS.map((swing) => (
+                      <Button
+                        key={swing}
+                        type="button"
+                        size="sm"
+                        variant={swing === tornadoSwing ? "default" : "outline"}
+                        onClick={() => setTornadoSwing(swing)}
+                      >
+                        ±{swing}%
+                      </Button>
+                    ))}
                   </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Each driver flexed on its own; alignment runs from poor to excellent. Bars show ROI against the
+                  current{" "}
+                  {formatPercentValue(netRoiValue === null ? null : netRoiValue * 100, 1)}.
+                </p>
+                {tornado ? (
+                  <TornadoChartView
+                    tornado={tornado}
+                    formatCurrency={(value) => formatCurrencyValue(value)}
+                    formatNumber={formatNumberValue}
+                    formatPercent={formatPercentValue}
+                  />
+                ) : null}
+              </section>
+
+              <section className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    {displayedSensitivityGrid ? SENSITIVITY_METRICS[displayedSensitivityGrid.metric].label : "ROI"}{" "}
+                    sensitivity
+                  </h3>
+                  {segmentedResult ? (
+                    <Select
+                      value={
+                        sensitivitySegment !== null && sensitivitySegment < segmentedResult.segments.length
+                          ? String(sensitivitySegment)
+                          : "all"
+                      }
+                      onValueChange={(value) => setSensitivitySegment(value === "all" ? null : Number(value))}
+                    >
+                      <SelectTrigger className="w-56" aria-label="Run grid for">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Whole plan</SelectItem>
+                        {segmentedResult.segments.map((segment, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {segment.name || `Segment ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : null}
+                </div>
+                {displayedSensitivityGrid ? (
+                  <SensitivityTable grid={displayedSensitivityGrid} locale={locale} currency={currency} />
                 ) : (
                   <div className="rounded-lg border border-dashed bg-muted/40 p-4 text-sm text-muted-foreground">
                     Adjust inputs to generate a valid ROI matrix. Validation errors disable this view.
@@ -2109,7 +3136,7 @@ export function ScenarioPlanner() {
           </div>
         </div>
       ) : null}
-    </TooltipProvider>
+    </PlannerProviders>
   );
 }
 
@@ -2286,19 +3313,23 @@ function CoachOverlay({ steps, stepIndex, onNext, onPrev, onSkip, onFinish }: Co
 
 type ProgrammeStepProps = {
   control: Control<ScenarioInputSchema>;
+  onCurrencyChange: (currency: CurrencyCode) => void;
   onSelectTier: (tier: TierKey) => void;
   selectedTier: TierKey;
   onSelectPreset: (preset: PresetKey) => void;
   selectedPreset: PresetKey;
+  benchmarks: BenchmarkPack;
   highlightRef: RefObject<HTMLDivElement | null>;
 };
 
 function ProgrammeStep({
   control,
+  onCurrencyChange,
   onSelectTier,
   selectedTier,
   onSelectPreset,
   selectedPreset,
+  benchmarks,
   highlightRef,
 }: ProgrammeStepProps) {
   return (
@@ -2309,8 +3340,8 @@ function ProgrammeStep({
             Tier presets
           </span>
           <div className="grid gap-2">
-            {(Object.keys(TIER_CONFIG) as TierKey[]).map((tier) => {
-              const config = TIER_CONFIG[tier];
+            {TIER_KEYS.map((tier) => {
+              const config = benchmarks.tiers[tier];
               const active = tier === selectedTier;
 
               return (
@@ -2338,8 +3369,8 @@ function ProgrammeStep({
             Expectations Presets
           </span>
           <div className="grid gap-2">
-            {(Object.keys(PRESET_CONFIG) as PresetKey[]).map((key) => {
-              const config = PRESET_CONFIG[key];
+            {(Object.keys(benchmarks.presets) as PresetKey[]).map((key) => {
+              const config = benchmarks.presets[key];
               const active = key === selectedPreset;
 
               return (
@@ -2392,10 +3423,13 @@ function ProgrammeStep({
               <FormItem>
                 <div className="flex items-center justify-between gap-2">
                   <FormLabel>Currency</FormLabel>
-                  <HintTooltip hint="Currency used across all outputs and exports." label="Currency" />
+                  <HintTooltip
+                    hint="Currency used across all outputs and exports. Switching converts money inputs at the scenario’s exchange rates."
+                    label="Currency"
+                  />
                 </div>
                 <FormControl>
-                  <Select value={field.value} onValueChange={field.onChange}>
+                  <Select value={field.value} onValueChange={(value) => onCurrencyChange(value as CurrencyCode)}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select" />
                     </SelectTrigger>
@@ -2450,7 +3484,24 @@ function ProgrammeStep({
 
 type MarketStepProps = {
   control: Control<ScenarioInputSchema>;
+  currencySymbol: string;
   tier: TierKey;
+  benchmarks: BenchmarkPack;
+  accountList: AccountList | null;
+  accountSummary: AccountListSummary | null;
+  accountImport: CsvImportReport | null;
+  onAccountListUpload: (file: File) => Promise<void>;
+  onClearAccountList: () => void;
+  crmSnapshot: CrmSnapshotRef | null;
+  crmImport: CrmImportState | null;
+  crmAcvBasis: AcvBasis;
+  onCrmAcvBasisChange: (basis: AcvBasis) => void;
+  onCrmSnapshotUpload: (file: File) => Promise<void>;
+  onApplyCrmSnapshot: () => void;
+  onDismissCrmSnapshot: () => void;
+  onClearCrmSnapshot: () => void;
+  formatCurrency: (value: number | null) => string;
+  inMarketFromAccounts: boolean;
   autoEnabled: boolean;
   onAutoToggle: (value: boolean) => void;
   derivedPercent: number;
@@ -2465,7 +3516,24 @@ type MarketStepProps = {
 
 function MarketStep({
   control,
+  currencySymbol,
   tier,
+  benchmarks,
+  accountList,
+  accountSummary,
+  accountImport,
+  onAccountListUpload,
+  onClearAccountList,
+  crmSnapshot,
+  crmImport,
+  crmAcvBasis,
+  onCrmAcvBasisChange,
+  onCrmSnapshotUpload,
+  onApplyCrmSnapshot,
+  onDismissCrmSnapshot,
+  onClearCrmSnapshot,
+  formatCurrency,
+  inMarketFromAccounts,
   autoEnabled,
   onAutoToggle,
   derivedPercent,
@@ -2477,7 +3545,7 @@ function MarketStep({
   onManualChange,
   currentValue,
 }: MarketStepProps) {
-  const tierNote = TIER_CONFIG[tier];
+  const tierNote = benchmarks.tiers[tier];
 
   return (
     <div className="space-y-6">
@@ -2486,6 +3554,26 @@ function MarketStep({
           {tierNote.label} lens: we typically see around {tierNote.defaultAccounts} accounts at this level of personalisation. Keep your own numbers if they differ.
         </p>
       </div>
+      <AccountListPanel
+        control={control}
+        list={accountList}
+        summary={accountSummary}
+        report={accountImport}
+        onUpload={onAccountListUpload}
+        onClear={onClearAccountList}
+        formatCurrency={formatCurrency}
+      />
+      <CrmSnapshotPanel
+        snapshot={crmSnapshot}
+        pending={crmImport}
+        acvBasis={crmAcvBasis}
+        onAcvBasisChange={onCrmAcvBasisChange}
+        onUpload={onCrmSnapshotUpload}
+        onApply={onApplyCrmSnapshot}
+        onDismiss={onDismissCrmSnapshot}
+        onClear={onClearCrmSnapshot}
+        formatCurrency={formatCurrency}
+      />
       <div className="space-y-6">
         <div className="grid gap-6 sm:grid-cols-2">
           <NumberField
@@ -2493,7 +3581,12 @@ function MarketStep({
             name="market.targetAccounts"
             label="Target accounts"
             hint="Total accounts in scope for this ABM programme."
-            sublabel="How many accounts are you planning to include in this programme?"
+            sublabel={
+              accountSummary
+                ? "Counted from the imported account list."
+                : "How many accounts are you planning to include in this programme?"
+            }
+            disabled={Boolean(accountSummary)}
           />
           <NumberField
             control={control}
@@ -2509,9 +3602,14 @@ function MarketStep({
             control={control}
             name="market.baselineAcv"
             label="Baseline ACV"
-            prefix="£"
+            prefix={currencySymbol}
             hint="Average contract value per deal before ABM uplift."
-            sublabel="Average deal size you typically see today."
+            sublabel={
+              accountSummary?.weightedAcv != null
+                ? "Weighted by each listed account's expected in-market opps."
+                : "Average deal size you typically see today."
+            }
+            disabled={accountSummary?.weightedAcv != null}
           />
           <NumberField
             control={control}
@@ -2531,22 +3629,282 @@ function MarketStep({
             sublabel="How long a deal takes today from opportunity to close."
             suffix="mo"
           />
-          <InMarketField
+          {inMarketFromAccounts && accountSummary ? (
+            <InMarketFromAccountsNote summary={accountSummary} appliedRate={currentValue} />
+          ) : (
+            <InMarketField
+              control={control}
+              variant="setup"
+              sliderBounds={benchmarks.inMarketSlider}
+              autoEnabled={autoEnabled}
+              onAutoToggle={onAutoToggle}
+              derivedPercent={derivedPercent}
+              influenceWindowMonths={influenceWindowMonths}
+              buyingWindowMonths={buyingWindowMonths}
+              onBuyingWindowChange={onBuyingWindowChange}
+              onResetBuyingWindow={onResetBuyingWindow}
+              hasCustomBuyingWindow={hasCustomBuyingWindow}
+              onManualChange={onManualChange}
+              currentValue={currentValue}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type AccountListPanelProps = {
+  control: Control<ScenarioInputSchema>;
+  list: AccountList | null;
+  summary: AccountListSummary | null;
+  report: CsvImportReport | null;
+  onUpload: (file: File) => Promise<void>;
+  onClear: () => void;
+  formatCurrency: (value: number | null) => string;
+};
+
+function AccountListPanel({ control, list, summary, report, onUpload, onClear, formatCurrency }: AccountListPanelProps) {
+  const tierMix = summary
+    ? TIER_KEYS.filter((tier) => summary.tiers[tier] > 0).map((tier) => `${summary.tiers[tier]} ${TIER_SHORT_LABELS[tier]}`)
+    : [];
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-background p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <p className="text-sm font-semibold text-foreground">Account list (optional)</p>
+          <p className="text-xs text-muted-foreground">
+            Upload a CSV with a name column and, optionally, tier, segment, estimated ACV and an in-market (yes/no)
+            flag. Company names only; other columns are dropped.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="w-56"
+            aria-label="Import account list"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void onUpload(file);
+              }
+            }}
+          />
+          {list ? (
+            <Button type="button" variant="outline" size="sm" onClick={onClear}>
+              Clear list
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {list && summary ? (
+        <div className="space-y-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{summary.targetAccounts} accounts</Badge>
+            {tierMix.length > 0 ? <Badge variant="outline">{tierMix.join(" · ")}</Badge> : null}
+            <span className="text-xs text-muted-foreground">
+              {list.fileName} · imported {list.importedAt}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {summary.weightedAcv === null
+              ? "No ACV estimates in the list, so the typed baseline ACV still applies."
+              : `ACV ${formatCurrency(summary.weightedAcv)} weighted by in-market opps over ${summary.accountsWithAcv} estimates.`}{" "}
+            {summary.inMarketRate === null
+              ? "No in-market flags, so the in-market rate is set below."
+              : `${summary.inMarketAccounts} flagged in-market (${summary.inMarketRate}%).`}
+          </p>
+          {summary.segments.length > 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Segments: {summary.segments.map(({ segment, accounts }) => `${segment} (${accounts})`).join(", ")}
+            </p>
+          ) : null}
+          <FormField
             control={control}
-            variant="setup"
-            autoEnabled={autoEnabled}
-            onAutoToggle={onAutoToggle}
-            derivedPercent={derivedPercent}
-            influenceWindowMonths={influenceWindowMonths}
-            buyingWindowMonths={buyingWindowMonths}
-            onBuyingWindowChange={onBuyingWindowChange}
-            onResetBuyingWindow={onResetBuyingWindow}
-            hasCustomBuyingWindow={hasCustomBuyingWindow}
-            onManualChange={onManualChange}
-            currentValue={currentValue}
+            name="accountModel"
+            render={({ field }) => (
+              <FormItem className="max-w-xs space-y-1">
+                <FormLabel>Model the list by</FormLabel>
+                <FormControl>
+                  <Select value={field.value ?? "averages"} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Model the list by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="averages">Account averages</SelectItem>
+                      <SelectItem value="perAccount">Each account</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <p className="text-xs text-muted-foreground">
+                  Each account uses its own ACV, in-market probability, expected opps and treated flag, with blanks
+                  taken from the averages. Suits 1:1 lists where account sizes differ widely.
+                </p>
+              </FormItem>
+            )}
           />
         </div>
+      ) : null}
+
+      {report?.warnings.map((warning) => (
+        <p key={warning} className="text-xs text-amber-700">
+          {warning}
+        </p>
+      ))}
+
+      {report?.error ? <CsvIssueReport report={report} /> : null}
+    </div>
+  );
+}
+
+const CRM_LAYOUT_LABELS: Record<CrmSnapshotSummary["layout"], string> = {
+  salesforce: "Salesforce report",
+  hubspot: "HubSpot export",
+  generic: "CSV",
+};
+
+type CrmSnapshotPanelProps = {
+  snapshot: CrmSnapshotRef | null;
+  pending: CrmImportState | null;
+  acvBasis: AcvBasis;
+  onAcvBasisChange: (basis: AcvBasis) => void;
+  onUpload: (file: File) => Promise<void>;
+  onApply: () => void;
+  onDismiss: () => void;
+  onClear: () => void;
+  formatCurrency: (value: number | null) => string;
+};
+
+function CrmSnapshotPanel({
+  snapshot,
+  pending,
+  acvBasis,
+  onAcvBasisChange,
+  onUpload,
+  onApply,
+  onDismiss,
+  onClear,
+  formatCurrency,
+}: CrmSnapshotPanelProps) {
+  const summary = pending?.summary ?? null;
+  const derived = summary ? crmSnapshotToMarket(summary, acvBasis) : null;
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-background p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1">
+          <p className="text-sm font-semibold text-foreground">CRM snapshot (optional)</p>
+          <p className="text-xs text-muted-foreground">
+            Upload a closed-opportunity export (stage, amount, created and close dates) from Salesforce, HubSpot or a
+            sheet to fill the baseline win rate, ACV, opportunities per account and sales cycle. Read-only; rows are
+            not stored.
+          </p>
+        </div>
+        <Input
+          type="file"
+          accept=".csv,text/csv"
+          className="w-56"
+          aria-label="Import CRM snapshot"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) {
+              void onUpload(file);
+            }
+          }}
+        />
       </div>
+
+      {snapshot ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="secondary">{snapshot.note}</Badge>
+          <span>
+            {snapshot.fileName} · applied {snapshot.importedAt}
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={onClear}>
+            Clear source
+          </Button>
+        </div>
+      ) : null}
+
+      {summary && derived ? (
+        <div className="space-y-3 rounded-md border border-dashed bg-muted/30 p-3 text-sm">
+          <p className="text-xs text-muted-foreground">
+            {CRM_LAYOUT_LABELS[summary.layout]} · {describeCrmSnapshot(summary)} ({summary.wonOpps} won)
+          </p>
+          <dl className="grid gap-2 sm:grid-cols-2">
+            <div>
+              <dt className="text-xs text-muted-foreground">Baseline win rate</dt>
+              <dd className="font-medium text-foreground">{derived.baselineWinRate}%</dd>
+            </div>
+            <div>
+              <dt className="flex items-center gap-2 text-xs text-muted-foreground">
+                Baseline ACV
+                {(["median", "mean"] as AcvBasis[]).map((basis) => (
+                  <button
+                    key={basis}
+                    type="button"
+                    className={cn("underline-offset-2", basis === acvBasis ? "font-semibold underline" : undefined)}
+                    aria-pressed={basis === acvBasis}
+                    onClick={() => onAcvBasisChange(basis)}
+                  >
+                    {basis}
+                  </button>
+                ))}
+              </dt>
+              <dd className="font-medium text-foreground">{formatCurrency(derived.baselineAcv ?? null)}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-muted-foreground">Qualified opps per account</dt>
+              <dd className="font-medium text-foreground">
+                {derived.qualifiedOppsPerAccount ?? "No account column"}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-muted-foreground">Baseline sales cycle</dt>
+              <dd className="font-medium text-foreground">
+                {derived.salesCycleMonthsBaseline === undefined
+                  ? "No created dates"
+                  : `${derived.salesCycleMonthsBaseline} mo`}
+              </dd>
+            </div>
+          </dl>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={onApply}>
+              Use these values
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={onDismiss}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {pending?.warnings.map((warning) => (
+        <p key={warning} className="text-xs text-amber-700">
+          {warning}
+        </p>
+      ))}
+
+      {pending?.error ? <CsvIssueReport report={pending} /> : null}
+    </div>
+  );
+}
+
+function InMarketFromAccountsNote({ summary, appliedRate }: { summary: AccountListSummary; appliedRate: number }) {
+  return (
+    <div className="space-y-1 rounded-md border border-dashed bg-muted/30 p-3 text-sm">
+      <p className="font-medium text-foreground">
+        In-market rate: {appliedRate}%{appliedRate !== summary.inMarketRate ? " (capped)" : ""}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {summary.inMarketAccounts} of {summary.targetAccounts} accounts in the imported list are flagged in-market.
+        Clear the list or drop the flag column to set the rate yourself.
+      </p>
     </div>
   );
 }
@@ -2567,18 +3925,32 @@ type BudgetStepProps = {
   control: Control<ScenarioInputSchema>;
   availableBudgetTotal: number;
   onTotalCostChange: (value: number) => void;
+  costLines: CostLineItem[];
+  durationMonths: number;
+  costLineReport: CsvImportReport | null;
+  onCostLinesChange: (lines: CostLineItem[]) => void;
+  onCostLinesUpload: (file: File) => Promise<void>;
   capacitySummary: BudgetCapacitySummary;
   alignmentLevel: AlignmentLevel;
   locale: string;
+  currency: CurrencyCode;
+  tierBudgetBenchmarks: Record<TierKey, number>;
 };
 
 function BudgetStep({
   control,
   availableBudgetTotal,
   onTotalCostChange,
+  costLines,
+  durationMonths,
+  costLineReport,
+  onCostLinesChange,
+  onCostLinesUpload,
   capacitySummary,
   alignmentLevel,
   locale,
+  currency,
+  tierBudgetBenchmarks,
 }: BudgetStepProps) {
   const {
     source,
@@ -2604,6 +3976,15 @@ function BudgetStep({
       maximumFractionDigits: 0,
       minimumFractionDigits: 0,
     }).format(Math.max(0, Math.round(value)));
+  const currencySymbol = formatCurrencySymbol(locale, currency);
+  const benchmarkSummary = TIER_KEYS.map((key) =>
+    new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(tierBudgetBenchmarks[key]),
+  ).join("/");
   const targetListCount = Math.max(0, Math.round(totalTargets));
   const expectedInMarket = Math.max(0, requestedAccounts);
   const rawBudgetCapacity = Math.max(0, Math.round(budgetCapacityAccounts ?? targetListCount));
@@ -2636,7 +4017,7 @@ function BudgetStep({
   } else if (budgetHeadroom > 0) {
     if (overflowBudget) {
       budgetVerdict = `Your budget covers the entire ${formatInt(targetListCount)}-account list at full intensity, leaving headroom to treat ≈${formatInt(budgetHeadroom)} more accounts than expected in-market.`;
-      budgetTooltip = "We convert spend to capacity using tier defaults (≈£60k/£23.5k/£6k per account). Your spend exceeds even the full list size.";
+      budgetTooltip = `We convert spend to capacity using tier defaults (≈${benchmarkSummary} per account). Your spend exceeds even the full list size.`;
     } else {
       budgetVerdict = `Your budget covers all ≈${formatInt(expectedInMarket)} expected in-market accounts at full intensity (headroom ≈${formatInt(budgetHeadroom)}).`;
       budgetTooltip = "Headroom = budget capacity minus expected in-market accounts. Capacity uses your tier’s spend-per-account benchmark.";
@@ -2667,9 +4048,12 @@ function BudgetStep({
             onChange={(event) => onTotalCostChange(Number(event.target.value))}
             inputMode="decimal"
             className="text-base"
+            disabled={costLines.length > 0}
           />
           <p className="mt-1 text-xs text-muted-foreground">
-            Enter the blended annual budget. Split it out if you want more detail.
+            {costLines.length > 0
+              ? "Totalled from the budget line items below."
+              : "Enter the blended annual budget. Split it out if you want more detail."}
           </p>
           <details className="mt-2 text-xs text-muted-foreground">
             <summary className="cursor-pointer text-xs font-semibold text-foreground">
@@ -2694,45 +4078,62 @@ function BudgetStep({
               control={control}
               name="costs.people"
               label="People"
-              prefix="£"
+              prefix={currencySymbol}
               hint="Internal headcount cost attributed to the programme."
+              disabled={costLines.length > 0}
             />
             <NumberField
               control={control}
               name="costs.media"
               label="Media"
-              prefix="£"
+              prefix={currencySymbol}
               hint="Paid media budget dedicated to ABM tactics."
+              disabled={costLines.length > 0}
             />
             <NumberField
               control={control}
               name="costs.dataTech"
               label="Data & tech"
-              prefix="£"
+              prefix={currencySymbol}
               hint="Platforms, intent data, enrichment, and tooling costs."
+              disabled={costLines.length > 0}
             />
             <NumberField
               control={control}
               name="costs.content"
               label="Content"
-              prefix="£"
+              prefix={currencySymbol}
               hint="Content creation, personalization, and asset production spend."
+              disabled={costLines.length > 0}
             />
             <NumberField
               control={control}
               name="costs.agency"
               label="Agency & partners"
-              prefix="£"
+              prefix={currencySymbol}
               hint="External partner and agency fees supporting the programme."
+              disabled={costLines.length > 0}
             />
             <NumberField
               control={control}
               name="costs.other"
               label="Other"
-              prefix="£"
+              prefix={currencySymbol}
               hint="Any additional investments not captured above."
+              disabled={costLines.length > 0}
             />
           </div>
+          <CostLinesBuilder
+            lines={costLines}
+            durationMonths={durationMonths}
+            report={costLineReport}
+            onChange={onCostLinesChange}
+            onUpload={onCostLinesUpload}
+            currencySymbol={currencySymbol}
+            formatCurrency={(value) =>
+              new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: 0 }).format(value)
+            }
+          />
         </AdvancedBlock>
       </div>
 
@@ -2923,6 +4324,7 @@ function BudgetStep({
 type InMarketFieldProps = {
   control: Control<ScenarioInputSchema>;
   variant: "setup" | "tune";
+  sliderBounds: InMarketSliderBounds;
   autoEnabled: boolean;
   onAutoToggle: (value: boolean) => void;
   derivedPercent: number;
@@ -2939,6 +4341,7 @@ type InMarketFieldProps = {
 function InMarketField({
   control,
   variant,
+  sliderBounds,
   autoEnabled,
   onAutoToggle,
   derivedPercent,
@@ -2984,8 +4387,8 @@ function InMarketField({
 
         const liveValue = autoEnabled ? derivedPercent : parsedFieldValue ?? defaultValue;
         const sliderValue = Math.min(
-          IN_MARKET_SLIDER_BOUNDS.max,
-          Math.max(IN_MARKET_SLIDER_BOUNDS.min, Math.round(liveValue)),
+          sliderBounds.max,
+          Math.max(sliderBounds.min, Math.round(liveValue)),
         );
 
         const displayValue = autoEnabled
@@ -3156,12 +4559,12 @@ function InMarketField({
                           label={manualLabel}
                           value={sliderValue}
                           onChange={onManualChange}
-                          min={IN_MARKET_SLIDER_BOUNDS.min}
-                          max={IN_MARKET_SLIDER_BOUNDS.max}
-                          baseMin={IN_MARKET_SLIDER_BOUNDS.baseMin}
-                          baseMax={IN_MARKET_SLIDER_BOUNDS.baseMax}
-                          stretchMin={IN_MARKET_SLIDER_BOUNDS.stretchMin}
-                          stretchMax={IN_MARKET_SLIDER_BOUNDS.stretchMax}
+                          min={sliderBounds.min}
+                          max={sliderBounds.max}
+                          baseMin={sliderBounds.baseMin}
+                          baseMax={sliderBounds.baseMax}
+                          stretchMin={sliderBounds.stretchMin}
+                          stretchMax={sliderBounds.stretchMax}
                           unit="%"
                           description={manualDescription}
                         />
@@ -3188,6 +4591,7 @@ function InMarketField({
               </div>
             </FormControl>
             <FormMessage />
+            <FieldGuardrails name="market.inMarketRate" />
           </FormItem>
         );
       }}
@@ -3195,6 +4599,258 @@ function InMarketField({
   );
 }
 
+type GoalKind = "breakEven" | "roi" | "payback" | "profit";
+
+const GOAL_KINDS: Record<
+  GoalKind,
+  { label: string; valueLabel: string; defaultValue: number; toTarget: (value: number) => GoalSeekTarget }
+> = {
+  breakEven: {
+    label: "break even",
+    valueLabel: "",
+    defaultValue: 0,
+    toTarget: () => ({ metric: "roi", value: 0 }),
+  },
+  roi: {
+    label: "reach a net ROI of",
+    valueLabel: "% ROI",
+    defaultValue: 100,
+    toTarget: (value) => ({ metric: "roi", value: value / 100 }),
+  },
+  payback: {
+    label: "pay back within",
+    valueLabel: "months",
+    defaultValue: 12,
+    toTarget: (value) => ({ metric: "paybackMonths", value }),
+  },
+  profit: {
+    label: "clear a profit after spend of",
+    valueLabel: "in programme currency",
+    defaultValue: 250_000,
+    toTarget: (value) => ({ metric: "profitAfterSpend", value }),
+  },
+};
+
+const GOAL_SEEK_UPLIFTS = [
+  "uplifts.winRateUplift",
+  "uplifts.acvUplift",
+  "uplifts.opportunityRateUplift",
+] as const satisfies GoalSeekInput[];
+
+type GoalSeekAnswerProps = {
+  result: GoalSeekResult | undefined;
+  formatValue: (value: number) => string;
+};
+
+function GoalSeekAnswer({ result, formatValue }: GoalSeekAnswerProps) {
+  if (!result) {
+    return null;
+  }
+
+  if (!result.success) {
+    return <p className="-mt-4 text-xs text-destructive">Out of reach: {result.error}</p>;
+  }
+
+  const { value, direction, alreadyMet } = result.data;
+  const requirement = `${direction === "atLeast" ? "at least" : "at most"} ${formatValue(value)}`;
+
+  return (
+    <p className={cn("-mt-4 text-xs", alreadyMet ? "text-muted-foreground" : "font-medium text-cta")}>
+      {alreadyMet ? `On track — the goal holds at ${requirement}.` : `Needs ${requirement} on its own.`}
+    </p>
+  );
+}
+
+const SENSITIVITY_AXIS_OPTIONS = (Object.keys(SENSITIVITY_AXES) as SensitivityAxis[]).map((axis) => ({
+  value: axis,
+  label: SENSITIVITY_AXES[axis].label,
+}));
+
+const SENSITIVITY_METRIC_OPTIONS = (Object.keys(SENSITIVITY_METRICS) as SensitivityMetric[]).map((metric) => ({
+  value: metric,
+  label: SENSITIVITY_METRICS[metric].label,
+}));
+
+const SENSITIVITY_RESOLUTION_OPTIONS = Array.from({ length: 9 }, (_, index) => ({
+  value: index + 3,
+  label: `${index + 3} × ${index + 3}`,
+}));
+
+type SensitivitySelectFieldProps<Value extends string | number> = {
+  control: Control<ScenarioInputSchema>;
+  name: "sensitivity.rowAxis" | "sensitivity.columnAxis" | "sensitivity.metric" | "sensitivity.resolution";
+  label: string;
+  options: Array<{ value: Value; label: string }>;
+};
+
+function SensitivitySelectField<Value extends string | number>({
+  control,
+  name,
+  label,
+  options,
+}: SensitivitySelectFieldProps<Value>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            value={field.value === undefined ? undefined : String(field.value)}
+            onValueChange={(value) =>
+              field.onChange(options.find((option) => String(option.value) === value)?.value)
+            }
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+type SensitivityTableProps = {
+  grid: SensitivityGrid;
+  locale: string;
+  currency: CurrencyCode;
+};
+
+function SensitivityTable({ grid, locale, currency }: SensitivityTableProps) {
+  const rowAxis = SENSITIVITY_AXES[grid.rowAxis];
+  const columnAxis = SENSITIVITY_AXES[grid.columnAxis];
+  const metric = SENSITIVITY_METRICS[grid.metric];
+  // Payback has no "negative"; a payback beyond the horizon is the shortfall instead.
+  const isShortfall = (value: number | null) =>
+    grid.metric === "paybackMonths" ? value === null : value !== null && value < 0;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full border text-sm">
+        <thead className="bg-muted">
+          <tr>
+            <th className="px-3 py-2 text-left text-muted-foreground">
+              {rowAxis.label} ↓ / {columnAxis.label} →
+            </th>
+            {grid.columns.map((column) => (
+              <th key={column} className="px-3 py-2 text-right text-muted-foreground">
+                {formatSensitivityValue(column, columnAxis.format, locale, currency)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.cells.map((row, rowIdx) => (
+            <tr key={grid.rows[rowIdx]} className="odd:bg-background even:bg-muted/20">
+              <td className="px-3 py-2 text-left text-muted-foreground">
+                {formatSensitivityValue(grid.rows[rowIdx], rowAxis.format, locale, currency)}
+              </td>
+              {row.map((cell) => (
+                <td
+                  key={`${cell.row}-${cell.column}`}
+                  className={cn(
+                    "px-3 py-2 text-right font-medium",
+                    isShortfall(cell.value) ? "text-destructive" : "text-foreground",
+                  )}
+                >
+                  {formatSensitivityValue(cell.value, metric.format, locale, currency)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const TORNADO_SWING_OPTIONS = [10, 20, 30];
+
+type PortfolioBreakdownProps = {
+  portfolio: PortfolioResult;
+  tierLabels: Record<TierKey, string>;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+};
+
+function PortfolioBreakdown({
+  portfolio,
+  tierLabels,
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+}: PortfolioBreakdownProps) {
+  const formatRoi = (roi: number | null) => formatPercent(roi === null ? null : roi * 100, 1);
+  const formatPayback = (months: number | null) => (months === null ? formatNumber(null) : `${formatNumber(months, 1)} mo`);
+  const hoursUsed = portfolio.tiers.reduce((total, tier) => total + tier.allocatedHours, 0);
+  const treated = portfolio.tiers.reduce((total, tier) => total + tier.treatedAccounts, 0);
+  const requested = portfolio.tiers.reduce((total, tier) => total + tier.requestedAccounts, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-lg border bg-background">
+        <table className="w-full min-w-[640px] text-sm">
+          <thead>
+            <tr className="border-b bg-muted/30 text-left">
+              <th className="p-3 font-medium text-muted-foreground">Tier</th>
+              <th className="p-3 font-medium text-muted-foreground">Treated / in-market</th>
+              <th className="p-3 font-medium text-muted-foreground">Team hours</th>
+              <th className="p-3 font-medium text-muted-foreground">Investment</th>
+              <th className="p-3 font-medium text-muted-foreground">Incremental GP</th>
+              <th className="p-3 font-medium text-muted-foreground">Net ROI</th>
+              <th className="p-3 font-medium text-muted-foreground">Payback</th>
+            </tr>
+          </thead>
+          <tbody>
+            {portfolio.tiers.map(({ tier, treatedAccounts, requestedAccounts, allocatedHours, allocatedBudget, result }) => (
+              <tr key={tier} className="border-b">
+                <td className="p-3 font-medium text-foreground">{tierLabels[tier]}</td>
+                <td className="p-3">
+                  {formatNumber(treatedAccounts, 0)} / {formatNumber(requestedAccounts, 0)}
+                </td>
+                <td className="p-3">{formatNumber(allocatedHours, 0)}</td>
+                <td className="p-3">{formatCurrency(allocatedBudget)}</td>
+                <td className="p-3">{formatCurrency(result.outputs.incremental.incrementalGrossProfit)}</td>
+                <td className="p-3">{formatRoi(result.outputs.incremental.roi)}</td>
+                <td className="p-3">{formatPayback(result.outputs.incremental.paybackMonths)}</td>
+              </tr>
+            ))}
+            <tr className="bg-muted/20 font-semibold text-foreground">
+              <td className="p-3">Portfolio</td>
+              <td className="p-3">
+                {formatNumber(treated, 0)} / {formatNumber(requested, 0)}
+              </td>
+              <td className="p-3">{formatNumber(hoursUsed, 0)}</td>
+              <td className="p-3">{formatCurrency(portfolio.incremental.totalCost)}</td>
+              <td className="p-3">{formatCurrency(portfolio.incremental.incrementalGrossProfit)}</td>
+              <td className="p-3">{formatRoi(portfolio.incremental.roi)}</td>
+              <td className="p-3">{formatPayback(portfolio.incremental.paybackMonths)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {portfolio.source === "team"
+          ? `Team pool: ${formatNumber(portfolio.poolHours, 0)} hours a month, ${formatNumber(hoursUsed, 0)} allocated.`
+          : `Budget pool: ${formatCurrency(portfolio.poolBudget)}, split by each tier’s budget per treated account.`}
+      </p>
+    </div>
+  );
+}
+
 type CoverageMetricProps = {
   label: string;
   value: string;
@@ -3292,85 +4948,31 @@ function SummaryRow({ label, primary, secondary, hint }: SummaryRowProps) {
   );
 }
 
-function HintTooltip({ hint, label }: { hint?: ReactNode; label: string }) {
-  if (!hint) {
-    return null;
-  }
-
+// Tooltips plus the live guardrails every field hint reads, so the page body doesn't nest a provider per concern.
+function PlannerProviders({ guardrails, children }: { guardrails: Guardrail[]; children: ReactNode }) {
   return (
-    <Tooltip>
-      <TooltipTrigger asChild>
-        <button
-          type="button"
-          className="text-muted-foreground transition-colors hover:text-foreground"
-          aria-label={`${label} info`}
-        >
-          <Info className="h-4 w-4" aria-hidden />
-        </button>
-      </TooltipTrigger>
-      <TooltipContent side="top" align="end" className="max-w-xs space-y-1 text-sm">
-        {hint}
-      </TooltipContent>
-    </Tooltip>
+    <TooltipProvider delayDuration={200}>
+      <GuardrailContext.Provider value={guardrails}>{children}</GuardrailContext.Provider>
+    </TooltipProvider>
   );
 }
 
-type NumberFieldProps<Name extends FieldPath<ScenarioInputSchema>> = {
-  control: Control<ScenarioInputSchema>;
-  name: Name;
-  label: string;
-  prefix?: string;
-  suffix?: string;
-  hint?: string;
-  sublabel?: string;
-};
+function GuardrailList({ guardrails }: { guardrails: Guardrail[] }) {
+  if (guardrails.length === 0) {
+    return <p>No guardrails triggered. Assumptions sit within typical ranges.</p>;
+  }
 
-function NumberField<Name extends FieldPath<ScenarioInputSchema>>({
-  control,
-  name,
-  label,
-  prefix,
-  suffix,
-  hint,
-  sublabel,
-}: NumberFieldProps<Name>) {
   return (
-    <FormField
-      control={control}
-      name={name}
-      render={({ field }) => (
-        <FormItem>
-          <div className="flex items-center justify-between gap-2">
-            <FormLabel>{label}</FormLabel>
-            <HintTooltip hint={hint} label={label} />
-          </div>
-          {sublabel ? (
-            <p className="text-xs text-muted-foreground">{sublabel}</p>
-          ) : null}
-          <FormControl>
-            <div className="relative">
-              {prefix ? (
-                <span className="pointer-events-none absolute inset-y-0 left-3 flex items-center text-sm text-muted-foreground">
-                  {prefix}
-                </span>
-              ) : null}
-              <Input
-                inputMode="decimal"
-                value={field.value === undefined ? "" : String(field.value)}
-                onChange={(event) => field.onChange(numberParser(event.target.value))}
-                className={cn(prefix ? "pl-7" : undefined, suffix ? "pr-7" : undefined)}
-              />
-              {suffix ? (
-                <span className="pointer-events-none absolute inset-y-0 right-3 flex items-center text-sm text-muted-foreground">
-                  {suffix}
-                </span>
-              ) : null}
-            </div>
-          </FormControl>
-          <FormMessage />
-        </FormItem>
-      )}
-    />
+    <ul className="space-y-2">
+      {guardrails.map((guardrail) => (
+        <li key={`${guardrailKey(guardrail)}-${guardrail.message}`} className="flex items-start gap-2">
+          <Badge variant={GUARDRAIL_BADGE[guardrail.level]} className="shrink-0 capitalize">
+            {guardrail.level}
+          </Badge>
+          <span className={GUARDRAIL_TONE[guardrail.level]}>{guardrail.message}</span>
+        </li>
+      ))}
+    </ul>
   );
 }
 
@@ -3384,7 +4986,7 @@ type SalesCycleFieldProps = {
   onCyclePresetChange: (preset: CyclePresetKey) => void;
   cycleReductionPercent: number;
   cycleIntensity: number;
-  tier: TierKey;
+  cycleReduction: Record<CyclePresetKey, number>;
 };
 
 function SalesCycleField({
@@ -3397,9 +4999,8 @@ function SalesCycleField({
   onCyclePresetChange,
   cycleReductionPercent,
   cycleIntensity,
-  tier,
+  cycleReduction,
 }: SalesCycleFieldProps) {
-  const reductionConfig = TIER_CYCLE_REDUCTION[tier];
   const derivedLabel = Number.isFinite(derivedValue) && derivedValue > 0 ? derivedValue.toFixed(1) : "0.0";
   const baselineLabel = Number.isFinite(baselineValue) && baselineValue > 0 ? baselineValue.toFixed(1) : "—";
   const intensityLabel = Number.isFinite(cycleIntensity) && cycleIntensity > 0 ? cycleIntensity.toFixed(2) : "0.00";
@@ -3407,7 +5008,7 @@ function SalesCycleField({
     ? `${Math.max(0, Math.round(cycleReductionPercent))}%`
     : "0%";
   const warnLowBaseline = Number.isFinite(baselineValue) && baselineValue > 0 && baselineValue < 2;
-  const selectedReduction = Math.round(reductionConfig[cyclePreset] * 100);
+  const selectedReduction = Math.round(cycleReduction[cyclePreset] * 100);
   const presetLabel = cyclePreset === "typical" ? "typical" : "stretch";
 
   return (
@@ -3429,8 +5030,8 @@ function SalesCycleField({
                     : `Auto-derived using the ${presetLabel} ${selectedReduction}% reduction for your tier, scaled by coverage intensity and alignment.`}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  Typical {Math.round(reductionConfig.typical * 100)}% · stretch {Math.round(
-                    reductionConfig.stretch * 100,
+                  Typical {Math.round(cycleReduction.typical * 100)}% · stretch {Math.round(
+                    cycleReduction.stretch * 100,
                   )}% reduction bands.
                 </p>
               </div>
@@ -3480,6 +5081,7 @@ function SalesCycleField({
               </span>
             </div>
             <FormMessage />
+            <FieldGuardrails name="market.salesCycleMonthsAbm" />
             <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
               <span>Baseline {baselineLabel} mo</span>
               <span>Intensity {intensityLabel}</span>
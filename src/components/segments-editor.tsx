@@ -0,0 +1,219 @@
+"use client";
+
+import type { Control } from "react-hook-form";
+
+import { NumberField } from "@/components/form-fields";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { MAX_SEGMENTS } from "@/lib/calculator/segments";
+import type { ScenarioInputSchema } from "@/lib/calculator/schema";
+import type { MarketFunnelInputs, MarketSegment, SegmentSettings, SegmentedResult } from "@/lib/calculator/types";
+
+type SegmentsEditorProps = {
+  control: Control<ScenarioInputSchema>;
+  settings: SegmentSettings;
+  market: MarketFunnelInputs;
+  segmented: SegmentedResult | null;
+  onChange: (settings: SegmentSettings) => void;
+  onRename: (index: number, name: string) => void;
+  currencySymbol: string;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+};
+
+export function SegmentsEditor({
+  control,
+  settings,
+  market,
+  segmented,
+  onChange,
+  onRename,
+  currencySymbol,
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+}: SegmentsEditorProps) {
+  // New segments start from the scenario's own funnel so the first one reproduces the single-market plan.
+  const seedSegment = (position: number): MarketSegment => ({
+    name: `Segment ${position}`,
+    targetAccounts: market.targetAccounts,
+    inMarketRate: market.inMarketRate,
+    baselineWinRate: market.baselineWinRate,
+    baselineAcv: market.baselineAcv,
+    contributionMargin: market.contributionMargin,
+    salesCycleMonthsBaseline: market.salesCycleMonthsBaseline,
+  });
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <CardTitle>Market segments</CardTitle>
+          <CardDescription>
+            Give each region or industry its own funnel. The team and budget are shared in proportion
+            to each segment’s in-market accounts; uplifts and opps per account stay scenario-wide.
+          </CardDescription>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant={settings.enabled ? "default" : "outline"}
+          aria-pressed={settings.enabled}
+          onClick={() =>
+            onChange({
+              enabled: !settings.enabled,
+              segments: settings.segments.length > 0 ? settings.segments : [seedSegment(1)],
+            })
+          }
+        >
+          {settings.enabled ? "Segments on" : "Enable segments"}
+        </Button>
+      </CardHeader>
+      {settings.enabled ? (
+        <CardContent className="space-y-6">
+          {settings.segments.map((segment, index) => (
+            <div key={index} className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  className="max-w-xs font-semibold"
+                  value={segment.name}
+                  aria-label={`Segment ${index + 1} name`}
+                  onChange={(event) => onRename(index, event.target.value)}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  disabled={settings.segments.length === 1}
+                  onClick={() =>
+                    onChange({ ...settings, segments: settings.segments.filter((_, position) => position !== index) })
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                <NumberField
+                  control={control}
+                  name={`segments.segments.${index}.targetAccounts`}
+                  label="Target accounts"
+                />
+                <NumberField
+                  control={control}
+                  name={`segments.segments.${index}.inMarketRate`}
+                  label="In-market rate (%)"
+                  suffix="%"
+                />
+                <NumberField
+                  control={control}
+                  name={`segments.segments.${index}.baselineWinRate`}
+                  label="Baseline win rate (%)"
+                  suffix="%"
+                />
+                <NumberField
+                  control={control}
+                  name={`segments.segments.${index}.baselineAcv`}
+                  label="Baseline ACV"
+                  prefix={currencySymbol}
+                />
+                <NumberField
+                  control={control}
+                  name={`segments.segments.${index}.contributionMargin`}
+                  label="Contribution margin (%)"
+                  suffix="%"
+                />
+                <NumberField
+                  control={control}
+                  name={`segments.segments.${index}.salesCycleMonthsBaseline`}
+                  label="Baseline sales cycle"
+                  suffix="mo"
+                  hint="The ABM cycle is cut by the same share as the scenario’s."
+                />
+              </div>
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={settings.segments.length >= MAX_SEGMENTS}
+            onClick={() =>
+              onChange({ ...settings, segments: [...settings.segments, seedSegment(settings.segments.length + 1)] })
+            }
+          >
+            Add segment
+          </Button>
+          {segmented ? (
+            <SegmentBreakdown
+              segmented={segmented}
+              formatCurrency={formatCurrency}
+              formatNumber={formatNumber}
+              formatPercent={formatPercent}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Fix the highlighted inputs to see each segment’s results.
+            </p>
+          )}
+        </CardContent>
+      ) : null}
+    </Card>
+  );
+}
+
+type SegmentBreakdownProps = {
+  segmented: SegmentedResult;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+};
+
+function SegmentBreakdown({ segmented, formatCurrency, formatNumber, formatPercent }: SegmentBreakdownProps) {
+  const formatRoi = (roi: number | null) => formatPercent(roi === null ? null : roi * 100, 1);
+  const formatPayback = (months: number | null) => (months === null ? formatNumber(null) : `${formatNumber(months, 1)} mo`);
+  const treated = segmented.segments.reduce((total, segment) => total + segment.treatedAccounts, 0);
+  const requested = segmented.segments.reduce((total, segment) => total + segment.requestedAccounts, 0);
+
+  return (
+    <div className="overflow-x-auto rounded-lg border bg-background">
+      <table className="w-full min-w-[640px] text-sm">
+        <thead>
+          <tr className="border-b bg-muted/30 text-left">
+            <th className="p-3 font-medium text-muted-foreground">Segment</th>
+            <th className="p-3 font-medium text-muted-foreground">Treated / in-market</th>
+            <th className="p-3 font-medium text-muted-foreground">Investment</th>
+            <th className="p-3 font-medium text-muted-foreground">Incremental GP</th>
+            <th className="p-3 font-medium text-muted-foreground">Net ROI</th>
+            <th className="p-3 font-medium text-muted-foreground">Payback</th>
+          </tr>
+        </thead>
+        <tbody>
+          {segmented.segments.map(({ name, treatedAccounts, requestedAccounts, allocatedBudget, result }, index) => (
+            <tr key={index} className="border-b">
+              <td className="p-3 font-medium text-foreground">{name || `Segment ${index + 1}`}</td>
+              <td className="p-3">
+                {formatNumber(treatedAccounts, 0)} / {formatNumber(requestedAccounts, 0)}
+              </td>
+              <td className="p-3">{formatCurrency(allocatedBudget)}</td>
+              <td className="p-3">{formatCurrency(result.outputs.incremental.incrementalGrossProfit)}</td>
+              <td className="p-3">{formatRoi(result.outputs.incremental.roi)}</td>
+              <td className="p-3">{formatPayback(result.outputs.incremental.paybackMonths)}</td>
+            </tr>
+          ))}
+          <tr className="bg-muted/20 font-semibold text-foreground">
+            <td className="p-3">All segments</td>
+            <td className="p-3">
+              {formatNumber(treated, 0)} / {formatNumber(requested, 0)}
+            </td>
+            <td className="p-3">{formatCurrency(segmented.incremental.totalCost)}</td>
+            <td className="p-3">{formatCurrency(segmented.incremental.incrementalGrossProfit)}</td>
+            <td className="p-3">{formatRoi(segmented.incremental.roi)}</td>
+            <td className="p-3">{formatPayback(segmented.incremental.paybackMonths)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import type { TornadoChart, TornadoDriverKey } from "@/lib/calculator/types";
+
+const TORNADO_LABELS: Record<TornadoDriverKey, string> = {
+  targetAccounts: "Target accounts",
+  qualifiedOppsPerAccount: "Opps per account",
+  baselineWinRate: "Baseline win rate",
+  baselineAcv: "Baseline ACV",
+  contributionMargin: "Contribution margin",
+  winRateUplift: "Win-rate uplift",
+  acvUplift: "ACV uplift",
+  opportunityRateUplift: "Opportunity uplift",
+  programmeCost: "Programme cost",
+  alignment: "Sales & marketing alignment",
+  hoursPerAccount: "Hours per account",
+};
+
+type TornadoChartViewProps = {
+  tornado: TornadoChart;
+  formatCurrency: (value: number | null) => string;
+  formatNumber: (value: number | null, fractionDigits?: number) => string;
+  formatPercent: (value: number | null, fractionDigits?: number) => string;
+};
+
+export function TornadoChartView({ tornado, formatCurrency, formatNumber, formatPercent }: TornadoChartViewProps) {
+  const baseRoi = tornado.baseRoi ?? 0;
+  const span = Math.max(
+    ...tornado.bars.flatMap((bar) => [bar.low.roi, bar.high.roi].map((roi) => Math.abs((roi ?? 0) - baseRoi))),
+    Number.EPSILON,
+  );
+  const toPosition = (roi: number | null) => 50 + (((roi ?? 0) - baseRoi) / span) * 50;
+  const formatRoi = (roi: number | null) => formatPercent(roi === null ? null : roi * 100, 1);
+
+  const formatDriverValue = (driver: TornadoDriverKey, value: number | string) => {
+    if (typeof value === "string") {
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+    switch (driver) {
+      case "baselineAcv":
+      case "programmeCost":
+        return formatCurrency(value);
+      case "targetAccounts":
+        return formatNumber(value, 0);
+      case "qualifiedOppsPerAccount":
+      case "hoursPerAccount":
+        return formatNumber(value, 1);
+      default:
+        return formatPercent(value, 1);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {tornado.bars.map((bar) => {
+        const lowPosition = toPosition(bar.low.roi);
+        const highPosition = toPosition(bar.high.roi);
+
+        return (
+          <div key={bar.driver} className="grid grid-cols-[10rem_1fr] items-center gap-3 text-xs">
+            <div>
+              <p className="font-medium text-foreground">{TORNADO_LABELS[bar.driver]}</p>
+              <p className="text-muted-foreground">
+                {formatDriverValue(bar.driver, bar.low.value)} – {formatDriverValue(bar.driver, bar.high.value)}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <div className="relative h-5 rounded bg-muted/40">
+                <div className="absolute inset-y-0 left-1/2 w-px bg-foreground/40" />
+                <div
+                  className="absolute inset-y-0.5 rounded-sm bg-muted-foreground/50"
+                  style={{
+                    left: `${Math.min(lowPosition, 50)}%`,
+                    width: `${Math.abs(50 - lowPosition)}%`,
+                  }}
+                  title={`Low: ${formatRoi(bar.low.roi)}`}
+                />
+                <div
+                  className="absolute inset-y-0.5 rounded-sm bg-cta"
+                  style={{
+                    left: `${Math.min(highPosition, 50)}%`,
+                    width: `${Math.abs(50 - highPosition)}%`,
+                  }}
+                  title={`High: ${formatRoi(bar.high.roi)}`}
+                />
+              </div>
+              <p className="text-muted-foreground">
+                ROI {formatRoi(bar.low.roi)} → {formatRoi(bar.high.roi)} · GP swing{" "}
+                {formatCurrency(bar.incrementalGrossProfitSwing)} · Payback swing{" "}
+                {bar.paybackSwing === null ? formatNumber(null) : `${formatNumber(bar.paybackSwing, 1)} mo`}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs text-muted-foreground">
+        <span className="mr-1 inline-block h-2 w-3 rounded-sm bg-muted-foreground/50" /> Low case
+        <span className="ml-3 mr-1 inline-block h-2 w-3 rounded-sm bg-cta" /> High case
+      </p>
+    </div>
+  );
+}
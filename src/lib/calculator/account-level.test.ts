@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateAccountLevel, writeMarketInput } from "./account-level";
+import { parseAccountCsv } from "./accounts";
+import { calculateScenario } from "./calculator";
+import { deriveCoverage } from "./capacity";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("per-account model", () => {
+  const AVERAGES: ScenarioInputs = {
+    ...BASE_SCENARIO,
+    market: { ...BASE_SCENARIO.market, targetAccounts: 100, inMarketRate: 30 },
+  };
+
+  it("matches the averages model when every account sits at the averages", () => {
+    const accounts = Array.from({ length: 100 }, (_, index) => ({ name: `Account ${index + 1}` }));
+    const averages = calculateScenario(AVERAGES).outputs;
+    const perAccount = calculateScenario({
+      ...AVERAGES,
+      accountList: { fileName: "accounts.csv", importedAt: "2026-10-01", accounts },
+      accountModel: "perAccount",
+    }).outputs;
+
+    expect(averages.accounts).toBeNull();
+    expect(perAccount.baseline.inMarketAccounts).toBeCloseTo(averages.baseline.inMarketAccounts, 6);
+    expect(perAccount.abm.expectedWins).toBeCloseTo(averages.abm.expectedWins, 6);
+    expect(perAccount.abm.acv).toBe(averages.abm.acv);
+    expect(perAccount.incremental.incrementalGrossProfit).toBeCloseTo(averages.incremental.incrementalGrossProfit, 0);
+    expect(perAccount.accounts).toHaveLength(100);
+  });
+
+  it("treats only the accounts the budget covers, as the averages model does", () => {
+    const capped: ScenarioInputs = {
+      ...AVERAGES,
+      capacity: { ...AVERAGES.capacity, source: "budget", budgetCapacityAccounts: 5 },
+    };
+    const flagged = Array.from({ length: 100 }, (_, index) => ({
+      name: `Account ${index + 1}`,
+      inMarket: index % 10 < 3,
+      estimatedAcv: index === 90 ? 500_000 : undefined,
+    }));
+    const averages = calculateScenario(capped).outputs;
+    const perAccount = calculateScenario({
+      ...capped,
+      accountList: { fileName: "accounts.csv", importedAt: "2026-10-01", accounts: flagged },
+      accountModel: "perAccount",
+    }).outputs;
+
+    expect(deriveCoverage(capped.market, capped.capacity).treatedAccounts).toBe(5);
+    expect(averages.baseline.inMarketAccounts).toBe(5);
+    expect(perAccount.baseline.inMarketAccounts).toBe(5);
+    expect(perAccount.accounts?.filter((row) => row.treated)).toHaveLength(5);
+    // The largest in-market account is picked first; out-of-market accounts take none of the cap.
+    expect(perAccount.accounts?.[0]).toMatchObject({ name: "Account 91", treated: true });
+    expect(perAccount.accounts?.find((row) => row.name === "Account 1")?.treated).toBe(true);
+    expect(perAccount.accounts?.find((row) => row.name === "Account 100")?.treated).toBe(false);
+
+    const uniform = calculateScenario({
+      ...capped,
+      accountList: {
+        fileName: "accounts.csv",
+        importedAt: "2026-10-01",
+        accounts: Array.from({ length: 100 }, (_, index) => ({ name: `Account ${index + 1}` })),
+      },
+      accountModel: "perAccount",
+    }).outputs;
+    expect(uniform.baseline.inMarketAccounts).toBe(4.8);
+    expect(Math.sign(uniform.incremental.roi ?? 0)).toBe(Math.sign(averages.incremental.roi ?? 0));
+  });
+
+  it("weighs large accounts by their own size and leaves untreated accounts out of the totals", () => {
+    const market = { ...AVERAGES.market, baselineWinRate: 20, contributionMargin: 50 };
+    const uplifts = { winRateUplift: 10, acvUplift: 0, opportunityRateUplift: 0 };
+    const { baseline, abm, contributions } = calculateAccountLevel(
+      [
+        { name: "Small", estimatedAcv: 50_000, inMarket: true, expectedOpps: 1 },
+        { name: "Giant", estimatedAcv: 2_000_000, inMarketProbability: 50, expectedOpps: 2 },
+        { name: "Parked", estimatedAcv: 500_000, inMarket: true, treated: false },
+      ],
+      market,
+      uplifts,
+    );
+
+    expect(baseline).toEqual({
+      inMarketAccounts: 1.5,
+      qualifiedOpps: 2,
+      expectedWins: 0.4,
+      revenue: 410_000,
+      grossProfit: 205_000,
+    });
+    expect(abm.expectedWins).toBeCloseTo(0.6, 10);
+    expect(abm.acv).toBe(1_025_000);
+    expect(contributions.map((row) => [row.name, row.incrementalGrossProfit, row.share])).toEqual([
+      ["Giant", 100_000, 100_000 / 102_500],
+      ["Small", 2_500, 2_500 / 102_500],
+      ["Parked", 0, 0],
+    ]);
+    expect(contributions[2]).toMatchObject({ treated: false, inMarketProbability: 100, expectedOpps: 1.3 });
+  });
+
+  it("scales each account's own drivers when a what-if moves the market average", () => {
+    const perAccount: ScenarioInputs = {
+      ...AVERAGES,
+      market: { ...AVERAGES.market, baselineAcv: 100_000 },
+      accountList: {
+        fileName: "accounts.csv",
+        importedAt: "2026-10-01",
+        accounts: [
+          { name: "Acme", estimatedAcv: 300_000, inMarket: true, expectedOpps: 2 },
+          { name: "Globex", inMarketProbability: 60 },
+          { name: "Initech", inMarket: false },
+        ],
+      },
+      accountModel: "perAccount",
+    };
+
+    const acv = writeMarketInput(perAccount, "baselineAcv", 120_000);
+    const inMarket = writeMarketInput(perAccount, "inMarketRate", 45);
+    const winRate = writeMarketInput(perAccount, "baselineWinRate", 30);
+
+    expect(acv.market.baselineAcv).toBe(120_000);
+    expect(acv.accountList?.accounts.map((account) => account.estimatedAcv)).toEqual([360_000, 120_000, 120_000]);
+    expect(inMarket.accountList?.accounts.map((account) => account.inMarketProbability)).toEqual([100, 90, 0]);
+    expect(winRate.accountList).toBe(perAccount.accountList);
+    expect(writeMarketInput({ ...perAccount, accountModel: "averages" }, "baselineAcv", 120_000).accountList).toBe(
+      perAccount.accountList,
+    );
+  });
+
+  it("imports per-account probabilities, expected opps and treatment flags", () => {
+    const result = parseAccountCsv(
+      ["Name,In-market probability,Expected opps,Treated", "Acme,35%,2,yes", "Globex,140,x,maybe"].join("\n"),
+      "accounts.csv",
+      "2026-10-01",
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      issues: [
+        { row: 3, column: "In-market probability", message: '"140" is not a percentage between 0 and 100.' },
+        { row: 3, column: "Expected opps", message: '"x" is not a count of opportunities.' },
+        { row: 3, column: "Treated", message: '"maybe" is not a yes/no flag.' },
+      ],
+    });
+    expect(parseAccountCsv("Name,Probability,Opps,Treated\nAcme,35%,2,no", "a.csv", "2026-10-01")).toMatchObject({
+      success: true,
+      data: { accounts: [{ name: "Acme", inMarketProbability: 35, expectedOpps: 2, treated: false }] },
+    });
+  });
+});
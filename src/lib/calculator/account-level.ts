@@ -0,0 +1,214 @@
+import { percentOf, roundMoney, subtractMoney, sumMoney, toSignificant } from "./decimal";
+import {
+  AbmOutputs,
+  AccountContribution,
+  BaselineOutputs,
+  MarketFunnelInputs,
+  ScenarioInputs,
+  TargetAccount,
+  UpliftInputs,
+} from "./types";
+
+const ONE_HUNDRED = 100;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+export interface AccountDrivers {
+  acv: number;
+  inMarketProbability: number;
+  expectedOpps: number;
+  treated: boolean;
+}
+
+export interface AccountLevelOutputs {
+  baseline: BaselineOutputs;
+  abm: AbmOutputs;
+  contributions: AccountContribution[];
+}
+
+/**
+ * Fills whatever an account leaves blank from the market averages. An in-market flag reads as certain
+ * (100%) or ruled out (0%) so flagged lists sum to the same in-market count the averages model uses.
+ * Accounts are eligible for treatment unless marked otherwise; the capacity decides which are treated.
+ */
+export const resolveAccountDrivers = (account: TargetAccount, market: MarketFunnelInputs): AccountDrivers => ({
+  acv: floorZero(account.estimatedAcv ?? market.baselineAcv),
+  inMarketProbability: clamp(
+    account.inMarketProbability ??
+      (account.inMarket === undefined ? market.inMarketRate : account.inMarket ? ONE_HUNDRED : 0),
+    0,
+    ONE_HUNDRED,
+  ),
+  expectedOpps: floorZero(account.expectedOpps ?? market.qualifiedOppsPerAccount),
+  treated: account.treated ?? true,
+});
+
+// The market inputs each account can carry its own value for, and how a scaled value is written back.
+const ACCOUNT_SCALED_INPUTS: Partial<
+  Record<keyof MarketFunnelInputs, (account: TargetAccount, drivers: AccountDrivers, factor: number) => TargetAccount>
+> = {
+  inMarketRate: (account, drivers, factor) => ({
+    ...account,
+    inMarketProbability: toSignificant(clamp(drivers.inMarketProbability * factor, 0, ONE_HUNDRED)),
+  }),
+  qualifiedOppsPerAccount: (account, drivers, factor) => ({
+    ...account,
+    expectedOpps: toSignificant(drivers.expectedOpps * factor),
+  }),
+  baselineAcv: (account, drivers, factor) => ({ ...account, estimatedAcv: roundMoney(drivers.acv * factor) }),
+};
+
+/**
+ * Sets one market input the way the engine will read it. Per-account mode takes ACV, in-market rate and
+ * opps from each account, so moving the average scales every account's own value by the same factor;
+ * otherwise a what-if on those inputs would only reach accounts that left them blank.
+ */
+export const writeMarketInput = (
+  inputs: ScenarioInputs,
+  key: keyof MarketFunnelInputs,
+  value: number,
+): ScenarioInputs => {
+  const market = { ...inputs.market, [key]: value };
+  const scale = ACCOUNT_SCALED_INPUTS[key];
+  const base = inputs.market[key];
+  const { accountList } = inputs;
+
+  if (inputs.accountModel !== "perAccount" || !accountList?.accounts.length || !scale || !(base > 0)) {
+    return { ...inputs, market };
+  }
+
+  const factor = value / base;
+  return {
+    ...inputs,
+    market,
+    accountList: {
+      ...accountList,
+      accounts: accountList.accounts.map((account) =>
+        scale(account, resolveAccountDrivers(account, inputs.market), factor),
+      ),
+    },
+  };
+};
+
+/**
+ * Picks the accounts the programme can cover: accounts with some chance of being in market and not marked
+ * untreated, best first by in-market probability × ACV, until their expected in-market count would pass `capacity` (the averages model's treated
+ * in-market accounts). Whole accounts only, so coverage can fall just short of the cap but never over it.
+ */
+const selectTreated = (drivers: AccountDrivers[], capacity: number): Set<number> => {
+  const ranked = drivers
+    .map((driver, index) => ({ index, driver }))
+    .filter(({ driver }) => driver.treated && driver.inMarketProbability > 0)
+    .sort(
+      (left, right) =>
+        right.driver.inMarketProbability * right.driver.acv - left.driver.inMarketProbability * left.driver.acv ||
+        left.index - right.index,
+    );
+
+  const selected = new Set<number>();
+  let covered = 0;
+  ranked.forEach(({ index, driver }) => {
+    const next = toSignificant(covered + driver.inMarketProbability / ONE_HUNDRED);
+    if (next <= capacity) {
+      selected.add(index);
+      covered = next;
+    }
+  });
+  return selected;
+};
+
+/**
+ * Runs the baseline and ABM funnels account by account and sums them into the engine's usual outputs,
+ * so a handful of large accounts weigh as much as they should in a 1:1 case. Only treated accounts count
+ * towards the totals, as the averages model counts only covered accounts; untreated ones, whether marked so
+ * or past the capacity, are still listed with their baseline so the table shows what was left out.
+ */
+export const calculateAccountLevel = (
+  accounts: TargetAccount[],
+  market: MarketFunnelInputs,
+  uplifts: UpliftInputs,
+  capacity = Number.POSITIVE_INFINITY,
+): AccountLevelOutputs => {
+  const abmWinRate = clamp(market.baselineWinRate + uplifts.winRateUplift, 0, ONE_HUNDRED);
+  const resolved = accounts.map((account) => resolveAccountDrivers(account, market));
+  const selected = selectTreated(resolved, capacity);
+
+  const rows = accounts.map((account, index) => {
+    const drivers = { ...resolved[index], treated: selected.has(index) };
+    const inMarket = drivers.inMarketProbability / ONE_HUNDRED;
+    const baselineOpps = floorZero(inMarket * drivers.expectedOpps);
+    const baselineWins = floorZero(percentOf(baselineOpps, market.baselineWinRate));
+    const baselineRevenue = roundMoney(floorZero(baselineWins * drivers.acv));
+    const baselineGrossProfit = roundMoney(floorZero(percentOf(baselineRevenue, market.contributionMargin)));
+
+    const abmOpps = drivers.treated
+      ? floorZero(percentOf(baselineOpps, ONE_HUNDRED + uplifts.opportunityRateUplift))
+      : baselineOpps;
+    const abmWins = drivers.treated ? floorZero(percentOf(abmOpps, abmWinRate)) : baselineWins;
+    const abmAcv = drivers.treated
+      ? roundMoney(floorZero(percentOf(drivers.acv, ONE_HUNDRED + uplifts.acvUplift)))
+      : drivers.acv;
+    const abmRevenue = roundMoney(floorZero(abmWins * abmAcv));
+    const abmGrossProfit = roundMoney(floorZero(percentOf(abmRevenue, market.contributionMargin)));
+
+    return {
+      account,
+      drivers,
+      inMarket,
+      baseline: { opps: baselineOpps, wins: baselineWins, revenue: baselineRevenue, grossProfit: baselineGrossProfit },
+      abm: { opps: abmOpps, wins: abmWins, acv: abmAcv, revenue: abmRevenue, grossProfit: abmGrossProfit },
+    };
+  });
+
+  const treated = rows.filter((row) => row.drivers.treated);
+  // Trimmed to working precision so summed probabilities carry no binary drift into the display.
+  const total = (pick: (row: (typeof rows)[number]) => number) =>
+    toSignificant(treated.reduce((sum, row) => sum + pick(row), 0));
+  const totalMoney = (pick: (row: (typeof rows)[number]) => number) => sumMoney(treated.map(pick));
+
+  const baseline: BaselineOutputs = {
+    inMarketAccounts: total((row) => row.inMarket),
+    qualifiedOpps: total((row) => row.baseline.opps),
+    expectedWins: total((row) => row.baseline.wins),
+    revenue: totalMoney((row) => row.baseline.revenue),
+    grossProfit: totalMoney((row) => row.baseline.grossProfit),
+  };
+
+  const abmWins = total((row) => row.abm.wins);
+  const abmRevenue = totalMoney((row) => row.abm.revenue);
+  const meanAcv = treated.length > 0 ? sumMoney(treated.map((row) => row.abm.acv)) / treated.length : 0;
+  const abm: AbmOutputs = {
+    qualifiedOpps: total((row) => row.abm.opps),
+    expectedWins: abmWins,
+    // Win-weighted, so break-even wins are priced at the accounts expected to close.
+    acv: roundMoney(abmWins > 0 ? abmRevenue / abmWins : meanAcv),
+    revenue: abmRevenue,
+    grossProfit: totalMoney((row) => row.abm.grossProfit),
+  };
+
+  const incrementalTotal = subtractMoney(abm.grossProfit, baseline.grossProfit);
+  const contributions = rows
+    .map(({ account, drivers, baseline: accountBaseline, abm: accountAbm }): AccountContribution => {
+      const incrementalGrossProfit = subtractMoney(accountAbm.grossProfit, accountBaseline.grossProfit);
+      return {
+        name: account.name,
+        tier: account.tier,
+        segment: account.segment,
+        treated: drivers.treated,
+        acv: drivers.acv,
+        inMarketProbability: drivers.inMarketProbability,
+        expectedOpps: drivers.expectedOpps,
+        baselineGrossProfit: accountBaseline.grossProfit,
+        abmGrossProfit: accountAbm.grossProfit,
+        incrementalGrossProfit,
+        share: incrementalTotal > 0 ? incrementalGrossProfit / incrementalTotal : null,
+      };
+    })
+    .sort(
+      (left, right) =>
+        right.incrementalGrossProfit - left.incrementalGrossProfit || right.abmGrossProfit - left.abmGrossProfit,
+    );
+
+  return { baseline, abm, contributions };
+};
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+
+import { parseAccountCsv, summariseAccountList } from "./accounts";
+import { convertScenarioCurrency } from "./currency";
+import { roundMoney } from "./decimal";
+import { planScenario } from "./planner";
+import { DEFAULT_SCENARIO } from "./schema";
+
+describe("account list import", () => {
+  const CSV = [
+    "Company Name,Tier,Segment,Estimated ACV,Intent,Contact email",
+    '"Acme, Inc.",1:1,Enterprise,"£150,000",yes,jo@acme.example',
+    "Globex,1:few,Enterprise,90000,no,",
+    "Initech,one-to-many,Mid-market,,,",
+    "",
+  ].join("\r\n");
+  const importList = () => {
+    const result = parseAccountCsv(CSV, "targets.csv", "2026-10-19");
+    if (!result.success) throw new Error(result.error);
+    return result.data;
+  };
+
+  it("reads aliased headers and quoted cells and drops columns outside the list", () => {
+    const result = parseAccountCsv(CSV, "targets.csv", "2026-10-19");
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data).toEqual({
+      fileName: "targets.csv",
+      importedAt: "2026-10-19",
+      accounts: [
+        { name: "Acme, Inc.", tier: "oneToOne", segment: "Enterprise", estimatedAcv: 150_000, inMarket: true },
+        { name: "Globex", tier: "oneToFew", segment: "Enterprise", estimatedAcv: 90_000, inMarket: false },
+        { name: "Initech", tier: "oneToMany", segment: "Mid-market", inMarket: false },
+      ],
+    });
+    expect(result.warnings).toEqual(["Ignored columns: Contact email. Only company names are kept."]);
+  });
+
+  it("reports every bad row against its spreadsheet row", () => {
+    const result = parseAccountCsv(
+      ["name;tier;acv;in market", "Acme;1:1;lots;yes", "jo@acme.example;;;", "acme;premium;;maybe"].join("\n"),
+      "targets.csv",
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: "Fix 3 rows in targets.csv and import it again.",
+      issues: [
+        { row: 2, column: "acv", message: '"lots" is not a number.' },
+        { row: 3, column: "name", message: "Looks like an email address; use the company name only." },
+        { row: 4, column: "name", message: "Duplicate of row 2." },
+        { row: 4, column: "tier", message: 'Unknown tier "premium"; use 1:1, 1:few or 1:many.' },
+        { row: 4, column: "in market", message: '"maybe" is not a yes/no flag.' },
+      ],
+    });
+    expect(parseAccountCsv("segment\nEnterprise", "targets.csv")).toMatchObject({
+      success: false,
+      issues: [{ row: 1, column: null }],
+    });
+  });
+
+  it("reads comma-decimal amounts from semicolon-delimited exports", () => {
+    const result = parseAccountCsv(
+      ["Name;Estimated ACV;In-market probability", "Acme;150.000;35,5", "Globex;1.234,56 €;", "Initech;1,234.56;"].join(
+        "\n",
+      ),
+      "targets.csv",
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      issues: [{ row: 4, column: "Estimated ACV", message: '"1,234.56" is not a number.' }],
+    });
+
+    const fixed = parseAccountCsv(
+      ["Name;Estimated ACV;In-market probability", "Acme;150.000;35,5", "Globex;1.234,56 €;"].join("\n"),
+      "targets.csv",
+    );
+    expect(fixed.success && fixed.data.accounts).toEqual([
+      { name: "Acme", estimatedAcv: 150_000, inMarketProbability: 35.5 },
+      { name: "Globex", estimatedAcv: 1234.56 },
+    ]);
+  });
+
+  it("drives target accounts, ACV and in-market rate from the list", () => {
+    const list = importList();
+    const summary = summariseAccountList(list, DEFAULT_SCENARIO.market);
+
+    expect(summary).toMatchObject({
+      targetAccounts: 3,
+      weightedAcv: 150_000,
+      accountsWithAcv: 2,
+      inMarketRate: 33.3,
+      inMarketAccounts: 1,
+      tiers: { oneToOne: 1, oneToFew: 1, oneToMany: 1 },
+      segments: [
+        { segment: "Enterprise", accounts: 2 },
+        { segment: "Mid-market", accounts: 1 },
+      ],
+    });
+
+    const plan = planScenario(
+      { ...DEFAULT_SCENARIO, accountList: list },
+      {
+        tier: "oneToFew",
+        preset: "expected",
+        cyclePreset: "typical",
+        buyingWindowMonths: 3,
+        inMarketAuto: true,
+        cycleOverride: false,
+        flatBudget: 0,
+      },
+    );
+    expect(plan.inMarket.fromAccounts).toBe(true);
+    expect(plan.inputs.market).toMatchObject({ targetAccounts: 3, baselineAcv: 150_000, inMarketRate: 33.3 });
+  });
+
+  it("weights the list's ACV by each account's expected in-market opps", () => {
+    const market = { ...DEFAULT_SCENARIO.market, inMarketRate: 20, qualifiedOppsPerAccount: 1 };
+    const accounts = [
+      { name: "Acme", estimatedAcv: 100_000, inMarketProbability: 50, expectedOpps: 2 },
+      { name: "Globex", estimatedAcv: 200_000, inMarketProbability: 25 },
+      { name: "Initech", estimatedAcv: 400_000 },
+      { name: "Umbrella", estimatedAcv: 1_000_000, inMarket: false },
+      { name: "Hooli" },
+    ];
+    const summary = summariseAccountList({ fileName: "accounts.csv", importedAt: "2026-10-19", accounts }, market);
+    const outOfMarket = [{ name: "Umbrella", estimatedAcv: 90_000, inMarket: false }];
+    const unweighted = summariseAccountList(
+      { fileName: "accounts.csv", importedAt: "2026-10-19", accounts: outOfMarket },
+      market,
+    );
+
+    // Weights: Acme 50 × 2, Globex 25 × 1, Initech falls back to 20 × 1, Umbrella is out of market.
+    expect(summary.weightedAcv).toBe(roundMoney((100_000 * 100 + 200_000 * 25 + 400_000 * 20) / 145));
+    expect(summary.accountsWithAcv).toBe(4);
+    expect(unweighted.weightedAcv).toBe(90_000);
+  });
+
+  it("reads spelled-out tier names", () => {
+    const result = parseAccountCsv(
+      ["name,tier", "Acme,1-to-1", "Globex,1to1", "Initech,1-to-few", "Umbrella,1 to many"].join("\n"),
+      "targets.csv",
+    );
+
+    expect(result.success && result.data.accounts.map((account) => account.tier)).toEqual([
+      "oneToOne",
+      "oneToOne",
+      "oneToFew",
+      "oneToMany",
+    ]);
+  });
+
+  it("converts account ACVs with the rest of the money inputs", () => {
+    const converted = convertScenarioCurrency({ ...DEFAULT_SCENARIO, accountList: importList() }, "USD");
+
+    expect(converted.success && converted.data.accountList?.accounts.map((account) => account.estimatedAcv)).toEqual([
+      190_500,
+      114_300,
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+import { resolveAccountDrivers } from "./account-level";
+import {
+  detectDecimalSeparator,
+  mapCsvColumns,
+  normaliseKey,
+  parseCsvAmount,
+  parseCsvFlag,
+  readCsvRecords,
+} from "./csv";
+import { roundMoney, sumMoney } from "./decimal";
+import { TIER_KEYS } from "./portfolio";
+import { AccountList, AccountListSummary, CsvRowIssue, MarketFunnelInputs, TargetAccount, TierKey } from "./types";
+
+// Matches the schema's cap on market.targetAccounts.
+export const MAX_ACCOUNT_LIST_ROWS = 2000;
+
+type AccountColumn = keyof TargetAccount;
+
+const COLUMN_ALIASES: Record<AccountColumn, string[]> = {
+  name: ["name", "account", "accountname", "company", "companyname"],
+  tier: ["tier", "abmtier"],
+  segment: ["segment", "marketsegment"],
+  estimatedAcv: ["estimatedacv", "acv", "estacv"],
+  inMarket: ["inmarket", "intent", "intentflag", "inmarketflag"],
+  inMarketProbability: ["inmarketprobability", "probability", "inmarketlikelihood", "propensity"],
+  expectedOpps: ["expectedopps", "opps", "opportunities", "expectedopportunities"],
+  treated: ["treated", "treatment", "abmtreated", "intreatment"],
+};
+
+const TIER_ALIASES: Record<string, TierKey> = {
+  "11": "oneToOne",
+  "1to1": "oneToOne",
+  onetoone: "oneToOne",
+  "1few": "oneToFew",
+  "1tofew": "oneToFew",
+  onetofew: "oneToFew",
+  "1many": "oneToMany",
+  "1tomany": "oneToMany",
+  onetomany: "oneToMany",
+};
+
+export type AccountImportResult =
+  | { success: true; data: AccountList; warnings: string[] }
+  | { success: false; error: string; issues: CsvRowIssue[] };
+
+/**
+ * Reads a target-account CSV (name, tier, segment, estimated ACV, in-market flag, plus the per-account
+ * in-market probability, expected opps and treated flag). Only the name column is required. Every row is
+ * checked and all problems are reported together by spreadsheet row number; columns outside the list are
+ * dropped so nothing beyond company names is kept with the scenario.
+ */
+export const parseAccountCsv = (
+  text: string,
+  fileName: string,
+  importedAt: string = new Date().toISOString().slice(0, 10),
+): AccountImportResult => {
+  const records = readCsvRecords(text);
+  const decimal = detectDecimalSeparator(text);
+
+  if (!records) {
+    return { success: false, error: `${fileName} has an unclosed quote.`, issues: [] };
+  }
+
+  const [header = [], ...rows] = records;
+  const { index: columnIndex, ignored } = mapCsvColumns(header, COLUMN_ALIASES);
+
+  if (!columnIndex.has("name")) {
+    return {
+      success: false,
+      error: `${fileName} needs a "name" column with one company per row.`,
+      issues: [{ row: 1, column: null, message: "No name column found in the header row." }],
+    };
+  }
+
+  const issues: CsvRowIssue[] = [];
+  const accounts: TargetAccount[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((cell) => cell.trim() === "")) {
+      return;
+    }
+
+    const read = (column: AccountColumn) => {
+      const position = columnIndex.get(column);
+      return position === undefined ? "" : (cells[position] ?? "").trim();
+    };
+    const issue = (column: AccountColumn, message: string) =>
+      issues.push({ row, column: header[columnIndex.get(column) ?? -1]?.trim() || column, message });
+    const account: TargetAccount = { name: read("name") };
+
+    if (!account.name) {
+      issue("name", "Company name is missing.");
+    } else if (account.name.includes("@")) {
+      issue("name", "Looks like an email address; use the company name only.");
+    } else if (account.name.length > 200) {
+      issue("name", "Company name is longer than 200 characters.");
+    } else {
+      const duplicateOf = seen.get(account.name.toLowerCase());
+      if (duplicateOf !== undefined) {
+        issue("name", `Duplicate of row ${duplicateOf}.`);
+      }
+      seen.set(account.name.toLowerCase(), row);
+    }
+
+    const tier = read("tier");
+    if (tier) {
+      account.tier = TIER_ALIASES[normaliseKey(tier)];
+      if (!account.tier) {
+        issue("tier", `Unknown tier "${tier}"; use 1:1, 1:few or 1:many.`);
+      }
+    }
+
+    const segment = read("segment");
+    if (segment) {
+      account.segment = segment;
+    }
+
+    const acv = read("estimatedAcv");
+    if (acv) {
+      const parsed = parseCsvAmount(acv, decimal);
+      if (parsed === null) {
+        issue("estimatedAcv", `"${acv}" is not a number.`);
+      } else if (parsed < 0) {
+        issue("estimatedAcv", "Estimated ACV can't be negative.");
+      } else {
+        account.estimatedAcv = roundMoney(parsed);
+      }
+    }
+
+    const flag = read("inMarket");
+    if (flag) {
+      const inMarket = parseCsvFlag(flag);
+      if (inMarket !== null) {
+        account.inMarket = inMarket;
+      } else {
+        issue("inMarket", `"${flag}" is not a yes/no flag.`);
+      }
+    } else if (columnIndex.has("inMarket")) {
+      // A blank flag means no intent signal, not an unknown.
+      account.inMarket = false;
+    }
+
+    const probability = read("inMarketProbability");
+    if (probability) {
+      const parsed = parseCsvAmount(probability, decimal);
+      if (parsed === null || parsed < 0 || parsed > 100) {
+        issue("inMarketProbability", `"${probability}" is not a percentage between 0 and 100.`);
+      } else {
+        account.inMarketProbability = parsed;
+      }
+    }
+
+    const opps = read("expectedOpps");
+    if (opps) {
+      const parsed = parseCsvAmount(opps, decimal);
+      if (parsed === null || parsed < 0) {
+        issue("expectedOpps", `"${opps}" is not a count of opportunities.`);
+      } else {
+        account.expectedOpps = parsed;
+      }
+    }
+
+    const treated = read("treated");
+    if (treated) {
+      const parsed = parseCsvFlag(treated);
+      if (parsed !== null) {
+        account.treated = parsed;
+      } else {
+        issue("treated", `"${treated}" is not a yes/no flag.`);
+      }
+    }
+
+    accounts.push(account);
+  });
+
+  if (accounts.length === 0 && issues.length === 0) {
+    return { success: false, error: `${fileName} has no account rows.`, issues: [] };
+  }
+
+  if (accounts.length > MAX_ACCOUNT_LIST_ROWS) {
+    issues.push({
+      row: MAX_ACCOUNT_LIST_ROWS + 2,
+      column: null,
+      message: `Lists are capped at ${MAX_ACCOUNT_LIST_ROWS} accounts; this one has ${accounts.length}.`,
+    });
+  }
+
+  if (issues.length > 0) {
+    const rowCount = new Set(issues.map((entry) => entry.row)).size;
+    return {
+      success: false,
+      error: `Fix ${rowCount} ${rowCount === 1 ? "row" : "rows"} in ${fileName} and import it again.`,
+      issues,
+    };
+  }
+
+  return {
+    success: true,
+    data: { fileName, importedAt, accounts },
+    warnings: ignored.length > 0 ? [`Ignored columns: ${ignored.join(", ")}. Only company names are kept.`] : [],
+  };
+};
+
+/**
+ * Derives the market inputs an account list stands in for. The ACV weights each estimate by the account's expected
+ * in-market opps (in-market flag or probability × expected opps, with `market` filling the gaps as the per-account
+ * engine does), so the averages model prices deals as that engine would; it falls back to the plain mean when no
+ * estimated account is in market. The in-market rate is the share of accounts flagged with intent, and is null
+ * when the list carries no flags.
+ */
+export const summariseAccountList = ({ accounts }: AccountList, market: MarketFunnelInputs): AccountListSummary => {
+  const estimated = accounts.filter((account) => account.estimatedAcv !== undefined);
+  const acvs = estimated.map((account) => resolveAccountDrivers(account, market));
+  const weights = acvs.map((drivers) => drivers.inMarketProbability * drivers.expectedOpps);
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const flagged = accounts.filter((account) => account.inMarket !== undefined);
+  const inMarketAccounts = flagged.filter((account) => account.inMarket).length;
+  const segments = new Map<string, number>();
+
+  accounts.forEach((account) => {
+    if (account.segment) {
+      segments.set(account.segment, (segments.get(account.segment) ?? 0) + 1);
+    }
+  });
+
+  return {
+    targetAccounts: accounts.length,
+    weightedAcv:
+      acvs.length === 0
+        ? null
+        : totalWeight > 0
+          ? roundMoney(acvs.reduce((total, drivers, index) => total + drivers.acv * weights[index], 0) / totalWeight)
+          : roundMoney(sumMoney(acvs.map((drivers) => drivers.acv)) / acvs.length),
+    accountsWithAcv: acvs.length,
+    inMarketRate:
+      flagged.length > 0 && accounts.length > 0 ? Number(((inMarketAccounts / accounts.length) * 100).toFixed(1)) : null,
+    inMarketAccounts,
+    tiers: Object.fromEntries(
+      TIER_KEYS.map((tier) => [tier, accounts.filter((account) => account.tier === tier).length]),
+    ) as Record<TierKey, number>,
+    segments: [...segments.entries()]
+      .map(([segment, count]) => ({ segment, accounts: count }))
+      .sort((left, right) => right.accounts - left.accounts || left.segment.localeCompare(right.segment)),
+  };
+};
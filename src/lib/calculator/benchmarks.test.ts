@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { BENCHMARK_PACKS, DEFAULT_BENCHMARK_PACK, parseBenchmarkPack, resolveBenchmarkPack } from "./benchmarks";
+import { planScenario } from "./planner";
+import { DEFAULT_SCENARIO } from "./schema";
+import { PlannerSettings } from "./types";
+
+describe("benchmark packs", () => {
+  const northAmerica = BENCHMARK_PACKS.find((pack) => pack.id === "north-america")!;
+
+  it("ships validated packs and records the default on new scenarios", () => {
+    expect(BENCHMARK_PACKS.map((pack) => pack.id)).toEqual(["uk-europe", "north-america"]);
+    expect(DEFAULT_SCENARIO.benchmarks).toEqual({
+      id: DEFAULT_BENCHMARK_PACK.id,
+      version: DEFAULT_BENCHMARK_PACK.version,
+    });
+  });
+
+  it("rejects a pack whose stretch reduction is below typical", () => {
+    const broken = structuredClone(DEFAULT_BENCHMARK_PACK);
+    broken.tiers.oneToOne.cycleReduction.stretch = 0.1;
+
+    expect(parseBenchmarkPack(broken)).toEqual({
+      success: false,
+      error:
+        "Invalid benchmark pack at tiers.oneToOne.cycleReduction.stretch: Stretch cycle reduction must be at least the typical reduction.",
+    });
+    expect(parseBenchmarkPack(northAmerica)).toEqual({ success: true, data: northAmerica });
+  });
+
+  it("falls back to the default pack for an unknown version", () => {
+    expect(resolveBenchmarkPack({ id: "uk-europe", version: "1999.1" })).toBe(DEFAULT_BENCHMARK_PACK);
+    expect(resolveBenchmarkPack({ id: "north-america", version: northAmerica.version })).toBe(northAmerica);
+  });
+
+  it("moves budget capacity and cycle reduction when the scenario switches pack", () => {
+    const settings: PlannerSettings = {
+      tier: "oneToOne",
+      preset: "expected",
+      cyclePreset: "stretch",
+      buyingWindowMonths: 3,
+      inMarketAuto: true,
+      cycleOverride: false,
+      flatBudget: 0,
+    };
+    const uk = planScenario(DEFAULT_SCENARIO, settings);
+    const us = planScenario(
+      { ...DEFAULT_SCENARIO, benchmarks: { id: "north-america", version: northAmerica.version } },
+      settings,
+    );
+
+    expect(uk.budget.perAccountBenchmark).toBe(60_000);
+    expect(us.budget.perAccountBenchmark).toBe(62_992.13);
+    expect(uk.salesCycle.tierReduction).toBe(0.35);
+    expect(us.salesCycle.tierReduction).toBe(0.3);
+  });
+});
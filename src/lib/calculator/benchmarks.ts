@@ -0,0 +1,102 @@
+import { z } from "zod";
+
+import northAmerica from "./benchmarks/north-america.json";
+import ukEurope from "./benchmarks/uk-europe.json";
+import { CURRENCY_CODES } from "./currency";
+import { BenchmarkPack, BenchmarkPackRef, CurrencyCode } from "./types";
+
+const share = z.number().min(0).max(0.9);
+const positive = z.number().positive();
+
+const tierBenchmarksSchema = z
+  .object({
+    label: z.string().min(1),
+    helper: z.string(),
+    defaultAccounts: z.number().int().min(1).max(2000),
+    hoursPerAccount: z.number().min(1).max(200),
+    budgetPerAccount: positive,
+    buyingWindowMonths: z.number().int().min(1).max(24),
+    cycleReduction: z.object({ typical: share, stretch: share }),
+  })
+  .refine((value) => value.cycleReduction.typical <= value.cycleReduction.stretch, {
+    path: ["cycleReduction", "stretch"],
+    message: "Stretch cycle reduction must be at least the typical reduction.",
+  });
+
+const presetBenchmarksSchema = z.object({
+  label: z.string().min(1),
+  helper: z.string(),
+  multipliers: z.object({ winRate: positive, acv: positive, opportunity: positive, inMarket: positive }),
+});
+
+export const benchmarkPackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, { message: "Use lower-case letters, digits and dashes." }),
+  version: z.string().min(1),
+  name: z.string().min(1),
+  region: z.string().min(1),
+  currency: z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]),
+  publishedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use a YYYY-MM-DD date." }),
+  tiers: z.object({
+    oneToOne: tierBenchmarksSchema,
+    oneToFew: tierBenchmarksSchema,
+    oneToMany: tierBenchmarksSchema,
+  }),
+  presets: z.object({
+    conservative: presetBenchmarksSchema,
+    expected: presetBenchmarksSchema,
+    stretch: presetBenchmarksSchema,
+  }),
+  inMarketSlider: z
+    .object({
+      min: z.number().min(0),
+      max: z.number().max(70),
+      baseMin: z.number(),
+      baseMax: z.number(),
+      stretchMin: z.number(),
+      stretchMax: z.number(),
+    })
+    .refine(
+      (value) =>
+        value.min <= value.baseMin &&
+        value.baseMin <= value.baseMax &&
+        value.baseMax <= value.stretchMin &&
+        value.stretchMin <= value.stretchMax &&
+        value.stretchMax <= value.max,
+      { message: "Slider bands must run min ≤ base ≤ stretch ≤ max." },
+    ),
+});
+
+export type BenchmarkPackResult =
+  | { success: true; data: BenchmarkPack }
+  | { success: false; error: string };
+
+export const parseBenchmarkPack = (value: unknown): BenchmarkPackResult => {
+  const parsed = benchmarkPackSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { success: false, error: `Invalid benchmark pack at ${issue.path.join(".") || "root"}: ${issue.message}` };
+  }
+
+  return { success: true, data: parsed.data };
+};
+
+// Bundled packs are parsed at load so a bad quarterly edit fails the test run rather than the planner.
+export const BENCHMARK_PACKS: readonly BenchmarkPack[] = [ukEurope, northAmerica].map((pack) =>
+  benchmarkPackSchema.parse(pack),
+);
+
+export const DEFAULT_BENCHMARK_PACK = BENCHMARK_PACKS[0];
+
+export const toBenchmarkRef = ({ id, version }: BenchmarkPack): BenchmarkPackRef => ({ id, version });
+
+export const findBenchmarkPack = (
+  ref: BenchmarkPackRef | undefined,
+  packs: readonly BenchmarkPack[] = BENCHMARK_PACKS,
+): BenchmarkPack | null =>
+  ref ? (packs.find((pack) => pack.id === ref.id && pack.version === ref.version) ?? null) : null;
+
+// Scenarios saved against a pack that is no longer bundled fall back to the default rather than failing.
+export const resolveBenchmarkPack = (
+  ref: BenchmarkPackRef | undefined,
+  packs: readonly BenchmarkPack[] = BENCHMARK_PACKS,
+): BenchmarkPack => findBenchmarkPack(ref, packs) ?? DEFAULT_BENCHMARK_PACK;
@@ -1,7 +1,6 @@
 import { describe, expect, it } from "vitest";
 
 import {
-  buildSensitivityGrid,
   calculateAbm,
   calculateBaseline,
   calculateIncremental,
@@ -9,56 +8,11 @@ import {
   sumProgrammeCosts,
 } from "./calculator";
 import { deriveCoverage } from "./capacity";
+import { evaluateGuardrails } from "./guardrails";
+import { buildSensitivityGrid, deriveAxisRange, scaleCosts } from "./sensitivity";
+import { BASE_SCENARIO } from "./test-fixtures";
 import { AbmOutputs, ScenarioInputs } from "./types";
 
-const BASE_SCENARIO: ScenarioInputs = {
-  programme: {
-    durationMonths: 12,
-    rampMonths: 3,
-    currency: "GBP",
-    numberFormatLocale: "en-GB",
-  },
-  market: {
-    targetAccounts: 110,
-    inMarketRate: 34,
-    qualifiedOppsPerAccount: 1.3,
-    baselineWinRate: 26,
-    baselineAcv: 110_000,
-    contributionMargin: 64,
-    salesCycleMonthsBaseline: 9,
-    salesCycleMonthsAbm: 6,
-  },
-  uplifts: {
-    winRateUplift: 12,
-    acvUplift: 18,
-    opportunityRateUplift: 25,
-  },
-  costs: {
-    people: 170_000,
-    media: 70_000,
-    dataTech: 30_000,
-    content: 42_000,
-    agency: 26_000,
-    other: 12_000,
-  },
-  capacity: {
-    source: "budget",
-    marketingFte: 3,
-    salesFte: 2,
-    marketingUtilisation: 70,
-    salesUtilisation: 50,
-    hoursPerAccount: 12,
-  },
-  alignment: {
-    level: "standard",
-  },
-  sensitivity: {
-    inMarketRange: [24, 34, 44],
-    winRateUpliftRange: [6, 12, 18],
-    resolution: 5,
-  },
-};
-
 describe("sumProgrammeCosts", () => {
   it("sums all cost categories", () => {
     expect(sumProgrammeCosts(BASE_SCENARIO.costs)).toBe(350_000);
@@ -100,7 +54,7 @@ describe("calculateAbm", () => {
     expect(abm.expectedWins).toBeCloseTo(23.0945, 5);
     expect(abm.acv).toBeCloseTo(129_800);
     expect(abm.revenue).toBeCloseTo(2_997_666.1, 3);
-    expect(abm.grossProfit).toBeCloseTo(1_918_506.304, 3);
+    expect(abm.grossProfit).toBe(1_918_506.3);
   });
 });
 
@@ -117,7 +71,7 @@ describe("calculateIncremental", () => {
     );
 
     expect(incremental.incrementalRevenue).toBeCloseTo(1_607_134.1, 3);
-    expect(incremental.incrementalGrossProfit).toBeCloseTo(1_028_565.824, 3);
+    expect(incremental.incrementalGrossProfit).toBe(1_028_565.82);
     expect(incremental.totalCost).toBe(350_000);
     expect(incremental.profitAfterSpend).toBeCloseTo(abm.grossProfit - incremental.totalCost, 4);
     expect(incremental.grossRoi).toBeCloseTo(incremental.incrementalGrossProfit / incremental.totalCost, 6);
@@ -187,7 +141,7 @@ describe("calculateScenario", () => {
     const result = calculateScenario(BASE_SCENARIO);
 
     expect(result.inputs).toEqual(BASE_SCENARIO);
-    expect(result.guardrails).toEqual([]);
+    expect(result.guardrails).toEqual(evaluateGuardrails(BASE_SCENARIO));
     expect(result.outputs.incremental.incrementalRevenue).toBeGreaterThan(0);
   });
 });
@@ -217,22 +171,81 @@ describe("buildSensitivityGrid", () => {
   it("produces roi cells for each sensitivity combination", () => {
     const grid = buildSensitivityGrid(BASE_SCENARIO);
 
-    expect(grid).toHaveLength(BASE_SCENARIO.sensitivity.inMarketRange.length);
-    expect(grid[0]).toHaveLength(
-      BASE_SCENARIO.sensitivity.winRateUpliftRange.length,
-    );
+    expect(grid).toMatchObject({
+      rowAxis: "market.inMarketRate",
+      columnAxis: "uplifts.winRateUplift",
+      metric: "roi",
+    });
+    expect(grid.rows).toEqual([24, 29, 34, 39, 44]);
+    expect(grid.columns).toEqual([6, 9, 12, 15, 18]);
+    expect(grid.cells).toHaveLength(grid.rows.length);
+    expect(grid.cells[0]).toHaveLength(grid.columns.length);
 
-    const targetInMarket = BASE_SCENARIO.sensitivity.inMarketRange[1];
-    const targetWinUplift = BASE_SCENARIO.sensitivity.winRateUpliftRange[2];
     const manualScenario = calculateScenario({
       ...BASE_SCENARIO,
-      market: { ...BASE_SCENARIO.market, inMarketRate: targetInMarket },
-      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: targetWinUplift },
+      market: { ...BASE_SCENARIO.market, inMarketRate: grid.rows[2] },
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: grid.columns[4] },
     });
 
-    expect(grid[1][2].roi).toBeCloseTo(
+    expect(grid.cells[2][4].value).toBeCloseTo(
       manualScenario.outputs.incremental.roi ?? 0,
       5,
     );
   });
+
+  it("flexes any two inputs around their current values and reports the chosen metric", () => {
+    const grid = buildSensitivityGrid({
+      ...BASE_SCENARIO,
+      sensitivity: {
+        ...BASE_SCENARIO.sensitivity,
+        resolution: 3,
+        rowAxis: "market.targetAccounts",
+        columnAxis: "costs.total",
+        metric: "profitAfterSpend",
+      },
+    });
+
+    expect(grid.rows).toEqual([77, 110, 143]);
+    expect(grid.columns).toEqual([245_000, 350_000, 455_000]);
+
+    const manualScenario = calculateScenario({
+      ...BASE_SCENARIO,
+      market: { ...BASE_SCENARIO.market, targetAccounts: 143 },
+      costs: { ...BASE_SCENARIO.costs, totalOverride: 455_000 },
+    });
+    expect(grid.cells[2][2].value).toBeCloseTo(manualScenario.outputs.incremental.profitAfterSpend, 2);
+  });
+
+  it("scales costs in whole pennies that add back to the new total", () => {
+    const categories = scaleCosts({ ...BASE_SCENARIO.costs, totalOverride: undefined }, 100_000);
+    const lines = scaleCosts(
+      {
+        ...BASE_SCENARIO.costs,
+        lines: [
+          { label: "Field team", category: "people", amount: 1, startMonth: 1, endMonth: 12 },
+          { label: "Paid social", category: "media", amount: 1, startMonth: 1, endMonth: 12 },
+          { label: "Intent data", category: "dataTech", amount: 1, startMonth: 1, endMonth: 12 },
+        ],
+      },
+      100,
+    );
+
+    expect(sumProgrammeCosts(categories)).toBe(100_000);
+    expect(categories).toMatchObject({ people: 48_571.43, dataTech: 8_571.43, agency: 7_428.57, other: 3_428.57 });
+    expect(lines.lines?.map((line) => line.amount)).toEqual([33.34, 33.33, 33.33]);
+    expect(lines.people).toBe(33.34);
+    expect(sumProgrammeCosts(lines)).toBe(100);
+  });
+
+  it("honours resolution and axis bounds when deriving ranges", () => {
+    const scenario: ScenarioInputs = {
+      ...BASE_SCENARIO,
+      market: { ...BASE_SCENARIO.market, baselineWinRate: 90 },
+      sensitivity: { ...BASE_SCENARIO.sensitivity, resolution: 11 },
+    };
+
+    expect(deriveAxisRange(scenario, "market.inMarketRate")).toHaveLength(11);
+    expect(deriveAxisRange(scenario, "market.inMarketRate")[1]).toBe(26);
+    expect(Math.max(...deriveAxisRange(scenario, "market.baselineWinRate"))).toBe(100);
+  });
 });
@@ -7,43 +7,46 @@ import {
   ScenarioInputs,
   ScenarioOutputs,
   ScenarioResult,
-  SensitivityCell,
-  SensitivityGrid,
 } from "./types";
 import {
   deriveAlignmentMultipliers,
   deriveCoverage,
   deriveIntensity,
 } from "./capacity";
+import { calculateAccountLevel } from "./account-level";
+import { buildCohortTimeline } from "./cohort";
+import { phaseCostLines } from "./costs";
+import { percentOf, roundMoney, subtractMoney, sumMoney } from "./decimal";
+import { evaluateGuardrails } from "./guardrails";
+import { calculateLifetime } from "./lifetime";
 
 const ONE_HUNDRED = 100;
 
-const toDecimal = (value: number): number => value / ONE_HUNDRED;
 const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
 
+// An override wins, then budget line items, then the category fields.
 export const sumProgrammeCosts = (costs: ProgrammeCosts): number => {
   const override = Number.isFinite(costs.totalOverride) ? floorZero(costs.totalOverride ?? 0) : 0;
 
   if (override > 0) {
-    return override;
+    return roundMoney(override);
+  }
+
+  if (costs.lines?.length) {
+    return floorZero(sumMoney(costs.lines.map((line) => line.amount)));
   }
 
   return floorZero(
-    costs.people +
-      costs.media +
-      costs.dataTech +
-      costs.content +
-      costs.agency +
-      costs.other
+    sumMoney([costs.people, costs.media, costs.dataTech, costs.content, costs.agency, costs.other]),
   );
 };
 
 export const calculateBaseline = (inputs: ScenarioInputs["market"]): BaselineOutputs => {
-  const inMarketAccounts = floorZero(inputs.targetAccounts * toDecimal(inputs.inMarketRate));
+  const inMarketAccounts = floorZero(percentOf(inputs.targetAccounts, inputs.inMarketRate));
   const qualifiedOpps = floorZero(inMarketAccounts * inputs.qualifiedOppsPerAccount);
-  const expectedWins = floorZero(qualifiedOpps * toDecimal(inputs.baselineWinRate));
-  const revenue = floorZero(expectedWins * inputs.baselineAcv);
-  const grossProfit = floorZero(revenue * toDecimal(inputs.contributionMargin));
+  const expectedWins = floorZero(percentOf(qualifiedOpps, inputs.baselineWinRate));
+  const revenue = roundMoney(floorZero(expectedWins * inputs.baselineAcv));
+  const grossProfit = roundMoney(floorZero(percentOf(revenue, inputs.contributionMargin)));
 
   return {
     inMarketAccounts,
@@ -59,15 +62,16 @@ export const calculateAbm = (
   baseline: BaselineOutputs,
   uplifts: ScenarioInputs["uplifts"],
 ): AbmOutputs => {
-  const opportunityMultiplier = 1 + toDecimal(uplifts.opportunityRateUplift);
-  const qualifiedOpps = floorZero(baseline.inMarketAccounts * market.qualifiedOppsPerAccount * opportunityMultiplier);
+  const qualifiedOpps = floorZero(
+    percentOf(baseline.inMarketAccounts * market.qualifiedOppsPerAccount, ONE_HUNDRED + uplifts.opportunityRateUplift),
+  );
 
-  const effectiveWinRate = Math.min(1, Math.max(0, toDecimal(market.baselineWinRate + uplifts.winRateUplift)));
-  const expectedWins = floorZero(qualifiedOpps * effectiveWinRate);
+  const effectiveWinRate = Math.min(ONE_HUNDRED, Math.max(0, market.baselineWinRate + uplifts.winRateUplift));
+  const expectedWins = floorZero(percentOf(qualifiedOpps, effectiveWinRate));
 
-  const acv = floorZero(market.baselineAcv * (1 + toDecimal(uplifts.acvUplift)));
-  const revenue = floorZero(expectedWins * acv);
-  const grossProfit = floorZero(revenue * toDecimal(market.contributionMargin));
+  const acv = roundMoney(floorZero(percentOf(market.baselineAcv, ONE_HUNDRED + uplifts.acvUplift)));
+  const revenue = roundMoney(floorZero(expectedWins * acv));
+  const grossProfit = roundMoney(floorZero(percentOf(revenue, market.contributionMargin)));
 
   return {
     qualifiedOpps,
@@ -99,8 +103,7 @@ const calculateBreakEvenWins = (
   acv: number,
   contributionMargin: number,
 ): number | null => {
-  const marginDecimal = toDecimal(contributionMargin);
-  const grossProfitPerWin = acv * marginDecimal;
+  const grossProfitPerWin = percentOf(acv, contributionMargin);
 
   if (totalCost <= 0 || grossProfitPerWin <= 0) {
     return null;
@@ -153,10 +156,10 @@ export const calculateIncremental = (
   costs: ProgrammeCosts,
 ): IncrementalOutputs => {
   const totalCost = sumProgrammeCosts(costs);
-  const incrementalRevenue = abm.revenue - baseline.revenue;
-  const incrementalGrossProfit = abm.grossProfit - baseline.grossProfit;
+  const incrementalRevenue = subtractMoney(abm.revenue, baseline.revenue);
+  const incrementalGrossProfit = subtractMoney(abm.grossProfit, baseline.grossProfit);
   const incrementalWins = abm.expectedWins - baseline.expectedWins;
-  const profitAfterSpend = abm.grossProfit - totalCost;
+  const profitAfterSpend = subtractMoney(abm.grossProfit, totalCost);
 
   return {
     incrementalRevenue,
@@ -171,63 +174,77 @@ export const calculateIncremental = (
   };
 };
 
-export const calculateScenario = (inputs: ScenarioInputs): ScenarioResult => {
+export interface EffectiveDrivers {
+  market: ScenarioInputs["market"];
+  uplifts: ScenarioInputs["uplifts"];
+}
+
+export const deriveEffectiveDrivers = (inputs: ScenarioInputs): EffectiveDrivers => {
   const coverage = deriveCoverage(inputs.market, inputs.capacity);
   const intensity = deriveIntensity(coverage.saturationRate);
   const alignmentMultipliers = deriveAlignmentMultipliers(inputs.alignment);
 
-  const effectiveMarket = {
-    ...inputs.market,
-    inMarketRate: coverage.coverageRate * ONE_HUNDRED,
-  } as ScenarioInputs["market"];
-
-  const effectiveUplifts: ScenarioInputs["uplifts"] = {
-    opportunityRateUplift:
-      inputs.uplifts.opportunityRateUplift * alignmentMultipliers.opportunity * intensity,
-    winRateUplift: inputs.uplifts.winRateUplift * alignmentMultipliers.win * intensity,
-    acvUplift: inputs.uplifts.acvUplift * intensity,
+  return {
+    market: {
+      ...inputs.market,
+      inMarketRate: coverage.coverageRate * ONE_HUNDRED,
+    },
+    uplifts: {
+      opportunityRateUplift:
+        inputs.uplifts.opportunityRateUplift * alignmentMultipliers.opportunity * intensity,
+      winRateUplift: inputs.uplifts.winRateUplift * alignmentMultipliers.win * intensity,
+      acvUplift: inputs.uplifts.acvUplift * intensity,
+    },
   };
+};
 
-  const baseline = calculateBaseline(effectiveMarket);
-  const abm = calculateAbm(effectiveMarket, baseline, effectiveUplifts);
-  const incremental = calculateIncremental(inputs.programme, effectiveMarket, baseline, abm, inputs.costs);
+export const calculateScenario = (inputs: ScenarioInputs): ScenarioResult => {
+  const { market: effectiveMarket, uplifts: effectiveUplifts } = deriveEffectiveDrivers(inputs);
+
+  // Per-account mode reads each account's own drivers, falling back to the typed market averages, and
+  // treats only as many in-market accounts as the averages model's budget or team capacity covers.
+  const accountLevel =
+    inputs.accountModel === "perAccount" && inputs.accountList?.accounts.length
+      ? calculateAccountLevel(
+          inputs.accountList.accounts,
+          inputs.market,
+          effectiveUplifts,
+          deriveCoverage(inputs.market, inputs.capacity).treatedAccounts,
+        )
+      : null;
+  const baseline = accountLevel?.baseline ?? calculateBaseline(effectiveMarket);
+  const abm = accountLevel?.abm ?? calculateAbm(effectiveMarket, baseline, effectiveUplifts);
+  const runRateIncremental = calculateIncremental(inputs.programme, effectiveMarket, baseline, abm, inputs.costs);
+  const timeline = buildCohortTimeline(
+    inputs.programme,
+    effectiveMarket,
+    baseline,
+    abm,
+    runRateIncremental.totalCost,
+    inputs.costs.lines?.length ? phaseCostLines(inputs.costs.lines, inputs.programme.durationMonths) : undefined,
+  );
+
+  // Payback reads off the cumulative cohort curve; the run-rate approximation covers curves that never recover.
+  const incremental: IncrementalOutputs = {
+    ...runRateIncremental,
+    paybackMonths: timeline.paybackMonths ?? runRateIncremental.paybackMonths,
+  };
 
   const outputs: ScenarioOutputs = {
     baseline,
     abm,
     incremental,
+    timeline,
+    lifetime: inputs.lifetime?.enabled
+      ? calculateLifetime(inputs.lifetime, effectiveMarket, abm, incremental)
+      : null,
+    accounts: accountLevel?.contributions ?? null,
+    segments: null,
   };
 
   return {
     inputs,
     outputs,
-    guardrails: [],
+    guardrails: evaluateGuardrails(inputs),
   };
 };
-
-export const buildSensitivityGrid = (inputs: ScenarioInputs): SensitivityGrid =>
-  inputs.sensitivity.inMarketRange.map((inMarketRate) =>
-    inputs.sensitivity.winRateUpliftRange.map((winRateUplift) => {
-      const scenario: ScenarioInputs = {
-        ...inputs,
-        market: {
-          ...inputs.market,
-          inMarketRate,
-        },
-        uplifts: {
-          ...inputs.uplifts,
-          winRateUplift,
-        },
-      };
-
-      const result = calculateScenario(scenario);
-
-      const cell: SensitivityCell = {
-        inMarketRate,
-        winRateUplift,
-        roi: result.outputs.incremental.roi,
-      };
-
-      return cell;
-    }),
-  );
@@ -1,10 +1,9 @@
 import { AlignmentInputs, AlignmentLevel, CapacityInputs, CapacitySource, MarketFunnelInputs } from "./types";
+import { percentOf } from "./decimal";
 
 const MARKETING_MONTHLY_HOURS = 120;
 const SALES_MONTHLY_HOURS = 100;
 
-const toDecimal = (value: number): number => value / 100;
-
 const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
 
 export type CapacityBottleneck = "marketing" | "sales" | "balanced";
@@ -38,9 +37,9 @@ const resolveBottleneck = (marketingHours: number, salesHours: number): Capacity
 
 export const deriveTeamCapacity = (capacity: CapacityInputs): TeamCapacitySummary => {
   const marketingHours =
-    floorZero(capacity.marketingFte) * MARKETING_MONTHLY_HOURS * toDecimal(floorZero(capacity.marketingUtilisation));
+    percentOf(floorZero(capacity.marketingFte) * MARKETING_MONTHLY_HOURS, floorZero(capacity.marketingUtilisation));
   const salesHours =
-    floorZero(capacity.salesFte) * SALES_MONTHLY_HOURS * toDecimal(floorZero(capacity.salesUtilisation));
+    percentOf(floorZero(capacity.salesFte) * SALES_MONTHLY_HOURS, floorZero(capacity.salesUtilisation));
 
   const bottleneck = resolveBottleneck(marketingHours, salesHours);
   const limitingHours = Math.min(marketingHours, salesHours);
@@ -74,7 +73,7 @@ export const deriveCoverage = (
   capacity: CapacityInputs,
 ): CoverageSummary => {
   const safeTargets = floorZero(market.targetAccounts);
-  const baseRequested = Math.round(safeTargets * toDecimal(floorZero(market.inMarketRate)));
+  const baseRequested = Math.round(percentOf(safeTargets, floorZero(market.inMarketRate)));
   const teamCapacity = deriveTeamCapacity(capacity);
   const teamAccounts = teamCapacity.accountCapacity;
   const budgetCapacityRaw =
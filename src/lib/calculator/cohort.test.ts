@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateAbm, calculateBaseline, calculateScenario } from "./calculator";
+import { buildCohortTimeline, deriveRampWeights } from "./cohort";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("buildCohortTimeline", () => {
+  const baseline = calculateBaseline(BASE_SCENARIO.market);
+  const abm = calculateAbm(BASE_SCENARIO.market, baseline, BASE_SCENARIO.uplifts);
+  const timeline = buildCohortTimeline(
+    BASE_SCENARIO.programme,
+    BASE_SCENARIO.market,
+    baseline,
+    abm,
+    350_000,
+  );
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  it("ramps impact up over the ramp months", () => {
+    const weights = deriveRampWeights(12, 3);
+
+    expect(weights).toHaveLength(12);
+    expect(sum(weights)).toBeCloseTo(1, 10);
+    expect(weights[0]).toBeLessThan(weights[1]);
+    expect(weights[3]).toBeCloseTo(weights[11], 10);
+    expect(deriveRampWeights(6, 0).every((weight) => weight === 1 / 6)).toBe(true);
+  });
+
+  it("distributes opportunities, wins, revenue and spend without changing totals", () => {
+    expect(timeline.months).toHaveLength(12 + 9);
+    expect(sum(timeline.months.map((month) => month.abmOpps))).toBeCloseTo(abm.qualifiedOpps, 6);
+    expect(sum(timeline.months.map((month) => month.baselineWins))).toBeCloseTo(baseline.expectedWins, 6);
+    expect(sum(timeline.months.map((month) => month.abmRevenue))).toBeCloseTo(abm.revenue, 4);
+    expect(sum(timeline.months.map((month) => month.spend))).toBeCloseTo(350_000, 6);
+  });
+
+  it("recognises wins after the baseline and ABM sales cycles", () => {
+    const firstWithRevenue = (key: "baselineRevenue" | "abmRevenue") =>
+      timeline.months.find((month) => month[key] > 0)?.month;
+
+    expect(firstWithRevenue("baselineRevenue")).toBe(10);
+    expect(firstWithRevenue("abmRevenue")).toBe(7);
+  });
+
+  it("reads payback off the cumulative net position", () => {
+    const payback = timeline.paybackMonths ?? 0;
+    const crossing = Math.ceil(payback);
+
+    expect(payback).toBeGreaterThan(0);
+    expect(timeline.months[crossing - 2].cumulativeNetPosition).toBeLessThan(0);
+    expect(timeline.months[crossing - 1].cumulativeNetPosition).toBeGreaterThanOrEqual(0);
+    expect(calculateScenario(BASE_SCENARIO).outputs.incremental.paybackMonths).toBeCloseTo(
+      calculateScenario(BASE_SCENARIO).outputs.timeline.paybackMonths ?? 0,
+      10,
+    );
+  });
+
+  it("falls back to the run-rate payback when the curve never recovers", () => {
+    const weakScenario: ScenarioInputs = {
+      ...BASE_SCENARIO,
+      uplifts: { winRateUplift: 1, acvUplift: 0, opportunityRateUplift: 0 },
+    };
+    const result = calculateScenario(weakScenario);
+
+    expect(result.outputs.timeline.paybackMonths).toBeNull();
+    expect(result.outputs.incremental.paybackMonths).toBeGreaterThan(weakScenario.programme.durationMonths);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  AbmOutputs,
+  BaselineOutputs,
+  CohortMonth,
+  CohortTimeline,
+  MarketFunnelInputs,
+  ProgrammeSettings,
+} from "./types";
+import { allocateMoney } from "./decimal";
+
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+export const deriveRampWeights = (durationMonths: number, rampMonths: number): number[] => {
+  const months = Math.round(floorZero(durationMonths));
+  if (months === 0) {
+    return [];
+  }
+
+  const ramp = floorZero(rampMonths);
+  const raw = Array.from({ length: months }, (_, index) =>
+    ramp > 0 ? Math.min(1, (index + 1) / (ramp + 1)) : 1,
+  );
+  const total = raw.reduce((sum, value) => sum + value, 0);
+
+  return raw.map((value) => value / total);
+};
+
+const recognise = (target: number[], createdIndex: number, cycleMonths: number, value: number) => {
+  const cycle = floorZero(cycleMonths);
+  const lower = Math.floor(cycle);
+  const fraction = cycle - lower;
+
+  target[createdIndex + lower] += value * (1 - fraction);
+  if (fraction > 0) {
+    target[createdIndex + lower + 1] += value * fraction;
+  }
+};
+
+export const resolvePayback = (cumulative: number[]): number | null => {
+  let lastNegative = -1;
+  cumulative.forEach((value, index) => {
+    if (value < 0) {
+      lastNegative = index;
+    }
+  });
+
+  if (lastNegative === -1 || lastNegative === cumulative.length - 1) {
+    return null;
+  }
+
+  const before = cumulative[lastNegative];
+  const after = cumulative[lastNegative + 1];
+  const fraction = after === before ? 0 : -before / (after - before);
+
+  return lastNegative + 1 + fraction;
+};
+
+export const buildCohortTimeline = (
+  programme: ProgrammeSettings,
+  market: MarketFunnelInputs,
+  baseline: BaselineOutputs,
+  abm: AbmOutputs,
+  totalCost: number,
+  spendPhasing?: number[],
+): CohortTimeline => {
+  const weights = deriveRampWeights(programme.durationMonths, programme.rampMonths);
+  const programmeMonths = weights.length;
+
+  if (programmeMonths === 0) {
+    return { months: [], paybackMonths: null };
+  }
+
+  const horizon =
+    programmeMonths +
+    Math.ceil(Math.max(floorZero(market.salesCycleMonthsBaseline), floorZero(market.salesCycleMonthsAbm)));
+  const series = () => new Array<number>(horizon).fill(0);
+
+  const baselineOpps = series();
+  const abmOpps = series();
+  const baselineWins = series();
+  const abmWins = series();
+  const baselineRevenue = series();
+  const abmRevenue = series();
+  const baselineGrossProfit = series();
+  const abmGrossProfit = series();
+  const spend = series();
+
+  // Spend is split in whole minor units so the months add back to the programme cost exactly. Budget line
+  // phasing shapes the split when given; otherwise spend runs evenly.
+  const phasing = weights.map((_, index) => floorZero(spendPhasing?.[index] ?? 0));
+  const monthlySpend = allocateMoney(
+    floorZero(totalCost),
+    phasing.some((value) => value > 0) ? phasing : weights.map(() => 1),
+  );
+  const evenShare = 1 / programmeMonths;
+  // ABM months blend baseline run-rate with the uplift, which phases in over the ramp.
+  const abmShare = (baselineTotal: number, abmTotal: number, weight: number) =>
+    baselineTotal * evenShare + (abmTotal - baselineTotal) * weight;
+
+  weights.forEach((weight, index) => {
+    baselineOpps[index] = baseline.qualifiedOpps * evenShare;
+    abmOpps[index] = abmShare(baseline.qualifiedOpps, abm.qualifiedOpps, weight);
+    spend[index] = monthlySpend[index];
+
+    recognise(baselineWins, index, market.salesCycleMonthsBaseline, baseline.expectedWins * evenShare);
+    recognise(baselineRevenue, index, market.salesCycleMonthsBaseline, baseline.revenue * evenShare);
+    recognise(baselineGrossProfit, index, market.salesCycleMonthsBaseline, baseline.grossProfit * evenShare);
+    recognise(abmWins, index, market.salesCycleMonthsAbm, abmShare(baseline.expectedWins, abm.expectedWins, weight));
+    recognise(abmRevenue, index, market.salesCycleMonthsAbm, abmShare(baseline.revenue, abm.revenue, weight));
+    recognise(
+      abmGrossProfit,
+      index,
+      market.salesCycleMonthsAbm,
+      abmShare(baseline.grossProfit, abm.grossProfit, weight),
+    );
+  });
+
+  let running = 0;
+  const months: CohortMonth[] = baselineOpps.map((_, index) => {
+    const incrementalGrossProfit = abmGrossProfit[index] - baselineGrossProfit[index];
+    running += incrementalGrossProfit - spend[index];
+
+    return {
+      month: index + 1,
+      baselineOpps: baselineOpps[index],
+      abmOpps: abmOpps[index],
+      baselineWins: baselineWins[index],
+      abmWins: abmWins[index],
+      baselineRevenue: baselineRevenue[index],
+      abmRevenue: abmRevenue[index],
+      baselineGrossProfit: baselineGrossProfit[index],
+      abmGrossProfit: abmGrossProfit[index],
+      incrementalGrossProfit,
+      spend: spend[index],
+      cumulativeNetPosition: running,
+    };
+  });
+
+  return {
+    months,
+    paybackMonths: resolvePayback(months.map((month) => month.cumulativeNetPosition)),
+  };
+};
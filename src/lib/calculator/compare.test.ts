@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { compareScenarios, diffIncremental, diffInputs } from "./compare";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("compareScenarios", () => {
+  const candidateInputs: ScenarioInputs = {
+    ...BASE_SCENARIO,
+    market: { ...BASE_SCENARIO.market, baselineAcv: 130_000 },
+    costs: { ...BASE_SCENARIO.costs, media: 20_000 },
+  };
+  const reference = calculateScenario(BASE_SCENARIO);
+  const candidate = calculateScenario(candidateInputs);
+
+  it("reports deltas on every incremental metric", () => {
+    const deltas = diffIncremental(reference.outputs.incremental, candidate.outputs.incremental);
+
+    expect(deltas.incrementalGrossProfit).toBeCloseTo(
+      candidate.outputs.incremental.incrementalGrossProfit -
+        reference.outputs.incremental.incrementalGrossProfit,
+      6,
+    );
+    expect(deltas.totalCost).toBe(-50_000);
+    expect(Object.keys(deltas)).toHaveLength(Object.keys(reference.outputs.incremental).length);
+  });
+
+  it("attributes the gap to each differing input", () => {
+    const drivers = diffInputs(BASE_SCENARIO, candidateInputs);
+
+    expect(drivers.map((driver) => driver.path).sort()).toEqual(["costs.media", "market.baselineAcv"]);
+    const media = drivers.find((driver) => driver.path === "costs.media")!;
+    expect(media).toMatchObject({ reference: 70_000, candidate: 20_000, incrementalGrossProfitImpact: 0 });
+    expect(media.roiImpact).toBeGreaterThan(0);
+    expect(Math.abs(drivers[0].roiImpact ?? 0)).toBeGreaterThanOrEqual(Math.abs(drivers[1].roiImpact ?? 0));
+  });
+
+  it("leaves the reference column without drivers", () => {
+    const [self, other] = compareScenarios(reference, [reference, candidate]);
+
+    expect(self.drivers).toEqual([]);
+    expect(self.deltas.roi).toBe(0);
+    expect(other.drivers).toHaveLength(2);
+  });
+});
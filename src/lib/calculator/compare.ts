@@ -0,0 +1,107 @@
+import { calculateScenario } from "./calculator";
+import {
+  IncrementalDeltas,
+  IncrementalOutputs,
+  InputDifference,
+  ScenarioComparison,
+  ScenarioInputs,
+  ScenarioResult,
+} from "./types";
+
+const INCREMENTAL_KEYS: Array<keyof IncrementalOutputs> = [
+  "incrementalRevenue",
+  "incrementalGrossProfit",
+  "roi",
+  "grossRoi",
+  "totalCost",
+  "profitAfterSpend",
+  "incrementalWins",
+  "breakEvenWins",
+  "paybackMonths",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Arrays (sensitivity ranges) are treated as single values so a changed range reads as one difference.
+const collectLeafPaths = (value: unknown, prefix = ""): string[] => {
+  if (!isRecord(value)) {
+    return prefix ? [prefix] : [];
+  }
+
+  return Object.keys(value).flatMap((key) => collectLeafPaths(value[key], prefix ? `${prefix}.${key}` : key));
+};
+
+const readPath = (source: unknown, path: string): unknown =>
+  path.split(".").reduce<unknown>((node, key) => (isRecord(node) ? node[key] : undefined), source);
+
+const withPath = (inputs: ScenarioInputs, path: string, value: unknown): ScenarioInputs => {
+  const next = structuredClone(inputs) as unknown as Record<string, unknown>;
+  const keys = path.split(".");
+  const last = keys.pop() as string;
+  let node = next;
+
+  keys.forEach((key) => {
+    if (!isRecord(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  });
+
+  if (value === undefined) {
+    delete node[last];
+  } else {
+    node[last] = value;
+  }
+
+  return next as unknown as ScenarioInputs;
+};
+
+const sameValue = (left: unknown, right: unknown): boolean => JSON.stringify(left) === JSON.stringify(right);
+
+const subtract = (candidate: number | null, reference: number | null): number | null =>
+  candidate === null || reference === null ? null : candidate - reference;
+
+export const diffIncremental = (
+  reference: IncrementalOutputs,
+  candidate: IncrementalOutputs,
+): IncrementalDeltas =>
+  INCREMENTAL_KEYS.reduce((deltas, key) => {
+    deltas[key] = subtract(candidate[key], reference[key]);
+    return deltas;
+  }, {} as IncrementalDeltas);
+
+// Attributes the gap one input at a time: each differing input is swapped into the reference on its own.
+export const diffInputs = (reference: ScenarioInputs, candidate: ScenarioInputs): InputDifference[] => {
+  const baseline = calculateScenario(reference).outputs.incremental;
+  const paths = [...new Set([...collectLeafPaths(reference), ...collectLeafPaths(candidate)])];
+
+  return paths
+    .filter((path) => !sameValue(readPath(reference, path), readPath(candidate, path)))
+    .map((path) => {
+      const swapped = calculateScenario(withPath(reference, path, readPath(candidate, path))).outputs.incremental;
+
+      return {
+        path,
+        reference: readPath(reference, path),
+        candidate: readPath(candidate, path),
+        incrementalGrossProfitImpact: swapped.incrementalGrossProfit - baseline.incrementalGrossProfit,
+        roiImpact: subtract(swapped.roi, baseline.roi),
+      };
+    })
+    .sort(
+      (left, right) =>
+        Math.abs(right.roiImpact ?? 0) - Math.abs(left.roiImpact ?? 0) ||
+        Math.abs(right.incrementalGrossProfitImpact) - Math.abs(left.incrementalGrossProfitImpact),
+    );
+};
+
+export const compareScenarios = (
+  reference: ScenarioResult,
+  candidates: ScenarioResult[],
+): ScenarioComparison[] =>
+  candidates.map((result) => ({
+    result,
+    deltas: diffIncremental(reference.outputs.incremental, result.outputs.incremental),
+    drivers: result === reference ? [] : diffInputs(reference.inputs, result.inputs),
+  }));
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario, sumProgrammeCosts } from "./calculator";
+import { phaseCostLines, parseCostLinesCsv, rollUpCostLines } from "./costs";
+import { sumMoney } from "./decimal";
+import { planScenario } from "./planner";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { CostLineItem, PlannerSettings } from "./types";
+
+describe("budget line items", () => {
+  const LINES: CostLineItem[] = [
+    { label: "LinkedIn ABM ads – Q1", category: "media", amount: 30_000, startMonth: 1, endMonth: 3 },
+    { label: "Intent data licence", category: "dataTech", amount: 24_000, startMonth: 1, endMonth: 12 },
+    { label: "Agency retainer", category: "agency", amount: 10_000, startMonth: 11, endMonth: 14 },
+  ];
+
+  it("maps CSV lines onto categories, guessing blanks from the label", () => {
+    const result = parseCostLinesCsv(
+      [
+        "Line item,Category,Amount,Start,End,Owner",
+        '"LinkedIn ABM ads – Q1",Paid media,"£30,000",M1,M3,Ana',
+        "Intent data licence,,24000,,,Raj",
+        "Launch party,,1500,6,6,",
+      ].join("\n"),
+      "budget.csv",
+      12,
+    );
+
+    expect(result).toEqual({
+      success: true,
+      data: [
+        LINES[0],
+        LINES[1],
+        { label: "Launch party", category: "other", amount: 1_500, startMonth: 6, endMonth: 6 },
+      ],
+      warnings: [
+        "Ignored columns: Owner.",
+        "Guessed the category of 1 line from the label; check them below.",
+        "Filed 1 line with no recognisable category under Other.",
+      ],
+    });
+  });
+
+  it("reports unknown categories and months outside the programme", () => {
+    const result = parseCostLinesCsv(
+      ["Label,Category,Amount,Start Month,End Month", "Events,Travel,5000,1,3", "Ads,media,-10,4,2"].join("\n"),
+      "budget.csv",
+      3,
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: "Fix 2 rows in budget.csv and import it again.",
+      issues: [
+        {
+          row: 2,
+          column: "Category",
+          message: 'Unknown category "Travel"; use people, media, data & tech, content, agency or other.',
+        },
+        { row: 3, column: "Amount", message: "Amount can't be negative; net credits off the line they reduce." },
+        { row: 3, column: "Start Month", message: "Month 4 is after the programme's 3 months." },
+        { row: 3, column: "End Month", message: "Ends in month 2, before it starts in month 4." },
+      ],
+    });
+  });
+
+  it("rolls lines up into the category view and the programme total", () => {
+    const costs = { ...BASE_SCENARIO.costs, lines: LINES };
+
+    expect(rollUpCostLines(LINES)).toEqual({
+      people: 0,
+      media: 30_000,
+      dataTech: 24_000,
+      content: 0,
+      agency: 10_000,
+      other: 0,
+    });
+    expect(sumProgrammeCosts(costs)).toBe(64_000);
+    expect(sumProgrammeCosts({ ...costs, totalOverride: 80_000 })).toBe(80_000);
+
+    const settings: PlannerSettings = {
+      tier: "oneToFew",
+      preset: "expected",
+      cyclePreset: "typical",
+      buyingWindowMonths: 3,
+      inMarketAuto: true,
+      cycleOverride: false,
+      flatBudget: 0,
+    };
+    const plan = planScenario(
+      { ...BASE_SCENARIO, costs, capacity: { ...BASE_SCENARIO.capacity, source: "team" } },
+      settings,
+    );
+    expect(plan.budget.availableBudget).toBe(64_000);
+    expect(plan.budget.lineItemTotals?.media).toBe(30_000);
+    expect(plan.inputs.costs.people).toBe(0);
+  });
+
+  it("phases spend by each line's months in the cohort timeline", () => {
+    const phased = phaseCostLines(LINES, 12);
+    expect(phased[0]).toBe(12_000);
+    expect(phased[3]).toBe(2_000);
+    // The retainer runs past month 12, so its four months squeeze into the last two.
+    expect(phased[11]).toBe(7_000);
+    expect(sumMoney(phased)).toBe(64_000);
+
+    const { outputs } = calculateScenario({ ...BASE_SCENARIO, costs: { ...BASE_SCENARIO.costs, lines: LINES } });
+    expect(outputs.timeline.months.slice(0, 12).map((month) => month.spend)).toEqual(phased);
+  });
+});
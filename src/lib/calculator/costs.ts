@@ -0,0 +1,251 @@
+import { detectDecimalSeparator, mapCsvColumns, normaliseKey, parseCsvAmount, readCsvRecords } from "./csv";
+import { allocateMoney, roundMoney, sumMoney } from "./decimal";
+import { CostCategory, CostLineItem, CsvRowIssue } from "./types";
+
+export const COST_CATEGORIES: readonly CostCategory[] = ["people", "media", "dataTech", "content", "agency", "other"];
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  people: "People",
+  media: "Media",
+  dataTech: "Data & tech",
+  content: "Content",
+  agency: "Agency & partners",
+  other: "Other",
+};
+
+export const MAX_COST_LINES = 200;
+
+type CostColumn = keyof CostLineItem;
+
+const COLUMN_ALIASES: Record<CostColumn, string[]> = {
+  label: ["label", "item", "lineitem", "description", "name"],
+  category: ["category", "costcategory", "type"],
+  amount: ["amount", "cost", "budget", "total", "value"],
+  startMonth: ["startmonth", "start", "from", "firstmonth"],
+  endMonth: ["endmonth", "end", "to", "lastmonth"],
+};
+
+const CATEGORY_ALIASES: Record<string, CostCategory> = {
+  people: "people",
+  headcount: "people",
+  staff: "people",
+  salaries: "people",
+  media: "media",
+  paidmedia: "media",
+  advertising: "media",
+  ads: "media",
+  datatech: "dataTech",
+  data: "dataTech",
+  tech: "dataTech",
+  technology: "dataTech",
+  martech: "dataTech",
+  tooling: "dataTech",
+  content: "content",
+  creative: "content",
+  agency: "agency",
+  agencypartners: "agency",
+  agencyandpartners: "agency",
+  partners: "agency",
+  other: "other",
+  misc: "other",
+  miscellaneous: "other",
+};
+
+// Checked in order, so "Agency creative retainer" lands with the agency rather than content.
+const LABEL_KEYWORDS: Array<[CostCategory, string[]]> = [
+  ["agency", ["agency", "partner", "consultant", "consultancy", "retainer"]],
+  ["people", ["salary", "salaries", "headcount", "fte", "contractor", "hire", "staff"]],
+  ["dataTech", ["data", "intent", "licence", "license", "platform", "software", "subscription", "tool", "enrichment", "crm"]],
+  ["media", ["ads", "ad", "advertising", "media", "paid", "display", "programmatic", "linkedin", "sponsored"]],
+  ["content", ["content", "creative", "video", "copy", "design", "asset", "assets", "webinar", "ebook"]],
+];
+
+export const inferCostCategory = (label: string): CostCategory | null => {
+  const words = new Set(label.toLowerCase().match(/[a-z]+/g) ?? []);
+  return LABEL_KEYWORDS.find(([, keywords]) => keywords.some((keyword) => words.has(keyword)))?.[0] ?? null;
+};
+
+// The category view the budget step shows, summed in minor units so it matches the line total exactly.
+export const rollUpCostLines = (lines: CostLineItem[]): Record<CostCategory, number> =>
+  Object.fromEntries(
+    COST_CATEGORIES.map((category) => [
+      category,
+      sumMoney(lines.filter((line) => line.category === category).map((line) => line.amount)),
+    ]),
+  ) as Record<CostCategory, number>;
+
+/**
+ * Spreads each line evenly over its months and returns spend per programme month. Windows are clamped to
+ * the programme so a line running past the end is spent in the months that remain rather than dropped.
+ */
+export const phaseCostLines = (lines: CostLineItem[], durationMonths: number): number[] => {
+  const months = Math.max(0, Math.round(durationMonths));
+  const phased = new Array<number>(months).fill(0);
+
+  if (months === 0) {
+    return phased;
+  }
+
+  lines.forEach((line) => {
+    const start = Math.min(months, Math.max(1, Math.round(line.startMonth)));
+    const end = Math.min(months, Math.max(start, Math.round(line.endMonth)));
+    const shares = allocateMoney(Math.max(0, line.amount), new Array<number>(end - start + 1).fill(1));
+    shares.forEach((share, offset) => {
+      phased[start - 1 + offset] = roundMoney(phased[start - 1 + offset] + share);
+    });
+  });
+
+  return phased;
+};
+
+// Rescales line amounts in proportion so they add to `total`, keeping each line's window and category.
+export const scaleCostLines = (lines: CostLineItem[], total: number): CostLineItem[] => {
+  const amounts = allocateMoney(Math.max(0, total), lines.map((line) => line.amount));
+  return sumMoney(lines.map((line) => line.amount)) > 0
+    ? lines.map((line, index) => ({ ...line, amount: amounts[index] }))
+    : lines;
+};
+
+export type CostLineImportResult =
+  | { success: true; data: CostLineItem[]; warnings: string[] }
+  | { success: false; error: string; issues: CsvRowIssue[] };
+
+const parseMonth = (value: string): number | null => {
+  const match = value.trim().match(/^(?:m|month)?\s*(\d+)$/i);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Reads budget line items (label, category, amount, start month, end month). Label and amount are required.
+ * A blank category is guessed from the label, falling back to Other; months default to the whole programme.
+ * Like the account import, every row is checked and problems are reported together by spreadsheet row.
+ */
+export const parseCostLinesCsv = (text: string, fileName: string, durationMonths: number): CostLineImportResult => {
+  const records = readCsvRecords(text);
+  const decimal = detectDecimalSeparator(text);
+
+  if (!records) {
+    return { success: false, error: `${fileName} has an unclosed quote.`, issues: [] };
+  }
+
+  const [header = [], ...rows] = records;
+  const { index: columnIndex, ignored } = mapCsvColumns(header, COLUMN_ALIASES);
+  const missing = (["label", "amount"] as const).filter((column) => !columnIndex.has(column));
+
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `${fileName} needs "label" and "amount" columns with one budget line per row.`,
+      issues: [{ row: 1, column: null, message: `No ${missing.join(" or ")} column found in the header row.` }],
+    };
+  }
+
+  const months = Math.max(1, Math.round(durationMonths));
+  const issues: CsvRowIssue[] = [];
+  const lines: CostLineItem[] = [];
+  let guessed = 0;
+  let unmapped = 0;
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((cell) => cell.trim() === "")) {
+      return;
+    }
+
+    const read = (column: CostColumn) => {
+      const position = columnIndex.get(column);
+      return position === undefined ? "" : (cells[position] ?? "").trim();
+    };
+    const issue = (column: CostColumn, message: string) =>
+      issues.push({ row, column: header[columnIndex.get(column) ?? -1]?.trim() || column, message });
+
+    const label = read("label");
+    if (!label) {
+      issue("label", "Line label is missing.");
+    } else if (label.length > 200) {
+      issue("label", "Line label is longer than 200 characters.");
+    }
+
+    const rawAmount = read("amount");
+    const amount = rawAmount ? parseCsvAmount(rawAmount, decimal) : null;
+    if (!rawAmount) {
+      issue("amount", "Amount is missing.");
+    } else if (amount === null) {
+      issue("amount", `"${rawAmount}" is not a number.`);
+    } else if (amount < 0) {
+      issue("amount", "Amount can't be negative; net credits off the line they reduce.");
+    }
+
+    const rawCategory = read("category");
+    let category: CostCategory | null = rawCategory ? (CATEGORY_ALIASES[normaliseKey(rawCategory)] ?? null) : null;
+    if (rawCategory && !category) {
+      issue("category", `Unknown category "${rawCategory}"; use people, media, data & tech, content, agency or other.`);
+    } else if (!rawCategory) {
+      category = inferCostCategory(label);
+      if (category) {
+        guessed += 1;
+      } else {
+        category = "other";
+        unmapped += 1;
+      }
+    }
+
+    const readMonth = (column: "startMonth" | "endMonth", fallback: number) => {
+      const raw = read(column);
+      if (!raw) {
+        return fallback;
+      }
+
+      const month = parseMonth(raw);
+      if (month === null || month < 1) {
+        issue(column, `"${raw}" is not a programme month; use 1 for the first month.`);
+      } else if (month > months) {
+        issue(column, `Month ${month} is after the programme's ${months} months.`);
+      }
+      return month ?? fallback;
+    };
+    const startMonth = readMonth("startMonth", 1);
+    const endMonth = readMonth("endMonth", months);
+    if (endMonth < startMonth) {
+      issue("endMonth", `Ends in month ${endMonth}, before it starts in month ${startMonth}.`);
+    }
+
+    if (label && amount !== null && category) {
+      lines.push({ label, category, amount: roundMoney(amount), startMonth, endMonth });
+    }
+  });
+
+  if (lines.length === 0 && issues.length === 0) {
+    return { success: false, error: `${fileName} has no budget lines.`, issues: [] };
+  }
+
+  if (lines.length > MAX_COST_LINES) {
+    issues.push({
+      row: MAX_COST_LINES + 2,
+      column: null,
+      message: `Budgets are capped at ${MAX_COST_LINES} lines; this one has ${lines.length}.`,
+    });
+  }
+
+  if (issues.length > 0) {
+    const rowCount = new Set(issues.map((entry) => entry.row)).size;
+    return {
+      success: false,
+      error: `Fix ${rowCount} ${rowCount === 1 ? "row" : "rows"} in ${fileName} and import it again.`,
+      issues,
+    };
+  }
+
+  const warnings: string[] = [];
+  if (ignored.length > 0) {
+    warnings.push(`Ignored columns: ${ignored.join(", ")}.`);
+  }
+  if (guessed > 0) {
+    warnings.push(`Guessed the category of ${guessed} ${guessed === 1 ? "line" : "lines"} from the label; check them below.`);
+  }
+  if (unmapped > 0) {
+    warnings.push(`Filed ${unmapped} ${unmapped === 1 ? "line" : "lines"} with no recognisable category under Other.`);
+  }
+
+  return { success: true, data: lines, warnings };
+};
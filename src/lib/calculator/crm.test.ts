@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import { crmSnapshotToMarket, describeCrmSnapshot, parseCrmSnapshot } from "./crm";
+
+describe("CRM snapshot import", () => {
+  const SALESFORCE = [
+    "Opportunity Name,Account Name,Stage,Amount,Created Date,Close Date",
+    'A1,Acme,Closed Won,"£120,000",15/01/2025,15/04/2025',
+    "A2,Acme,Closed Lost,50000,01/02/2025,01/03/2025",
+    "A3,Globex,Closed Won,80000,10/03/2025,10/09/2025",
+    "A4,Globex,Closed Lost,,05/05/2025,20/12/2025",
+    "A5,Initech,Closed Won,130000,01/06/2025,01/08/2025",
+    "A6,Initech,Prospecting,70000,01/10/2025,01/01/2026",
+  ].join("\n");
+
+  it("derives win rate, ACV, opps per account and cycle from a Salesforce report", () => {
+    const result = parseCrmSnapshot(SALESFORCE, "opps.csv");
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        layout: "salesforce",
+        closedOpps: 5,
+        wonOpps: 3,
+        openOppsSkipped: 1,
+        winRate: 60,
+        medianAcv: 120_000,
+        meanAcv: 110_000,
+        accounts: 3,
+        qualifiedOppsPerAccount: 1.67,
+        salesCycleMonths: 3,
+        periodStart: "2025-03-01",
+        periodEnd: "2025-12-20",
+      },
+      warnings: ["Skipped 1 open opportunity.", "Only 5 closed opps; treat the derived rates as indicative."],
+    });
+    if (!result.success) return;
+    expect(describeCrmSnapshot(result.data)).toBe("Derived from 5 opps, Mar–Dec 2025");
+    expect(crmSnapshotToMarket(result.data, "mean")).toEqual({
+      baselineWinRate: 60,
+      baselineAcv: 110_000,
+      qualifiedOppsPerAccount: 1.67,
+      salesCycleMonthsBaseline: 3,
+    });
+  });
+
+  it("reads HubSpot stages and month-first dates, leaving out what the export can't support", () => {
+    const hubspot = parseCrmSnapshot(
+      [
+        "Deal Name,Deal Stage,Amount,Create Date,Close Date",
+        "D1,closedwon,40000,2025-11-03 09:14,2025-12-01 10:00",
+        "D2,closedlost,,2025-10-01,2025-12-15",
+      ].join("\n"),
+      "deals.csv",
+    );
+    expect(hubspot).toMatchObject({ success: true, data: { layout: "hubspot", accounts: null, winRate: 50 } });
+    if (!hubspot.success) return;
+    expect(describeCrmSnapshot(hubspot.data)).toBe("Derived from 2 opps, Dec 2025");
+    expect(crmSnapshotToMarket(hubspot.data)).toEqual({
+      baselineWinRate: 50,
+      baselineAcv: 40_000,
+      salesCycleMonthsBaseline: 0.9,
+    });
+
+    const sheet = parseCrmSnapshot("Outcome,Amount,Close Date\nWon,10000,03/04/2025", "sheet.csv", {
+      dateOrder: "mdy",
+    });
+    expect(sheet).toMatchObject({ success: true, data: { layout: "generic", periodStart: "2025-03-04" } });
+  });
+
+  it("reports malformed closed rows and missing columns", () => {
+    const result = parseCrmSnapshot(
+      [
+        "Stage,Amount,Close Date,Created Date",
+        "Closed Won,,2025-13-01,2025-01-01",
+        "Closed Lost,abc,2025-02-01,2025-03-01",
+      ].join("\n"),
+      "opps.csv",
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: "Fix 2 rows in opps.csv and import it again.",
+      issues: [
+        { row: 2, column: "Close Date", message: '"2025-13-01" is not a date.' },
+        { row: 2, column: "Amount", message: "Won deal has no amount." },
+        { row: 3, column: "Created Date", message: "Created after it closed." },
+        { row: 3, column: "Amount", message: '"abc" is not a valid amount.' },
+      ],
+    });
+    expect(parseCrmSnapshot("Stage,Amount\nClosed Won,100", "opps.csv")).toMatchObject({
+      success: false,
+      error: "opps.csv is missing close date column.",
+    });
+  });
+});
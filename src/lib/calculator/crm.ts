@@ -0,0 +1,313 @@
+import {
+  detectDecimalSeparator,
+  mapCsvColumns,
+  normaliseKey,
+  parseCsvAmount,
+  parseCsvFlag,
+  readCsvRecords,
+} from "./csv";
+import { roundMoney, sumMoney } from "./decimal";
+import { CrmDateOrder, CrmLayout, CrmSnapshotSummary, CsvRowIssue, MarketFunnelInputs } from "./types";
+
+type CrmColumn = "stage" | "amount" | "createdDate" | "closeDate" | "won" | "closed" | "account";
+
+// Aliases cover Salesforce opportunity reports, HubSpot deal exports and plain hand-built sheets.
+const COLUMN_ALIASES: Record<CrmColumn, string[]> = {
+  stage: ["stage", "dealstage", "opportunitystage"],
+  amount: ["amount", "amountconverted", "dealamount", "totalcontractvalue", "acv"],
+  createdDate: ["createddate", "createdate", "created", "createdon"],
+  closeDate: ["closedate", "closeddate", "dateclosed"],
+  won: ["won", "iswon", "isclosedwon", "outcome", "result"],
+  closed: ["closed", "isclosed"],
+  account: ["accountname", "account", "associatedcompany", "companyname", "company"],
+};
+
+const WON_STAGES = new Set(["won", "closedwon"]);
+const LOST_STAGES = new Set(["lost", "closedlost"]);
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const DAY_MS = 86_400_000;
+const DAYS_PER_MONTH = 30.4375;
+
+// Below this many closed opportunities the derived rates swing on a handful of deals.
+export const MIN_RELIABLE_CLOSED_OPPS = 30;
+
+export type AcvBasis = "median" | "mean";
+
+export type CrmMarketInputs = Partial<
+  Pick<MarketFunnelInputs, "baselineWinRate" | "baselineAcv" | "qualifiedOppsPerAccount" | "salesCycleMonthsBaseline">
+>;
+
+export type CrmImportResult =
+  | { success: true; data: CrmSnapshotSummary; warnings: string[] }
+  | { success: false; error: string; issues: CsvRowIssue[] };
+
+export interface CrmImportOptions {
+  dateOrder?: CrmDateOrder;
+}
+
+type Outcome = "won" | "lost" | "open";
+
+const detectLayout = (header: string[]): CrmLayout => {
+  const keys = new Set(header.map(normaliseKey));
+  if (keys.has("dealstage") || keys.has("createdate")) {
+    return "hubspot";
+  }
+  if (keys.has("opportunityname") || keys.has("createddate")) {
+    return "salesforce";
+  }
+  return "generic";
+};
+
+const LOCAL_DATE = /^(\d{1,2})[/.](\d{1,2})[/.](\d{2}|\d{4})\b/;
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})/;
+
+// The first slash date with a day above 12 settles the order; otherwise the caller's (or UK) default applies.
+const detectDateOrder = (values: string[], fallback: CrmDateOrder): CrmDateOrder => {
+  for (const value of values) {
+    const match = LOCAL_DATE.exec(value.trim());
+    if (match && Number(match[1]) > 12) {
+      return "dmy";
+    }
+    if (match && Number(match[2]) > 12) {
+      return "mdy";
+    }
+  }
+  return fallback;
+};
+
+// Days since the Unix epoch, ignoring any time part; null for anything that isn't a real calendar date.
+const parseDay = (value: string, order: CrmDateOrder): number | null => {
+  const iso = ISO_DATE.exec(value);
+  const local = iso ? null : LOCAL_DATE.exec(value);
+  let parts: [number, number, number];
+
+  if (iso) {
+    parts = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    const [first, second, rawYear] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    const year = rawYear < 100 ? 2000 + rawYear : rawYear;
+    parts = order === "dmy" ? [year, second, first] : [year, first, second];
+  } else {
+    return null;
+  }
+
+  const [year, month, day] = parts;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date.getTime() / DAY_MS : null;
+};
+
+// Won columns hold true/false in Salesforce and HubSpot, and "Won"/"Lost" in hand-built sheets.
+const parseWonFlag = (value: string): boolean | null => {
+  const key = normaliseKey(value);
+  return WON_STAGES.has(key) ? true : LOST_STAGES.has(key) ? false : parseCsvFlag(value);
+};
+
+const toIsoDate = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Reads a closed-opportunity export and derives the baseline funnel from it: win rate over closed deals,
+ * median and mean ACV of won deals, closed opportunities per account and the median created-to-closed time
+ * of won deals. Open opportunities are skipped; every malformed closed row is reported by spreadsheet row.
+ */
+export const parseCrmSnapshot = (text: string, fileName: string, options: CrmImportOptions = {}): CrmImportResult => {
+  const records = readCsvRecords(text);
+  const decimal = detectDecimalSeparator(text);
+  if (!records) {
+    return { success: false, error: `${fileName} has an unclosed quote.`, issues: [] };
+  }
+
+  const [header = [], ...rows] = records;
+  const { index } = mapCsvColumns(header, COLUMN_ALIASES);
+  const missing = [
+    index.has("closeDate") ? null : "close date",
+    index.has("amount") ? null : "amount",
+    index.has("stage") || index.has("won") ? null : "stage or won/lost",
+  ].filter((label): label is string => label !== null);
+
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `${fileName} is missing ${missing.join(", ")} ${missing.length === 1 ? "column" : "columns"}.`,
+      issues: missing.map((label) => ({ row: 1, column: null, message: `No ${label} column found in the header row.` })),
+    };
+  }
+
+  const cell = (cells: string[], column: CrmColumn) => {
+    const position = index.get(column);
+    return position === undefined ? "" : (cells[position] ?? "").trim();
+  };
+  const dateOrder = detectDateOrder(
+    rows.flatMap((cells) => [cell(cells, "closeDate"), cell(cells, "createdDate")]),
+    options.dateOrder ?? "dmy",
+  );
+
+  const issues: CsvRowIssue[] = [];
+  const closeDays: number[] = [];
+  const wonAmounts: number[] = [];
+  const cycleDays: number[] = [];
+  const accounts = new Set<string>();
+  let won = 0;
+  let lost = 0;
+  let openOppsSkipped = 0;
+
+  rows.forEach((cells, position) => {
+    const row = position + 2;
+    if (cells.every((value) => value.trim() === "")) {
+      return;
+    }
+
+    const issue = (column: CrmColumn, message: string) =>
+      issues.push({ row, column: header[index.get(column) ?? -1]?.trim() || column, message });
+    const stage = normaliseKey(cell(cells, "stage"));
+    const wonFlag = parseWonFlag(cell(cells, "won"));
+    const closedFlag = parseCsvFlag(cell(cells, "closed"));
+    const outcome: Outcome = WON_STAGES.has(stage)
+      ? "won"
+      : LOST_STAGES.has(stage)
+        ? "lost"
+        : wonFlag !== null && (closedFlag === true || (!index.has("stage") && !index.has("closed")))
+          ? wonFlag
+            ? "won"
+            : "lost"
+          : "open";
+
+    if (outcome === "open") {
+      openOppsSkipped += 1;
+      return;
+    }
+
+    const rawClose = cell(cells, "closeDate");
+    const closeDay = parseDay(rawClose, dateOrder);
+    if (!rawClose) {
+      issue("closeDate", "Close date is missing.");
+    } else if (closeDay === null) {
+      issue("closeDate", `"${rawClose}" is not a date.`);
+    }
+
+    const rawCreated = cell(cells, "createdDate");
+    const createdDay = rawCreated ? parseDay(rawCreated, dateOrder) : null;
+    if (rawCreated && createdDay === null) {
+      issue("createdDate", `"${rawCreated}" is not a date.`);
+    } else if (createdDay !== null && closeDay !== null && createdDay > closeDay) {
+      issue("createdDate", "Created after it closed.");
+    }
+
+    const rawAmount = cell(cells, "amount");
+    const amount = rawAmount ? parseCsvAmount(rawAmount, decimal) : null;
+    if (rawAmount && (amount === null || amount < 0)) {
+      issue("amount", `"${rawAmount}" is not a valid amount.`);
+    } else if (outcome === "won" && amount === null) {
+      issue("amount", "Won deal has no amount.");
+    }
+
+    if (closeDay !== null) {
+      closeDays.push(closeDay);
+    }
+    if (outcome === "won") {
+      won += 1;
+      if (amount !== null && amount >= 0) {
+        wonAmounts.push(roundMoney(amount));
+      }
+      if (createdDay !== null && closeDay !== null && createdDay <= closeDay) {
+        cycleDays.push(closeDay - createdDay);
+      }
+    } else {
+      lost += 1;
+    }
+
+    const account = normaliseKey(cell(cells, "account"));
+    if (account) {
+      accounts.add(account);
+    }
+  });
+
+  if (issues.length > 0) {
+    const rowCount = new Set(issues.map((entry) => entry.row)).size;
+    return {
+      success: false,
+      error: `Fix ${rowCount} ${rowCount === 1 ? "row" : "rows"} in ${fileName} and import it again.`,
+      issues,
+    };
+  }
+
+  const closedOpps = won + lost;
+  if (closedOpps === 0) {
+    return { success: false, error: `${fileName} has no closed-won or closed-lost opportunities.`, issues: [] };
+  }
+
+  const cycleMedian = median(cycleDays);
+  const medianAcv = median(wonAmounts);
+  const warnings = [
+    openOppsSkipped > 0 ? `Skipped ${openOppsSkipped} open ${openOppsSkipped === 1 ? "opportunity" : "opportunities"}.` : null,
+    closedOpps < MIN_RELIABLE_CLOSED_OPPS
+      ? `Only ${closedOpps} closed opps; treat the derived rates as indicative.`
+      : null,
+  ].filter((warning): warning is string => warning !== null);
+
+  return {
+    success: true,
+    data: {
+      layout: detectLayout(header),
+      closedOpps,
+      wonOpps: won,
+      openOppsSkipped,
+      winRate: Number(((won / closedOpps) * 100).toFixed(1)),
+      medianAcv: medianAcv === null ? null : roundMoney(medianAcv),
+      meanAcv: wonAmounts.length > 0 ? roundMoney(sumMoney(wonAmounts) / wonAmounts.length) : null,
+      accounts: accounts.size > 0 ? accounts.size : null,
+      qualifiedOppsPerAccount: accounts.size > 0 ? Number((closedOpps / accounts.size).toFixed(2)) : null,
+      salesCycleMonths: cycleMedian === null ? null : Number((cycleMedian / DAYS_PER_MONTH).toFixed(1)),
+      periodStart: toIsoDate(Math.min(...closeDays)),
+      periodEnd: toIsoDate(Math.max(...closeDays)),
+    },
+    warnings,
+  };
+};
+
+const formatMonth = (isoDate: string) => ({
+  month: MONTH_LABELS[Number(isoDate.slice(5, 7)) - 1],
+  year: isoDate.slice(0, 4),
+});
+
+// Provenance for exports and the market step, e.g. "Derived from 312 opps, Jan–Dec 2025".
+export const describeCrmSnapshot = ({ closedOpps, periodStart, periodEnd }: CrmSnapshotSummary): string => {
+  const start = formatMonth(periodStart);
+  const end = formatMonth(periodEnd);
+  const period =
+    start.year !== end.year
+      ? `${start.month} ${start.year}–${end.month} ${end.year}`
+      : start.month === end.month
+        ? `${end.month} ${end.year}`
+        : `${start.month}–${end.month} ${end.year}`;
+
+  return `Derived from ${closedOpps} ${closedOpps === 1 ? "opp" : "opps"}, ${period}`;
+};
+
+/**
+ * The market inputs a snapshot can fill, clamped to the schema's bounds. Values the export can't support
+ * (no account column, no created dates, no won amounts) are left out so the typed figures stay.
+ */
+export const crmSnapshotToMarket = (
+  summary: CrmSnapshotSummary,
+  acvBasis: AcvBasis = "median",
+): CrmMarketInputs => {
+  const acv = acvBasis === "median" ? summary.medianAcv : summary.meanAcv;
+
+  return {
+    baselineWinRate: Math.min(60, summary.winRate),
+    ...(acv === null ? {} : { baselineAcv: acv }),
+    ...(summary.qualifiedOppsPerAccount === null
+      ? {}
+      : { qualifiedOppsPerAccount: Math.min(3, summary.qualifiedOppsPerAccount) }),
+    ...(summary.salesCycleMonths === null ? {} : { salesCycleMonthsBaseline: Math.min(24, summary.salesCycleMonths) }),
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { detectDecimalSeparator, parseCsvAmount } from "./csv";
+
+describe("parseCsvAmount", () => {
+  it("reads point-decimal amounts with comma thousands", () => {
+    expect(parseCsvAmount("£150,000")).toBe(150_000);
+    expect(parseCsvAmount("USD 90 000")).toBe(90_000);
+    expect(parseCsvAmount("1,234.56")).toBe(1234.56);
+    expect(parseCsvAmount("0.35")).toBe(0.35);
+    expect(parseCsvAmount("-1,200")).toBe(-1200);
+  });
+
+  it("reads comma-decimal amounts with point thousands", () => {
+    expect(parseCsvAmount("150.000", ",")).toBe(150_000);
+    expect(parseCsvAmount("1.234,56 €", ",")).toBe(1234.56);
+    expect(parseCsvAmount("0,35", ",")).toBe(0.35);
+    expect(parseCsvAmount("1.234.567", ",")).toBe(1_234_567);
+  });
+
+  it("rejects values that don't fit the file's format rather than guessing", () => {
+    expect(parseCsvAmount("1,5")).toBeNull();
+    expect(parseCsvAmount("1.234,56")).toBeNull();
+    expect(parseCsvAmount("1.234.567")).toBeNull();
+    expect(parseCsvAmount("1,234.56", ",")).toBeNull();
+    expect(parseCsvAmount("0.35", ",")).toBeNull();
+    expect(parseCsvAmount("lots")).toBeNull();
+  });
+
+  it("takes the decimal separator from the file's delimiter", () => {
+    expect(detectDecimalSeparator("name,acv\nAcme,100")).toBe(".");
+    expect(detectDecimalSeparator("\uFEFFname;acv\nAcme;100")).toBe(",");
+    expect(detectDecimalSeparator("name\tacv\nAcme\t100")).toBe(".");
+  });
+});
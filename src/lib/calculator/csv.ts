@@ -0,0 +1,124 @@
+// Header labels and enum-like cells are compared after lower-casing and dropping spaces and punctuation,
+// so "Estimated ACV", "estimated_acv" and "Close Date" match their aliases however an export spells them.
+export const normaliseKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Spreadsheet exports in comma-decimal locales switch to semicolons; tab-separated pastes also turn up.
+const detectDelimiter = (text: string): string => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map((delimiter) => ({ delimiter, count: header.split(delimiter).length }));
+  return counts.reduce((best, next) => (next.count > best.count ? next : best)).delimiter;
+};
+
+// RFC 4180 records: quoted cells may hold delimiters, doubled quotes and line breaks. Null when a quote is left open.
+export const readCsvRecords = (text: string): string[][] | null => {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (source[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return null;
+  }
+
+  if (cell !== "" || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+};
+
+export interface CsvColumnMap<Column extends string> {
+  index: Map<Column, number>;
+  ignored: string[];
+}
+
+// The first header matching each column's aliases wins; anything unmatched is listed so callers can say it was dropped.
+export const mapCsvColumns = <Column extends string>(
+  header: string[],
+  aliases: Record<Column, string[]>,
+): CsvColumnMap<Column> => {
+  const index = new Map<Column, number>();
+  const ignored: string[] = [];
+
+  header.forEach((label, position) => {
+    const key = normaliseKey(label);
+    const column = (Object.keys(aliases) as Column[]).find((candidate) => aliases[candidate].includes(key));
+
+    if (column && !index.has(column)) {
+      index.set(column, position);
+    } else if (label.trim()) {
+      ignored.push(label.trim());
+    }
+  });
+
+  return { index, ignored };
+};
+
+export type CsvDecimalSeparator = "." | ",";
+
+// Semicolon-delimited exports come from comma-decimal locales, so "1.234,56" there reads as 1234.56.
+export const detectDecimalSeparator = (text: string): CsvDecimalSeparator =>
+  detectDelimiter(text.replace(/^\uFEFF/, "")) === ";" ? "," : ".";
+
+/**
+ * Drops currency symbols, codes and spaces ("£150,000", "USD 90 000", "150.000 €") and reads the rest with the
+ * file's decimal separator; the other mark only counts as a thousands separator between groups of three digits.
+ * Null when no number is left or the value doesn't fit the file's format (e.g. "1,5" in a comma-delimited file),
+ * so callers report the row rather than guess.
+ */
+export const parseCsvAmount = (value: string, decimal: CsvDecimalSeparator = "."): number | null => {
+  const numeric = value.replace(/[^\d.,-]/g, "");
+  const group = decimal === "." ? "," : ".";
+  const fraction = `(?:\\${decimal}\\d+)?`;
+  const plain = new RegExp(`^-?\\d+${fraction}$`);
+  const grouped = new RegExp(`^-?\\d{1,3}(?:\\${group}\\d{3})+${fraction}$`);
+
+  if (!plain.test(numeric) && !grouped.test(numeric)) {
+    return null;
+  }
+
+  const parsed = Number(numeric.split(group).join("").replace(decimal, "."));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const TRUE_VALUES = new Set(["yes", "y", "true", "1", "x"]);
+const FALSE_VALUES = new Set(["no", "n", "false", "0"]);
+
+// Null for anything that isn't a recognisable yes/no so callers can report the row.
+export const parseCsvFlag = (value: string): boolean | null => {
+  const key = value.trim().toLowerCase();
+  return TRUE_VALUES.has(key) ? true : FALSE_VALUES.has(key) ? false : null;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { DEFAULT_FX_TABLE, convertAmount, convertScenarioCurrency, describeFx } from "./currency";
+import { estimateBudgetPerAccount } from "./portfolio";
+import { DEFAULT_SCENARIO } from "./schema";
+
+describe("currency conversion", () => {
+  it("converts amounts through the base currency to the penny", () => {
+    expect(convertAmount(1_000, "GBP", "USD")).toBe(1_270);
+    expect(convertAmount(1_270, "USD", "EUR")).toBe(1_170);
+    expect(convertAmount(500, "EUR", "EUR")).toBe(500);
+    expect(estimateBudgetPerAccount("oneToFew", "USD")).toBe(29_845);
+  });
+
+  it("re-expresses money inputs so the business case keeps its size", () => {
+    const converted = convertScenarioCurrency(DEFAULT_SCENARIO, "USD");
+    if (!converted.success) {
+      throw new Error(converted.error);
+    }
+
+    const { data } = converted;
+    expect(data.programme.currency).toBe("USD");
+    expect(data.market.baselineAcv).toBe(139_700);
+    expect(data.costs.people).toBe(44_450);
+    expect(data.portfolio!.tiers.oneToOne.budgetPerAccount).toBe(76_200);
+    expect(data.market.targetAccounts).toBe(DEFAULT_SCENARIO.market.targetAccounts);
+    expect(calculateScenario(data).outputs.incremental.roi).toBeCloseTo(
+      calculateScenario(DEFAULT_SCENARIO).outputs.incremental.roi!,
+      4,
+    );
+  });
+
+  it("converts cost lines and segment ACVs with the rest of the scenario", () => {
+    const converted = convertScenarioCurrency(
+      {
+        ...DEFAULT_SCENARIO,
+        costs: {
+          ...DEFAULT_SCENARIO.costs,
+          lines: [{ label: "Intent data", category: "dataTech", amount: 24_000, startMonth: 1, endMonth: 12 }],
+        },
+        segments: {
+          enabled: true,
+          segments: [
+            {
+              name: "EMEA",
+              targetAccounts: 100,
+              inMarketRate: 20,
+              baselineWinRate: 20,
+              baselineAcv: 80_000,
+              contributionMargin: 70,
+              salesCycleMonthsBaseline: 9,
+            },
+          ],
+        },
+      },
+      "EUR",
+    );
+
+    expect(converted.success && converted.data.costs.lines?.[0].amount).toBe(28_080);
+    expect(converted.success && converted.data.segments?.segments[0]).toMatchObject({
+      baselineAcv: 93_600,
+      targetAccounts: 100,
+    });
+  });
+
+  it("refuses to convert without a usable rate", () => {
+    const fx = { ...DEFAULT_FX_TABLE, rates: { ...DEFAULT_FX_TABLE.rates, SEK: 0 } };
+
+    expect(convertAmount(100, "GBP", "SEK", fx)).toBeNull();
+    expect(convertScenarioCurrency({ ...DEFAULT_SCENARIO, fx }, "SEK")).toEqual({
+      success: false,
+      error: "Add an exchange rate for SEK before switching currency.",
+    });
+  });
+
+  it("describes the rate used for exports", () => {
+    const inputs = { ...DEFAULT_SCENARIO, programme: { ...DEFAULT_SCENARIO.programme, currency: "USD" as const } };
+
+    expect(describeFx(inputs)).toBe("Figures in USD; 1 GBP = 1.27 USD (rates as of 2026-10-01).");
+  });
+});
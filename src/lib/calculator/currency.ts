@@ -0,0 +1,165 @@
+import { roundMoney } from "./decimal";
+import {
+  AccountList,
+  CurrencyCode,
+  FxTable,
+  PortfolioSettings,
+  ProgrammeCosts,
+  ScenarioInputs,
+  SegmentSettings,
+} from "./types";
+
+// Two-decimal currencies whose symbols the PDF's WinAnsi fonts can print; INR and JPY stay out until they can.
+export const CURRENCY_CODES: readonly CurrencyCode[] = [
+  "GBP",
+  "USD",
+  "EUR",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "SGD",
+  "HKD",
+  "ZAR",
+  "BRL",
+  "MXN",
+  "AED",
+] as const;
+
+// Indicative mid-market rates per 1 GBP. They ship as a starting point; teams should restate them before sign-off.
+export const DEFAULT_FX_TABLE: FxTable = {
+  base: "GBP",
+  asOf: "2026-10-01",
+  rates: {
+    GBP: 1,
+    USD: 1.27,
+    EUR: 1.17,
+    CAD: 1.75,
+    AUD: 1.95,
+    NZD: 2.15,
+    CHF: 1.12,
+    SEK: 13.7,
+    NOK: 13.9,
+    DKK: 8.72,
+    PLN: 5.05,
+    SGD: 1.71,
+    HKD: 9.9,
+    ZAR: 23.2,
+    BRL: 7.1,
+    MXN: 24.5,
+    AED: 4.66,
+  },
+};
+
+export type CurrencyConversionResult =
+  | { success: true; data: ScenarioInputs }
+  | { success: false; error: string };
+
+const isPositiveRate = (rate: number | undefined): rate is number =>
+  typeof rate === "number" && Number.isFinite(rate) && rate > 0;
+
+export const getFxRate = (from: CurrencyCode, to: CurrencyCode, fx: FxTable = DEFAULT_FX_TABLE): number | null => {
+  if (from === to) {
+    return 1;
+  }
+
+  const fromRate = fx.rates[from];
+  const toRate = fx.rates[to];
+  if (!isPositiveRate(fromRate) || !isPositiveRate(toRate)) {
+    return null;
+  }
+
+  return toRate / fromRate;
+};
+
+export const convertAmount = (
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  fx: FxTable = DEFAULT_FX_TABLE,
+): number | null => {
+  const rate = getFxRate(from, to, fx);
+  return rate === null ? null : roundMoney(amount * rate);
+};
+
+type Convert = (amount: number) => number;
+
+const convertCosts = (costs: ProgrammeCosts, money: Convert): ProgrammeCosts => ({
+  ...costs,
+  people: money(costs.people),
+  media: money(costs.media),
+  dataTech: money(costs.dataTech),
+  content: money(costs.content),
+  agency: money(costs.agency),
+  other: money(costs.other),
+  ...(costs.totalOverride === undefined ? {} : { totalOverride: money(costs.totalOverride) }),
+  ...(costs.lines ? { lines: costs.lines.map((line) => ({ ...line, amount: money(line.amount) })) } : {}),
+});
+
+const convertPortfolio = (portfolio: PortfolioSettings, money: Convert): PortfolioSettings => ({
+  ...portfolio,
+  tiers: {
+    oneToOne: { ...portfolio.tiers.oneToOne, budgetPerAccount: money(portfolio.tiers.oneToOne.budgetPerAccount) },
+    oneToFew: { ...portfolio.tiers.oneToFew, budgetPerAccount: money(portfolio.tiers.oneToFew.budgetPerAccount) },
+    oneToMany: { ...portfolio.tiers.oneToMany, budgetPerAccount: money(portfolio.tiers.oneToMany.budgetPerAccount) },
+  },
+});
+
+const convertSegments = (segments: SegmentSettings, money: Convert): SegmentSettings => ({
+  ...segments,
+  segments: segments.segments.map((segment) => ({ ...segment, baselineAcv: money(segment.baselineAcv) })),
+});
+
+const convertAccountList = (list: AccountList, money: Convert): AccountList => ({
+  ...list,
+  accounts: list.accounts.map((account) =>
+    account.estimatedAcv === undefined ? account : { ...account, estimatedAcv: money(account.estimatedAcv) },
+  ),
+});
+
+// Re-expresses every money input in `to` so switching currency keeps the business case the same size.
+export const convertScenarioCurrency = (inputs: ScenarioInputs, to: CurrencyCode): CurrencyConversionResult => {
+  const from = inputs.programme.currency;
+  const fx = inputs.fx ?? DEFAULT_FX_TABLE;
+  const rate = getFxRate(from, to, fx);
+
+  if (rate === null) {
+    const missing = isPositiveRate(fx.rates[from]) ? to : from;
+    return { success: false, error: `Add an exchange rate for ${missing} before switching currency.` };
+  }
+
+  const money: Convert = (amount) => roundMoney(amount * rate);
+  const { portfolio, segments, accountList } = inputs;
+
+  return {
+    success: true,
+    data: {
+      ...inputs,
+      programme: { ...inputs.programme, currency: to },
+      market: { ...inputs.market, baselineAcv: money(inputs.market.baselineAcv) },
+      costs: convertCosts(inputs.costs, money),
+      ...(portfolio ? { portfolio: convertPortfolio(portfolio, money) } : {}),
+      ...(segments ? { segments: convertSegments(segments, money) } : {}),
+      ...(accountList ? { accountList: convertAccountList(accountList, money) } : {}),
+    },
+  };
+};
+
+// One-line FX note for exports, e.g. "Figures in USD; 1 GBP = 1.27 USD (rates as of 2026-10-01)."
+export const describeFx = (inputs: ScenarioInputs): string => {
+  const fx = inputs.fx ?? DEFAULT_FX_TABLE;
+  const currency = inputs.programme.currency;
+
+  if (currency === fx.base) {
+    return `Figures in ${currency}; FX table based on ${fx.base} as of ${fx.asOf}.`;
+  }
+
+  const rate = getFxRate(fx.base, currency, fx);
+  return rate === null
+    ? `Figures in ${currency}; no ${fx.base}/${currency} rate in the FX table (as of ${fx.asOf}).`
+    : `Figures in ${currency}; 1 ${fx.base} = ${Number(rate.toPrecision(6))} ${currency} (rates as of ${fx.asOf}).`;
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { allocateMoney, allocateUnits, percentOf, roundMoney, subtractMoney, sumMoney } from "./decimal";
+import { DEFAULT_SCENARIO } from "./schema";
+import { BASE_SCENARIO } from "./test-fixtures";
+
+describe("decimal rounding policy", () => {
+  it("rounds money half away from zero like Excel's ROUND", () => {
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(2.675)).toBe(2.68);
+    expect(roundMoney(-2.675)).toBe(-2.68);
+    expect(roundMoney(-0.001)).toBe(0);
+  });
+
+  it("adds and subtracts money in whole minor units", () => {
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(subtractMoney(1_918_506.3, 889_940.48)).toBe(1_028_565.82);
+    expect(percentOf(110_000, 64)).toBe(70_400);
+    expect(percentOf(0.07, 100)).toBe(0.07);
+  });
+
+  it("splits money into shares that add back to the total", () => {
+    const shares = allocateMoney(100, [1, 1, 1]);
+
+    expect(shares).toEqual([33.34, 33.33, 33.33]);
+    expect(sumMoney(shares)).toBe(100);
+    expect(allocateUnits(10, [2, 1, 0, 3])).toEqual([3, 2, 0, 5]);
+  });
+
+  it("keeps every money output on a whole penny", () => {
+    const { outputs } = calculateScenario({ ...BASE_SCENARIO, lifetime: { ...DEFAULT_SCENARIO.lifetime!, enabled: true } });
+    const money = [
+      outputs.baseline.revenue,
+      outputs.baseline.grossProfit,
+      outputs.abm.acv,
+      outputs.abm.revenue,
+      outputs.abm.grossProfit,
+      outputs.incremental.incrementalRevenue,
+      outputs.incremental.incrementalGrossProfit,
+      outputs.incremental.totalCost,
+      outputs.incremental.profitAfterSpend,
+      outputs.lifetime!.npv,
+      ...outputs.timeline.months.map((month) => month.spend),
+    ];
+
+    money.forEach((value) => expect(roundMoney(value)).toBe(value));
+    expect(sumMoney(outputs.timeline.months.map((month) => month.spend))).toBe(outputs.incremental.totalCost);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Rounding policy for the calculation engine.
+ *
+ * - Money (costs, ACV, revenue, gross profit) is rounded to minor units (2 dp) at each stage, half away from
+ *   zero. This is Excel's ROUND rule, so the workbook's live formulas land on the same pennies as the engine.
+ * - Sums and differences of money are taken in integer minor units, so no binary drift builds up.
+ * - Percentages are applied as value × percent ÷ 100 instead of through a pre-divided fraction, and products
+ *   are trimmed to 15 significant digits (Excel's working precision) before any rounding.
+ * - Volumes (accounts, opportunities, wins) and ratios (ROI, payback, intensity) are left unrounded; they are
+ *   rounded only when formatted for display.
+ */
+export const MONEY_DECIMALS = 2;
+
+const MINOR_UNITS = 10 ** MONEY_DECIMALS;
+const SIGNIFICANT_DIGITS = 15;
+
+export const toSignificant = (value: number): number =>
+  Number.isFinite(value) ? Number(value.toPrecision(SIGNIFICANT_DIGITS)) : value;
+
+export const roundHalfAwayFromZero = (value: number, decimals = 0): number => {
+  if (!Number.isFinite(value)) {
+    return value;
+  }
+
+  const factor = 10 ** decimals;
+  // `|| 0` folds -0 into 0 so rounded-away negatives don't print as "-£0".
+  return (Math.sign(value) * Math.round(toSignificant(Math.abs(value) * factor))) / factor || 0;
+};
+
+export const toMinorUnits = (value: number): number =>
+  Number.isFinite(value) ? Math.round(roundHalfAwayFromZero(value, MONEY_DECIMALS) * MINOR_UNITS) : 0;
+
+export const roundMoney = (value: number): number => toMinorUnits(value) / MINOR_UNITS;
+
+export const sumMoney = (values: number[]): number =>
+  values.reduce((total, value) => total + toMinorUnits(value), 0) / MINOR_UNITS;
+
+export const subtractMoney = (minuend: number, subtrahend: number): number =>
+  (toMinorUnits(minuend) - toMinorUnits(subtrahend)) / MINOR_UNITS;
+
+export const percentOf = (value: number, percent: number): number => toSignificant((value * percent) / 100);
+
+// Largest-remainder split of a whole number of units (pennies, accounts): shares always add back to the total.
+export const allocateUnits = (units: number, weights: number[]): number[] => {
+  const weightTotal = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (weights.length === 0 || weightTotal <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (units * Math.max(0, weight)) / weightTotal);
+  const shares = exact.map(Math.floor);
+  let remainder = units - shares.reduce((sum, share) => sum + share, 0);
+
+  exact
+    .map((value, index) => ({ index, fraction: value - shares[index] }))
+    .sort((left, right) => right.fraction - left.fraction || left.index - right.index)
+    .forEach(({ index }) => {
+      if (remainder > 0) {
+        shares[index] += 1;
+        remainder -= 1;
+      }
+    });
+
+  return shares;
+};
+
+// Shares are whole minor units and always add back to the rounded total.
+export const allocateMoney = (total: number, weights: number[]): number[] =>
+  allocateUnits(toMinorUnits(total), weights).map((share) => share / MINOR_UNITS);
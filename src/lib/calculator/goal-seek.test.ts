@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { goalSeek } from "./goal-seek";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("goalSeek", () => {
+  const withUplift = (winRateUplift: number): ScenarioInputs => ({
+    ...BASE_SCENARIO,
+    uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift },
+  });
+
+  it("finds the win-rate uplift needed to break even", () => {
+    const scenario = { ...BASE_SCENARIO, costs: { ...BASE_SCENARIO.costs, totalOverride: 900_000 } };
+    const result = goalSeek(scenario, "uplifts.winRateUplift", { metric: "roi", value: 0 });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.direction).toBe("atLeast");
+    expect(result.data.achieved!).toBeCloseTo(0, 6);
+    expect(
+      calculateScenario({ ...scenario, uplifts: { ...scenario.uplifts, winRateUplift: result.data.value - 0.1 } })
+        .outputs.incremental.roi!,
+    ).toBeLessThan(0);
+  });
+
+  it("caps spend for a target ROI and rounds target accounts up", () => {
+    const cost = goalSeek(BASE_SCENARIO, "costs.total", { metric: "roi", value: 1 });
+    const accounts = goalSeek(withUplift(12), "market.targetAccounts", { metric: "profitAfterSpend", value: 500_000 });
+
+    expect(cost).toMatchObject({ success: true, data: { direction: "atMost" } });
+    if (cost.success) {
+      expect(cost.data.achieved!).toBeCloseTo(1, 6);
+    }
+    expect(accounts).toMatchObject({ success: true, data: { direction: "atLeast" } });
+    if (accounts.success) {
+      expect(Number.isInteger(accounts.data.value)).toBe(true);
+      expect(accounts.data.achieved!).toBeGreaterThanOrEqual(500_000);
+    }
+  });
+
+  it("reports targets that are out of reach within the schema bounds", () => {
+    const result = goalSeek(BASE_SCENARIO, "uplifts.winRateUplift", { metric: "paybackMonths", value: 0.5 });
+
+    expect(result).toEqual({ success: false, error: expect.stringContaining("between 0 and 20") });
+  });
+});
@@ -0,0 +1,115 @@
+import { calculateScenario } from "./calculator";
+import { marketSchema, upliftSchema } from "./schema";
+import { SENSITIVITY_AXES } from "./sensitivity";
+import {
+  GoalSeekInput,
+  GoalSeekResult,
+  GoalSeekTarget,
+  IncrementalOutputs,
+  ScenarioInputs,
+} from "./types";
+
+const SCAN_STEPS = 48;
+const BISECTION_STEPS = 40;
+// Costs have no schema ceiling, so the search stops at a generous multiple of today's spend.
+const COST_CEILING_MULTIPLE = 100;
+const MIN_COST = 1;
+
+const schemaBounds = (schema: { minValue: number | null; maxValue: number | null }): [number, number] => [
+  schema.minValue ?? 0,
+  schema.maxValue ?? Number.POSITIVE_INFINITY,
+];
+
+export const deriveGoalSeekBounds = (inputs: ScenarioInputs, input: GoalSeekInput): [number, number] => {
+  switch (input) {
+    case "uplifts.winRateUplift":
+      return schemaBounds(upliftSchema.shape.winRateUplift);
+    case "uplifts.acvUplift":
+      return schemaBounds(upliftSchema.shape.acvUplift);
+    case "uplifts.opportunityRateUplift":
+      return schemaBounds(upliftSchema.shape.opportunityRateUplift);
+    case "market.targetAccounts":
+      return schemaBounds(marketSchema.shape.targetAccounts);
+    case "costs.total":
+      return [MIN_COST, Math.max(SENSITIVITY_AXES[input].read(inputs), MIN_COST) * COST_CEILING_MULTIPLE];
+  }
+};
+
+const readMetric = (incremental: IncrementalOutputs, target: GoalSeekTarget): number | null =>
+  incremental[target.metric];
+
+const meetsTarget = (achieved: number | null, target: GoalSeekTarget): boolean => {
+  if (achieved === null) {
+    return false;
+  }
+
+  return target.metric === "paybackMonths" ? achieved <= target.value : achieved >= target.value;
+};
+
+// Scans the schema range for the point where the target flips between met and missed, then bisects it.
+// When the range holds several flips, the one nearest today's value wins.
+export const goalSeek = (
+  inputs: ScenarioInputs,
+  input: GoalSeekInput,
+  target: GoalSeekTarget,
+): GoalSeekResult => {
+  const axis = SENSITIVITY_AXES[input];
+  const [min, max] = deriveGoalSeekBounds(inputs, input);
+  const current = axis.read(inputs);
+  const evaluate = (value: number) => readMetric(calculateScenario(axis.write(inputs, value)).outputs.incremental, target);
+  const meets = (value: number) => meetsTarget(evaluate(value), target);
+
+  const samples = Array.from({ length: SCAN_STEPS + 1 }, (_, index) => min + ((max - min) * index) / SCAN_STEPS);
+  const feasible = samples.map(meets);
+
+  if (!feasible.some(Boolean)) {
+    return {
+      success: false,
+      error: `No ${axis.label.toLowerCase()} between ${min} and ${max} meets the target.`,
+    };
+  }
+
+  // Every value in range meets the target, so even the floor is enough.
+  if (feasible.every(Boolean)) {
+    return {
+      success: true,
+      data: { input, value: min, direction: "atLeast", alreadyMet: meets(current), achieved: evaluate(min) },
+    };
+  }
+
+  const flips = samples.slice(1).flatMap((upper, index) =>
+    feasible[index] === feasible[index + 1] ? [] : [{ lower: samples[index], upper, risingIntoTarget: !feasible[index] }],
+  );
+  const flip = flips.reduce((nearest, candidate) =>
+    Math.abs((candidate.lower + candidate.upper) / 2 - current) < Math.abs((nearest.lower + nearest.upper) / 2 - current)
+      ? candidate
+      : nearest,
+  );
+
+  let { lower, upper } = flip;
+  for (let step = 0; step < BISECTION_STEPS; step += 1) {
+    const middle = (lower + upper) / 2;
+    if (meets(middle) === flip.risingIntoTarget) {
+      upper = middle;
+    } else {
+      lower = middle;
+    }
+  }
+
+  // The feasible side of the bracket is the answer; integer inputs round towards it.
+  let value = flip.risingIntoTarget ? upper : lower;
+  if (axis.integer) {
+    value = flip.risingIntoTarget ? Math.ceil(value) : Math.floor(value);
+  }
+
+  return {
+    success: true,
+    data: {
+      input,
+      value,
+      direction: flip.risingIntoTarget ? "atLeast" : "atMost",
+      alreadyMet: meets(current),
+      achieved: evaluate(value),
+    },
+  };
+};
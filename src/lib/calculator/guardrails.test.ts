@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { evaluateGuardrails } from "./guardrails";
+import { BASE_SCENARIO } from "./test-fixtures";
+
+describe("evaluateGuardrails", () => {
+  it("flags uplifts beyond typical stretch", () => {
+    const guardrails = evaluateGuardrails(BASE_SCENARIO);
+
+    expect(guardrails).toEqual([
+      expect.objectContaining({ section: "uplifts", field: "winRateUplift", level: "warning" }),
+    ]);
+  });
+
+  it("applies the PRD soft limits per section and field", () => {
+    const guardrails = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      market: {
+        ...BASE_SCENARIO.market,
+        targetAccounts: 1_200,
+        inMarketRate: 55,
+        baselineWinRate: 58,
+        baselineAcv: 12_000_000,
+        contributionMargin: 90,
+      },
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 4 },
+    });
+    const keys = guardrails.map((guardrail) => `${guardrail.section}.${guardrail.field}:${guardrail.level}`);
+
+    expect(keys).toEqual([
+      "market.targetAccounts:warning",
+      "market.inMarketRate:warning",
+      "market.baselineWinRate:warning",
+      "market.baselineAcv:warning",
+      "market.contributionMargin:warning",
+    ]);
+  });
+
+  it("converts the ACV limit from GBP into the scenario currency", () => {
+    const acvWarnings = (currency: "GBP" | "USD" | "SEK", baselineAcv: number) =>
+      evaluateGuardrails({
+        ...BASE_SCENARIO,
+        programme: { ...BASE_SCENARIO.programme, currency },
+        market: { ...BASE_SCENARIO.market, baselineAcv },
+      }).filter((guardrail) => guardrail.field === "baselineAcv");
+
+    expect(acvWarnings("GBP", 12_000_000)).toHaveLength(1);
+    expect(acvWarnings("USD", 12_000_000)).toEqual([]);
+    expect(acvWarnings("USD", 13_000_000)).toHaveLength(1);
+    expect(acvWarnings("SEK", 100_000_000)).toEqual([]);
+  });
+
+  it("warns when total win rate passes 95% and errors above 100%", () => {
+    const nearCeiling = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      market: { ...BASE_SCENARIO.market, baselineWinRate: 88 },
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 8 },
+    });
+    const overCeiling = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      market: { ...BASE_SCENARIO.market, baselineWinRate: 95 },
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 8 },
+    });
+
+    expect(nearCeiling.filter((guardrail) => guardrail.field === "winRateUplift")).toEqual([
+      expect.objectContaining({ level: "warning", message: expect.stringContaining("95%") }),
+    ]);
+    expect(overCeiling.some((guardrail) => guardrail.field === "winRateUplift" && guardrail.level === "error")).toBe(true);
+  });
+
+  it("warns on each zero cost category and treats a flat total as info", () => {
+    const partialCosts = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 6 },
+      costs: { ...BASE_SCENARIO.costs, agency: 0, other: 0 },
+    });
+    const flatTotal = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 6 },
+      costs: { people: 0, media: 0, dataTech: 0, content: 0, agency: 0, other: 0, totalOverride: 250_000 },
+    });
+
+    expect(partialCosts.map((guardrail) => guardrail.field)).toEqual(["agency", "other"]);
+    expect(flatTotal).toEqual([
+      expect.objectContaining({ section: "costs", field: "totalOverride", level: "info" }),
+    ]);
+  });
+
+  it("reads line items before the category fields, as the cost total does", () => {
+    const lineItems = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 6 },
+      costs: {
+        people: 0,
+        media: 0,
+        dataTech: 0,
+        content: 0,
+        agency: 0,
+        other: 0,
+        lines: [
+          { label: "Field team", category: "people", amount: 120_000, startMonth: 1, endMonth: 12 },
+          { label: "Paid social", category: "media", amount: 60_000, startMonth: 1, endMonth: 12 },
+        ],
+      },
+    });
+    const overrideWithLines = evaluateGuardrails({
+      ...BASE_SCENARIO,
+      uplifts: { ...BASE_SCENARIO.uplifts, winRateUplift: 6 },
+      costs: {
+        ...BASE_SCENARIO.costs,
+        totalOverride: 250_000,
+        lines: [{ label: "Field team", category: "people", amount: 120_000, startMonth: 1, endMonth: 12 }],
+      },
+    });
+
+    expect(lineItems.map((guardrail) => `${guardrail.field}:${guardrail.level}`)).toEqual([
+      "dataTech:warning",
+      "content:warning",
+      "agency:warning",
+      "other:warning",
+    ]);
+    expect(overrideWithLines.map((guardrail) => guardrail.field)).toEqual([
+      "media",
+      "dataTech",
+      "content",
+      "agency",
+      "other",
+    ]);
+  });
+});
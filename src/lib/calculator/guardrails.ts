@@ -0,0 +1,214 @@
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, rollUpCostLines } from "./costs";
+import { DEFAULT_FX_TABLE, convertAmount } from "./currency";
+import { sumMoney } from "./decimal";
+import { CostCategory, Guardrail, GuardrailLevel, ProgrammeCosts, ScenarioInputs } from "./types";
+
+type GuardrailSection = Guardrail["section"];
+
+type GuardrailRule = {
+  section: GuardrailSection;
+  field: string;
+  level: GuardrailLevel;
+  when: (inputs: ScenarioInputs) => boolean;
+  message: string;
+};
+
+// Money limits are in GBP, the FX table's base, and convert to the scenario currency before comparing.
+export const GUARDRAIL_LIMITS = {
+  minDurationMonths: 3,
+  targetAccountsWarning: 1_000,
+  inMarketRateWarning: 50,
+  minQualifiedOppsPerAccount: 0.1,
+  baselineWinRateWarning: 50,
+  baselineAcvWarning: 10_000_000,
+  contributionMarginMin: 30,
+  contributionMarginMax: 85,
+  winRateUpliftWarning: 10,
+  totalWinRateWarning: 95,
+  totalWinRateMax: 100,
+  acvUpliftMin: 0,
+  acvUpliftMax: 50,
+  opportunityRateUpliftWarning: 50,
+} as const;
+
+const totalWinRate = (inputs: ScenarioInputs): number =>
+  inputs.market.baselineWinRate + inputs.uplifts.winRateUplift;
+
+const baselineAcvLimit = ({ programme, fx }: ScenarioInputs): number => {
+  const limit = GUARDRAIL_LIMITS.baselineAcvWarning;
+  return convertAmount(limit, "GBP", programme.currency, fx ?? DEFAULT_FX_TABLE) ?? limit;
+};
+
+const hasTotalOverride = (costs: ProgrammeCosts): boolean =>
+  Number.isFinite(costs.totalOverride) && (costs.totalOverride ?? 0) > 0;
+
+// Read in sumProgrammeCosts' order: line items, when present, stand in for the category fields.
+const categorySplit = (costs: ProgrammeCosts): Record<CostCategory, number> =>
+  costs.lines?.length ? rollUpCostLines(costs.lines) : costs;
+
+const categoryTotal = (costs: ProgrammeCosts): number => {
+  const split = categorySplit(costs);
+  return sumMoney(COST_CATEGORIES.map((key) => Math.max(0, split[key])));
+};
+
+const GUARDRAIL_RULES: GuardrailRule[] = [
+  {
+    section: "programme",
+    field: "durationMonths",
+    level: "warning",
+    when: ({ programme }) =>
+      programme.durationMonths > 0 && programme.durationMonths < GUARDRAIL_LIMITS.minDurationMonths,
+    message: "Programmes shorter than three months rarely show measurable ABM impact.",
+  },
+  {
+    section: "programme",
+    field: "rampMonths",
+    level: "info",
+    when: ({ programme }) => programme.durationMonths > 0 && programme.rampMonths >= programme.durationMonths,
+    message: "Ramp-up covers the whole programme, so no steady-state months remain.",
+  },
+  {
+    section: "market",
+    field: "targetAccounts",
+    level: "error",
+    when: ({ market }) => market.targetAccounts < 1,
+    message: "Add at least one target account to model the programme.",
+  },
+  {
+    section: "market",
+    field: "targetAccounts",
+    level: "warning",
+    when: ({ market }) => market.targetAccounts > GUARDRAIL_LIMITS.targetAccountsWarning,
+    message: "More than 1,000 target accounts is unusual for ABM—check the list is truly in scope.",
+  },
+  {
+    section: "market",
+    field: "inMarketRate",
+    level: "warning",
+    when: ({ market }) => market.inMarketRate > GUARDRAIL_LIMITS.inMarketRateWarning,
+    message: "Above 50% in-market is rare. Back this with intent or pipeline evidence.",
+  },
+  {
+    section: "market",
+    field: "qualifiedOppsPerAccount",
+    level: "warning",
+    when: ({ market }) => market.qualifiedOppsPerAccount < GUARDRAIL_LIMITS.minQualifiedOppsPerAccount,
+    message: "Fewer than 0.1 opportunities per in-market account leaves little pipeline to influence.",
+  },
+  {
+    section: "market",
+    field: "baselineWinRate",
+    level: "warning",
+    when: ({ market }) => market.baselineWinRate > GUARDRAIL_LIMITS.baselineWinRateWarning,
+    message: "Baseline win rate above 50% is high—confirm it reflects qualified opportunities only.",
+  },
+  {
+    section: "market",
+    field: "baselineAcv",
+    level: "error",
+    when: ({ market }) => market.baselineAcv <= 0,
+    message: "Baseline ACV must be greater than zero.",
+  },
+  {
+    section: "market",
+    field: "baselineAcv",
+    level: "warning",
+    when: (inputs) => inputs.market.baselineAcv > baselineAcvLimit(inputs),
+    message: "Baseline ACV above £10m (or its equivalent) is exceptional—double-check the deal size.",
+  },
+  {
+    section: "market",
+    field: "contributionMargin",
+    level: "warning",
+    when: ({ market }) =>
+      market.contributionMargin < GUARDRAIL_LIMITS.contributionMarginMin ||
+      market.contributionMargin > GUARDRAIL_LIMITS.contributionMarginMax,
+    message: "Contribution margin outside 30–85% is atypical. Confirm with finance.",
+  },
+  {
+    section: "market",
+    field: "salesCycleMonthsAbm",
+    level: "warning",
+    when: ({ market }) =>
+      market.salesCycleMonthsBaseline > 0 && market.salesCycleMonthsAbm >= market.salesCycleMonthsBaseline,
+    message: "ABM cycle matches the baseline, so no velocity gain is modelled.",
+  },
+  {
+    section: "uplifts",
+    field: "winRateUplift",
+    level: "error",
+    when: (inputs) => totalWinRate(inputs) > GUARDRAIL_LIMITS.totalWinRateMax,
+    message: "Baseline win rate plus uplift cannot exceed 100%.",
+  },
+  {
+    section: "uplifts",
+    field: "winRateUplift",
+    level: "warning",
+    when: (inputs) => {
+      const total = totalWinRate(inputs);
+      return total > GUARDRAIL_LIMITS.totalWinRateWarning && total <= GUARDRAIL_LIMITS.totalWinRateMax;
+    },
+    message: "Total win rate above 95% is not credible for most programmes.",
+  },
+  {
+    section: "uplifts",
+    field: "winRateUplift",
+    level: "warning",
+    when: ({ uplifts }) => uplifts.winRateUplift > GUARDRAIL_LIMITS.winRateUpliftWarning,
+    message: "Win-rate uplift above 10pp is beyond typical stretch—capture proof points.",
+  },
+  {
+    section: "uplifts",
+    field: "acvUplift",
+    level: "info",
+    when: ({ uplifts }) =>
+      uplifts.acvUplift < GUARDRAIL_LIMITS.acvUpliftMin || uplifts.acvUplift > GUARDRAIL_LIMITS.acvUpliftMax,
+    message: "ACV uplift sits outside the usual 0–50% band.",
+  },
+  {
+    section: "uplifts",
+    field: "opportunityRateUplift",
+    level: "warning",
+    when: ({ uplifts }) => uplifts.opportunityRateUplift > GUARDRAIL_LIMITS.opportunityRateUpliftWarning,
+    message: "Opportunity uplift above 50% needs strong supporting evidence.",
+  },
+  {
+    section: "costs",
+    field: "totalOverride",
+    level: "error",
+    when: ({ costs }) => !hasTotalOverride(costs) && categoryTotal(costs) <= 0,
+    message: "No programme investment captured, so ROI is n/a.",
+  },
+  {
+    section: "costs",
+    field: "totalOverride",
+    level: "info",
+    when: ({ costs }) => hasTotalOverride(costs) && categoryTotal(costs) <= 0,
+    message: "Investment entered as a single total. Split it by category to show where spend goes.",
+  },
+];
+
+const evaluateCostCategories = (costs: ProgrammeCosts): Guardrail[] => {
+  if (categoryTotal(costs) <= 0) {
+    return [];
+  }
+
+  const split = categorySplit(costs);
+  return COST_CATEGORIES.filter((key) => !(split[key] > 0)).map((key) => ({
+    section: "costs",
+    field: key,
+    level: "warning",
+    message: `${COST_CATEGORY_LABELS[key]} is zero—confirm nothing is missing from the investment.`,
+  }));
+};
+
+export const evaluateGuardrails = (inputs: ScenarioInputs): Guardrail[] => {
+  const ruleGuardrails = GUARDRAIL_RULES.filter((rule) => rule.when(inputs)).map(
+    ({ section, field, level, message }): Guardrail => ({ section, field, level, message }),
+  );
+
+  return [...ruleGuardrails, ...evaluateCostCategories(inputs.costs)];
+};
+
+export const guardrailKey = (guardrail: Pick<Guardrail, "section" | "field">): string =>
+  `${guardrail.section}.${guardrail.field}`;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateAbm, calculateBaseline, calculateIncremental, calculateScenario } from "./calculator";
+import { roundMoney } from "./decimal";
+import { calculateIrr, calculateLifetime, calculateNpv } from "./lifetime";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("calculateLifetime", () => {
+  const lifetime = {
+    enabled: true,
+    years: 3,
+    grossRetention: 90,
+    netExpansion: 10,
+    discountRate: 10,
+  } satisfies ScenarioInputs["lifetime"];
+  const baseline = calculateBaseline(BASE_SCENARIO.market);
+  const abm = calculateAbm(BASE_SCENARIO.market, baseline, BASE_SCENARIO.uplifts);
+  const incremental = calculateIncremental(
+    BASE_SCENARIO.programme,
+    BASE_SCENARIO.market,
+    baseline,
+    abm,
+    BASE_SCENARIO.costs,
+  );
+
+  it("projects retained incremental revenue with churn and expansion", () => {
+    const result = calculateLifetime(lifetime, BASE_SCENARIO.market, abm, incremental);
+
+    expect(result.years).toHaveLength(3);
+    expect(result.years[0].incrementalRevenue).toBeCloseTo(incremental.incrementalRevenue, 6);
+    expect(result.years[1].incrementalRevenue).toBe(roundMoney(incremental.incrementalRevenue * 0.99));
+    expect(result.years[2].abmRevenue).toBe(roundMoney(roundMoney(abm.revenue * 0.99) * 0.99));
+    expect(result.years[0].incrementalGrossProfit).toBeCloseTo(incremental.incrementalGrossProfit, 6);
+  });
+
+  it("reports NPV, IRR and LTV:CAC on discounted cash flows", () => {
+    const result = calculateLifetime(lifetime, BASE_SCENARIO.market, abm, incremental);
+    const cashFlows = [-350_000, ...result.years.map((year) => year.incrementalGrossProfit)];
+
+    // Each discounted year is rounded to the penny, so NPV sits within a few pence of the unrounded sum.
+    expect(result.npv).toBeCloseTo(calculateNpv(cashFlows, 0.1), 1);
+    expect(result.years[2].cumulativeNpv).toBeCloseTo(result.npv, 6);
+    expect(calculateNpv(cashFlows, result.irr ?? 0)).toBeCloseTo(0, 3);
+    expect(result.ltvToCac).toBeCloseTo((result.npv + 350_000) / 350_000, 6);
+  });
+
+  it("returns null IRR when cash flows never change sign", () => {
+    expect(calculateIrr([100, 200, 300])).toBeNull();
+    expect(calculateIrr([-100, 110])).toBeCloseTo(0.1, 6);
+  });
+
+  it("is only attached to scenario outputs when enabled", () => {
+    expect(calculateScenario(BASE_SCENARIO).outputs.lifetime).toBeNull();
+    expect(calculateScenario({ ...BASE_SCENARIO, lifetime }).outputs.lifetime?.years).toHaveLength(3);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  AbmOutputs,
+  IncrementalOutputs,
+  LifetimeOutputs,
+  LifetimeSettings,
+  LifetimeYear,
+  MarketFunnelInputs,
+} from "./types";
+import { percentOf, roundMoney, sumMoney } from "./decimal";
+
+const ONE_HUNDRED = 100;
+const IRR_MIN_RATE = -0.99;
+const IRR_MAX_RATE = 10;
+const IRR_ITERATIONS = 200;
+const IRR_TOLERANCE = 1e-9;
+
+const toDecimal = (value: number): number => value / ONE_HUNDRED;
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+export const calculateNpv = (cashFlows: number[], rate: number): number =>
+  cashFlows.reduce((total, cashFlow, period) => total + cashFlow / Math.pow(1 + rate, period), 0);
+
+export const calculateIrr = (cashFlows: number[]): number | null => {
+  let low = IRR_MIN_RATE;
+  let high = IRR_MAX_RATE;
+  let npvLow = calculateNpv(cashFlows, low);
+  const npvHigh = calculateNpv(cashFlows, high);
+
+  if (!Number.isFinite(npvLow) || !Number.isFinite(npvHigh) || npvLow * npvHigh > 0) {
+    return null;
+  }
+
+  for (let iteration = 0; iteration < IRR_ITERATIONS; iteration += 1) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNpv(cashFlows, mid);
+
+    if (Math.abs(npvMid) < IRR_TOLERANCE || (high - low) / 2 < IRR_TOLERANCE) {
+      return mid;
+    }
+
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+
+  return (low + high) / 2;
+};
+
+export const calculateLifetime = (
+  settings: LifetimeSettings,
+  market: MarketFunnelInputs,
+  abm: AbmOutputs,
+  incremental: IncrementalOutputs,
+): LifetimeOutputs => {
+  const horizon = Math.max(1, Math.round(floorZero(settings.years)));
+  const discountRate = toDecimal(floorZero(settings.discountRate));
+  // Renewal years keep the gross-retained share of revenue, then grow it by net expansion.
+  const renew = (revenue: number) =>
+    roundMoney(
+      percentOf(
+        percentOf(revenue, floorZero(settings.grossRetention)),
+        ONE_HUNDRED + floorZero(settings.netExpansion),
+      ),
+    );
+
+  const years: LifetimeYear[] = [];
+  let abmRevenue = abm.revenue;
+  let incrementalRevenue = incremental.incrementalRevenue;
+  let cumulativeNpv = -roundMoney(incremental.totalCost);
+
+  for (let year = 1; year <= horizon; year += 1) {
+    if (year > 1) {
+      abmRevenue = renew(abmRevenue);
+      incrementalRevenue = renew(incrementalRevenue);
+    }
+
+    const incrementalGrossProfit = roundMoney(percentOf(incrementalRevenue, market.contributionMargin));
+    const discountedGrossProfit = roundMoney(incrementalGrossProfit / Math.pow(1 + discountRate, year));
+    cumulativeNpv = sumMoney([cumulativeNpv, discountedGrossProfit]);
+
+    years.push({
+      year,
+      abmRevenue,
+      incrementalRevenue,
+      incrementalGrossProfit,
+      discountedGrossProfit,
+      cumulativeNpv,
+    });
+  }
+
+  const discountedLifetimeGrossProfit = sumMoney(years.map((year) => year.discountedGrossProfit));
+  const cashFlows = [-incremental.totalCost, ...years.map((year) => year.incrementalGrossProfit)];
+
+  return {
+    years,
+    lifetimeIncrementalRevenue: sumMoney(years.map((year) => year.incrementalRevenue)),
+    lifetimeIncrementalGrossProfit: sumMoney(years.map((year) => year.incrementalGrossProfit)),
+    npv: cumulativeNpv,
+    irr: incremental.totalCost > 0 ? calculateIrr(cashFlows) : null,
+    ltvToCac: incremental.totalCost > 0 ? discountedLifetimeGrossProfit / incremental.totalCost : null,
+  };
+};
+
+// Adds up lifetimes run side by side over one horizon (segments), re-deriving the ratios from the sums.
+export const combineLifetimes = (lifetimes: LifetimeOutputs[], totalCost: number): LifetimeOutputs => {
+  const horizon = Math.max(0, ...lifetimes.map((lifetime) => lifetime.years.length));
+  const sumYears = (index: number, read: (year: LifetimeYear) => number) =>
+    sumMoney(lifetimes.map((lifetime) => (lifetime.years[index] ? read(lifetime.years[index]) : 0)));
+
+  const years: LifetimeYear[] = Array.from({ length: horizon }, (_, index) => ({
+    year: index + 1,
+    abmRevenue: sumYears(index, (year) => year.abmRevenue),
+    incrementalRevenue: sumYears(index, (year) => year.incrementalRevenue),
+    incrementalGrossProfit: sumYears(index, (year) => year.incrementalGrossProfit),
+    discountedGrossProfit: sumYears(index, (year) => year.discountedGrossProfit),
+    cumulativeNpv: sumYears(index, (year) => year.cumulativeNpv),
+  }));
+
+  const discountedLifetimeGrossProfit = sumMoney(years.map((year) => year.discountedGrossProfit));
+  const cashFlows = [-totalCost, ...years.map((year) => year.incrementalGrossProfit)];
+
+  return {
+    years,
+    lifetimeIncrementalRevenue: sumMoney(years.map((year) => year.incrementalRevenue)),
+    lifetimeIncrementalGrossProfit: sumMoney(years.map((year) => year.incrementalGrossProfit)),
+    npv: sumMoney(lifetimes.map((lifetime) => lifetime.npv)),
+    irr: totalCost > 0 ? calculateIrr(cashFlows) : null,
+    ltvToCac: totalCost > 0 ? discountedLifetimeGrossProfit / totalCost : null,
+  };
+};
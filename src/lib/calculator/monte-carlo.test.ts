@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { createRng, runMonteCarlo, sampleDistribution } from "./monte-carlo";
+import { BASE_SCENARIO } from "./test-fixtures";
+
+describe("runMonteCarlo", () => {
+  const distributions = {
+    "market.baselineAcv": { kind: "pert", low: 80_000, mostLikely: 110_000, high: 150_000 },
+    "uplifts.winRateUplift": { kind: "triangular", low: 4, mostLikely: 12, high: 18 },
+    "market.inMarketRate": { kind: "uniform", low: 20, mostLikely: 34, high: 44 },
+  } as const;
+
+  it("keeps samples inside each distribution's bounds", () => {
+    const rng = createRng(7);
+    const samples = Array.from({ length: 500 }, () =>
+      sampleDistribution({ kind: "triangular", low: 4, mostLikely: 12, high: 18 }, rng),
+    );
+    const mean = samples.reduce((total, value) => total + value, 0) / samples.length;
+
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(4);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(18);
+    expect(mean).toBeCloseTo((4 + 12 + 18) / 3, 0);
+  });
+
+  it("replays the same results for the same seed", () => {
+    const first = runMonteCarlo(BASE_SCENARIO, distributions, { iterations: 200, seed: 42 });
+    const second = runMonteCarlo(BASE_SCENARIO, distributions, { iterations: 200, seed: 42 });
+    const other = runMonteCarlo(BASE_SCENARIO, distributions, { iterations: 200, seed: 43 });
+
+    expect(second).toEqual(first);
+    expect(other.roi.p50).not.toBe(first.roi.p50);
+  });
+
+  it("reports ordered percentiles and a histogram", () => {
+    const result = runMonteCarlo(BASE_SCENARIO, distributions, { iterations: 400, seed: 3, bins: 10 });
+
+    expect(result.roi.p10!).toBeLessThan(result.roi.p50!);
+    expect(result.roi.p50!).toBeLessThan(result.roi.p90!);
+    expect(result.incrementalGrossProfit.p10!).toBeLessThan(result.incrementalGrossProfit.p90!);
+    expect(result.roiHistogram).toHaveLength(10);
+    expect(result.roiHistogram.reduce((total, bin) => total + bin.count, 0)).toBe(400);
+  });
+
+  it("collapses to the deterministic result without distributions", () => {
+    const result = runMonteCarlo(BASE_SCENARIO, {}, { iterations: 5 });
+    const { incremental } = calculateScenario(BASE_SCENARIO).outputs;
+
+    expect(result.roi).toEqual({ p10: incremental.roi, p50: incremental.roi, p90: incremental.roi });
+    expect(result.breakEvenProbability).toBe(incremental.roi !== null && incremental.roi >= 0 ? 1 : 0);
+  });
+
+  it("counts break-even on the programme's return, not on profit the baseline already makes", () => {
+    const thin = { ...BASE_SCENARIO, uplifts: { winRateUplift: 2, acvUplift: 2, opportunityRateUplift: 2 } };
+    const { incremental } = calculateScenario(thin).outputs;
+    const result = runMonteCarlo(thin, {}, { iterations: 5 });
+
+    expect(incremental.roi!).toBeLessThan(0);
+    expect(incremental.profitAfterSpend).toBeGreaterThan(0);
+    expect(result.breakEvenProbability).toBe(0);
+  });
+
+  it("spreads each account's own ACV in per-account mode", () => {
+    const perAccount = {
+      ...BASE_SCENARIO,
+      accountList: {
+        fileName: "accounts.csv",
+        importedAt: "2026-10-01",
+        accounts: Array.from({ length: 40 }, (_, index) => ({ name: `Account ${index + 1}`, estimatedAcv: 150_000 })),
+      },
+      accountModel: "perAccount" as const,
+    };
+    const result = runMonteCarlo(
+      perAccount,
+      { "market.baselineAcv": distributions["market.baselineAcv"] },
+      { iterations: 200, seed: 5 },
+    );
+
+    expect(result.incrementalGrossProfit.p10!).toBeLessThan(result.incrementalGrossProfit.p90!);
+  });
+});
@@ -0,0 +1,178 @@
+import { writeMarketInput } from "./account-level";
+import { calculateScenario } from "./calculator";
+import {
+  HistogramBin,
+  InputDistribution,
+  MarketFunnelInputs,
+  MonteCarloDistributions,
+  MonteCarloOptions,
+  MonteCarloResult,
+  PercentileSummary,
+  ScenarioInputs,
+  UncertainInputKey,
+} from "./types";
+
+export const DEFAULT_MONTE_CARLO_ITERATIONS = 1000;
+export const DEFAULT_MONTE_CARLO_SEED = 1;
+const DEFAULT_HISTOGRAM_BINS = 20;
+
+export type Rng = () => number;
+
+// mulberry32: small, fast, and good enough for planning ranges; the same seed always replays the same draws.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sampleNormal = (rng: Rng): number => {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Marsaglia–Tsang; PERT shapes are always ≥ 1 so the boost for small shapes isn't needed.
+const sampleGamma = (shape: number, rng: Rng): number => {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    const x = sampleNormal(rng);
+    const v = (1 + c * x) ** 3;
+    if (v <= 0) {
+      continue;
+    }
+    const u = rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+};
+
+const sampleBeta = (alpha: number, beta: number, rng: Rng): number => {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x / (x + y);
+};
+
+export const sampleDistribution = ({ kind, low, mostLikely, high }: InputDistribution, rng: Rng): number => {
+  const range = high - low;
+  if (range <= 0) {
+    return low;
+  }
+
+  switch (kind) {
+    case "uniform":
+      return low + rng() * range;
+    case "triangular": {
+      const u = rng();
+      const split = (mostLikely - low) / range;
+      return u < split
+        ? low + Math.sqrt(u * range * (mostLikely - low))
+        : high - Math.sqrt((1 - u) * range * (high - mostLikely));
+    }
+    case "pert": {
+      const alpha = 1 + (4 * (mostLikely - low)) / range;
+      const beta = 1 + (4 * (high - mostLikely)) / range;
+      return low + sampleBeta(alpha, beta, rng) * range;
+    }
+  }
+};
+
+const applySample = (inputs: ScenarioInputs, key: UncertainInputKey, value: number): ScenarioInputs => {
+  const [group, field] = key.split(".") as ["market" | "uplifts", string];
+  return group === "market"
+    ? writeMarketInput(inputs, field as keyof MarketFunnelInputs, value)
+    : { ...inputs, uplifts: { ...inputs.uplifts, [field]: value } };
+};
+
+// Nearest-rank percentile. Nulls (no payback inside the horizon, undefined ROI) rank last and surface as null.
+const percentile = (sorted: Array<number | null>, p: number): number | null =>
+  sorted.length === 0 ? null : sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+
+const summarise = (values: Array<number | null>): PercentileSummary => {
+  const sorted = [...values].sort((left, right) => {
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    return left - right;
+  });
+
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+  };
+};
+
+export const buildHistogram = (values: number[], bins = DEFAULT_HISTOGRAM_BINS): HistogramBin[] => {
+  if (values.length === 0) {
+    return [];
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) {
+    return [{ start: min, end: max, count: values.length }];
+  }
+
+  const width = (max - min) / bins;
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count += 1;
+  });
+
+  return histogram;
+};
+
+export const runMonteCarlo = (
+  inputs: ScenarioInputs,
+  distributions: MonteCarloDistributions,
+  options: MonteCarloOptions = {},
+): MonteCarloResult => {
+  const iterations = Math.max(1, Math.round(options.iterations ?? DEFAULT_MONTE_CARLO_ITERATIONS));
+  const seed = options.seed ?? DEFAULT_MONTE_CARLO_SEED;
+  const rng = createRng(seed);
+  const entries = Object.entries(distributions) as Array<[UncertainInputKey, InputDistribution]>;
+
+  const roi: Array<number | null> = [];
+  const incrementalGrossProfit: number[] = [];
+  const paybackMonths: Array<number | null> = [];
+  let breakEvenCount = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const sampled = entries.reduce(
+      (scenario, [key, distribution]) => applySample(scenario, key, sampleDistribution(distribution, rng)),
+      inputs,
+    );
+    const { incremental } = calculateScenario(sampled).outputs;
+
+    roi.push(incremental.roi);
+    incrementalGrossProfit.push(incremental.incrementalGrossProfit);
+    paybackMonths.push(incremental.paybackMonths);
+    // Break-even means the uplift pays back the spend; profit the baseline would make anyway doesn't count.
+    if (incremental.roi !== null && incremental.roi >= 0) {
+      breakEvenCount += 1;
+    }
+  }
+
+  return {
+    iterations,
+    seed,
+    roi: summarise(roi),
+    incrementalGrossProfit: summarise(incrementalGrossProfit),
+    paybackMonths: summarise(paybackMonths),
+    breakEvenProbability: breakEvenCount / iterations,
+    roiHistogram: buildHistogram(roi.filter((value): value is number => value !== null), options.bins),
+  };
+};
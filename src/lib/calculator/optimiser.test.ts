@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { optimiseAllocation } from "./optimiser";
+import { calculatePortfolio } from "./portfolio";
+import { DEFAULT_PORTFOLIO } from "./schema";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("optimiseAllocation", () => {
+  it("never does worse than the priority split and spends within the budget", () => {
+    const plan = optimiseAllocation(BASE_SCENARIO, DEFAULT_PORTFOLIO);
+    const priority = calculatePortfolio(BASE_SCENARIO, DEFAULT_PORTFOLIO);
+
+    expect(plan.portfolio.incremental.incrementalGrossProfit).toBeGreaterThanOrEqual(
+      priority.incremental.incrementalGrossProfit - 1e-6,
+    );
+    expect(plan.portfolio.incremental.totalCost + plan.unallocatedBudget).toBeCloseTo(350_000, 6);
+    plan.portfolio.tiers.forEach((tier) =>
+      expect(tier.treatedAccounts * DEFAULT_PORTFOLIO.tiers[tier.tier].budgetPerAccount).toBeLessThanOrEqual(
+        tier.allocatedBudget + 1e-6,
+      ),
+    );
+  });
+
+  it("keeps recommended hours inside the team pool", () => {
+    const scenario: ScenarioInputs = { ...BASE_SCENARIO, capacity: { ...BASE_SCENARIO.capacity, source: "team" } };
+    const plan = optimiseAllocation(scenario, DEFAULT_PORTFOLIO);
+
+    expect(plan.portfolio.tiers.reduce((total, tier) => total + tier.allocatedHours, 0)).toBeLessThanOrEqual(100);
+  });
+
+  it("traces a non-decreasing frontier and holds back spend when maximising ROI", () => {
+    const plan = optimiseAllocation(BASE_SCENARIO, DEFAULT_PORTFOLIO, { objective: "roi", steps: 10 });
+
+    expect(plan.frontier).toHaveLength(10);
+    expect(plan.frontier.at(-1)!.budget).toBeCloseTo(350_000, 6);
+    plan.frontier.slice(1).forEach((point, index) =>
+      expect(point.incrementalGrossProfit).toBeGreaterThanOrEqual(plan.frontier[index].incrementalGrossProfit),
+    );
+    expect(plan.portfolio.incremental.roi!).toBeGreaterThanOrEqual(
+      Math.max(...plan.frontier.map((point) => point.roi ?? Number.NEGATIVE_INFINITY)) - 1e-9,
+    );
+    Object.values(plan.marginalRoi).forEach((roi) => expect(roi).toEqual(expect.any(Number)));
+  });
+
+  it("splits a per-account list between the tiers rather than running it in each", () => {
+    const accounts = Array.from({ length: 12 }, (_, index) => ({
+      name: `Account ${index + 1}`,
+      tier: index < 2 ? ("oneToOne" as const) : ("oneToMany" as const),
+    }));
+    const listed: ScenarioInputs = {
+      ...BASE_SCENARIO,
+      accountList: { fileName: "accounts.csv", importedAt: "2026-10-01", accounts },
+      accountModel: "perAccount",
+    };
+    const plan = optimiseAllocation(listed, DEFAULT_PORTFOLIO);
+
+    expect(plan.portfolio.tiers.map((tier) => tier.requestedAccounts)).toEqual([1, 0, 3]);
+    expect(plan.portfolio.baseline.inMarketAccounts).toBeLessThanOrEqual(12 * 0.34 + 1e-9);
+  });
+});
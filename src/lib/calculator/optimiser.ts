@@ -0,0 +1,189 @@
+import { sumProgrammeCosts } from "./calculator";
+import { deriveTeamCapacity } from "./capacity";
+import {
+  TIER_KEYS,
+  deriveRequestedAccounts,
+  evaluatePortfolioTier,
+  resolvePortfolioTiers,
+  rollUpPortfolio,
+} from "./portfolio";
+import {
+  AllocationObjective,
+  AllocationOptions,
+  AllocationPlan,
+  FrontierPoint,
+  PortfolioSettings,
+  PortfolioTierInputs,
+  ScenarioInputs,
+  TierKey,
+} from "./types";
+
+export const DEFAULT_ALLOCATION_STEPS = 20;
+export const DEFAULT_ALLOCATION_OBJECTIVE: AllocationObjective = "incrementalGrossProfit";
+
+const EPSILON = 1e-9;
+
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+interface CurvePoint {
+  treatedAccounts: number;
+  hours: number;
+  grossProfit: number;
+}
+
+interface Candidate {
+  units: number[];
+  spendUnits: number;
+  grossProfit: number;
+}
+
+const affordableAccounts = (inputs: ScenarioInputs, settings: PortfolioTierInputs, budget: number): number => {
+  const requested = deriveRequestedAccounts(inputs, settings);
+  const perAccount = floorZero(settings.budgetPerAccount);
+
+  return perAccount > 0 ? Math.min(requested, Math.floor(budget / perAccount + EPSILON)) : requested;
+};
+
+// Gross profit depends only on how many accounts a tier treats, so each count is evaluated once.
+const createTierEvaluator = (inputs: ScenarioInputs, tier: TierKey, settings: PortfolioTierInputs) => {
+  const cache = new Map<number, number>();
+
+  return (treatedAccounts: number): number => {
+    const cached = cache.get(treatedAccounts);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const grossProfit = evaluatePortfolioTier(inputs, tier, settings, treatedAccounts, 0).result.outputs.incremental
+      .incrementalGrossProfit;
+    cache.set(treatedAccounts, grossProfit);
+    return grossProfit;
+  };
+};
+
+const scoreCandidate = (objective: AllocationObjective, candidate: Candidate, unitBudget: number): number => {
+  if (objective === "incrementalGrossProfit") {
+    return candidate.grossProfit;
+  }
+
+  const spend = candidate.spendUnits * unitBudget;
+  return spend > 0 ? (candidate.grossProfit - spend) / spend : Number.NEGATIVE_INFINITY;
+};
+
+const toFrontierPoint = (budget: number, grossProfit: number): FrontierPoint => ({
+  budget,
+  incrementalGrossProfit: grossProfit,
+  roi: budget > 0 ? (grossProfit - budget) / budget : null,
+});
+
+// Splits the budget into equal steps and scores every tier combination; the team pool rules out splits it can't staff.
+export const optimiseAllocation = (
+  inputs: ScenarioInputs,
+  portfolioSettings: PortfolioSettings,
+  options: AllocationOptions = {},
+): AllocationPlan => {
+  const portfolio = resolvePortfolioTiers(inputs, portfolioSettings);
+  const objective = options.objective ?? DEFAULT_ALLOCATION_OBJECTIVE;
+  const steps = Math.max(1, Math.round(options.steps ?? DEFAULT_ALLOCATION_STEPS));
+  const totalBudget = floorZero(options.totalBudget ?? sumProgrammeCosts(inputs.costs));
+  const unitBudget = totalBudget / steps;
+  const poolHours =
+    inputs.capacity.source === "team" ? deriveTeamCapacity(inputs.capacity).totalHours : Number.POSITIVE_INFINITY;
+
+  const evaluators = TIER_KEYS.map((tier) => createTierEvaluator(inputs, tier, portfolio.tiers[tier]));
+  const curves: CurvePoint[][] = TIER_KEYS.map((tier, index) =>
+    Array.from({ length: steps + 1 }, (_, units) => {
+      const treatedAccounts = affordableAccounts(inputs, portfolio.tiers[tier], units * unitBudget);
+      return {
+        treatedAccounts,
+        hours: treatedAccounts * floorZero(portfolio.tiers[tier].hoursPerAccount),
+        grossProfit: evaluators[index](treatedAccounts),
+      };
+    }),
+  );
+
+  let best: Candidate = {
+    units: [0, 0, 0],
+    spendUnits: 0,
+    grossProfit: curves.reduce((total, curve) => total + curve[0].grossProfit, 0),
+  };
+  let bestScore = scoreCandidate(objective, best, unitBudget);
+  const frontierBest = new Array<number>(steps + 1).fill(Number.NEGATIVE_INFINITY);
+
+  for (let first = 0; first <= steps; first += 1) {
+    for (let second = 0; first + second <= steps; second += 1) {
+      for (let third = 0; first + second + third <= steps; third += 1) {
+        const units = [first, second, third];
+        const points = units.map((count, index) => curves[index][count]);
+        if (points.reduce((total, point) => total + point.hours, 0) > poolHours + EPSILON) {
+          continue;
+        }
+
+        const candidate: Candidate = {
+          units,
+          spendUnits: first + second + third,
+          grossProfit: points.reduce((total, point) => total + point.grossProfit, 0),
+        };
+        frontierBest[candidate.spendUnits] = Math.max(frontierBest[candidate.spendUnits], candidate.grossProfit);
+
+        const score = scoreCandidate(objective, candidate, unitBudget);
+        const improves =
+          score > bestScore + EPSILON ||
+          (Math.abs(score - bestScore) <= EPSILON && candidate.spendUnits < best.spendUnits);
+        if (improves) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+    }
+  }
+
+  const tiers = TIER_KEYS.map((tier, index) =>
+    evaluatePortfolioTier(
+      inputs,
+      tier,
+      portfolio.tiers[tier],
+      curves[index][best.units[index]].treatedAccounts,
+      best.units[index] * unitBudget,
+    ),
+  );
+  const hoursUsed = tiers.reduce((total, tier) => total + tier.allocatedHours, 0);
+
+  // The next increment buys at least one more account so lumpy per-account benchmarks don't read as zero return.
+  const marginalRoi = Object.fromEntries(
+    TIER_KEYS.map((tier, index) => {
+      const settings = portfolio.tiers[tier];
+      const increment = Math.max(unitBudget, floorZero(settings.budgetPerAccount));
+      if (increment <= 0) {
+        return [tier, null];
+      }
+
+      const current = tiers[index];
+      const hoursPerAccount = floorZero(settings.hoursPerAccount);
+      const headroom = poolHours - (hoursUsed - current.allocatedHours);
+      const staffable = hoursPerAccount > 0 ? Math.floor(headroom / hoursPerAccount + EPSILON) : Number.POSITIVE_INFINITY;
+      const next = Math.max(
+        current.treatedAccounts,
+        Math.min(affordableAccounts(inputs, settings, current.allocatedBudget + increment), staffable),
+      );
+      const gain = evaluators[index](next) - current.result.outputs.incremental.incrementalGrossProfit;
+
+      return [tier, (gain - increment) / increment];
+    }),
+  ) as Record<TierKey, number | null>;
+
+  let running = frontierBest[0];
+  const frontier = frontierBest.slice(1).map((grossProfit, index) => {
+    running = Math.max(running, grossProfit);
+    return toFrontierPoint((index + 1) * unitBudget, running);
+  });
+
+  return {
+    objective,
+    totalBudget,
+    unallocatedBudget: Math.max(0, totalBudget - best.spendUnits * unitBudget),
+    portfolio: rollUpPortfolio(inputs, tiers),
+    marginalRoi,
+    frontier,
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { sumProgrammeCosts } from "./calculator";
+import { applyPresetMultipliers, planScenario } from "./planner";
+import { DEFAULT_SCENARIO } from "./schema";
+import { PlannerSettings, ScenarioInputs } from "./types";
+
+describe("planScenario", () => {
+  const PLANNER: PlannerSettings = {
+    tier: "oneToFew",
+    preset: "expected",
+    cyclePreset: "typical",
+    buyingWindowMonths: 3,
+    inMarketAuto: true,
+    cycleOverride: false,
+    flatBudget: 0,
+  };
+
+  it("derives the in-market rate, sales cycle and budget capacity", () => {
+    const plan = planScenario(DEFAULT_SCENARIO, PLANNER);
+
+    expect(plan.inMarket).toMatchObject({ influenceWindowMonths: 9, derivedRate: 14, appliedRate: 14 });
+    expect(plan.budget).toMatchObject({
+      availableBudget: 100_000,
+      perAccountBenchmark: 23_500,
+      budgetCapacityAccounts: 4,
+      usedBudget: 70_500,
+      leftoverBudget: 29_500,
+    });
+    expect(plan.coverage.treatedAccounts).toBe(3);
+    expect(plan.salesCycle).toMatchObject({ intensity: 1, tierReduction: 0.15, derivedMonths: 7.6 });
+    expect(plan.inputs.market).toMatchObject({ inMarketRate: 14, salesCycleMonthsAbm: 7.6 });
+    expect(plan.inputs.capacity.budgetCapacityAccounts).toBe(4);
+  });
+
+  it("scales cost lines down to the budget actually used", () => {
+    const { costs } = planScenario(DEFAULT_SCENARIO, PLANNER).inputs;
+
+    expect(costs.people).toBe(24_675);
+    expect(sumProgrammeCosts(costs)).toBe(70_500);
+  });
+
+  it("honours manual in-market, cycle overrides and a flat budget", () => {
+    const inputs: ScenarioInputs = {
+      ...DEFAULT_SCENARIO,
+      costs: { people: 0, media: 0, dataTech: 0, content: 0, agency: 0, other: 0 },
+    };
+    const plan = planScenario(inputs, {
+      ...PLANNER,
+      tier: "oneToOne",
+      inMarketAuto: false,
+      cycleOverride: true,
+      flatBudget: 90_000,
+    });
+
+    expect(plan.inputs.market.inMarketRate).toBe(34);
+    expect(plan.inputs.market.salesCycleMonthsAbm).toBe(DEFAULT_SCENARIO.market.salesCycleMonthsAbm);
+    expect(plan.inputs.costs.totalOverride).toBe(90_000);
+    expect(plan.budget).toMatchObject({ budgetCapacityAccounts: 1, requiredBudget: 420_000, shortfallBudget: 330_000 });
+  });
+
+  it("scales uplifts by preset within the schema bounds", () => {
+    const stretch = applyPresetMultipliers(DEFAULT_SCENARIO.uplifts, 34, "stretch");
+
+    expect(stretch.uplifts).toEqual({ winRateUplift: 18, acvUplift: 30, opportunityRateUplift: 43.8 });
+    expect(stretch.inMarketRate).toBe(45.2);
+    expect(applyPresetMultipliers({ ...DEFAULT_SCENARIO.uplifts, winRateUplift: 16 }, null, "stretch")).toMatchObject({
+      uplifts: { winRateUplift: 20 },
+      inMarketRate: null,
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { summariseAccountList } from "./accounts";
+import { DEFAULT_BENCHMARK_PACK, resolveBenchmarkPack } from "./benchmarks";
+import { ALIGNMENT_MULTIPLIERS, CoverageSummary, deriveCoverage, deriveIntensity } from "./capacity";
+import { COST_CATEGORIES, rollUpCostLines, scaleCostLines } from "./costs";
+import { allocateMoney, roundMoney, subtractMoney, sumMoney } from "./decimal";
+import { deriveInMarketPct } from "./in-market";
+import { estimateBudgetPerAccount } from "./portfolio";
+import {
+  AccountListSummary,
+  BenchmarkPack,
+  CapacitySource,
+  CostCategory,
+  PlannerSettings,
+  PresetKey,
+  ProgrammeCosts,
+  ScenarioInputs,
+  UpliftInputs,
+} from "./types";
+
+export const DEFAULT_POINT_IN_TIME_SHARE = 0.05;
+export const MAX_IN_MARKET_RATE = 70;
+const MAX_BUDGET_CAPACITY_ACCOUNTS = 5000;
+
+export interface InMarketPlan {
+  auto: boolean;
+  fromAccounts: boolean;
+  influenceWindowMonths: number;
+  buyingWindowMonths: number;
+  derivedRate: number;
+  appliedRate: number;
+}
+
+export interface SalesCyclePlan {
+  override: boolean;
+  baselineMonths: number;
+  tierReduction: number;
+  intensity: number;
+  velocity: number;
+  derivedMonths: number;
+  reductionPercent: number;
+  appliedMonths: number;
+}
+
+export interface BudgetPlan {
+  source: CapacitySource;
+  availableBudget: number;
+  perAccountBenchmark: number | null;
+  budgetCapacityAccounts: number | undefined;
+  requiredBudget: number | null;
+  usedBudget: number;
+  leftoverBudget: number;
+  shortfallBudget: number;
+  costOverride: number | undefined;
+  lineItemTotals: Record<CostCategory, number> | null;
+}
+
+export interface ScenarioPlan {
+  inputs: ScenarioInputs;
+  accounts: AccountListSummary | null;
+  coverage: CoverageSummary;
+  inMarket: InMarketPlan;
+  salesCycle: SalesCyclePlan;
+  budget: BudgetPlan;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+// Scales each value by the pack's preset multipliers and keeps it inside the schema bounds, to one decimal place.
+export const applyPresetMultipliers = (
+  uplifts: UpliftInputs,
+  inMarketRate: number | null,
+  preset: PresetKey,
+  pack: BenchmarkPack = DEFAULT_BENCHMARK_PACK,
+): { uplifts: UpliftInputs; inMarketRate: number | null } => {
+  const { multipliers } = pack.presets[preset];
+  const scale = (value: number, multiplier: number, min: number, max: number) =>
+    Number(clamp(value * multiplier, min, max).toFixed(1));
+
+  return {
+    uplifts: {
+      winRateUplift: scale(uplifts.winRateUplift, multipliers.winRate, 0, 20),
+      acvUplift: scale(uplifts.acvUplift, multipliers.acv, -30, 100),
+      opportunityRateUplift: scale(uplifts.opportunityRateUplift, multipliers.opportunity, 0, 100),
+    },
+    inMarketRate: inMarketRate === null ? null : scale(inMarketRate, multipliers.inMarket, 0, MAX_IN_MARKET_RATE),
+  };
+};
+
+export const deriveAutoInMarketRate = (
+  programme: Pick<ScenarioInputs["programme"], "durationMonths" | "rampMonths">,
+  buyingWindowMonths: number,
+): number => {
+  const share = deriveInMarketPct({
+    durationMonths: programme.durationMonths,
+    rampMonths: programme.rampMonths,
+    buyingWindowMonths,
+    pointInTimeShare: DEFAULT_POINT_IN_TIME_SHARE,
+  });
+
+  return Math.min(MAX_IN_MARKET_RATE, Math.round(Math.min(1, share) * 100));
+};
+
+// Tier cycle reduction, scaled by how saturated coverage is and how quickly sales follows up.
+export const deriveSalesCycleAbm = (
+  baselineMonths: number,
+  tierReduction: number,
+  intensity: number,
+  velocity: number,
+): number => {
+  if (!Number.isFinite(baselineMonths) || baselineMonths <= 0) {
+    return 0;
+  }
+
+  const reduction = tierReduction * clamp(intensity * velocity, 0, 1);
+  const derived = clamp(baselineMonths * (1 - reduction), 1, baselineMonths);
+  return Number.isFinite(derived) ? Number(derived.toFixed(1)) : baselineMonths;
+};
+
+export const estimateBudgetCapacity = (availableBudget: number, perAccount: number): number | undefined => {
+  if (!Number.isFinite(perAccount) || perAccount <= 0) {
+    return undefined;
+  }
+
+  return clamp(Math.floor(floorZero(availableBudget) / perAccount), 0, MAX_BUDGET_CAPACITY_ACCOUNTS);
+};
+
+// Shrinks the cost lines in proportion when budget capacity outruns demand, so only the spend used is counted.
+export const scaleCostsToBudget = (costs: ProgrammeCosts, usedBudget: number): ProgrammeCosts => {
+  const total = sumMoney(COST_CATEGORIES.map((key) => costs[key]));
+  if (total <= 0 || usedBudget <= 0 || Math.abs(usedBudget - total) < 1) {
+    return costs;
+  }
+
+  if (costs.lines?.length) {
+    const lines = scaleCostLines(costs.lines, usedBudget);
+    return { ...costs, ...rollUpCostLines(lines), lines };
+  }
+
+  const shares = allocateMoney(usedBudget, COST_CATEGORIES.map((key) => floorZero(costs[key])));
+  return COST_CATEGORIES.reduce<ProgrammeCosts>((scaled, key, index) => ({ ...scaled, [key]: shares[index] }), {
+    ...costs,
+  });
+};
+
+/**
+ * Turns the planner's form values and settings into the inputs the engine runs on, explaining each
+ * derived value (auto in-market rate, ABM sales cycle, budget capacity) so the UI and exports can show
+ * their working. An imported account list replaces the typed target accounts, ACV and in-market rate, and
+ * budget line items replace the category costs with their roll-up. Tier benchmarks come from the scenario's
+ * benchmark pack unless one is passed in. Preset multipliers are applied on preset changes via
+ * applyPresetMultipliers, not here.
+ */
+export const planScenario = (
+  inputs: ScenarioInputs,
+  settings: PlannerSettings,
+  pack: BenchmarkPack = resolveBenchmarkPack(inputs.benchmarks),
+): ScenarioPlan => {
+  const { programme } = inputs;
+  const lineItemTotals = inputs.costs.lines?.length ? rollUpCostLines(inputs.costs.lines) : null;
+  const costs = lineItemTotals ? { ...inputs.costs, ...lineItemTotals } : inputs.costs;
+  const source = inputs.capacity.source;
+  const accounts = inputs.accountList?.accounts.length ? summariseAccountList(inputs.accountList, inputs.market) : null;
+  const market = accounts
+    ? {
+        ...inputs.market,
+        targetAccounts: accounts.targetAccounts,
+        baselineAcv: accounts.weightedAcv ?? inputs.market.baselineAcv,
+      }
+    : inputs.market;
+
+  const derivedRate = deriveAutoInMarketRate(programme, settings.buyingWindowMonths);
+  const accountsRate = accounts?.inMarketRate ?? null;
+  const inMarket: InMarketPlan = {
+    auto: settings.inMarketAuto,
+    fromAccounts: accountsRate !== null,
+    influenceWindowMonths: Math.max(0, programme.durationMonths - programme.rampMonths),
+    buyingWindowMonths: settings.buyingWindowMonths,
+    derivedRate,
+    appliedRate:
+      accountsRate !== null
+        ? Math.min(MAX_IN_MARKET_RATE, accountsRate)
+        : settings.inMarketAuto
+          ? derivedRate
+          : market.inMarketRate,
+  };
+
+  const categoryTotal = sumMoney(COST_CATEGORIES.map((key) => costs[key]));
+  const availableBudget = categoryTotal > 0 ? categoryTotal : floorZero(settings.flatBudget);
+  const costOverride =
+    settings.flatBudget > 0
+      ? settings.flatBudget
+      : costs.totalOverride && costs.totalOverride > 0
+        ? costs.totalOverride
+        : undefined;
+  const perAccountBenchmark =
+    source === "budget" ? estimateBudgetPerAccount(settings.tier, programme.currency, inputs.fx, pack) : null;
+  const budgetCapacityAccounts =
+    perAccountBenchmark === null ? undefined : estimateBudgetCapacity(availableBudget, perAccountBenchmark);
+  const capacity =
+    source === "budget" ? { ...inputs.capacity, budgetCapacityAccounts } : inputs.capacity;
+
+  const coverage = deriveCoverage({ ...market, inMarketRate: inMarket.appliedRate }, capacity);
+  const requiredBudget =
+    perAccountBenchmark === null ? null : roundMoney(coverage.requestedAccounts * perAccountBenchmark);
+  const usedBudget =
+    perAccountBenchmark === null
+      ? availableBudget
+      : Math.min(availableBudget, roundMoney(coverage.treatedAccounts * perAccountBenchmark));
+  const budget: BudgetPlan = {
+    source,
+    availableBudget,
+    perAccountBenchmark,
+    budgetCapacityAccounts,
+    requiredBudget,
+    usedBudget,
+    leftoverBudget: source === "budget" ? Math.max(0, subtractMoney(availableBudget, usedBudget)) : 0,
+    shortfallBudget: requiredBudget === null ? 0 : Math.max(0, subtractMoney(requiredBudget, availableBudget)),
+    costOverride,
+    lineItemTotals,
+  };
+
+  const tierReduction = pack.tiers[settings.tier].cycleReduction[settings.cyclePreset];
+  const intensity = deriveIntensity(coverage.saturationRate);
+  const { velocity } = ALIGNMENT_MULTIPLIERS[inputs.alignment.level];
+  const derivedMonths = deriveSalesCycleAbm(market.salesCycleMonthsBaseline, tierReduction, intensity, velocity);
+  const salesCycle: SalesCyclePlan = {
+    override: settings.cycleOverride,
+    baselineMonths: market.salesCycleMonthsBaseline,
+    tierReduction,
+    intensity,
+    velocity,
+    derivedMonths,
+    reductionPercent:
+      market.salesCycleMonthsBaseline > 0
+        ? ((market.salesCycleMonthsBaseline - derivedMonths) / market.salesCycleMonthsBaseline) * 100
+        : 0,
+    appliedMonths: settings.cycleOverride ? market.salesCycleMonthsAbm : derivedMonths,
+  };
+
+  return {
+    inputs: {
+      ...inputs,
+      market: { ...market, inMarketRate: inMarket.appliedRate, salesCycleMonthsAbm: salesCycle.appliedMonths },
+      costs: {
+        ...(source === "budget" && perAccountBenchmark !== null ? scaleCostsToBudget(costs, usedBudget) : costs),
+        totalOverride: costOverride,
+      },
+      capacity,
+    },
+    accounts,
+    coverage,
+    inMarket,
+    salesCycle,
+    budget,
+  };
+};
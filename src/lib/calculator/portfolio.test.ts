@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { calculatePortfolio } from "./portfolio";
+import { DEFAULT_PORTFOLIO } from "./schema";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { ScenarioInputs } from "./types";
+
+describe("calculatePortfolio", () => {
+  it("fills the shared team pool from 1:1 down to 1:many", () => {
+    const scenario: ScenarioInputs = { ...BASE_SCENARIO, capacity: { ...BASE_SCENARIO.capacity, source: "team" } };
+    const portfolio = calculatePortfolio(scenario, DEFAULT_PORTFOLIO);
+
+    expect(portfolio.poolHours).toBe(100);
+    expect(portfolio.tiers.map((tier) => tier.requestedAccounts)).toEqual([1, 7, 34]);
+    expect(portfolio.tiers.map((tier) => tier.treatedAccounts)).toEqual([1, 5, 2]);
+    expect(portfolio.tiers.reduce((total, tier) => total + tier.allocatedHours, 0)).toBeLessThanOrEqual(100);
+  });
+
+  it("caps budget-led tiers by their per-account benchmark", () => {
+    const portfolio = calculatePortfolio(BASE_SCENARIO, DEFAULT_PORTFOLIO);
+
+    expect(portfolio.poolBudget).toBe(350_000);
+    expect(portfolio.tiers.map((tier) => tier.treatedAccounts)).toEqual([1, 7, 20]);
+    expect(portfolio.tiers.reduce((total, tier) => total + tier.allocatedBudget, 0)).toBeCloseTo(350_000, 6);
+  });
+
+  it("rolls tier results up into one set of incremental outputs", () => {
+    const portfolio = calculatePortfolio(BASE_SCENARIO, DEFAULT_PORTFOLIO);
+    const tierSum = (read: (tier: (typeof portfolio.tiers)[number]) => number) =>
+      portfolio.tiers.reduce((total, tier) => total + read(tier), 0);
+    const { incremental, timeline } = portfolio;
+
+    expect(incremental.incrementalGrossProfit).toBeCloseTo(
+      tierSum((tier) => tier.result.outputs.incremental.incrementalGrossProfit),
+      6,
+    );
+    expect(incremental.totalCost).toBeCloseTo(350_000, 6);
+    expect(incremental.roi!).toBeCloseTo((incremental.incrementalGrossProfit - 350_000) / 350_000, 9);
+    expect(timeline.months.at(-1)!.cumulativeNetPosition).toBeCloseTo(
+      tierSum((tier) => tier.result.outputs.timeline.months.at(-1)!.cumulativeNetPosition),
+      4,
+    );
+    expect(portfolio.tiers[0].result.inputs.market.salesCycleMonthsAbm).toBeLessThan(
+      portfolio.tiers[2].result.inputs.market.salesCycleMonthsAbm,
+    );
+  });
+
+  it("runs each tier on its own listed accounts in per-account mode", () => {
+    const tiers = ["oneToOne", "oneToFew", "oneToMany", undefined] as const;
+    const accounts = Array.from({ length: 40 }, (_, index) => ({
+      name: `Account ${index + 1}`,
+      tier: tiers[index % tiers.length],
+      estimatedAcv: 60_000 + index * 5_000,
+    }));
+    // Every account in market and a budget that covers them all, so neither run leaves any out.
+    const listed: ScenarioInputs = {
+      ...BASE_SCENARIO,
+      market: { ...BASE_SCENARIO.market, targetAccounts: 40, inMarketRate: 100 },
+      costs: { ...BASE_SCENARIO.costs, totalOverride: 5_000_000 },
+      accountList: { fileName: "accounts.csv", importedAt: "2026-10-01", accounts },
+      accountModel: "perAccount",
+    };
+    const alone = calculateScenario(listed).outputs;
+    const portfolio = calculatePortfolio(listed, DEFAULT_PORTFOLIO);
+
+    expect(portfolio.tiers.map((tier) => tier.result.inputs.accountList?.accounts.length)).toEqual([10, 10, 20]);
+    expect(portfolio.tiers.map((tier) => tier.treatedAccounts)).toEqual([10, 10, 20]);
+    expect(portfolio.baseline.inMarketAccounts).toBeCloseTo(alone.baseline.inMarketAccounts, 9);
+    expect(portfolio.baseline.expectedWins).toBeCloseTo(alone.baseline.expectedWins, 9);
+    expect(portfolio.baseline.revenue).toBeCloseTo(alone.baseline.revenue, 2);
+  });
+});
@@ -0,0 +1,282 @@
+import { calculateScenario, sumProgrammeCosts } from "./calculator";
+import { deriveAlignmentMultipliers, deriveIntensity, deriveTeamCapacity } from "./capacity";
+import { DEFAULT_BENCHMARK_PACK } from "./benchmarks";
+import { resolvePayback } from "./cohort";
+import { DEFAULT_FX_TABLE, convertAmount } from "./currency";
+import { allocateMoney, percentOf, roundMoney, subtractMoney, sumMoney } from "./decimal";
+import {
+  AbmOutputs,
+  BaselineOutputs,
+  BenchmarkPack,
+  CohortMonth,
+  CohortTimeline,
+  CurrencyCode,
+  FxTable,
+  IncrementalOutputs,
+  PortfolioResult,
+  PortfolioSettings,
+  PortfolioTierInputs,
+  PortfolioTierResult,
+  ScenarioInputs,
+  ScenarioOutputs,
+  TargetAccount,
+  TierKey,
+} from "./types";
+
+// Listed in capacity priority: 1:1 accounts are staffed first, 1:many takes what is left.
+export const TIER_KEYS: readonly TierKey[] = ["oneToOne", "oneToFew", "oneToMany"] as const;
+
+// Converts the pack's spend benchmark (quoted in the pack's currency) into the reporting currency.
+export const estimateBudgetPerAccount = (
+  tier: TierKey,
+  currency: CurrencyCode,
+  fx: FxTable = DEFAULT_FX_TABLE,
+  pack: BenchmarkPack = DEFAULT_BENCHMARK_PACK,
+): number => {
+  const benchmark = pack.tiers[tier].budgetPerAccount;
+  return convertAmount(benchmark, pack.currency, currency, fx) ?? benchmark;
+};
+
+const ONE_HUNDRED = 100;
+
+const toDecimal = (value: number): number => value / ONE_HUNDRED;
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+const TIMELINE_FLOWS = [
+  "baselineOpps",
+  "abmOpps",
+  "baselineWins",
+  "abmWins",
+  "baselineRevenue",
+  "abmRevenue",
+  "baselineGrossProfit",
+  "abmGrossProfit",
+  "incrementalGrossProfit",
+  "spend",
+] as const satisfies ReadonlyArray<keyof CohortMonth>;
+
+interface TierAllocation {
+  tier: TierKey;
+  requestedAccounts: number;
+  treatedAccounts: number;
+}
+
+export const deriveRequestedAccounts = (inputs: ScenarioInputs, settings: PortfolioTierInputs): number =>
+  Math.round(percentOf(floorZero(settings.targetAccounts), floorZero(inputs.market.inMarketRate)));
+
+// Each tier draws on whatever the tiers above it left in the shared pool.
+const allocateTiers = (
+  inputs: ScenarioInputs,
+  portfolio: PortfolioSettings,
+  pool: number,
+): TierAllocation[] => {
+  let remaining = floorZero(pool);
+
+  return TIER_KEYS.map((tier) => {
+    const settings = portfolio.tiers[tier];
+    const requestedAccounts = deriveRequestedAccounts(inputs, settings);
+    const unit =
+      inputs.capacity.source === "team" ? floorZero(settings.hoursPerAccount) : floorZero(settings.budgetPerAccount);
+    const affordable = unit > 0 ? Math.floor(remaining / unit) : requestedAccounts;
+    const treatedAccounts = Math.max(0, Math.min(requestedAccounts, affordable));
+    remaining = Math.max(0, remaining - treatedAccounts * unit);
+
+    return { tier, requestedAccounts, treatedAccounts };
+  });
+};
+
+const shareOut = (total: number, weights: number[]): number[] =>
+  allocateMoney(total, weights.some((weight) => weight > 0) ? weights : weights.map(() => 1));
+
+const deriveTierCycle = (
+  inputs: ScenarioInputs,
+  settings: PortfolioTierInputs,
+  allocation: TierAllocation,
+): number => {
+  const baseline = floorZero(inputs.market.salesCycleMonthsBaseline);
+  const saturation =
+    allocation.requestedAccounts > 0 ? allocation.treatedAccounts / allocation.requestedAccounts : 0;
+  const velocity = deriveAlignmentMultipliers(inputs.alignment).velocity;
+  const reduction =
+    toDecimal(floorZero(settings.cycleReduction)) * Math.min(1, deriveIntensity(saturation) * velocity);
+
+  return Math.min(baseline, baseline * (1 - Math.min(1, reduction)));
+};
+
+// Untiered accounts fall to 1:many, which takes whatever the other tiers leave.
+const isInTier = (account: TargetAccount, tier: TierKey): boolean => (account.tier ?? "oneToMany") === tier;
+
+/**
+ * Per-account runs size each tier by its own listed accounts rather than the typed tier targets, so the
+ * tiers share out the list instead of each running the whole of it.
+ */
+export const resolvePortfolioTiers = (inputs: ScenarioInputs, portfolio: PortfolioSettings): PortfolioSettings => {
+  const accounts = inputs.accountModel === "perAccount" ? (inputs.accountList?.accounts ?? []) : [];
+  if (accounts.length === 0) {
+    return portfolio;
+  }
+
+  return {
+    ...portfolio,
+    tiers: Object.fromEntries(
+      TIER_KEYS.map((tier) => [
+        tier,
+        { ...portfolio.tiers[tier], targetAccounts: accounts.filter((account) => isInTier(account, tier)).length },
+      ]),
+    ) as PortfolioSettings["tiers"],
+  };
+};
+
+const buildTierInputs = (
+  inputs: ScenarioInputs,
+  settings: PortfolioTierInputs,
+  allocation: TierAllocation,
+  budget: number,
+): ScenarioInputs => ({
+  ...inputs,
+  market: {
+    ...inputs.market,
+    targetAccounts: settings.targetAccounts,
+    salesCycleMonthsAbm: deriveTierCycle(inputs, settings, allocation),
+  },
+  uplifts: settings.uplifts,
+  costs: { people: 0, media: 0, dataTech: 0, content: 0, agency: 0, other: 0, totalOverride: budget },
+  // The pool has already been split, so each tier runs budget-capped at its allocated account count.
+  capacity: {
+    ...inputs.capacity,
+    source: "budget",
+    hoursPerAccount: settings.hoursPerAccount,
+    budgetCapacityAccounts: allocation.treatedAccounts,
+  },
+  portfolio: undefined,
+  ...(inputs.accountModel === "perAccount" && inputs.accountList
+    ? {
+        accountList: {
+          ...inputs.accountList,
+          accounts: inputs.accountList.accounts.filter((account) => isInTier(account, allocation.tier)),
+        },
+      }
+    : {}),
+});
+
+const sumBy = <T>(items: T[], read: (item: T) => number): number =>
+  items.reduce((total, item) => total + read(item), 0);
+
+export const combineTimelines = (timelines: CohortTimeline[]): CohortTimeline => {
+  const horizon = Math.max(0, ...timelines.map((timeline) => timeline.months.length));
+  let running = 0;
+
+  const months = Array.from({ length: horizon }, (_, index) => {
+    const flows = Object.fromEntries(
+      TIMELINE_FLOWS.map((key) => [key, sumBy(timelines, (timeline) => timeline.months[index]?.[key] ?? 0)]),
+    ) as Pick<CohortMonth, (typeof TIMELINE_FLOWS)[number]>;
+    running += flows.incrementalGrossProfit - flows.spend;
+
+    return { month: index + 1, ...flows, cumulativeNetPosition: running };
+  });
+
+  return {
+    months,
+    paybackMonths: resolvePayback(months.map((month) => month.cumulativeNetPosition)),
+  };
+};
+
+// Sums runs that share one programme (tiers, segments) into a single set of outputs.
+export const rollUpOutputs = (outputs: ScenarioOutputs[]) => {
+  const baseline: BaselineOutputs = {
+    inMarketAccounts: sumBy(outputs, (output) => output.baseline.inMarketAccounts),
+    qualifiedOpps: sumBy(outputs, (output) => output.baseline.qualifiedOpps),
+    expectedWins: sumBy(outputs, (output) => output.baseline.expectedWins),
+    revenue: sumMoney(outputs.map((output) => output.baseline.revenue)),
+    grossProfit: sumMoney(outputs.map((output) => output.baseline.grossProfit)),
+  };
+
+  const abmWins = sumBy(outputs, (output) => output.abm.expectedWins);
+  const abmRevenue = sumMoney(outputs.map((output) => output.abm.revenue));
+  const abm: AbmOutputs = {
+    qualifiedOpps: sumBy(outputs, (output) => output.abm.qualifiedOpps),
+    expectedWins: abmWins,
+    acv: abmWins > 0 ? roundMoney(abmRevenue / abmWins) : 0,
+    revenue: abmRevenue,
+    grossProfit: sumMoney(outputs.map((output) => output.abm.grossProfit)),
+  };
+
+  const timeline = combineTimelines(outputs.map((output) => output.timeline));
+  const totalCost = sumMoney(outputs.map((output) => output.incremental.totalCost));
+  const incrementalGrossProfit = subtractMoney(abm.grossProfit, baseline.grossProfit);
+  const grossProfitPerWin = abmWins > 0 ? abm.grossProfit / abmWins : 0;
+
+  // Runs differ in ABM cycle, so payback reads off the combined cohort curve with no run-rate fallback.
+  const incremental: IncrementalOutputs = {
+    incrementalRevenue: subtractMoney(abm.revenue, baseline.revenue),
+    incrementalGrossProfit,
+    roi: totalCost > 0 ? (incrementalGrossProfit - totalCost) / totalCost : null,
+    grossRoi: totalCost > 0 ? incrementalGrossProfit / totalCost : null,
+    totalCost,
+    profitAfterSpend: subtractMoney(abm.grossProfit, totalCost),
+    incrementalWins: abm.expectedWins - baseline.expectedWins,
+    breakEvenWins: totalCost > 0 && grossProfitPerWin > 0 ? Math.ceil(totalCost / grossProfitPerWin) : null,
+    paybackMonths: timeline.paybackMonths,
+  };
+
+  return { baseline, abm, incremental, timeline };
+};
+
+export const evaluatePortfolioTier = (
+  inputs: ScenarioInputs,
+  tier: TierKey,
+  settings: PortfolioTierInputs,
+  treatedAccounts: number,
+  budget: number,
+): PortfolioTierResult => {
+  const allocation: TierAllocation = {
+    tier,
+    requestedAccounts: deriveRequestedAccounts(inputs, settings),
+    treatedAccounts,
+  };
+
+  return {
+    ...allocation,
+    allocatedHours: treatedAccounts * floorZero(settings.hoursPerAccount),
+    allocatedBudget: budget,
+    result: calculateScenario(buildTierInputs(inputs, settings, allocation, budget)),
+  };
+};
+
+export const rollUpPortfolio = (inputs: ScenarioInputs, tiers: PortfolioTierResult[]): PortfolioResult => ({
+  source: inputs.capacity.source,
+  poolHours: deriveTeamCapacity(inputs.capacity).totalHours,
+  poolBudget: sumProgrammeCosts(inputs.costs),
+  tiers,
+  ...rollUpOutputs(tiers.map((tier) => tier.result.outputs)),
+});
+
+export const calculatePortfolio = (inputs: ScenarioInputs, settings: PortfolioSettings): PortfolioResult => {
+  const portfolio = resolvePortfolioTiers(inputs, settings);
+  const allocations = allocateTiers(
+    inputs,
+    portfolio,
+    inputs.capacity.source === "team" ? deriveTeamCapacity(inputs.capacity).totalHours : sumProgrammeCosts(inputs.costs),
+  );
+
+  // Programme cost follows each tier's benchmark spend on the accounts it actually treats.
+  const budgets = shareOut(
+    sumProgrammeCosts(inputs.costs),
+    allocations.map(
+      (allocation) => allocation.treatedAccounts * floorZero(portfolio.tiers[allocation.tier].budgetPerAccount),
+    ),
+  );
+
+  return rollUpPortfolio(
+    inputs,
+    allocations.map((allocation, index) =>
+      evaluatePortfolioTier(
+        inputs,
+        allocation.tier,
+        portfolio.tiers[allocation.tier],
+        allocation.treatedAccounts,
+        budgets[index],
+      ),
+    ),
+  );
+};
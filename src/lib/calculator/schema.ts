@@ -1,8 +1,26 @@
 import { z } from "zod";
 
-import { CurrencyCode, ScenarioInputs } from "./types";
+import {
+  AccountModel,
+  CostCategory,
+  CurrencyCode,
+  CyclePresetKey,
+  DistributionKind,
+  LifetimeSettings,
+  PortfolioSettings,
+  PresetKey,
+  ScenarioInputs,
+  SensitivityAxis,
+  SensitivityMetric,
+  TierKey,
+} from "./types";
+import { CURRENCY_CODES, DEFAULT_FX_TABLE } from "./currency";
+import { DEFAULT_BENCHMARK_PACK, toBenchmarkRef } from "./benchmarks";
+import { MAX_ACCOUNT_LIST_ROWS } from "./accounts";
+import { COST_CATEGORIES, MAX_COST_LINES } from "./costs";
+import { MAX_SEGMENTS } from "./segments";
 
-const currencyEnum = z.enum(["GBP", "USD", "EUR"] satisfies CurrencyCode[]);
+const currencyEnum = z.enum(CURRENCY_CODES as [CurrencyCode, ...CurrencyCode[]]);
 
 // Helper to coerce input to number and apply min/max
 const num = (min?: number, max?: number) => {
@@ -50,6 +68,19 @@ export const upliftSchema = z.object({
   opportunityRateUplift: percentage(0, 100),
 });
 
+export const costLineSchema = z
+  .object({
+    label: z.string().trim().min(1, { message: "Name the line." }).max(200),
+    category: z.enum(COST_CATEGORIES as [CostCategory, ...CostCategory[]]),
+    amount: num(0),
+    startMonth: z.coerce.number().int().min(1),
+    endMonth: z.coerce.number().int().min(1),
+  })
+  .refine((value) => value.endMonth >= value.startMonth, {
+    path: ["endMonth"],
+    message: "End month must be on or after the start month.",
+  });
+
 export const costsSchema = z
   .object({
     people: num(0),
@@ -59,10 +90,11 @@ export const costsSchema = z
     agency: num(0),
     other: num(0),
     totalOverride: num(0).optional(),
+    lines: z.array(costLineSchema).max(MAX_COST_LINES).optional(),
   })
   .refine((value) => {
     const override = value.totalOverride ?? 0;
-    if (override > 0) {
+    if (override > 0 || value.lines?.some((line) => line.amount > 0)) {
       return true;
     }
 
@@ -109,10 +141,114 @@ export const alignmentSchema = z.object({
   level: z.enum(["poor", "standard", "excellent"]),
 });
 
-export const sensitivitySchema = z.object({
-  inMarketRange: z.array(z.number().min(0).max(100)).nonempty(),
-  winRateUpliftRange: z.array(z.number().min(0).max(100)).nonempty(),
-  resolution: z.number().min(3).max(11).optional(),
+const sensitivityAxisEnum = z.enum([
+  "market.targetAccounts",
+  "market.inMarketRate",
+  "market.qualifiedOppsPerAccount",
+  "market.baselineWinRate",
+  "market.baselineAcv",
+  "market.contributionMargin",
+  "uplifts.winRateUplift",
+  "uplifts.acvUplift",
+  "uplifts.opportunityRateUplift",
+  "costs.total",
+  "capacity.hoursPerAccount",
+] satisfies SensitivityAxis[]);
+
+export const sensitivitySchema = z
+  .object({
+    inMarketRange: z.array(z.number().min(0).max(100)).nonempty(),
+    winRateUpliftRange: z.array(z.number().min(0).max(100)).nonempty(),
+    resolution: z.number().int().min(3).max(11).optional(),
+    rowAxis: sensitivityAxisEnum.optional(),
+    columnAxis: sensitivityAxisEnum.optional(),
+    metric: z
+      .enum(["roi", "grossRoi", "paybackMonths", "profitAfterSpend", "incrementalWins"] satisfies SensitivityMetric[])
+      .optional(),
+  })
+  .refine((value) => !value.rowAxis || value.rowAxis !== value.columnAxis, {
+    path: ["columnAxis"],
+    message: "Pick two different inputs for the grid axes.",
+  });
+
+export const lifetimeSchema = z.object({
+  enabled: z.boolean(),
+  years: num(1, 10),
+  grossRetention: percentage(0, 100),
+  netExpansion: percentage(0, 100),
+  discountRate: percentage(0, 50),
+});
+
+const portfolioTierSchema = z.object({
+  targetAccounts: num(0, 2000),
+  hoursPerAccount: num(1, 200),
+  budgetPerAccount: num(0),
+  uplifts: upliftSchema,
+  cycleReduction: percentage(0, 90),
+});
+
+export const portfolioSchema = z.object({
+  enabled: z.boolean(),
+  tiers: z.object({
+    oneToOne: portfolioTierSchema,
+    oneToFew: portfolioTierSchema,
+    oneToMany: portfolioTierSchema,
+  }),
+});
+
+// Bounds match marketSchema so a segment can't hold a funnel the single-market form would reject.
+export const segmentSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name the segment." }).max(80),
+  targetAccounts: num(0, 2000),
+  inMarketRate: percentage(0, 70),
+  baselineWinRate: percentage(0, 60),
+  baselineAcv: num(0),
+  contributionMargin: percentage(0, 95),
+  salesCycleMonthsBaseline: num(0, 24),
+});
+
+export const segmentsSchema = z.object({
+  enabled: z.boolean(),
+  segments: z
+    .array(segmentSchema)
+    .max(MAX_SEGMENTS)
+    .refine((segments) => new Set(segments.map((segment) => segment.name.trim().toLowerCase())).size === segments.length, {
+      message: "Give each segment a different name.",
+    }),
+});
+
+export const fxSchema = z
+  .object({
+    base: currencyEnum,
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Use a YYYY-MM-DD date." }),
+    rates: z.object(
+      Object.fromEntries(
+        CURRENCY_CODES.map((code) => [code, z.coerce.number().positive({ message: "Rates must be above zero." })]),
+      ) as Record<CurrencyCode, z.ZodCoercedNumber>,
+    ),
+  })
+  .refine((value) => value.rates[value.base] === 1, {
+    path: ["rates"],
+    message: "The base currency's rate must be 1.",
+  });
+
+export const accountListSchema = z.object({
+  fileName: z.string(),
+  importedAt: z.string(),
+  accounts: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(200),
+        tier: z.enum(["oneToOne", "oneToFew", "oneToMany"] satisfies TierKey[]).optional(),
+        segment: z.string().optional(),
+        estimatedAcv: z.number().min(0).optional(),
+        inMarket: z.boolean().optional(),
+        inMarketProbability: z.number().min(0).max(100).optional(),
+        expectedOpps: z.number().min(0).optional(),
+        treated: z.boolean().optional(),
+      }),
+    )
+    .max(MAX_ACCOUNT_LIST_ROWS),
 });
 
 export const scenarioSchema = z.object({
@@ -123,10 +259,80 @@ export const scenarioSchema = z.object({
   capacity: capacitySchema,
   alignment: alignmentSchema,
   sensitivity: sensitivitySchema,
+  lifetime: lifetimeSchema.optional(),
+  portfolio: portfolioSchema.optional(),
+  fx: fxSchema.optional(),
+  benchmarks: z.object({ id: z.string().min(1), version: z.string().min(1) }).optional(),
+  accountList: accountListSchema.optional(),
+  crmSnapshot: z.object({ fileName: z.string(), importedAt: z.string(), note: z.string() }).optional(),
+  accountModel: z.enum(["averages", "perAccount"] satisfies AccountModel[]).optional(),
+  segments: segmentsSchema.optional(),
 });
 
 export type ScenarioInputSchema = z.infer<typeof scenarioSchema>;
 
+export const plannerSettingsSchema = z.object({
+  tier: z.enum(["oneToOne", "oneToFew", "oneToMany"] satisfies TierKey[]),
+  preset: z.enum(["conservative", "expected", "stretch"] satisfies PresetKey[]),
+  cyclePreset: z.enum(["typical", "stretch"] satisfies CyclePresetKey[]),
+  buyingWindowMonths: z.number().int().min(1).max(24),
+  inMarketAuto: z.boolean(),
+  cycleOverride: z.boolean(),
+  flatBudget: z.number().min(0),
+});
+
+export const inputDistributionSchema = z
+  .object({
+    kind: z.enum(["uniform", "triangular", "pert"] satisfies DistributionKind[]),
+    low: z.number(),
+    mostLikely: z.number(),
+    high: z.number(),
+  })
+  .refine((value) => value.low <= value.high, {
+    path: ["high"],
+    message: "High must be ≥ low.",
+  })
+  .refine((value) => value.kind === "uniform" || (value.mostLikely >= value.low && value.mostLikely <= value.high), {
+    path: ["mostLikely"],
+    message: "Most likely must sit between low and high.",
+  });
+
+export const DEFAULT_LIFETIME: LifetimeSettings = {
+  enabled: false,
+  years: 3,
+  grossRetention: 90,
+  netExpansion: 10,
+  discountRate: 10,
+};
+
+// Tier defaults mirror the single-tier benchmarks; uplifts step down as personalisation thins out.
+export const DEFAULT_PORTFOLIO: PortfolioSettings = {
+  enabled: false,
+  tiers: {
+    oneToOne: {
+      targetAccounts: 4,
+      hoursPerAccount: DEFAULT_BENCHMARK_PACK.tiers.oneToOne.hoursPerAccount,
+      budgetPerAccount: DEFAULT_BENCHMARK_PACK.tiers.oneToOne.budgetPerAccount,
+      uplifts: { winRateUplift: 15, acvUplift: 25, opportunityRateUplift: 30 },
+      cycleReduction: Math.round(DEFAULT_BENCHMARK_PACK.tiers.oneToOne.cycleReduction.typical * 100),
+    },
+    oneToFew: {
+      targetAccounts: 20,
+      hoursPerAccount: DEFAULT_BENCHMARK_PACK.tiers.oneToFew.hoursPerAccount,
+      budgetPerAccount: DEFAULT_BENCHMARK_PACK.tiers.oneToFew.budgetPerAccount,
+      uplifts: { winRateUplift: 12, acvUplift: 18, opportunityRateUplift: 25 },
+      cycleReduction: Math.round(DEFAULT_BENCHMARK_PACK.tiers.oneToFew.cycleReduction.typical * 100),
+    },
+    oneToMany: {
+      targetAccounts: 100,
+      hoursPerAccount: DEFAULT_BENCHMARK_PACK.tiers.oneToMany.hoursPerAccount,
+      budgetPerAccount: DEFAULT_BENCHMARK_PACK.tiers.oneToMany.budgetPerAccount,
+      uplifts: { winRateUplift: 6, acvUplift: 8, opportunityRateUplift: 15 },
+      cycleReduction: Math.round(DEFAULT_BENCHMARK_PACK.tiers.oneToMany.cycleReduction.typical * 100),
+    },
+  },
+};
+
 export const DEFAULT_SCENARIO: ScenarioInputs = scenarioSchema.parse({
   programme: {
     durationMonths: 12,
@@ -172,5 +378,12 @@ export const DEFAULT_SCENARIO: ScenarioInputs = scenarioSchema.parse({
     inMarketRange: [24, 34, 44],
     winRateUpliftRange: [6, 12, 18],
     resolution: 5,
+    rowAxis: "market.inMarketRate",
+    columnAxis: "uplifts.winRateUplift",
+    metric: "roi",
   },
+  lifetime: DEFAULT_LIFETIME,
+  portfolio: DEFAULT_PORTFOLIO,
+  fx: DEFAULT_FX_TABLE,
+  benchmarks: toBenchmarkRef(DEFAULT_BENCHMARK_PACK),
 });
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { deriveTeamCapacity } from "./capacity";
+import { sumMoney } from "./decimal";
+import { applySegmentTotals, calculateSegments } from "./segments";
+import { DEFAULT_LIFETIME } from "./schema";
+import { buildSensitivityGrid } from "./sensitivity";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { MarketSegment, ScenarioInputs } from "./types";
+
+describe("market segments", () => {
+  const UK_FS: MarketSegment = {
+    name: "UK Financial Services",
+    targetAccounts: 60,
+    inMarketRate: 30,
+    baselineWinRate: 30,
+    baselineAcv: 150_000,
+    contributionMargin: 70,
+    salesCycleMonthsBaseline: 9,
+  };
+  const DACH: MarketSegment = {
+    name: "DACH Manufacturing",
+    targetAccounts: 90,
+    inMarketRate: 20,
+    baselineWinRate: 18,
+    baselineAcv: 80_000,
+    contributionMargin: 55,
+    salesCycleMonthsBaseline: 12,
+  };
+
+  it("reproduces the single-market result when one segment matches the market", () => {
+    const { market } = BASE_SCENARIO;
+    const whole = calculateScenario(BASE_SCENARIO).outputs;
+    const segmented = calculateSegments(BASE_SCENARIO, [{ ...market, name: "All" }]);
+
+    expect(segmented.segments[0].result.inputs.market.salesCycleMonthsAbm).toBe(6);
+    expect(segmented.incremental.totalCost).toBe(whole.incremental.totalCost);
+    expect(segmented.incremental.incrementalGrossProfit).toBe(whole.incremental.incrementalGrossProfit);
+  });
+
+  it("shares a capped team and the programme cost across segments and totals them", () => {
+    const inputs: ScenarioInputs = {
+      ...BASE_SCENARIO,
+      capacity: { ...BASE_SCENARIO.capacity, source: "team" },
+    };
+    const segmented = calculateSegments(inputs, [UK_FS, DACH]);
+    const [uk, dach] = segmented.segments;
+    const pool = deriveTeamCapacity(inputs.capacity).accountCapacity;
+
+    // 18 in-market accounts each compete for a team that can treat fewer, so both are covered alike.
+    expect([uk.requestedAccounts, dach.requestedAccounts]).toEqual([18, 18]);
+    expect(pool).toBeLessThan(36);
+    expect(uk.treatedAccounts + dach.treatedAccounts).toBe(pool);
+    expect(Math.abs(uk.treatedAccounts - dach.treatedAccounts)).toBeLessThanOrEqual(1);
+    expect(uk.allocatedBudget + dach.allocatedBudget).toBe(350_000);
+    expect(uk.result.outputs.abm.acv).toBeGreaterThan(dach.result.outputs.abm.acv);
+    expect(segmented.incremental.incrementalGrossProfit).toBe(
+      sumMoney(segmented.segments.map((segment) => segment.result.outputs.incremental.incrementalGrossProfit)),
+    );
+    expect(segmented.incremental.totalCost).toBe(350_000);
+  });
+
+  it("runs the sensitivity grid on one segment's funnel", () => {
+    const segmented = calculateSegments(BASE_SCENARIO, [UK_FS, DACH]);
+    const grid = buildSensitivityGrid(segmented.segments[1].result.inputs);
+
+    expect(grid.rows).toHaveLength(BASE_SCENARIO.sensitivity.resolution!);
+    expect(grid.cells[0][0].value).not.toBe(buildSensitivityGrid(BASE_SCENARIO).cells[0][0].value);
+  });
+
+  it("makes the segments' roll-up the scenario's totals", () => {
+    const inputs: ScenarioInputs = { ...BASE_SCENARIO, lifetime: { ...DEFAULT_LIFETIME, enabled: true } };
+    const whole = calculateScenario(inputs);
+    const segmented = calculateSegments(inputs, [UK_FS, DACH]);
+    const { outputs } = applySegmentTotals(whole, segmented);
+    const lifetimes = segmented.segments.map((segment) => segment.result.outputs.lifetime!);
+
+    expect(outputs.incremental).toEqual(segmented.incremental);
+    expect(outputs.baseline).toEqual(segmented.baseline);
+    expect(outputs.timeline).toEqual(segmented.timeline);
+    expect(outputs.incremental.roi).not.toBe(whole.outputs.incremental.roi);
+    expect(outputs.segments).toBe(segmented.segments);
+    expect(outputs.lifetime!.npv).toBe(sumMoney(lifetimes.map((lifetime) => lifetime.npv)));
+    expect(outputs.lifetime!.years.at(-1)!.cumulativeNpv).toBe(outputs.lifetime!.npv);
+    expect(outputs.lifetime!.ltvToCac!).toBeCloseTo(
+      sumMoney(lifetimes.flatMap((lifetime) => lifetime.years.map((year) => year.discountedGrossProfit))) / 350_000,
+      9,
+    );
+  });
+});
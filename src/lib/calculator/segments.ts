@@ -0,0 +1,105 @@
+import { calculateScenario, sumProgrammeCosts } from "./calculator";
+import { deriveTeamCapacity } from "./capacity";
+import { allocateMoney, allocateUnits, percentOf } from "./decimal";
+import { combineLifetimes } from "./lifetime";
+import { rollUpOutputs } from "./portfolio";
+import { MarketSegment, ScenarioInputs, ScenarioResult, SegmentResult, SegmentedResult } from "./types";
+
+export const MAX_SEGMENTS = 12;
+
+const floorZero = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+
+export const deriveSegmentDemand = (segment: MarketSegment): number =>
+  Math.round(percentOf(floorZero(segment.targetAccounts), floorZero(segment.inMarketRate)));
+
+// Accounts the shared team or budget can treat across every segment; unlimited when the budget sets no cap.
+const deriveAccountPool = (inputs: ScenarioInputs): number => {
+  if (inputs.capacity.source === "team") {
+    return deriveTeamCapacity(inputs.capacity).accountCapacity;
+  }
+
+  const cap = inputs.capacity.budgetCapacityAccounts;
+  return cap !== undefined && Number.isFinite(cap) ? Math.max(0, Math.floor(cap)) : Number.POSITIVE_INFINITY;
+};
+
+/**
+ * The scenario one segment runs as: its own funnel, the scenario's opps per account and uplifts, and the
+ * ABM cycle cut by the same proportion the scenario's ABM cycle cuts its baseline. Capacity is already split,
+ * so the segment runs budget-capped at its treated accounts, as portfolio tiers do.
+ */
+export const buildSegmentInputs = (
+  inputs: ScenarioInputs,
+  segment: MarketSegment,
+  treatedAccounts: number,
+  budget: number,
+): ScenarioInputs => {
+  const { salesCycleMonthsBaseline, salesCycleMonthsAbm } = inputs.market;
+  const cycleRatio = salesCycleMonthsBaseline > 0 ? Math.min(1, salesCycleMonthsAbm / salesCycleMonthsBaseline) : 1;
+
+  return {
+    ...inputs,
+    market: {
+      ...inputs.market,
+      targetAccounts: segment.targetAccounts,
+      inMarketRate: segment.inMarketRate,
+      baselineWinRate: segment.baselineWinRate,
+      baselineAcv: segment.baselineAcv,
+      contributionMargin: segment.contributionMargin,
+      salesCycleMonthsBaseline: segment.salesCycleMonthsBaseline,
+      salesCycleMonthsAbm: Number((segment.salesCycleMonthsBaseline * cycleRatio).toFixed(1)),
+    },
+    costs: { people: 0, media: 0, dataTech: 0, content: 0, agency: 0, other: 0, totalOverride: budget },
+    capacity: { ...inputs.capacity, source: "budget", budgetCapacityAccounts: treatedAccounts },
+    portfolio: undefined,
+    segments: undefined,
+    accountList: undefined,
+    accountModel: undefined,
+  };
+};
+
+/**
+ * Runs each segment on a share of the programme. Treated accounts are split in proportion to each segment's
+ * in-market demand, so every segment is covered to the same degree, and programme cost follows the accounts
+ * treated. Results are reported per segment and rolled up into one set of outputs.
+ */
+export const calculateSegments = (inputs: ScenarioInputs, segments: MarketSegment[]): SegmentedResult => {
+  const demand = segments.map(deriveSegmentDemand);
+  const requested = demand.reduce((sum, value) => sum + value, 0);
+  // Whole accounts, split by largest remainder so the segments add back to the pool exactly.
+  const treated = allocateUnits(Math.min(requested, deriveAccountPool(inputs)), demand);
+  const budgets = allocateMoney(
+    sumProgrammeCosts(inputs.costs),
+    treated.some((value) => value > 0) ? treated : segments.map((segment) => floorZero(segment.targetAccounts)),
+  );
+
+  const results: SegmentResult[] = segments.map((segment, index) => ({
+    name: segment.name,
+    requestedAccounts: demand[index],
+    treatedAccounts: treated[index],
+    allocatedBudget: budgets[index],
+    result: calculateScenario(buildSegmentInputs(inputs, segment, treated[index], budgets[index])),
+  }));
+
+  return {
+    segments: results,
+    ...rollUpOutputs(results.map((segment) => segment.result.outputs)),
+  };
+};
+
+// The scenario's result with the segments' roll-up as its totals, so headline figures and exports match them.
+export const applySegmentTotals = (result: ScenarioResult, segmented: SegmentedResult): ScenarioResult => {
+  const lifetimes = segmented.segments.flatMap((segment) => segment.result.outputs.lifetime ?? []);
+
+  return {
+    ...result,
+    outputs: {
+      baseline: segmented.baseline,
+      abm: segmented.abm,
+      incremental: segmented.incremental,
+      timeline: segmented.timeline,
+      lifetime: lifetimes.length > 0 ? combineLifetimes(lifetimes, segmented.incremental.totalCost) : null,
+      accounts: null,
+      segments: segmented.segments,
+    },
+  };
+};
@@ -0,0 +1,212 @@
+import { writeMarketInput } from "./account-level";
+import { calculateScenario, sumProgrammeCosts } from "./calculator";
+import { COST_CATEGORIES, rollUpCostLines, scaleCostLines } from "./costs";
+import { allocateMoney, roundMoney, sumMoney } from "./decimal";
+import {
+  ProgrammeCosts,
+  ScenarioInputs,
+  SensitivityAxis,
+  SensitivityCell,
+  SensitivityGrid,
+  SensitivityMetric,
+} from "./types";
+
+export type SensitivityValueFormat = "currency" | "percent" | "ratio" | "number" | "integer" | "months";
+
+export interface SensitivityAxisConfig {
+  label: string;
+  format: SensitivityValueFormat;
+  read: (inputs: ScenarioInputs) => number;
+  write: (inputs: ScenarioInputs, value: number) => ScenarioInputs;
+  bounds: [number, number];
+  integer?: boolean;
+  // Smallest half-width for auto ranges, so a zero base value still produces a spread.
+  minSpan: number;
+}
+
+export const DEFAULT_ROW_AXIS: SensitivityAxis = "market.inMarketRate";
+export const DEFAULT_COLUMN_AXIS: SensitivityAxis = "uplifts.winRateUplift";
+export const DEFAULT_SENSITIVITY_METRIC: SensitivityMetric = "roi";
+export const DEFAULT_RESOLUTION = 5;
+
+const AUTO_SPAN = 0.3;
+const PERCENT_BOUNDS: [number, number] = [0, 100];
+const OPEN_BOUNDS: [number, number] = [0, Number.POSITIVE_INFINITY];
+
+// Scales every cost line (or the override) together so the mix stays intact, in whole pennies that add up to `total`.
+export const scaleCosts = (costs: ProgrammeCosts, total: number): ProgrammeCosts => {
+  const current = sumProgrammeCosts(costs);
+  if (costs.totalOverride && costs.totalOverride > 0) {
+    return { ...costs, totalOverride: roundMoney(total) };
+  }
+  if (current <= 0) {
+    return { ...costs, other: sumMoney([costs.other, total]) };
+  }
+
+  if (costs.lines?.length) {
+    const lines = scaleCostLines(costs.lines, total);
+    return { ...costs, ...rollUpCostLines(lines), lines };
+  }
+
+  const shares = allocateMoney(total, COST_CATEGORIES.map((key) => Math.max(0, costs[key])));
+  return COST_CATEGORIES.reduce<ProgrammeCosts>((scaled, key, index) => ({ ...scaled, [key]: shares[index] }), {
+    ...costs,
+  });
+};
+
+const marketAxis = (
+  key: "targetAccounts" | "inMarketRate" | "qualifiedOppsPerAccount" | "baselineWinRate" | "baselineAcv" | "contributionMargin",
+  config: Omit<SensitivityAxisConfig, "read" | "write">,
+): SensitivityAxisConfig => ({
+  read: (inputs) => inputs.market[key],
+  write: (inputs, value) => writeMarketInput(inputs, key, value),
+  ...config,
+});
+
+const upliftAxis = (
+  key: "winRateUplift" | "acvUplift" | "opportunityRateUplift",
+  config: Omit<SensitivityAxisConfig, "read" | "write">,
+): SensitivityAxisConfig => ({
+  read: (inputs) => inputs.uplifts[key],
+  write: (inputs, value) => ({ ...inputs, uplifts: { ...inputs.uplifts, [key]: value } }),
+  ...config,
+});
+
+export const SENSITIVITY_AXES: Record<SensitivityAxis, SensitivityAxisConfig> = {
+  "market.targetAccounts": marketAxis("targetAccounts", {
+    label: "Target accounts",
+    format: "integer",
+    bounds: [1, Number.POSITIVE_INFINITY],
+    integer: true,
+    minSpan: 10,
+  }),
+  "market.inMarketRate": marketAxis("inMarketRate", {
+    label: "In-market rate",
+    format: "percent",
+    bounds: PERCENT_BOUNDS,
+    minSpan: 5,
+  }),
+  "market.qualifiedOppsPerAccount": marketAxis("qualifiedOppsPerAccount", {
+    label: "Opps per account",
+    format: "number",
+    bounds: OPEN_BOUNDS,
+    minSpan: 0.2,
+  }),
+  "market.baselineWinRate": marketAxis("baselineWinRate", {
+    label: "Baseline win rate",
+    format: "percent",
+    bounds: PERCENT_BOUNDS,
+    minSpan: 5,
+  }),
+  "market.baselineAcv": marketAxis("baselineAcv", {
+    label: "Baseline ACV",
+    format: "currency",
+    bounds: OPEN_BOUNDS,
+    minSpan: 10_000,
+  }),
+  "market.contributionMargin": marketAxis("contributionMargin", {
+    label: "Contribution margin",
+    format: "percent",
+    bounds: PERCENT_BOUNDS,
+    minSpan: 5,
+  }),
+  "uplifts.winRateUplift": upliftAxis("winRateUplift", {
+    label: "Win-rate uplift (pp)",
+    format: "number",
+    bounds: PERCENT_BOUNDS,
+    minSpan: 2,
+  }),
+  "uplifts.acvUplift": upliftAxis("acvUplift", {
+    label: "ACV uplift",
+    format: "percent",
+    bounds: [-100, Number.POSITIVE_INFINITY],
+    minSpan: 5,
+  }),
+  "uplifts.opportunityRateUplift": upliftAxis("opportunityRateUplift", {
+    label: "Opportunity uplift",
+    format: "percent",
+    bounds: OPEN_BOUNDS,
+    minSpan: 5,
+  }),
+  "costs.total": {
+    label: "Programme cost",
+    format: "currency",
+    read: (inputs) => sumProgrammeCosts(inputs.costs),
+    write: (inputs, value) => ({ ...inputs, costs: scaleCosts(inputs.costs, value) }),
+    bounds: OPEN_BOUNDS,
+    minSpan: 10_000,
+  },
+  "capacity.hoursPerAccount": {
+    label: "Hours per account",
+    format: "number",
+    read: (inputs) => inputs.capacity.hoursPerAccount,
+    write: (inputs, value) => ({ ...inputs, capacity: { ...inputs.capacity, hoursPerAccount: value } }),
+    bounds: [1, Number.POSITIVE_INFINITY],
+    minSpan: 2,
+  },
+};
+
+export const SENSITIVITY_METRICS: Record<SensitivityMetric, { label: string; format: SensitivityValueFormat }> = {
+  roi: { label: "Net ROI", format: "ratio" },
+  grossRoi: { label: "Gross ROI", format: "ratio" },
+  paybackMonths: { label: "Payback", format: "months" },
+  profitAfterSpend: { label: "Profit after spend", format: "currency" },
+  incrementalWins: { label: "Incremental wins", format: "number" },
+};
+
+export const clampAxisValue = (axis: SensitivityAxis, value: number): number => {
+  const { bounds, integer } = SENSITIVITY_AXES[axis];
+  const bounded = Math.min(bounds[1], Math.max(bounds[0], value));
+  return integer ? Math.round(bounded) : bounded;
+};
+
+// The in-market and win-uplift lists set the span for their own axes; other axes flex around the current value.
+const axisSpan = (inputs: ScenarioInputs, axis: SensitivityAxis): [number, number] => {
+  const explicit =
+    axis === "market.inMarketRate"
+      ? inputs.sensitivity.inMarketRange
+      : axis === "uplifts.winRateUplift"
+        ? inputs.sensitivity.winRateUpliftRange
+        : [];
+  if (explicit.length > 0) {
+    return [Math.min(...explicit), Math.max(...explicit)];
+  }
+
+  const config = SENSITIVITY_AXES[axis];
+  const base = config.read(inputs);
+  const halfWidth = Math.max(Math.abs(base) * AUTO_SPAN, config.minSpan);
+  return [base - halfWidth, base + halfWidth];
+};
+
+export const deriveAxisRange = (inputs: ScenarioInputs, axis: SensitivityAxis): number[] => {
+  const steps = Math.round(inputs.sensitivity.resolution ?? DEFAULT_RESOLUTION);
+  const [low, high] = axisSpan(inputs, axis).map((value) => clampAxisValue(axis, value));
+  const values = Array.from({ length: steps }, (_, index) =>
+    clampAxisValue(axis, Number((low + ((high - low) * index) / Math.max(1, steps - 1)).toFixed(2))),
+  );
+
+  return [...new Set(values)];
+};
+
+export const buildSensitivityGrid = (inputs: ScenarioInputs): SensitivityGrid => {
+  const rowAxis = inputs.sensitivity.rowAxis ?? DEFAULT_ROW_AXIS;
+  const columnAxis = inputs.sensitivity.columnAxis ?? DEFAULT_COLUMN_AXIS;
+  const metric = inputs.sensitivity.metric ?? DEFAULT_SENSITIVITY_METRIC;
+  const rows = deriveAxisRange(inputs, rowAxis);
+  const columns = deriveAxisRange(inputs, columnAxis);
+
+  const cells = rows.map((row) =>
+    columns.map((column) => {
+      const scenario = SENSITIVITY_AXES[columnAxis].write(SENSITIVITY_AXES[rowAxis].write(inputs, row), column);
+      const cell: SensitivityCell = {
+        row,
+        column,
+        value: calculateScenario(scenario).outputs.incremental[metric],
+      };
+
+      return cell;
+    }),
+  );
+
+  return { rowAxis, columnAxis, metric, rows, columns, cells };
+};
@@ -0,0 +1,50 @@
+import { ScenarioInputs } from "./types";
+
+// A mid-size 1:few programme shared by the engine tests; expected figures in them are worked from these inputs.
+export const BASE_SCENARIO: ScenarioInputs = {
+  programme: {
+    durationMonths: 12,
+    rampMonths: 3,
+    currency: "GBP",
+    numberFormatLocale: "en-GB",
+  },
+  market: {
+    targetAccounts: 110,
+    inMarketRate: 34,
+    qualifiedOppsPerAccount: 1.3,
+    baselineWinRate: 26,
+    baselineAcv: 110_000,
+    contributionMargin: 64,
+    salesCycleMonthsBaseline: 9,
+    salesCycleMonthsAbm: 6,
+  },
+  uplifts: {
+    winRateUplift: 12,
+    acvUplift: 18,
+    opportunityRateUplift: 25,
+  },
+  costs: {
+    people: 170_000,
+    media: 70_000,
+    dataTech: 30_000,
+    content: 42_000,
+    agency: 26_000,
+    other: 12_000,
+  },
+  capacity: {
+    source: "budget",
+    marketingFte: 3,
+    salesFte: 2,
+    marketingUtilisation: 70,
+    salesUtilisation: 50,
+    hoursPerAccount: 12,
+  },
+  alignment: {
+    level: "standard",
+  },
+  sensitivity: {
+    inMarketRange: [24, 34, 44],
+    winRateUpliftRange: [6, 12, 18],
+    resolution: 5,
+  },
+};
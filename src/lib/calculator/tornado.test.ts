@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "./calculator";
+import { BASE_SCENARIO } from "./test-fixtures";
+import { TORNADO_DRIVERS, buildTornado } from "./tornado";
+
+describe("buildTornado", () => {
+  it("flexes every driver and ranks bars by ROI swing", () => {
+    const tornado = buildTornado(BASE_SCENARIO);
+    const swings = tornado.bars.map((bar) => bar.roiSwing);
+
+    expect(tornado.bars).toHaveLength(TORNADO_DRIVERS.length);
+    expect(swings).toEqual([...swings].sort((left, right) => right - left));
+    expect(tornado.baseRoi).toBe(calculateScenario(BASE_SCENARIO).outputs.incremental.roi);
+  });
+
+  it("applies the swing percentage and respects explicit bands", () => {
+    const tornado = buildTornado(BASE_SCENARIO, {
+      swingPercent: 10,
+      bands: { baselineWinRate: { low: 20, high: 120 } },
+    });
+    const acv = tornado.bars.find((bar) => bar.driver === "baselineAcv")!;
+    const winRate = tornado.bars.find((bar) => bar.driver === "baselineWinRate")!;
+
+    expect(acv.low.value).toBeCloseTo(99_000);
+    expect(acv.high.value).toBeCloseTo(121_000);
+    expect(acv.high.incrementalGrossProfit).toBeGreaterThan(acv.low.incrementalGrossProfit);
+    expect(winRate.low.value).toBe(20);
+    expect(winRate.high.value).toBe(100);
+  });
+
+  it("moves ROI against programme cost and swings alignment across levels", () => {
+    const tornado = buildTornado(BASE_SCENARIO);
+    const cost = tornado.bars.find((bar) => bar.driver === "programmeCost")!;
+    const alignment = tornado.bars.find((bar) => bar.driver === "alignment")!;
+
+    expect(cost.base).toBe(350_000);
+    expect(cost.high.value).toBeCloseTo(420_000);
+    expect(cost.high.roi!).toBeLessThan(cost.low.roi!);
+    expect(cost.incrementalGrossProfitSwing).toBe(0);
+    expect(alignment).toMatchObject({ base: "standard", low: { value: "poor" }, high: { value: "excellent" } });
+  });
+
+  it("flexes each account's own ACV in per-account mode", () => {
+    const tornado = buildTornado({
+      ...BASE_SCENARIO,
+      accountList: {
+        fileName: "accounts.csv",
+        importedAt: "2026-10-01",
+        accounts: Array.from({ length: 40 }, (_, index) => ({ name: `Account ${index + 1}`, estimatedAcv: 150_000 })),
+      },
+      accountModel: "perAccount",
+    });
+    const acv = tornado.bars.find((bar) => bar.driver === "baselineAcv")!;
+
+    expect(acv.incrementalGrossProfitSwing).toBeGreaterThan(0);
+    expect(acv.high.incrementalGrossProfit).toBeGreaterThan(acv.low.incrementalGrossProfit);
+  });
+});
@@ -0,0 +1,112 @@
+import { calculateScenario } from "./calculator";
+import { SENSITIVITY_AXES, clampAxisValue } from "./sensitivity";
+import {
+  AlignmentLevel,
+  ScenarioInputs,
+  SensitivityAxis,
+  TornadoBand,
+  TornadoBar,
+  TornadoChart,
+  TornadoDriverKey,
+  TornadoOptions,
+  TornadoPoint,
+} from "./types";
+
+export const DEFAULT_TORNADO_SWING_PERCENT = 20;
+
+// Numeric drivers flex through the same accessors as the sensitivity grid axes.
+const TORNADO_AXES: Record<Exclude<TornadoDriverKey, "alignment">, SensitivityAxis> = {
+  targetAccounts: "market.targetAccounts",
+  qualifiedOppsPerAccount: "market.qualifiedOppsPerAccount",
+  baselineWinRate: "market.baselineWinRate",
+  baselineAcv: "market.baselineAcv",
+  contributionMargin: "market.contributionMargin",
+  winRateUplift: "uplifts.winRateUplift",
+  acvUplift: "uplifts.acvUplift",
+  opportunityRateUplift: "uplifts.opportunityRateUplift",
+  programmeCost: "costs.total",
+  hoursPerAccount: "capacity.hoursPerAccount",
+};
+
+export const TORNADO_DRIVERS: TornadoDriverKey[] = [
+  "targetAccounts",
+  "qualifiedOppsPerAccount",
+  "baselineWinRate",
+  "baselineAcv",
+  "contributionMargin",
+  "winRateUplift",
+  "acvUplift",
+  "opportunityRateUplift",
+  "programmeCost",
+  "alignment",
+  "hoursPerAccount",
+];
+
+// Alignment is categorical, so its band is always the weakest and strongest level.
+const ALIGNMENT_BAND: [AlignmentLevel, AlignmentLevel] = ["poor", "excellent"];
+
+const evaluatePoint = (inputs: ScenarioInputs, value: number | AlignmentLevel): TornadoPoint => {
+  const { incremental } = calculateScenario(inputs).outputs;
+
+  return {
+    value,
+    roi: incremental.roi,
+    paybackMonths: incremental.paybackMonths,
+    incrementalGrossProfit: incremental.incrementalGrossProfit,
+  };
+};
+
+const resolveBand = (base: number, swingPercent: number, band: TornadoBand | undefined): TornadoBand =>
+  band ?? { low: base * (1 - swingPercent / 100), high: base * (1 + swingPercent / 100) };
+
+export const buildTornado = (inputs: ScenarioInputs, options: TornadoOptions = {}): TornadoChart => {
+  const swingPercent = options.swingPercent ?? DEFAULT_TORNADO_SWING_PERCENT;
+  const { incremental } = calculateScenario(inputs).outputs;
+
+  const bars = TORNADO_DRIVERS.map((driverKey): TornadoBar => {
+    let base: number | AlignmentLevel;
+    let low: TornadoPoint;
+    let high: TornadoPoint;
+
+    if (driverKey === "alignment") {
+      const [lowLevel, highLevel] = ALIGNMENT_BAND;
+      base = inputs.alignment.level;
+      low = evaluatePoint({ ...inputs, alignment: { level: lowLevel } }, lowLevel);
+      high = evaluatePoint({ ...inputs, alignment: { level: highLevel } }, highLevel);
+    } else {
+      const axis = TORNADO_AXES[driverKey];
+      const { read, write } = SENSITIVITY_AXES[axis];
+      const baseValue = read(inputs);
+      const band = resolveBand(baseValue, swingPercent, options.bands?.[driverKey]);
+      const lowValue = clampAxisValue(axis, band.low);
+      const highValue = clampAxisValue(axis, band.high);
+
+      base = baseValue;
+      low = evaluatePoint(write(inputs, lowValue), lowValue);
+      high = evaluatePoint(write(inputs, highValue), highValue);
+    }
+
+    return {
+      driver: driverKey,
+      base,
+      low,
+      high,
+      roiSwing: Math.abs((high.roi ?? 0) - (low.roi ?? 0)),
+      paybackSwing:
+        low.paybackMonths === null || high.paybackMonths === null
+          ? null
+          : Math.abs(high.paybackMonths - low.paybackMonths),
+      incrementalGrossProfitSwing: Math.abs(high.incrementalGrossProfit - low.incrementalGrossProfit),
+    };
+  });
+
+  return {
+    baseRoi: incremental.roi,
+    basePaybackMonths: incremental.paybackMonths,
+    baseIncrementalGrossProfit: incremental.incrementalGrossProfit,
+    bars: bars.sort(
+      (left, right) =>
+        right.roiSwing - left.roiSwing || right.incrementalGrossProfitSwing - left.incrementalGrossProfitSwing,
+    ),
+  };
+};
@@ -1,4 +1,21 @@
-export type CurrencyCode = "GBP" | "USD" | "EUR";
+export type CurrencyCode =
+  | "GBP"
+  | "USD"
+  | "EUR"
+  | "CAD"
+  | "AUD"
+  | "NZD"
+  | "CHF"
+  | "SEK"
+  | "NOK"
+  | "DKK"
+  | "PLN"
+  | "SGD"
+  | "HKD"
+  | "ZAR"
+  | "BRL"
+  | "MXN"
+  | "AED";
 
 type Float = number;
 
@@ -26,6 +43,18 @@ export interface UpliftInputs {
   opportunityRateUplift: Float;
 }
 
+export type CostCategory = "people" | "media" | "dataTech" | "content" | "agency" | "other";
+
+// One budget line as agencies write them ("LinkedIn ABM ads – Q1"), spent evenly across programme months
+// startMonth..endMonth (1-based, inclusive).
+export interface CostLineItem {
+  label: string;
+  category: CostCategory;
+  amount: number;
+  startMonth: number;
+  endMonth: number;
+}
+
 export interface ProgrammeCosts {
   people: number;
   media: number;
@@ -34,6 +63,7 @@ export interface ProgrammeCosts {
   agency: number;
   other: number;
   totalOverride?: number;
+  lines?: CostLineItem[];
 }
 
 export type CapacitySource = "budget" | "team";
@@ -54,10 +84,107 @@ export interface AlignmentInputs {
   level: AlignmentLevel;
 }
 
+export type SensitivityAxis =
+  | "market.targetAccounts"
+  | "market.inMarketRate"
+  | "market.qualifiedOppsPerAccount"
+  | "market.baselineWinRate"
+  | "market.baselineAcv"
+  | "market.contributionMargin"
+  | "uplifts.winRateUplift"
+  | "uplifts.acvUplift"
+  | "uplifts.opportunityRateUplift"
+  | "costs.total"
+  | "capacity.hoursPerAccount";
+
+export type SensitivityMetric = "roi" | "grossRoi" | "paybackMonths" | "profitAfterSpend" | "incrementalWins";
+
 export interface SensitivityConfig {
   inMarketRange: Float[];
   winRateUpliftRange: Float[];
   resolution?: number;
+  rowAxis?: SensitivityAxis;
+  columnAxis?: SensitivityAxis;
+  metric?: SensitivityMetric;
+}
+
+export interface LifetimeSettings {
+  enabled: boolean;
+  years: number;
+  grossRetention: Float;
+  netExpansion: Float;
+  discountRate: Float;
+}
+
+export type TierKey = "oneToOne" | "oneToFew" | "oneToMany";
+
+export interface PortfolioTierInputs {
+  targetAccounts: number;
+  hoursPerAccount: number;
+  budgetPerAccount: number;
+  uplifts: UpliftInputs;
+  cycleReduction: Float;
+}
+
+export interface PortfolioSettings {
+  enabled: boolean;
+  tiers: Record<TierKey, PortfolioTierInputs>;
+}
+
+// A slice of the target market with its own funnel; opps per account and uplifts come from the scenario.
+export interface MarketSegment {
+  name: string;
+  targetAccounts: number;
+  inMarketRate: Float;
+  baselineWinRate: Float;
+  baselineAcv: number;
+  contributionMargin: Float;
+  salesCycleMonthsBaseline: Float;
+}
+
+export interface SegmentSettings {
+  enabled: boolean;
+  segments: MarketSegment[];
+}
+
+// Rates are units of each currency per one unit of `base`, as published on `asOf` (ISO date).
+export interface FxTable {
+  base: CurrencyCode;
+  asOf: string;
+  rates: Record<CurrencyCode, Float>;
+}
+
+export interface BenchmarkPackRef {
+  id: string;
+  version: string;
+}
+
+// One row of an imported target-account list. Company names only; contacts and other personal data stay out.
+export interface TargetAccount {
+  name: string;
+  tier?: TierKey;
+  segment?: string;
+  estimatedAcv?: number;
+  inMarket?: boolean;
+  inMarketProbability?: number;
+  expectedOpps?: number;
+  treated?: boolean;
+}
+
+// "averages" runs the funnel on the list's averages; "perAccount" runs it account by account and sums.
+export type AccountModel = "averages" | "perAccount";
+
+export interface AccountList {
+  fileName: string;
+  importedAt: string;
+  accounts: TargetAccount[];
+}
+
+// Where imported market inputs came from, e.g. "Derived from 312 opps, Jan–Dec 2025".
+export interface CrmSnapshotRef {
+  fileName: string;
+  importedAt: string;
+  note: string;
 }
 
 export interface ScenarioInputs {
@@ -68,6 +195,109 @@ export interface ScenarioInputs {
   capacity: CapacityInputs;
   alignment: AlignmentInputs;
   sensitivity: SensitivityConfig;
+  lifetime?: LifetimeSettings;
+  portfolio?: PortfolioSettings;
+  fx?: FxTable;
+  benchmarks?: BenchmarkPackRef;
+  accountList?: AccountList;
+  crmSnapshot?: CrmSnapshotRef;
+  accountModel?: AccountModel;
+  segments?: SegmentSettings;
+}
+export type PresetKey = "conservative" | "expected" | "stretch";
+export type CyclePresetKey = "typical" | "stretch";
+
+export interface PresetMultipliers {
+  winRate: Float;
+  acv: Float;
+  opportunity: Float;
+  inMarket: Float;
+}
+
+export interface TierBenchmarks {
+  label: string;
+  helper: string;
+  defaultAccounts: number;
+  hoursPerAccount: number;
+  budgetPerAccount: number;
+  buyingWindowMonths: number;
+  cycleReduction: Record<CyclePresetKey, Float>;
+}
+
+export interface PresetBenchmarks {
+  label: string;
+  helper: string;
+  multipliers: PresetMultipliers;
+}
+
+export interface InMarketSliderBounds {
+  min: number;
+  max: number;
+  baseMin: number;
+  baseMax: number;
+  stretchMin: number;
+  stretchMax: number;
+}
+
+// A dated set of tier and preset benchmarks; money is quoted in `currency`.
+export interface BenchmarkPack extends BenchmarkPackRef {
+  name: string;
+  region: string;
+  currency: CurrencyCode;
+  publishedAt: string;
+  tiers: Record<TierKey, TierBenchmarks>;
+  presets: Record<PresetKey, PresetBenchmarks>;
+  inMarketSlider: InMarketSliderBounds;
+}
+
+export interface PlannerSettings {
+  tier: TierKey;
+  preset: PresetKey;
+  cyclePreset: CyclePresetKey;
+  buyingWindowMonths: number;
+  inMarketAuto: boolean;
+  cycleOverride: boolean;
+  flatBudget: number;
+}
+
+export interface AccountSegmentCount {
+  segment: string;
+  accounts: number;
+}
+
+export interface AccountListSummary {
+  targetAccounts: number;
+  weightedAcv: number | null;
+  accountsWithAcv: number;
+  inMarketRate: Float | null;
+  inMarketAccounts: number;
+  tiers: Record<TierKey, number>;
+  segments: AccountSegmentCount[];
+}
+
+export type CrmLayout = "salesforce" | "hubspot" | "generic";
+
+export type CrmDateOrder = "dmy" | "mdy";
+
+export interface CrmSnapshotSummary {
+  layout: CrmLayout;
+  closedOpps: number;
+  wonOpps: number;
+  openOppsSkipped: number;
+  winRate: Float;
+  medianAcv: number | null;
+  meanAcv: number | null;
+  accounts: number | null;
+  qualifiedOppsPerAccount: Float | null;
+  salesCycleMonths: Float | null;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface CsvRowIssue {
+  row: number;
+  column: string | null;
+  message: string;
 }
 
 export interface BaselineOutputs {
@@ -98,10 +328,67 @@ export interface IncrementalOutputs {
   paybackMonths: Float | null;
 }
 
+export interface CohortMonth {
+  month: number;
+  baselineOpps: Float;
+  abmOpps: Float;
+  baselineWins: Float;
+  abmWins: Float;
+  baselineRevenue: number;
+  abmRevenue: number;
+  baselineGrossProfit: number;
+  abmGrossProfit: number;
+  incrementalGrossProfit: number;
+  spend: number;
+  cumulativeNetPosition: number;
+}
+
+export interface CohortTimeline {
+  months: CohortMonth[];
+  paybackMonths: Float | null;
+}
+
+export interface LifetimeYear {
+  year: number;
+  abmRevenue: number;
+  incrementalRevenue: number;
+  incrementalGrossProfit: number;
+  discountedGrossProfit: number;
+  cumulativeNpv: number;
+}
+
+export interface LifetimeOutputs {
+  years: LifetimeYear[];
+  lifetimeIncrementalRevenue: number;
+  lifetimeIncrementalGrossProfit: number;
+  npv: number;
+  irr: Float | null;
+  ltvToCac: Float | null;
+}
+
+export interface AccountContribution {
+  name: string;
+  tier?: TierKey;
+  segment?: string;
+  treated: boolean;
+  acv: number;
+  inMarketProbability: Float;
+  expectedOpps: Float;
+  baselineGrossProfit: number;
+  abmGrossProfit: number;
+  incrementalGrossProfit: number;
+  share: Float | null;
+}
+
 export interface ScenarioOutputs {
   baseline: BaselineOutputs;
   abm: AbmOutputs;
   incremental: IncrementalOutputs;
+  timeline: CohortTimeline;
+  lifetime: LifetimeOutputs | null;
+  accounts: AccountContribution[] | null;
+  // Set when the totals are a roll-up of market segments; each keeps its own run.
+  segments: SegmentResult[] | null;
 }
 
 export type GuardrailLevel = "info" | "warning" | "error";
@@ -124,10 +411,209 @@ export interface ScenarioResult {
   guardrails: Guardrail[];
 }
 
-export interface SensitivityCell {
-  inMarketRate: Float;
-  winRateUplift: Float;
+export type IncrementalDeltas = Record<keyof IncrementalOutputs, number | null>;
+
+export interface InputDifference {
+  path: string;
+  reference: unknown;
+  candidate: unknown;
+  incrementalGrossProfitImpact: number;
+  roiImpact: Float | null;
+}
+
+export interface ScenarioComparison {
+  result: ScenarioResult;
+  deltas: IncrementalDeltas;
+  drivers: InputDifference[];
+}
+
+export type TornadoDriverKey =
+  | "targetAccounts"
+  | "qualifiedOppsPerAccount"
+  | "baselineWinRate"
+  | "baselineAcv"
+  | "contributionMargin"
+  | "winRateUplift"
+  | "acvUplift"
+  | "opportunityRateUplift"
+  | "programmeCost"
+  | "alignment"
+  | "hoursPerAccount";
+
+export interface TornadoBand {
+  low: number;
+  high: number;
+}
+
+export interface TornadoOptions {
+  swingPercent?: number;
+  bands?: Partial<Record<TornadoDriverKey, TornadoBand>>;
+}
+
+export interface TornadoPoint {
+  value: number | AlignmentLevel;
+  roi: Float | null;
+  paybackMonths: Float | null;
+  incrementalGrossProfit: number;
+}
+
+export interface TornadoBar {
+  driver: TornadoDriverKey;
+  base: number | AlignmentLevel;
+  low: TornadoPoint;
+  high: TornadoPoint;
+  roiSwing: Float;
+  paybackSwing: Float | null;
+  incrementalGrossProfitSwing: number;
+}
+
+export interface TornadoChart {
+  baseRoi: Float | null;
+  basePaybackMonths: Float | null;
+  baseIncrementalGrossProfit: number;
+  bars: TornadoBar[];
+}
+
+export type DistributionKind = "uniform" | "triangular" | "pert";
+
+export interface InputDistribution {
+  kind: DistributionKind;
+  low: Float;
+  mostLikely: Float;
+  high: Float;
+}
+
+export type UncertainInputKey = `market.${keyof MarketFunnelInputs}` | `uplifts.${keyof UpliftInputs}`;
+
+export type MonteCarloDistributions = Partial<Record<UncertainInputKey, InputDistribution>>;
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number;
+  bins?: number;
+}
+
+export interface PercentileSummary {
+  p10: Float | null;
+  p50: Float | null;
+  p90: Float | null;
+}
+
+export interface HistogramBin {
+  start: Float;
+  end: Float;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  roi: PercentileSummary;
+  incrementalGrossProfit: PercentileSummary;
+  paybackMonths: PercentileSummary;
+  breakEvenProbability: Float;
+  roiHistogram: HistogramBin[];
+}
+
+export type GoalSeekInput = Extract<
+  SensitivityAxis,
+  | "uplifts.winRateUplift"
+  | "uplifts.acvUplift"
+  | "uplifts.opportunityRateUplift"
+  | "market.targetAccounts"
+  | "costs.total"
+>;
+
+export type GoalSeekMetric = "roi" | "paybackMonths" | "profitAfterSpend";
+
+// ROI and profit targets are floors (≥), payback targets are ceilings (≤). ROI is a ratio, so 0 is break-even.
+export interface GoalSeekTarget {
+  metric: GoalSeekMetric;
+  value: number;
+}
+
+export interface GoalSeekSolution {
+  input: GoalSeekInput;
+  value: number;
+  direction: "atLeast" | "atMost";
+  alreadyMet: boolean;
+  achieved: Float | null;
+}
+
+export type GoalSeekResult =
+  | { success: true; data: GoalSeekSolution }
+  | { success: false; error: string };
+
+export interface PortfolioTierResult {
+  tier: TierKey;
+  requestedAccounts: number;
+  treatedAccounts: number;
+  allocatedHours: number;
+  allocatedBudget: number;
+  result: ScenarioResult;
+}
+
+export interface PortfolioResult {
+  source: CapacitySource;
+  poolHours: number;
+  poolBudget: number;
+  tiers: PortfolioTierResult[];
+  baseline: BaselineOutputs;
+  abm: AbmOutputs;
+  incremental: IncrementalOutputs;
+  timeline: CohortTimeline;
+}
+
+export interface SegmentResult {
+  name: string;
+  requestedAccounts: number;
+  treatedAccounts: number;
+  allocatedBudget: number;
+  result: ScenarioResult;
+}
+
+export interface SegmentedResult {
+  segments: SegmentResult[];
+  baseline: BaselineOutputs;
+  abm: AbmOutputs;
+  incremental: IncrementalOutputs;
+  timeline: CohortTimeline;
+}
+
+export type AllocationObjective = "incrementalGrossProfit" | "roi";
+
+export interface AllocationOptions {
+  objective?: AllocationObjective;
+  steps?: number;
+  totalBudget?: number;
+}
+
+export interface FrontierPoint {
+  budget: number;
+  incrementalGrossProfit: number;
   roi: Float | null;
 }
 
-export type SensitivityGrid = SensitivityCell[][];
+export interface AllocationPlan {
+  objective: AllocationObjective;
+  totalBudget: number;
+  unallocatedBudget: number;
+  portfolio: PortfolioResult;
+  marginalRoi: Record<TierKey, Float | null>;
+  frontier: FrontierPoint[];
+}
+
+export interface SensitivityCell {
+  row: Float;
+  column: Float;
+  value: Float | null;
+}
+
+export interface SensitivityGrid {
+  rowAxis: SensitivityAxis;
+  columnAxis: SensitivityAxis;
+  metric: SensitivityMetric;
+  rows: Float[];
+  columns: Float[];
+  cells: SensitivityCell[][];
+}
@@ -0,0 +1,148 @@
+import { SENSITIVITY_AXES, SENSITIVITY_METRICS } from "@/lib/calculator/sensitivity";
+import type { CurrencyCode, ScenarioInputs, SensitivityAxis, SensitivityMetric } from "@/lib/calculator/types";
+import { NA_SYMBOL, formatCurrency, formatNumber, formatPercent } from "@/lib/format";
+import { findGlossaryEntry } from "@/lib/glossary";
+
+export type AssumptionFormat = "currency" | "number" | "integer" | "percent" | "text";
+
+export type AssumptionValue = string | number | boolean | number[] | null;
+
+export interface AssumptionRow {
+  section: string;
+  path: string;
+  term: string;
+  format: AssumptionFormat;
+  value: AssumptionValue;
+  metric: string | null;
+  definition: string | null;
+}
+
+type AssumptionField = Pick<AssumptionRow, "section" | "path" | "term" | "format">;
+
+// Terms match src/lib/glossary.ts so exports carry the same definitions as the in-app glossary.
+const ASSUMPTION_FIELDS: AssumptionField[] = [
+  { section: "Programme", path: "programme.durationMonths", term: "Programme duration", format: "number" },
+  { section: "Programme", path: "programme.rampMonths", term: "Ramp-up period", format: "number" },
+  { section: "Programme", path: "programme.currency", term: "Currency", format: "text" },
+  { section: "Programme", path: "programme.numberFormatLocale", term: "Number formatting locale", format: "text" },
+  { section: "Programme", path: "fx.base", term: "FX base currency", format: "text" },
+  { section: "Programme", path: "fx.asOf", term: "FX rates as of", format: "text" },
+  { section: "Programme", path: "benchmarks.id", term: "Benchmark pack", format: "text" },
+  { section: "Programme", path: "benchmarks.version", term: "Benchmark version", format: "text" },
+  { section: "Market", path: "market.targetAccounts", term: "Target accounts", format: "integer" },
+  { section: "Market", path: "crmSnapshot.note", term: "Market inputs source", format: "text" },
+  { section: "Market", path: "accountModel", term: "Account model", format: "text" },
+  { section: "Market", path: "market.inMarketRate", term: "In-market rate", format: "percent" },
+  {
+    section: "Market",
+    path: "market.qualifiedOppsPerAccount",
+    term: "Qualified opportunities per account",
+    format: "number",
+  },
+  { section: "Market", path: "market.baselineWinRate", term: "Baseline win rate", format: "percent" },
+  { section: "Market", path: "market.baselineAcv", term: "Baseline ACV", format: "currency" },
+  { section: "Market", path: "market.contributionMargin", term: "Contribution margin", format: "percent" },
+  { section: "Market", path: "market.salesCycleMonthsBaseline", term: "Sales cycle (baseline)", format: "number" },
+  { section: "Market", path: "market.salesCycleMonthsAbm", term: "Sales cycle (ABM)", format: "number" },
+  { section: "Uplifts", path: "uplifts.winRateUplift", term: "Win-rate uplift", format: "number" },
+  { section: "Uplifts", path: "uplifts.acvUplift", term: "ACV uplift", format: "percent" },
+  { section: "Uplifts", path: "uplifts.opportunityRateUplift", term: "Opportunity uplift", format: "percent" },
+  { section: "Investment", path: "costs.people", term: "People", format: "currency" },
+  { section: "Investment", path: "costs.media", term: "Media", format: "currency" },
+  { section: "Investment", path: "costs.dataTech", term: "Data & tech", format: "currency" },
+  { section: "Investment", path: "costs.content", term: "Content", format: "currency" },
+  { section: "Investment", path: "costs.agency", term: "Agency & partners", format: "currency" },
+  { section: "Investment", path: "costs.other", term: "Other", format: "currency" },
+  { section: "Investment", path: "costs.totalOverride", term: "Total programme investment", format: "currency" },
+  { section: "Capacity", path: "capacity.source", term: "Cap coverage by", format: "text" },
+  { section: "Capacity", path: "capacity.marketingFte", term: "Marketers (FTE)", format: "number" },
+  { section: "Capacity", path: "capacity.salesFte", term: "Sellers (FTE)", format: "number" },
+  { section: "Capacity", path: "capacity.marketingUtilisation", term: "Marketing time available", format: "percent" },
+  { section: "Capacity", path: "capacity.salesUtilisation", term: "Sales time available", format: "percent" },
+  { section: "Capacity", path: "capacity.hoursPerAccount", term: "Hours per treated account", format: "number" },
+  { section: "Capacity", path: "capacity.budgetCapacityAccounts", term: "Budget capacity", format: "integer" },
+  { section: "Alignment", path: "alignment.level", term: "Sales & marketing alignment", format: "text" },
+  { section: "Sensitivity", path: "sensitivity.inMarketRange", term: "In-market range", format: "text" },
+  { section: "Sensitivity", path: "sensitivity.winRateUpliftRange", term: "Win uplift range", format: "text" },
+  { section: "Sensitivity", path: "sensitivity.resolution", term: "Resolution", format: "integer" },
+  { section: "Sensitivity", path: "sensitivity.rowAxis", term: "Grid rows", format: "text" },
+  { section: "Sensitivity", path: "sensitivity.columnAxis", term: "Grid columns", format: "text" },
+  { section: "Sensitivity", path: "sensitivity.metric", term: "Grid metric", format: "text" },
+  { section: "Lifetime", path: "lifetime.enabled", term: "Lifetime mode", format: "text" },
+  { section: "Lifetime", path: "lifetime.years", term: "Horizon", format: "integer" },
+  { section: "Lifetime", path: "lifetime.grossRetention", term: "Gross retention", format: "percent" },
+  { section: "Lifetime", path: "lifetime.netExpansion", term: "Net expansion", format: "percent" },
+  { section: "Lifetime", path: "lifetime.discountRate", term: "Discount rate", format: "percent" },
+];
+
+const readPath = (source: unknown, path: string): unknown =>
+  path.split(".").reduce<unknown>(
+    (node, key) => (node !== null && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined),
+    source,
+  );
+
+const toAssumptionValue = (value: unknown): AssumptionValue => {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is number => typeof item === "number");
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+
+  return null;
+};
+
+export const listAssumptions = (inputs: ScenarioInputs): AssumptionRow[] =>
+  ASSUMPTION_FIELDS.map((field) => {
+    const entry = findGlossaryEntry(field.term);
+
+    return {
+      ...field,
+      value: toAssumptionValue(readPath(inputs, field.path)),
+      metric: entry?.metric ?? null,
+      definition: entry?.description ?? null,
+    };
+  });
+
+export const formatAssumptionValue = (
+  row: AssumptionRow,
+  locale: string,
+  currency: CurrencyCode,
+): string => {
+  const { value, format } = row;
+
+  if (value === null) {
+    return NA_SYMBOL;
+  }
+  if (typeof value === "boolean") {
+    return value ? "On" : "Off";
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => formatNumber(item, locale, { fractionDigits: Number.isInteger(item) ? 0 : 1 }))
+      .join(", ");
+  }
+  if (typeof value === "string") {
+    if (row.path === "sensitivity.rowAxis" || row.path === "sensitivity.columnAxis") {
+      return SENSITIVITY_AXES[value as SensitivityAxis]?.label ?? value;
+    }
+    if (row.path === "accountModel") {
+      return value === "perAccount" ? "Per account" : "Account averages";
+    }
+    if (row.path === "sensitivity.metric") {
+      return SENSITIVITY_METRICS[value as SensitivityMetric]?.label ?? value;
+    }
+    return value;
+  }
+
+  switch (format) {
+    case "currency":
+      return formatCurrency(value, locale, currency);
+    case "percent":
+      return formatPercent(value, locale, { fractionDigits: 1 });
+    case "integer":
+      return formatNumber(value, locale, { fractionDigits: 0 });
+    default:
+      return formatNumber(value, locale, { fractionDigits: 1 });
+  }
+};
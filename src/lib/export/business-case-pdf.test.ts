@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "@/lib/calculator/calculator";
+import { applySegmentTotals, calculateSegments } from "@/lib/calculator/segments";
+import { buildSensitivityGrid } from "@/lib/calculator/sensitivity";
+import { DEFAULT_SCENARIO } from "@/lib/calculator/schema";
+import type { ScenarioInputs } from "@/lib/calculator/types";
+import { formatCurrency, formatPercent } from "@/lib/format";
+
+import { buildBusinessCasePdf, exportBusinessCasePdf } from "./business-case-pdf";
+import type { PdfDocument } from "./pdf";
+
+const pageTexts = (document: PdfDocument) =>
+  document.pages.map((page) => page.ops.flatMap((op) => (op.kind === "text" ? [op.text] : [])));
+
+describe("buildBusinessCasePdf", () => {
+  const result = calculateScenario(DEFAULT_SCENARIO);
+  const grid = buildSensitivityGrid(DEFAULT_SCENARIO);
+  const document = buildBusinessCasePdf(result, grid, { generatedAt: new Date("2025-01-15T12:00:00Z") });
+  const texts = pageTexts(document).flat();
+
+  it("renders a cover, headline economics, and appendix", () => {
+    const pages = pageTexts(document);
+
+    expect(pages[0]).toContain("ABM business case");
+    expect(pages[0]).toContain("Prepared 15 January 2025");
+    expect(pages.some((page) => page.includes("Headline economics"))).toBe(true);
+    expect(pages.some((page) => page.includes("Baseline vs ABM"))).toBe(true);
+    expect(pages.some((page) => page.includes("Net ROI sensitivity"))).toBe(true);
+    expect(pages.some((page) => page.includes("Assumptions appendix"))).toBe(true);
+    expect(texts.some((text) => text.startsWith("¹ Net ROI (incremental):"))).toBe(true);
+    expect(texts).toContain(`Page ${document.pages.length} of ${document.pages.length}`);
+  });
+
+  it("headlines the segments' roll-up and breaks it down per segment when market segments are on", () => {
+    const segmented: ScenarioInputs = {
+      ...DEFAULT_SCENARIO,
+      segments: {
+        enabled: true,
+        segments: ["EMEA", "North America"].map((name, index) => ({
+          name,
+          targetAccounts: 100,
+          inMarketRate: 20,
+          baselineWinRate: 20,
+          baselineAcv: 80_000 + index * 40_000,
+          contributionMargin: 70,
+          salesCycleMonthsBaseline: 9,
+        })),
+      },
+    };
+    const whole = calculateScenario(segmented);
+    const headlineResult = applySegmentTotals(whole, calculateSegments(segmented, segmented.segments!.segments));
+    const pages = pageTexts(buildBusinessCasePdf(headlineResult, grid));
+    const cover = pages[0];
+    const breakdown = pages.find((page) => page.includes("Market segments")) ?? [];
+    const roi = (value: number | null) => formatPercent((value ?? 0) * 100, "en-GB", { fractionDigits: 1 });
+
+    expect(cover).toContain(roi(headlineResult.outputs.incremental.roi));
+    expect(cover).not.toContain(roi(whole.outputs.incremental.roi));
+    expect(breakdown).toEqual(expect.arrayContaining(["EMEA", "North America", "Total"]));
+    expect(breakdown).toContain(formatCurrency(headlineResult.outputs.incremental.incrementalGrossProfit, "en-GB", "GBP"));
+    expect(texts).not.toContain("Market segments");
+  });
+
+  it("uses the shared formatters for every figure", () => {
+    const { incremental, abm } = result.outputs;
+
+    expect(texts).toContain(formatCurrency(incremental.incrementalRevenue, "en-GB", "GBP"));
+    expect(texts).toContain(formatCurrency(abm.grossProfit, "en-GB", "GBP"));
+    expect(texts).toContain(formatPercent((incremental.roi ?? 0) * 100, "en-GB", { fractionDigits: 1 }));
+    grid.cells.flat().forEach((cell) =>
+      expect(texts).toContain(formatPercent((cell.value ?? 0) * 100, "en-GB", { fractionDigits: 1 })),
+    );
+  });
+
+  it("writes a well-formed PDF with WinAnsi-encoded currency symbols", () => {
+    const euroScenario: ScenarioInputs = {
+      ...DEFAULT_SCENARIO,
+      programme: { ...DEFAULT_SCENARIO.programme, currency: "EUR", numberFormatLocale: "de-DE" },
+    };
+    const bytes = exportBusinessCasePdf(calculateScenario(euroScenario), buildSensitivityGrid(euroScenario));
+    const text = new TextDecoder().decode(bytes);
+
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text.endsWith("%%EOF\n")).toBe(true);
+    expect(text).toContain("\\200");
+    expect([...bytes].every((byte) => byte < 128)).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    const firstOffset = Number(/0000000000 65535 f \n(\d{10})/.exec(text)?.[1]);
+    expect(text.slice(firstOffset, firstOffset + 7)).toBe("1 0 obj");
+  });
+});
@@ -0,0 +1,429 @@
+import { describeFx } from "@/lib/calculator/currency";
+import {
+  SENSITIVITY_AXES,
+  SENSITIVITY_METRICS,
+  type SensitivityValueFormat,
+} from "@/lib/calculator/sensitivity";
+import type { ScenarioResult, SensitivityGrid } from "@/lib/calculator/types";
+import { formatCurrency, formatNumber, formatPercent, formatSensitivityValue } from "@/lib/format";
+import { findGlossaryEntry } from "@/lib/glossary";
+
+import { formatAssumptionValue, listAssumptions } from "./assumptions";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  wrapText,
+  writePdf,
+  type PdfDocument,
+  type PdfFont,
+  type PdfOp,
+  type PdfPage,
+  type PdfTextOp,
+} from "./pdf";
+
+// Brand tokens from the PRD theming section.
+export const BRAND = {
+  background: "#ffffff",
+  inverse: "#000000",
+  cta: "#e95a0b",
+  contrast: "#3c3c3c",
+  muted: "#8a8a8a",
+  rule: "#dddddd",
+  surface: "#f4f4f4",
+} as const;
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = PAGE_HEIGHT - 28;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 60;
+const ROW_HEIGHT = 18;
+
+export interface BusinessCaseOptions {
+  generatedAt?: Date;
+}
+
+const mixHex = (from: string, to: string, amount: number): string => {
+  const channel = (hex: string, offset: number) => parseInt(hex.slice(1 + offset, 3 + offset), 16);
+  return `#${[0, 2, 4]
+    .map((offset) =>
+      Math.round(channel(from, offset) + (channel(to, offset) - channel(from, offset)) * amount)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+};
+
+const createLayout = () => {
+  const pages: PdfPage[] = [];
+  let ops: PdfOp[] = [];
+  let cursor = MARGIN;
+
+  const newPage = () => {
+    ops = [];
+    pages.push({ ops });
+    cursor = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (cursor + height > CONTENT_BOTTOM) {
+      newPage();
+    }
+  };
+
+  const text = (value: string, x: number, y: number, options: Omit<PdfTextOp, "kind" | "x" | "y" | "text">) =>
+    ops.push({ kind: "text", x, y, text: value, color: BRAND.contrast, ...options });
+
+  const rect = (x: number, y: number, width: number, height: number, fill: string) =>
+    ops.push({ kind: "rect", x, y, width, height, fill });
+
+  const rule = (y: number) =>
+    ops.push({ kind: "line", x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, color: BRAND.rule, width: 0.5 });
+
+  const heading = (title: string) => {
+    ensureSpace(48);
+    cursor += 20;
+    text(title, MARGIN, cursor, { size: 16, font: "bold", color: BRAND.inverse });
+    rect(MARGIN, cursor + 6, 32, 3, BRAND.cta);
+    cursor += 24;
+  };
+
+  const paragraph = (value: string, size = 9, font: PdfFont = "regular", color: string = BRAND.contrast) => {
+    wrapText(value, size, CONTENT_WIDTH, font).forEach((line) => {
+      ensureSpace(size + 4);
+      cursor += size + 4;
+      text(line, MARGIN, cursor, { size, font, color });
+    });
+  };
+
+  const table = (columns: Array<{ label: string; width: number; align?: "left" | "right" }>, rows: string[][]) => {
+    const drawHeader = () => {
+      let x = MARGIN;
+      cursor += ROW_HEIGHT;
+      columns.forEach((column) => {
+        text(column.label, column.align === "right" ? x + column.width - 4 : x + 4, cursor - 5, {
+          size: 8,
+          font: "bold",
+          color: BRAND.muted,
+          align: column.align ?? "left",
+        });
+        x += column.width;
+      });
+      rule(cursor);
+    };
+
+    ensureSpace(ROW_HEIGHT * 2);
+    drawHeader();
+    rows.forEach((row) => {
+      if (cursor + ROW_HEIGHT > CONTENT_BOTTOM) {
+        newPage();
+        drawHeader();
+      }
+
+      let x = MARGIN;
+      cursor += ROW_HEIGHT;
+      row.forEach((cell, index) => {
+        const column = columns[index];
+        text(cell, column.align === "right" ? x + column.width - 4 : x + 4, cursor - 5, {
+          size: 9,
+          align: column.align ?? "left",
+          font: index === 0 ? "bold" : "regular",
+        });
+        x += column.width;
+      });
+      rule(cursor);
+    });
+  };
+
+  return {
+    pages,
+    newPage,
+    ensureSpace,
+    text,
+    rect,
+    heading,
+    paragraph,
+    table,
+    get cursor() {
+      return cursor;
+    },
+    advance(height: number) {
+      cursor += height;
+    },
+  };
+};
+
+export const buildBusinessCasePdf = (
+  result: ScenarioResult,
+  grid: SensitivityGrid,
+  options: BusinessCaseOptions = {},
+): PdfDocument => {
+  const { inputs, outputs } = result;
+  const { baseline, abm, incremental } = outputs;
+  const locale = inputs.programme.numberFormatLocale;
+  const currency = inputs.programme.currency;
+
+  const money = (value: number | null | undefined) => formatCurrency(value, locale, currency);
+  const number = (value: number | null | undefined, fractionDigits = 1) =>
+    formatNumber(value, locale, { fractionDigits });
+  const percent = (value: number | null | undefined, fractionDigits = 1) =>
+    formatPercent(value, locale, { fractionDigits });
+  const ratioPercent = (value: number | null | undefined) =>
+    percent(typeof value === "number" ? value * 100 : null);
+
+  const layout = createLayout();
+
+  // Cover page.
+  layout.newPage();
+  layout.rect(0, 0, PAGE_WIDTH, 380, BRAND.inverse);
+  layout.rect(0, 380, PAGE_WIDTH, 8, BRAND.cta);
+  layout.text("strategicabm", MARGIN, 72, { size: 14, font: "bold", color: BRAND.background });
+  layout.text("ABM business case", MARGIN, 230, { size: 32, font: "bold", color: BRAND.background });
+  layout.text(
+    `${number(inputs.programme.durationMonths, 0)}-month programme · ${number(inputs.market.targetAccounts, 0)} target accounts`,
+    MARGIN,
+    262,
+    { size: 13, color: BRAND.background },
+  );
+  layout.text("Net ROI (incremental)", MARGIN, 450, { size: 11, color: BRAND.muted });
+  layout.text(ratioPercent(incremental.roi), MARGIN, 490, { size: 36, font: "bold", color: BRAND.cta });
+  layout.text(
+    `Incremental gross profit ${money(incremental.incrementalGrossProfit)} on a programme cost of ${money(incremental.totalCost)}.`,
+    MARGIN,
+    516,
+    { size: 11 },
+  );
+  layout.text(describeFx(inputs), MARGIN, 536, { size: 9, color: BRAND.muted });
+  if (options.generatedAt) {
+    layout.text(
+      `Prepared ${new Intl.DateTimeFormat(locale, { dateStyle: "long" }).format(options.generatedAt)}`,
+      MARGIN,
+      PAGE_HEIGHT - 72,
+      { size: 10, color: BRAND.muted },
+    );
+  }
+
+  // Headline KPIs.
+  layout.newPage();
+  layout.heading("Headline economics");
+  const kpis: Array<{ label: string; value: string }> = [
+    { label: "Incremental revenue", value: money(incremental.incrementalRevenue) },
+    { label: "Incremental gross profit", value: money(incremental.incrementalGrossProfit) },
+    { label: "Net ROI (incremental) ¹", value: ratioPercent(incremental.roi) },
+    { label: "Gross ROMI ²", value: ratioPercent(incremental.grossRoi) },
+    {
+      label: "Payback ³",
+      value: incremental.paybackMonths === null ? number(null) : `${number(incremental.paybackMonths)} months`,
+    },
+    { label: "Break-even wins", value: number(incremental.breakEvenWins, 0) },
+  ];
+  if (outputs.lifetime) {
+    kpis.push(
+      { label: "Lifetime NPV", value: money(outputs.lifetime.npv) },
+      { label: "IRR", value: ratioPercent(outputs.lifetime.irr) },
+      {
+        label: "LTV:CAC",
+        value: outputs.lifetime.ltvToCac === null ? number(null) : `${number(outputs.lifetime.ltvToCac)}×`,
+      },
+    );
+  }
+
+  const tileWidth = (CONTENT_WIDTH - 24) / 3;
+  const tileHeight = 62;
+  for (let index = 0; index < kpis.length; index += 3) {
+    layout.ensureSpace(tileHeight + 12);
+    const top = layout.cursor;
+    kpis.slice(index, index + 3).forEach((kpi, column) => {
+      const x = MARGIN + column * (tileWidth + 12);
+      layout.rect(x, top, tileWidth, tileHeight, BRAND.surface);
+      layout.rect(x, top, tileWidth, 3, BRAND.cta);
+      layout.text(kpi.label, x + 10, top + 20, { size: 8, color: BRAND.muted });
+      layout.text(kpi.value, x + 10, top + 46, { size: 17, font: "bold", color: BRAND.inverse });
+    });
+    layout.advance(tileHeight + 12);
+  }
+
+  layout.heading("Baseline vs ABM");
+  const valueWidth = (CONTENT_WIDTH - 180) / 3;
+  layout.table(
+    [
+      { label: "Metric", width: 180 },
+      { label: "Baseline", width: valueWidth, align: "right" },
+      { label: "ABM", width: valueWidth, align: "right" },
+      { label: "ABM - baseline", width: valueWidth, align: "right" },
+    ],
+    [
+      ["In-market accounts", number(baseline.inMarketAccounts), number(baseline.inMarketAccounts), number(0)],
+      [
+        "Qualified opportunities",
+        number(baseline.qualifiedOpps),
+        number(abm.qualifiedOpps),
+        number(abm.qualifiedOpps - baseline.qualifiedOpps),
+      ],
+      ["Expected wins", number(baseline.expectedWins), number(abm.expectedWins), number(incremental.incrementalWins)],
+      [
+        "ACV",
+        money(inputs.market.baselineAcv),
+        money(abm.acv),
+        money(abm.acv - inputs.market.baselineAcv),
+      ],
+      ["Revenue", money(baseline.revenue), money(abm.revenue), money(incremental.incrementalRevenue)],
+      [
+        "Gross profit",
+        money(baseline.grossProfit),
+        money(abm.grossProfit),
+        money(incremental.incrementalGrossProfit),
+      ],
+      ["Programme cost", "", money(incremental.totalCost), ""],
+    ],
+  );
+
+  if (outputs.segments) {
+    layout.heading("Market segments");
+    const segmentWidth = (CONTENT_WIDTH - 160) / 4;
+    layout.table(
+      [
+        { label: "Segment", width: 160 },
+        { label: "Treated accounts", width: segmentWidth, align: "right" },
+        { label: "Programme cost", width: segmentWidth, align: "right" },
+        { label: "Incremental GP", width: segmentWidth, align: "right" },
+        { label: "Net ROI", width: segmentWidth, align: "right" },
+      ],
+      [
+        ...outputs.segments.map(({ name, treatedAccounts, result: segment }) => [
+          name,
+          number(treatedAccounts, 0),
+          money(segment.outputs.incremental.totalCost),
+          money(segment.outputs.incremental.incrementalGrossProfit),
+          ratioPercent(segment.outputs.incremental.roi),
+        ]),
+        [
+          "Total",
+          number(outputs.segments.reduce((total, segment) => total + segment.treatedAccounts, 0), 0),
+          money(incremental.totalCost),
+          money(incremental.incrementalGrossProfit),
+          ratioPercent(incremental.roi),
+        ],
+      ],
+    );
+  }
+
+  // Sensitivity heatmap, shaded from neutral to the brand accent as the metric improves.
+  const rowAxis = SENSITIVITY_AXES[grid.rowAxis];
+  const columnAxis = SENSITIVITY_AXES[grid.columnAxis];
+  const gridMetric = SENSITIVITY_METRICS[grid.metric];
+  const gridValue = (value: number | null, format: SensitivityValueFormat) =>
+    formatSensitivityValue(value, format, locale, currency);
+  // Payback shades inversely because sooner is better; no payback inside the horizon reads as a shortfall.
+  const lowerIsBetter = grid.metric === "paybackMonths";
+  const gridValues = grid.cells.flat().flatMap((cell) => (cell.value === null ? [] : [cell.value]));
+  const minValue = Math.min(...gridValues);
+  const maxValue = Math.max(...gridValues);
+  const intensityFor = (value: number | null) => {
+    if (value === null) {
+      return 0;
+    }
+    if (lowerIsBetter) {
+      return maxValue > minValue ? 0.15 + 0.85 * ((maxValue - value) / (maxValue - minValue)) : 1;
+    }
+    return value > 0 && maxValue > 0 ? 0.15 + 0.85 * (value / maxValue) : 0;
+  };
+  const isShortfall = (value: number | null) => (lowerIsBetter ? value === null : value !== null && value < 0);
+
+  layout.heading(`${gridMetric.label} sensitivity`);
+  const labelWidth = 90;
+  const cellWidth = grid.columns.length ? (CONTENT_WIDTH - labelWidth) / grid.columns.length : 0;
+  const cellHeight = 22;
+
+  layout.ensureSpace(cellHeight * (grid.rows.length + 2));
+  layout.paragraph(
+    `${gridMetric.label} by ${rowAxis.label.toLowerCase()} (rows) and ${columnAxis.label.toLowerCase()} (columns).`,
+    8,
+    "regular",
+    BRAND.muted,
+  );
+  layout.advance(6);
+  let top = layout.cursor;
+  layout.text(rowAxis.label, MARGIN + 4, top + 15, { size: 8, font: "bold", color: BRAND.muted });
+  grid.columns.forEach((column, index) => {
+    layout.text(gridValue(column, columnAxis.format), MARGIN + labelWidth + (index + 0.5) * cellWidth, top + 15, {
+      size: 8,
+      font: "bold",
+      color: BRAND.muted,
+      align: "center",
+    });
+  });
+  layout.advance(cellHeight);
+
+  grid.cells.forEach((row, rowIndex) => {
+    top = layout.cursor;
+    layout.text(gridValue(grid.rows[rowIndex], rowAxis.format), MARGIN + 4, top + 15, { size: 9, font: "bold" });
+    row.forEach((cell, index) => {
+      const intensity = intensityFor(cell.value);
+      const fill = isShortfall(cell.value)
+        ? mixHex(BRAND.background, BRAND.contrast, 0.18)
+        : cell.value === null
+          ? BRAND.surface
+          : mixHex(BRAND.background, BRAND.cta, intensity);
+      const x = MARGIN + labelWidth + index * cellWidth;
+      layout.rect(x + 1, top + 1, cellWidth - 2, cellHeight - 2, fill);
+      layout.text(gridValue(cell.value, gridMetric.format), x + cellWidth / 2, top + 15, {
+        size: 9,
+        font: "bold",
+        color: intensity > 0.55 ? BRAND.background : BRAND.contrast,
+        align: "center",
+      });
+    });
+    layout.advance(cellHeight);
+  });
+
+  // Assumptions appendix and footnotes.
+  layout.newPage();
+  layout.heading("Assumptions appendix");
+  layout.table(
+    [
+      { label: "Section", width: 90 },
+      { label: "Input", width: 230 },
+      { label: "Value", width: CONTENT_WIDTH - 320, align: "right" },
+    ],
+    listAssumptions(inputs).map((row) => [row.section, row.term, formatAssumptionValue(row, locale, currency)]),
+  );
+  layout.paragraph(describeFx(inputs), 8, "regular", BRAND.muted);
+
+  layout.heading("Definitions");
+  [
+    ["¹", "Net ROI (incremental)"],
+    ["²", "Gross ROMI"],
+    ["³", "Payback"],
+  ].forEach(([marker, term]) => {
+    const entry = findGlossaryEntry(term);
+    if (entry) {
+      layout.paragraph(`${marker} ${term}: ${entry.description}`);
+      layout.advance(4);
+    }
+  });
+
+  const pageCount = layout.pages.length;
+  layout.pages.slice(1).forEach((page, index) => {
+    const label = "ABM ROI Studio · Business case";
+    page.ops.push(
+      { kind: "text", x: MARGIN, y: FOOTER_Y, text: label, size: 8, color: BRAND.muted },
+      {
+        kind: "text",
+        x: PAGE_WIDTH - MARGIN,
+        y: FOOTER_Y,
+        text: `Page ${index + 2} of ${pageCount}`,
+        size: 8,
+        color: BRAND.muted,
+        align: "right",
+      },
+    );
+  });
+
+  return { title: "ABM business case", pages: layout.pages };
+};
+
+export const exportBusinessCasePdf = (
+  result: ScenarioResult,
+  grid: SensitivityGrid,
+  options?: BusinessCaseOptions,
+): Uint8Array<ArrayBuffer> => writePdf(buildBusinessCasePdf(result, grid, options));
@@ -0,0 +1,213 @@
+export type PdfFont = "regular" | "bold";
+export type PdfAlign = "left" | "center" | "right";
+
+export interface PdfTextOp {
+  kind: "text";
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  font?: PdfFont;
+  color?: string;
+  align?: PdfAlign;
+}
+
+export interface PdfRectOp {
+  kind: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string;
+}
+
+export interface PdfLineOp {
+  kind: "line";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color?: string;
+  width?: number;
+}
+
+export type PdfOp = PdfTextOp | PdfRectOp | PdfLineOp;
+
+export interface PdfPage {
+  ops: PdfOp[];
+}
+
+export interface PdfDocument {
+  title: string;
+  pages: PdfPage[];
+}
+
+// A4 portrait in points. Ops use a top-left origin; the writer flips to PDF's bottom-left space.
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+const DEFAULT_WIDTH = 556;
+
+// Standard Helvetica advance widths (per 1000 em) for printable ASCII, from the Adobe core font metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+  611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+  611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500, 389, 280, 389, 584,
+];
+
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "\u00a0": 0xa0,
+  "\u202f": 0xa0,
+  "\u2212": 0x2d,
+};
+
+const WIN_ANSI_WIDTHS: Record<number, number> = {
+  0x85: 1000,
+  0x91: 222,
+  0x92: 222,
+  0x93: 333,
+  0x94: 333,
+  0x95: 350,
+  0x97: 1000,
+  0xa0: 278,
+  0xd7: 584,
+};
+
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return code;
+  }
+  if (WIN_ANSI_EXTRAS[char] !== undefined) {
+    return WIN_ANSI_EXTRAS[char];
+  }
+  if (code >= 0xa0 && code <= 0xff) {
+    return code;
+  }
+
+  return "?".charCodeAt(0);
+};
+
+const charWidth = (code: number, font: PdfFont): number => {
+  if (code >= 32 && code <= 126) {
+    return (font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  }
+
+  return WIN_ANSI_WIDTHS[code] ?? DEFAULT_WIDTH;
+};
+
+export const measureText = (text: string, size: number, font: PdfFont = "regular"): number =>
+  ([...text].reduce((total, char) => total + charWidth(toWinAnsi(char), font), 0) * size) / 1000;
+
+export const wrapText = (text: string, size: number, maxWidth: number, font: PdfFont = "regular"): string[] => {
+  const lines: string[] = [];
+  let current = "";
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measureText(candidate, size, font) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+const round = (value: number): string => Number(value.toFixed(2)).toString();
+
+const colorOperands = (hex: string): string => {
+  const value = hex.replace("#", "");
+  return [0, 2, 4].map((offset) => round(parseInt(value.slice(offset, offset + 2), 16) / 255)).join(" ");
+};
+
+// Non-ASCII glyphs are written as octal escapes so the whole file stays 7-bit and byte offsets equal string length.
+const encodeText = (text: string): string =>
+  [...text]
+    .map((char) => {
+      const code = toWinAnsi(char);
+      if (char === "\\" || char === "(" || char === ")") {
+        return `\\${char}`;
+      }
+      return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : String.fromCharCode(code);
+    })
+    .join("");
+
+const opToContent = (op: PdfOp): string => {
+  switch (op.kind) {
+    case "rect":
+      return `${colorOperands(op.fill)} rg ${round(op.x)} ${round(PAGE_HEIGHT - op.y - op.height)} ${round(op.width)} ${round(op.height)} re f`;
+    case "line":
+      return `${colorOperands(op.color ?? "#000000")} RG ${round(op.width ?? 1)} w ${round(op.x1)} ${round(PAGE_HEIGHT - op.y1)} m ${round(op.x2)} ${round(PAGE_HEIGHT - op.y2)} l S`;
+    case "text": {
+      const font = op.font ?? "regular";
+      const width = measureText(op.text, op.size, font);
+      const x = op.align === "right" ? op.x - width : op.align === "center" ? op.x - width / 2 : op.x;
+      return `BT /${font === "bold" ? "F2" : "F1"} ${round(op.size)} Tf ${colorOperands(op.color ?? "#000000")} rg ${round(x)} ${round(PAGE_HEIGHT - op.y)} Td (${encodeText(op.text)}) Tj ET`;
+    }
+  }
+};
+
+export const writePdf = (document: PdfDocument): Uint8Array<ArrayBuffer> => {
+  const objects: string[] = [];
+  const addObject = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject("");
+  const pagesId = addObject("");
+  const regularFontId = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  const boldFontId = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  const infoId = addObject(`<< /Title (${encodeText(document.title)}) /Producer (ABM ROI Studio) >>`);
+
+  const pageIds = document.pages.map((page) => {
+    const content = page.ops.map(opToContent).join("\n");
+    const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+};
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateScenario } from "@/lib/calculator/calculator";
+import { roundHalfAwayFromZero, roundMoney } from "@/lib/calculator/decimal";
+import { applySegmentTotals, calculateSegments } from "@/lib/calculator/segments";
+import { buildSensitivityGrid } from "@/lib/calculator/sensitivity";
+import { DEFAULT_SCENARIO } from "@/lib/calculator/schema";
+import type { ScenarioInputs } from "@/lib/calculator/types";
+
+import {
+  SHEET_NAMES,
+  buildScenarioWorkbook,
+  deriveWorkbookFormats,
+  exportScenarioXlsx,
+} from "./scenario-workbook";
+import type { XlsxCell, XlsxValue, XlsxWorkbook } from "./xlsx";
+
+const SCENARIO: ScenarioInputs = {
+  ...DEFAULT_SCENARIO,
+  lifetime: { ...DEFAULT_SCENARIO.lifetime!, enabled: true },
+};
+
+const toCell = (cell: XlsxCell | XlsxValue | undefined): XlsxCell =>
+  cell !== null && typeof cell === "object" ? cell : { value: cell ?? null };
+
+const parseRef = (ref: string) => {
+  const [, letters, digits] = /^([A-Z]+)(\d+)$/.exec(ref) ?? [];
+  const column = [...letters].reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  return { row: Number(digits) - 1, column };
+};
+
+// Evaluates the small formula subset the exporter writes so the live maths can be checked against the engine.
+const createEvaluator = (workbook: XlsxWorkbook) => {
+  const functions = {
+    MAX: Math.max,
+    MIN: Math.min,
+    SUM: (...values: number[]) => values.reduce((total, value) => total + value, 0),
+    IF: (condition: boolean, whenTrue: unknown, whenFalse: unknown) => (condition ? whenTrue : whenFalse),
+    AND: (...conditions: boolean[]) => conditions.every(Boolean),
+    N: (value: unknown) => (typeof value === "number" ? value : 0),
+    ROUNDUP: (value: number) => Math.ceil(value),
+    ROUND: roundHalfAwayFromZero,
+  };
+
+  const valueAt = (sheetName: string, ref: string): unknown => {
+    const sheet = workbook.sheets.find((candidate) => candidate.name === sheetName);
+    const { row, column } = parseRef(ref);
+    const cell = toCell(sheet?.rows[row]?.[column]);
+    return cell.formula ? evaluate(sheetName, cell.formula) : (cell.value ?? 0);
+  };
+
+  const evaluate = (sheetName: string, formula: string): unknown => {
+    const expression = formula.replace(
+      /'((?:[^']|'')+)'!([A-Z]+\d+)|\b([A-Z]+\d+)\b/g,
+      (_, name: string | undefined, sheetCell: string | undefined, localCell: string | undefined) =>
+        name
+          ? `ref(${JSON.stringify(name.replace(/''/g, "'"))}, "${sheetCell}")`
+          : `ref(${JSON.stringify(sheetName)}, "${localCell}")`,
+    );
+    const names = Object.keys(functions);
+    return new Function("ref", ...names, `return ${expression};`)(valueAt, ...Object.values(functions));
+  };
+
+  return { valueAt, evaluate };
+};
+
+describe("buildScenarioWorkbook", () => {
+  const result = calculateScenario(SCENARIO);
+  const grid = buildSensitivityGrid(SCENARIO);
+  const workbook = buildScenarioWorkbook(result, grid);
+  const sheet = (name: string) => workbook.sheets.find((candidate) => candidate.name === name)!;
+
+  it("lists every input with its glossary definition", () => {
+    const assumptions = sheet(SHEET_NAMES.assumptions);
+    const inputRows = assumptions.rows.slice(1);
+
+    expect(inputRows).toHaveLength(47);
+    inputRows.forEach((row) => expect(toCell(row[4]).value).toEqual(expect.any(String)));
+    expect(inputRows.find((row) => row[1] === "Baseline ACV")?.[2]).toMatchObject({ value: 110_000 });
+  });
+
+  it("keeps live formulas in step with the engine to the penny", () => {
+    const { evaluate } = createEvaluator(workbook);
+    const currencyFormat = deriveWorkbookFormats("en-GB", "GBP").currency;
+
+    workbook.sheets.forEach(({ name, rows }) =>
+      rows.forEach((row) =>
+        row.map(toCell).forEach((cell) => {
+          if (!cell.formula) {
+            return;
+          }
+
+          const value = evaluate(name, cell.formula);
+          if (typeof cell.value === "number") {
+            expect(value).toBeCloseTo(cell.value, 6);
+            if (cell.style?.numFmt === currencyFormat) {
+              expect(roundMoney(value as number)).toBe(cell.value);
+            }
+          } else {
+            expect(value).toBe(cell.value);
+          }
+        }),
+      ),
+    );
+
+    const incremental = sheet(SHEET_NAMES.incremental);
+    const roi = incremental.rows.find((row) => row[0] === "Net ROI (incremental)")!;
+    expect(toCell(roi[1]).value).toBe(result.outputs.incremental.roi);
+    expect(incremental.rows.some((row) => row[0] === "NPV")).toBe(true);
+  });
+
+  it("writes the sensitivity grid as values", () => {
+    const sensitivity = sheet(SHEET_NAMES.sensitivity);
+
+    expect(sensitivity.rows).toHaveLength(grid.rows.length + 2);
+    expect(toCell(sensitivity.rows[2][0]).value).toBe(grid.rows[0]);
+    expect(toCell(sensitivity.rows[2][1]).value).toBe(grid.cells[0][0].value);
+  });
+
+  it("adds an Accounts sheet and writes funnel totals as values in per-account mode", () => {
+    const perAccount = calculateScenario({
+      ...SCENARIO,
+      accountList: {
+        fileName: "accounts.csv",
+        importedAt: "2026-10-01",
+        accounts: [
+          { name: "Acme", estimatedAcv: 400_000, inMarket: true },
+          { name: "Globex", inMarket: false },
+        ],
+      },
+      accountModel: "perAccount",
+    });
+    const accountsWorkbook = buildScenarioWorkbook(perAccount, grid);
+    const accounts = accountsWorkbook.sheets.find((candidate) => candidate.name === SHEET_NAMES.accounts)!;
+    const model = accountsWorkbook.sheets.find((candidate) => candidate.name === SHEET_NAMES.model)!;
+    const revenue = model.rows.find((row) => row[0] === "Revenue")!;
+
+    expect(accounts.rows).toHaveLength(3);
+    expect(toCell(accounts.rows[1][0]).value).toBe("Acme");
+    expect(toCell(revenue[2])).toMatchObject({ value: perAccount.outputs.abm.revenue });
+    expect(toCell(revenue[2]).formula).toBeUndefined();
+    expect(workbook.sheets.some((candidate) => candidate.name === SHEET_NAMES.accounts)).toBe(false);
+  });
+
+  it("adds a Segments sheet and writes the segments' roll-up as the totals when market segments are on", () => {
+    const segments = ["EMEA", "North America"].map((name, index) => ({
+      name,
+      targetAccounts: 100,
+      inMarketRate: 20,
+      baselineWinRate: 20,
+      baselineAcv: 80_000 + index * 40_000,
+      contributionMargin: 70,
+      salesCycleMonthsBaseline: 9,
+    }));
+    const inputs: ScenarioInputs = { ...SCENARIO, segments: { enabled: true, segments } };
+    const headlineResult = applySegmentTotals(calculateScenario(inputs), calculateSegments(inputs, segments));
+    const segmented = buildScenarioWorkbook(headlineResult, grid);
+    const find = (name: string) => segmented.sheets.find((candidate) => candidate.name === name)!;
+    const grossProfit = find(SHEET_NAMES.model).rows.find((row) => row[0] === "Gross profit")!;
+    const segmentRows = find(SHEET_NAMES.segments).rows;
+
+    expect(toCell(grossProfit[2])).toMatchObject({ value: headlineResult.outputs.abm.grossProfit });
+    expect(toCell(grossProfit[2]).formula).toBeUndefined();
+    expect(segmentRows.map((row) => toCell(row[0]).value)).toEqual(["Segment", "EMEA", "North America", "Total"]);
+    expect(toCell(segmentRows[3][5]).value).toBe(headlineResult.outputs.incremental.incrementalGrossProfit);
+    expect(workbook.sheets.some((candidate) => candidate.name === SHEET_NAMES.segments)).toBe(false);
+  });
+
+  it("derives currency formats from the scenario locale", () => {
+    expect(deriveWorkbookFormats("en-GB", "GBP").currency).toBe('"£"#,##0');
+    expect(deriveWorkbookFormats("de-DE", "EUR").currency).toBe('#,##0 "€"');
+  });
+
+  it("packages the workbook as an xlsx archive", () => {
+    const bytes = exportScenarioXlsx(result, grid);
+    const text = new TextDecoder().decode(bytes);
+
+    expect([...bytes.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    ["[Content_Types].xml", "xl/workbook.xml", "xl/styles.xml", "xl/worksheets/sheet4.xml"].forEach((path) =>
+      expect(text).toContain(path),
+    );
+    expect(text).toContain('<sheet name="Baseline vs ABM"');
+  });
+});
@@ -0,0 +1,462 @@
+import { deriveEffectiveDrivers } from "@/lib/calculator/calculator";
+import { describeFx } from "@/lib/calculator/currency";
+import { subtractMoney } from "@/lib/calculator/decimal";
+import {
+  SENSITIVITY_AXES,
+  SENSITIVITY_METRICS,
+  type SensitivityValueFormat,
+} from "@/lib/calculator/sensitivity";
+import type { CurrencyCode, ScenarioResult, SensitivityGrid, TierKey } from "@/lib/calculator/types";
+import { NA_SYMBOL } from "@/lib/format";
+import { findGlossaryEntry } from "@/lib/glossary";
+
+import { formatAssumptionValue, listAssumptions, type AssumptionFormat } from "./assumptions";
+import {
+  cellRef,
+  sheetRef,
+  writeXlsx,
+  type XlsxCell,
+  type XlsxStyle,
+  type XlsxValue,
+  type XlsxWorkbook,
+} from "./xlsx";
+
+export const SHEET_NAMES = {
+  assumptions: "Assumptions",
+  model: "Baseline vs ABM",
+  incremental: "Incremental",
+  sensitivity: "Sensitivity",
+  accounts: "Accounts",
+  segments: "Segments",
+} as const;
+
+export interface WorkbookFormats {
+  currency: string;
+  number: string;
+  integer: string;
+  percent: string;
+  ratio: string;
+}
+
+// Mirrors src/lib/format.ts: whole-unit currency, one decimal for numbers and percentages.
+// Excel applies separators from the reader's regional settings; the symbol and its placement follow the locale.
+export const deriveWorkbookFormats = (locale: string, currency: CurrencyCode): WorkbookFormats => {
+  const parts = new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).formatToParts(1000);
+  const symbolIndex = parts.findIndex((part) => part.type === "currency");
+  const integerIndex = parts.findIndex((part) => part.type === "integer");
+  const symbol = `"${parts[symbolIndex]?.value ?? currency}"`;
+  const spaced = parts.some((part) => part.type === "literal" && part.value.trim() === "");
+
+  return {
+    currency:
+      symbolIndex < integerIndex
+        ? `${symbol}${spaced ? " " : ""}#,##0`
+        : `#,##0${spaced ? " " : ""}${symbol}`,
+    number: "#,##0.0",
+    integer: "#,##0",
+    percent: '0.0"%"',
+    ratio: "0.0%",
+  };
+};
+
+const TIER_LABELS: Record<TierKey, string> = { oneToOne: "1:1", oneToFew: "1:few", oneToMany: "1:many" };
+
+const BOLD: XlsxStyle = { bold: true };
+const WRAP: XlsxStyle = { wrap: true };
+
+const header = (...labels: string[]): XlsxCell[] => labels.map((label) => ({ value: label, style: BOLD }));
+
+export const buildScenarioWorkbook = (result: ScenarioResult, grid: SensitivityGrid): XlsxWorkbook => {
+  const { inputs, outputs } = result;
+  const formats = deriveWorkbookFormats(inputs.programme.numberFormatLocale, inputs.programme.currency);
+  const styleFor = (format: AssumptionFormat): XlsxStyle | undefined =>
+    format === "text" ? undefined : { numFmt: formats[format] };
+  const na = (value: number | null): number | string => (value === null ? NA_SYMBOL : value);
+  const gridFormat = (format: SensitivityValueFormat): string =>
+    format === "months" ? formats.number : formats[format];
+
+  // Assumptions: every input on its own row so later sheets can reference the value cell.
+  const refs: Record<string, string> = {};
+  const assumptionRows: Array<Array<XlsxCell | XlsxValue>> = [
+    header("Section", "Input", "Value", "Unit", "Definition"),
+  ];
+  listAssumptions(inputs).forEach((row) => {
+    const { section, path, term, format, value, metric, definition } = row;
+    refs[path] = sheetRef(SHEET_NAMES.assumptions, cellRef(assumptionRows.length, 2));
+    assumptionRows.push([
+      section,
+      term,
+      {
+        value: Array.isArray(value)
+          ? value.join(", ")
+          : typeof value === "string"
+            ? formatAssumptionValue(row, inputs.programme.numberFormatLocale, inputs.programme.currency)
+            : value,
+        style: styleFor(format),
+      },
+      metric,
+      { value: definition, style: WRAP },
+    ]);
+  });
+
+  // Baseline vs ABM: effective drivers come from the capacity engine, the funnel is rebuilt with live formulas.
+  // Per-account runs sum a funnel per account, so those totals are written as values beside an Accounts sheet;
+  // segmented runs do the same beside a Segments sheet.
+  const drivers = deriveEffectiveDrivers(inputs);
+  const perAccount = outputs.accounts !== null;
+  const bySegment = outputs.segments !== null;
+  const summed = perAccount || bySegment;
+  const modelRows: Array<Array<XlsxCell | XlsxValue>> = [
+    header("Model drivers", "Value", "", "Note"),
+  ];
+  const addDriver = (label: string, value: number, note: string): string => {
+    const ref = cellRef(modelRows.length, 1);
+    modelRows.push([label, { value, style: { numFmt: formats.percent } }, null, note]);
+    return ref;
+  };
+  const inMarketDriver = addDriver(
+    "Coverage-adjusted in-market rate",
+    drivers.market.inMarketRate,
+    "In-market rate capped by treated accounts.",
+  );
+  const oppDriver = addDriver(
+    "Effective opportunity uplift",
+    drivers.uplifts.opportunityRateUplift,
+    "After alignment and intensity scaling.",
+  );
+  const winDriver = addDriver(
+    "Effective win-rate uplift (pp)",
+    drivers.uplifts.winRateUplift,
+    "After alignment and intensity scaling.",
+  );
+  const acvDriver = addDriver("Effective ACV uplift", drivers.uplifts.acvUplift, "After intensity scaling.");
+
+  modelRows.push([]);
+  modelRows.push(header("Metric", "Baseline", "ABM", "ABM - baseline"));
+
+  const modelRefs: Record<string, { baseline: string; abm: string; delta: string }> = {};
+  const addModelRow = (
+    key: string,
+    label: string,
+    format: keyof WorkbookFormats,
+    baseline: { formula: string; value: number },
+    abm: { formula: string; value: number },
+  ) => {
+    const rowIndex = modelRows.length;
+    const refsForRow = {
+      baseline: cellRef(rowIndex, 1),
+      abm: cellRef(rowIndex, 2),
+      delta: cellRef(rowIndex, 3),
+    };
+    const style = { numFmt: formats[format] };
+    modelRefs[key] = refsForRow;
+    modelRows.push([
+      label,
+      summed ? { value: baseline.value, style } : { ...baseline, style },
+      summed ? { value: abm.value, style } : { ...abm, style },
+      {
+        formula: `${refsForRow.abm}-${refsForRow.baseline}`,
+        value: format === "currency" ? subtractMoney(abm.value, baseline.value) : abm.value - baseline.value,
+        style,
+      },
+    ]);
+  };
+
+  // ABM works the same in-market pool as the baseline.
+  addModelRow(
+    "inMarketAccounts",
+    "In-market accounts",
+    "number",
+    {
+      formula: `MAX(0,${refs["market.targetAccounts"]}*${inMarketDriver}/100)`,
+      value: outputs.baseline.inMarketAccounts,
+    },
+    { formula: cellRef(modelRows.length, 1), value: outputs.baseline.inMarketAccounts },
+  );
+  const inMarket = modelRefs.inMarketAccounts;
+
+  addModelRow(
+    "qualifiedOpps",
+    "Qualified opportunities",
+    "number",
+    {
+      formula: `MAX(0,${inMarket.baseline}*${refs["market.qualifiedOppsPerAccount"]})`,
+      value: outputs.baseline.qualifiedOpps,
+    },
+    {
+      formula: `MAX(0,${inMarket.abm}*${refs["market.qualifiedOppsPerAccount"]}*(1+${oppDriver}/100))`,
+      value: outputs.abm.qualifiedOpps,
+    },
+  );
+  const opps = modelRefs.qualifiedOpps;
+
+  const baselineWinRate = inputs.market.baselineWinRate;
+  const abmWinRate = Math.min(100, Math.max(0, baselineWinRate + drivers.uplifts.winRateUplift));
+  addModelRow(
+    "winRate",
+    "Win rate",
+    "percent",
+    { formula: refs["market.baselineWinRate"], value: baselineWinRate },
+    {
+      formula: `MIN(100,MAX(0,${refs["market.baselineWinRate"]}+${winDriver}))`,
+      value: abmWinRate,
+    },
+  );
+  const winRate = modelRefs.winRate;
+
+  addModelRow(
+    "wins",
+    "Expected wins",
+    "number",
+    { formula: `MAX(0,${opps.baseline}*${winRate.baseline}/100)`, value: outputs.baseline.expectedWins },
+    { formula: `MAX(0,${opps.abm}*${winRate.abm}/100)`, value: outputs.abm.expectedWins },
+  );
+  const wins = modelRefs.wins;
+
+  addModelRow(
+    "acv",
+    "ACV",
+    "currency",
+    { formula: refs["market.baselineAcv"], value: inputs.market.baselineAcv },
+    { formula: `ROUND(MAX(0,${refs["market.baselineAcv"]}*(100+${acvDriver})/100),2)`, value: outputs.abm.acv },
+  );
+  const acv = modelRefs.acv;
+
+  addModelRow(
+    "revenue",
+    "Revenue",
+    "currency",
+    { formula: `ROUND(MAX(0,${wins.baseline}*${acv.baseline}),2)`, value: outputs.baseline.revenue },
+    { formula: `ROUND(MAX(0,${wins.abm}*${acv.abm}),2)`, value: outputs.abm.revenue },
+  );
+  const revenue = modelRefs.revenue;
+
+  addModelRow(
+    "grossProfit",
+    "Gross profit",
+    "currency",
+    {
+      formula: `ROUND(MAX(0,${revenue.baseline}*${refs["market.contributionMargin"]}/100),2)`,
+      value: outputs.baseline.grossProfit,
+    },
+    {
+      formula: `ROUND(MAX(0,${revenue.abm}*${refs["market.contributionMargin"]}/100),2)`,
+      value: outputs.abm.grossProfit,
+    },
+  );
+  const grossProfit = modelRefs.grossProfit;
+  const model = (ref: string) => sheetRef(SHEET_NAMES.model, ref);
+
+  if (perAccount) {
+    modelRows.push([]);
+    modelRows.push([
+      "Account model",
+      null,
+      null,
+      `Per account: totals are summed over treated accounts on the ${SHEET_NAMES.accounts} sheet.`,
+    ]);
+  }
+  if (bySegment) {
+    modelRows.push([]);
+    modelRows.push([
+      "Market segments",
+      null,
+      null,
+      `Totals are summed over the market segments on the ${SHEET_NAMES.segments} sheet.`,
+    ]);
+  }
+
+  // Incremental: cost and return metrics reference the model sheet.
+  const { incremental } = outputs;
+  const incrementalRows: Array<Array<XlsxCell | XlsxValue>> = [header("Metric", "Value", "Note")];
+  const addIncremental = (label: string, cell: XlsxCell, note?: string): string => {
+    const ref = cellRef(incrementalRows.length, 1);
+    incrementalRows.push([label, cell, note ?? null]);
+    return ref;
+  };
+  const costCategories = ["people", "media", "dataTech", "content", "agency", "other"]
+    .map((key) => refs[`costs.${key}`])
+    .join(",");
+  const cost = addIncremental(
+    "Programme cost",
+    {
+      formula: `ROUND(IF(N(${refs["costs.totalOverride"]})>0,${refs["costs.totalOverride"]},MAX(0,SUM(${costCategories}))),2)`,
+      value: incremental.totalCost,
+      style: { numFmt: formats.currency },
+    },
+    "Total investment when entered, otherwise the sum of cost categories.",
+  );
+  addIncremental("Incremental revenue", {
+    formula: model(revenue.delta),
+    value: incremental.incrementalRevenue,
+    style: { numFmt: formats.currency },
+  });
+  const incrementalGrossProfit = addIncremental("Incremental gross profit", {
+    formula: model(grossProfit.delta),
+    value: incremental.incrementalGrossProfit,
+    style: { numFmt: formats.currency },
+  });
+  addIncremental("Expected additional wins", {
+    formula: model(wins.delta),
+    value: incremental.incrementalWins,
+    style: { numFmt: formats.number },
+  });
+  addIncremental(
+    "Programme profit after spend",
+    {
+      formula: `${model(grossProfit.abm)}-${cost}`,
+      value: incremental.profitAfterSpend,
+      style: { numFmt: formats.currency },
+    },
+    "ABM gross profit minus programme cost.",
+  );
+  addIncremental(
+    "Net ROI (incremental)",
+    {
+      formula: `IF(${cost}>0,(${incrementalGrossProfit}-${cost})/${cost},"${NA_SYMBOL}")`,
+      value: na(incremental.roi),
+      style: { numFmt: formats.ratio },
+    },
+    findGlossaryEntry("Net ROI (incremental)")?.description,
+  );
+  addIncremental(
+    "Gross ROMI",
+    {
+      formula: `IF(${cost}>0,${incrementalGrossProfit}/${cost},"${NA_SYMBOL}")`,
+      value: na(incremental.grossRoi),
+      style: { numFmt: formats.ratio },
+    },
+    findGlossaryEntry("Gross ROMI")?.description,
+  );
+  const profitPerWin = `${model(acv.abm)}*${refs["market.contributionMargin"]}/100`;
+  addIncremental(
+    "Break-even wins",
+    {
+      formula: `IF(AND(${cost}>0,${profitPerWin}>0),ROUNDUP(${cost}/(${profitPerWin}),0),"${NA_SYMBOL}")`,
+      value: na(incremental.breakEvenWins),
+      style: { numFmt: formats.integer },
+    },
+    findGlossaryEntry("Break-even wins")?.description,
+  );
+  addIncremental(
+    "Payback",
+    { value: na(incremental.paybackMonths), style: { numFmt: formats.number } },
+    "Months, read from the monthly cohort timeline in the calculator.",
+  );
+
+  if (outputs.lifetime) {
+    const { lifetime } = outputs;
+    incrementalRows.push([]);
+    incrementalRows.push(header("Lifetime economics", "Value", "Note"));
+    addIncremental("Lifetime incremental revenue", {
+      value: lifetime.lifetimeIncrementalRevenue,
+      style: { numFmt: formats.currency },
+    });
+    addIncremental("Lifetime incremental gross profit", {
+      value: lifetime.lifetimeIncrementalGrossProfit,
+      style: { numFmt: formats.currency },
+    });
+    addIncremental("NPV", { value: lifetime.npv, style: { numFmt: formats.currency } }, findGlossaryEntry("NPV")?.description);
+    addIncremental("IRR", { value: na(lifetime.irr), style: { numFmt: formats.ratio } }, findGlossaryEntry("IRR")?.description);
+    addIncremental(
+      "LTV:CAC",
+      { value: na(lifetime.ltvToCac), style: { numFmt: formats.number } },
+      findGlossaryEntry("LTV:CAC")?.description,
+    );
+  }
+
+  incrementalRows.push([]);
+  incrementalRows.push(["FX note", null, describeFx(inputs)]);
+
+  // Sensitivity: each cell is a full engine run, so values are written rather than formulas.
+  const rowAxis = SENSITIVITY_AXES[grid.rowAxis];
+  const columnAxis = SENSITIVITY_AXES[grid.columnAxis];
+  const gridMetric = SENSITIVITY_METRICS[grid.metric];
+  const sensitivityRows: Array<Array<XlsxCell | XlsxValue>> = [
+    [{ value: `${gridMetric.label} by ${rowAxis.label} (rows) and ${columnAxis.label} (columns)`, style: BOLD }],
+    [
+      { value: rowAxis.label, style: BOLD },
+      ...grid.columns.map((value) => ({ value, style: { bold: true, numFmt: gridFormat(columnAxis.format) } })),
+    ],
+    ...grid.cells.map((row, index) => [
+      { value: grid.rows[index], style: { bold: true, numFmt: gridFormat(rowAxis.format) } },
+      ...row.map((cell) => ({ value: na(cell.value), style: { numFmt: gridFormat(gridMetric.format) } })),
+    ]),
+  ];
+
+  const currencyCell = (value: number): XlsxCell => ({ value, style: { numFmt: formats.currency } });
+  const accountRows: Array<Array<XlsxCell | XlsxValue>> = [
+    header(
+      "Account",
+      "Tier",
+      "Treated",
+      "ACV",
+      "In-market probability",
+      "Expected opps",
+      "Baseline gross profit",
+      "ABM gross profit",
+      "Incremental gross profit",
+      "Share of incremental",
+    ),
+    ...(outputs.accounts ?? []).map((account) => [
+      account.name,
+      account.tier ? TIER_LABELS[account.tier] : null,
+      account.treated ? "Yes" : "No",
+      currencyCell(account.acv),
+      { value: account.inMarketProbability, style: { numFmt: formats.percent } },
+      { value: account.expectedOpps, style: { numFmt: formats.number } },
+      currencyCell(account.baselineGrossProfit),
+      currencyCell(account.abmGrossProfit),
+      currencyCell(account.incrementalGrossProfit),
+      { value: na(account.share), style: { numFmt: formats.ratio } },
+    ]),
+  ];
+
+  const segments = outputs.segments ?? [];
+  const treatedTotal = segments.reduce((total, segment) => total + segment.treatedAccounts, 0);
+  const segmentRows: Array<Array<XlsxCell | XlsxValue>> = [
+    header(
+      "Segment",
+      "Treated accounts",
+      "Programme cost",
+      "Baseline gross profit",
+      "ABM gross profit",
+      "Incremental gross profit",
+      "Net ROI",
+    ),
+    ...[
+      ...segments.map((segment) => ({ ...segment, outputs: segment.result.outputs })),
+      { name: "Total", treatedAccounts: treatedTotal, outputs },
+    ].map((row) => [
+      row.name,
+      { value: row.treatedAccounts, style: { numFmt: formats.integer } },
+      currencyCell(row.outputs.incremental.totalCost),
+      currencyCell(row.outputs.baseline.grossProfit),
+      currencyCell(row.outputs.abm.grossProfit),
+      currencyCell(row.outputs.incremental.incrementalGrossProfit),
+      { value: na(row.outputs.incremental.roi), style: { numFmt: formats.ratio } },
+    ]),
+  ];
+
+  return {
+    sheets: [
+      { name: SHEET_NAMES.assumptions, rows: assumptionRows, columnWidths: [14, 36, 16, 22, 90] },
+      { name: SHEET_NAMES.model, rows: modelRows, columnWidths: [34, 18, 18, 40] },
+      { name: SHEET_NAMES.incremental, rows: incrementalRows, columnWidths: [34, 18, 90] },
+      { name: SHEET_NAMES.sensitivity, rows: sensitivityRows, columnWidths: [18, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12] },
+      ...(perAccount
+        ? [{ name: SHEET_NAMES.accounts, rows: accountRows, columnWidths: [36, 12, 10, 16, 12, 12, 18, 18, 18, 12] }]
+        : []),
+      ...(bySegment
+        ? [{ name: SHEET_NAMES.segments, rows: segmentRows, columnWidths: [36, 12, 18, 18, 18, 18, 12] }]
+        : []),
+    ],
+  };
+};
+
+export const exportScenarioXlsx = (result: ScenarioResult, grid: SensitivityGrid): Uint8Array<ArrayBuffer> =>
+  writeXlsx(buildScenarioWorkbook(result, grid));
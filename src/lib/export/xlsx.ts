@@ -0,0 +1,297 @@
+export type XlsxValue = string | number | boolean | null;
+
+export interface XlsxStyle {
+  numFmt?: string;
+  bold?: boolean;
+  wrap?: boolean;
+}
+
+export interface XlsxCell {
+  value: XlsxValue;
+  formula?: string;
+  style?: XlsxStyle;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: Array<Array<XlsxCell | XlsxValue>>;
+  columnWidths?: number[];
+}
+
+export interface XlsxWorkbook {
+  sheets: XlsxSheet[];
+}
+
+const SPREADSHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIP_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIP_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const CUSTOM_NUM_FMT_START = 164;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const columnName = (columnIndex: number): string => {
+  let name = "";
+  let remaining = columnIndex + 1;
+
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + offset) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return name;
+};
+
+export const cellRef = (rowIndex: number, columnIndex: number): string =>
+  `${columnName(columnIndex)}${rowIndex + 1}`;
+
+export const sheetRef = (sheetName: string, ref: string): string =>
+  `'${sheetName.replace(/'/g, "''")}'!${ref}`;
+
+const toCell = (cell: XlsxCell | XlsxValue): XlsxCell =>
+  cell !== null && typeof cell === "object" ? cell : { value: cell };
+
+type StyleRegistry = ReturnType<typeof createStyleRegistry>;
+
+const createStyleRegistry = () => {
+  const numFmts = new Map<string, number>();
+  const xfs = new Map<string, { numFmtId: number; fontId: number; wrap: boolean }>([
+    ["", { numFmtId: 0, fontId: 0, wrap: false }],
+  ]);
+
+  const resolveNumFmt = (formatCode: string): number => {
+    const existing = numFmts.get(formatCode);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const id = CUSTOM_NUM_FMT_START + numFmts.size;
+    numFmts.set(formatCode, id);
+    return id;
+  };
+
+  const resolve = (style?: XlsxStyle): number => {
+    if (!style) {
+      return 0;
+    }
+
+    const numFmtId = style.numFmt ? resolveNumFmt(style.numFmt) : 0;
+    const fontId = style.bold ? 1 : 0;
+    const wrap = style.wrap === true;
+    const key = `${numFmtId}:${fontId}:${wrap}`;
+
+    if (!xfs.has(key)) {
+      xfs.set(key, { numFmtId, fontId, wrap });
+    }
+
+    return [...xfs.keys()].indexOf(key);
+  };
+
+  const toXml = (): string => {
+    const numFmtXml = [...numFmts.entries()]
+      .map(([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`)
+      .join("");
+    const xfXml = [...xfs.values()]
+      .map(({ numFmtId, fontId, wrap }) => {
+        const apply = `${numFmtId ? ' applyNumberFormat="1"' : ""}${fontId ? ' applyFont="1"' : ""}`;
+        const attributes = `numFmtId="${numFmtId}" fontId="${fontId}" fillId="0" borderId="0" xfId="0"${apply}`;
+        return wrap
+          ? `<xf ${attributes} applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>`
+          : `<xf ${attributes}/>`;
+      })
+      .join("");
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+      `<styleSheet xmlns="${SPREADSHEET_NS}">`,
+      numFmts.size ? `<numFmts count="${numFmts.size}">${numFmtXml}</numFmts>` : "",
+      `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>`,
+      `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>`,
+      `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>`,
+      `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>`,
+      `<cellXfs count="${xfs.size}">${xfXml}</cellXfs>`,
+      `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>`,
+      `</styleSheet>`,
+    ].join("");
+  };
+
+  return { resolve, toXml };
+};
+
+const cellXml = (cell: XlsxCell, ref: string, styleId: number): string => {
+  const styleAttr = styleId ? ` s="${styleId}"` : "";
+  const { value, formula } = cell;
+
+  if (formula) {
+    const formulaXml = `<f>${escapeXml(formula)}</f>`;
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return `<c r="${ref}"${styleAttr}>${formulaXml}<v>${value}</v></c>`;
+    }
+    if (typeof value === "string") {
+      return `<c r="${ref}"${styleAttr} t="str">${formulaXml}<v>${escapeXml(value)}</v></c>`;
+    }
+    return `<c r="${ref}"${styleAttr}>${formulaXml}</c>`;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (typeof value === "string") {
+    return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  }
+
+  return styleId ? `<c r="${ref}"${styleAttr}/>` : "";
+};
+
+const sheetXml = (sheet: XlsxSheet, styles: StyleRegistry): string => {
+  const cols = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths
+        .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+        .join("")}</cols>`
+    : "";
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((raw, columnIndex) => {
+          const cell = toCell(raw);
+          return cellXml(cell, cellRef(rowIndex, columnIndex), styles.resolve(cell.style));
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="${SPREADSHEET_NS}">${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Entries are stored uncompressed with a fixed timestamp so identical scenarios produce identical files.
+const zipStore = (files: Array<{ path: string; content: string }>): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ path, content }) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(8, 0, true);
+    local.setUint16(10, 0, true);
+    local.setUint16(12, 0x0021, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, 0x0021, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let cursor = 0;
+  parts.forEach((part) => {
+    output.set(part, cursor);
+    cursor += part.length;
+  });
+
+  return output;
+};
+
+export const writeXlsx = (workbook: XlsxWorkbook): Uint8Array<ArrayBuffer> => {
+  const styles = createStyleRegistry();
+  const sheets = workbook.sheets.map((sheet, index) => ({
+    path: `xl/worksheets/sheet${index + 1}.xml`,
+    content: sheetXml(sheet, styles),
+  }));
+
+  const sheetEntries = workbook.sheets
+    .map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+    .join("");
+  const sheetRelationships = workbook.sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+    )
+    .join("");
+  const sheetOverrides = sheets
+    .map(
+      ({ path }) =>
+        `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+    )
+    .join("");
+
+  return zipStore([
+    {
+      path: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetOverrides}</Types>`,
+    },
+    {
+      path: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}"><Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      path: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>${sheetEntries}</sheets><calcPr calcId="191029" fullCalcOnLoad="1"/></workbook>`,
+    },
+    {
+      path: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">${sheetRelationships}<Relationship Id="rId${workbook.sheets.length + 1}" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/></Relationships>`,
+    },
+    ...sheets,
+    { path: "xl/styles.xml", content: styles.toXml() },
+  ]);
+};
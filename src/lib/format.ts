@@ -1,3 +1,4 @@
+import type { SensitivityValueFormat } from "@/lib/calculator/sensitivity";
 import type { CurrencyCode } from "@/lib/calculator/types";
 
 const NA_SYMBOL = "\u2014";
@@ -39,6 +40,12 @@ export const formatCurrency = (
   }).format(value);
 };
 
+// The bare symbol for input prefixes, e.g. "£" for GBP or "CA$" for CAD in en-GB.
+export const formatCurrencySymbol = (locale: string, currency: CurrencyCode): string =>
+  new Intl.NumberFormat(locale, { style: "currency", currency })
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value ?? currency;
+
 export const formatPercent = (
   value: number | null | undefined,
   locale: string,
@@ -55,4 +62,26 @@ export const formatPercent = (
   return `${formatted}${suffix}`;
 };
 
+export const formatSensitivityValue = (
+  value: number | null | undefined,
+  format: SensitivityValueFormat,
+  locale: string,
+  currency: CurrencyCode,
+): string => {
+  switch (format) {
+    case "currency":
+      return formatCurrency(value, locale, currency);
+    case "percent":
+      return formatPercent(value, locale);
+    case "ratio":
+      return formatPercent(isFiniteNumber(value) ? value * 100 : null, locale);
+    case "integer":
+      return formatNumber(value, locale, { fractionDigits: 0 });
+    case "months":
+      return isFiniteNumber(value) ? `${formatNumber(value, locale)} mo` : NA_SYMBOL;
+    default:
+      return formatNumber(value, locale);
+  }
+};
+
 export { NA_SYMBOL };
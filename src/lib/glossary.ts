@@ -0,0 +1,474 @@
+export interface GlossaryEntry {
+  term: string;
+  metric?: string;
+  description: string;
+}
+
+export interface GlossarySection {
+  title: string;
+  entries: GlossaryEntry[];
+}
+
+export const GLOSSARY_SECTIONS: GlossarySection[] = [
+  {
+    title: "Programme setup",
+    entries: [
+      {
+        term: "Programme duration",
+        metric: "months",
+        description:
+          "Total months the ABM programme runs from kickoff to wrap-up. Used to derive the active influence window (duration minus ramp) and to convert incremental profit into payback months.",
+      },
+      {
+        term: "Ramp-up period",
+        metric: "months",
+        description:
+          "Months needed for the programme to reach steady-state performance. The value is subtracted from the duration when auto-calculating the in-market rate, so a longer ramp shortens the demand window you can influence this year. The monthly timeline also phases ABM uplifts in linearly across these months.",
+      },
+      {
+        term: "Tier preset",
+        description:
+          "Chooses between 1:1, 1:few, and 1:many motions. Each preset seeds defaults for target account volume, hours per account, and spend-per-account benchmarks used in coverage and budget headroom checks.",
+      },
+      {
+        term: "Expectations preset",
+        description:
+          "Applies conservative, expected, or stretch defaults to uplift assumptions and (when auto mode is on) the in-market rate. Use it as a starting point before fine-tuning individual fields.",
+      },
+      {
+        term: "Currency",
+        metric: "ISO code",
+        description:
+          "Currency applied to every monetary input, calculation, and export. Switching it converts the money inputs (ACV, costs, tier budgets) at the scenario's exchange rates, so the plan keeps its size.",
+      },
+      {
+        term: "FX base currency",
+        metric: "ISO code",
+        description:
+          "Currency the exchange-rate table is quoted against. Every other rate is the number of units of that currency per 1 unit of the base.",
+      },
+      {
+        term: "FX rates as of",
+        metric: "date",
+        description:
+          "Date the exchange rates were taken. Rates are stored with the scenario and printed as an FX note on exports; restate them before sign-off.",
+      },
+      {
+        term: "Benchmark pack",
+        metric: "pack id",
+        description:
+          "Regional set of tier, budget, sales-cycle and preset benchmarks behind the planner's defaults. Switch packs to see how results move.",
+      },
+      {
+        term: "Benchmark version",
+        metric: "version",
+        description:
+          "Release of the benchmark pack the scenario was built on, so a saved scenario can be reproduced after the benchmarks are refreshed.",
+      },
+      {
+        term: "Number formatting locale",
+        metric: "locale",
+        description:
+          "Locale string (for example en-GB or en-US) that controls thousand separators and decimal punctuation across the experience and any exports.",
+      },
+    ],
+  },
+  {
+    title: "Market & funnel assumptions",
+    entries: [
+      {
+        term: "Target accounts",
+        metric: "accounts",
+        description:
+          "Total accounts in scope for the programme. Combined with the in-market rate to estimate active demand and to express coverage as a percentage of the list.",
+      },
+      {
+        term: "Market inputs source",
+        metric: "CRM snapshot",
+        description:
+          "Provenance of the baseline win rate, ACV, opportunities per account and sales cycle when they were filled from a closed-opportunity CRM export, e.g. “Derived from 312 opps, Jan–Dec 2025”.",
+      },
+      {
+        term: "Account list",
+        metric: "CSV import",
+        description:
+          "Optional CSV of target companies (name, tier, segment, estimated ACV, in-market flag, and optionally in-market probability, expected opps and a treated flag). When loaded it sets target accounts, averages the ACV estimates and takes the in-market rate from the share of flagged accounts.",
+      },
+      {
+        term: "Account model",
+        metric: "mode",
+        description:
+          "How an imported account list is modelled. Account averages run one funnel on the list's averages; per account runs the funnel for each treated account with its own ACV, in-market probability and expected opps, then sums them, so a few large accounts weigh as much as they should.",
+      },
+      {
+        term: "In-market rate",
+        metric: "%",
+        description:
+          "Share of the target list expected to enter an evaluation during the programme window. Auto mode converts the 95:5 rule, buying window, and duration minus ramp into this value; manual overrides lock whatever you type. Multiplying it by target accounts gives the in-market accounts used downstream.",
+      },
+      {
+        term: "Buying window",
+        metric: "months",
+        description:
+          "How long an account typically stays in an active evaluation when auto mode is enabled. Adjusting it reshapes the auto-derived in-market rate.",
+      },
+      {
+        term: "Qualified opportunities per account",
+        description:
+          "Average number of qualified opportunities each in-market account generates. Converts in-market accounts into pipeline volume for both baseline and ABM scenarios.",
+      },
+      {
+        term: "Baseline win rate",
+        metric: "%",
+        description:
+          "Historic win rate without ABM influence. Applied to baseline qualified opportunities to calculate baseline wins and forms the anchor for ABM win-rate uplift.",
+      },
+      {
+        term: "Baseline ACV",
+        metric: "currency",
+        description:
+          "Average contract value before any ABM uplift. Combined with wins to produce baseline revenue.",
+      },
+      {
+        term: "Contribution margin",
+        metric: "%",
+        description:
+          "Gross margin for the products or services in scope. Applied to revenue to calculate gross profit, incremental profit, and break-even wins.",
+      },
+      {
+        term: "Sales cycle (baseline)",
+        metric: "months",
+        description:
+          "Typical time to close today. Sets the starting point for the ABM sales-cycle calculation and the velocity factor used in payback.",
+      },
+      {
+        term: "Sales cycle (ABM)",
+        metric: "months",
+        description:
+          "Projected cycle length with ABM support. Auto mode applies tier reduction bands, alignment multipliers, and coverage intensity; enabling manual override lets you enter a specific number. The value feeds the payback calculation and velocity cues.",
+      },
+    ],
+  },
+  {
+    title: "Impact & velocity uplifts",
+    entries: [
+      {
+        term: "Win-rate uplift",
+        metric: "percentage points",
+        description:
+          "Increase in win rate attributable to ABM activities before alignment and intensity scaling. Added to the baseline win rate when calculating ABM expected wins.",
+      },
+      {
+        term: "ACV uplift",
+        metric: "%",
+        description:
+          "Percentage increase in deal size due to ABM. After scaling by coverage intensity, it multiplies the baseline ACV to produce ABM revenue.",
+      },
+      {
+        term: "Opportunity uplift",
+        metric: "%",
+        description:
+          "Percentage lift in qualified opportunity volume delivered by ABM. Adjusted by alignment and intensity before applying to baseline opportunity volume.",
+      },
+    ],
+  },
+  {
+    title: "Investment & capacity",
+    entries: [
+      {
+        term: "Total programme investment",
+        metric: "currency",
+        description:
+          "Single-field entry for the annual ABM budget. When populated it becomes the programme cost even if individual categories are zero; clearing it hands control back to the detailed cost breakdown.",
+      },
+      {
+        term: "People",
+        metric: "currency",
+        description:
+          "Internal headcount cost allocated to the programme. Rolls into total programme cost and ROI calculations.",
+      },
+      {
+        term: "Media",
+        metric: "currency",
+        description:
+          "Paid media budget dedicated to ABM tactics such as advertising, syndication, or sponsorships.",
+      },
+      {
+        term: "Data & tech",
+        metric: "currency",
+        description:
+          "Spend on data providers, intent platforms, enrichment, and tooling that underpin ABM execution.",
+      },
+      {
+        term: "Content",
+        metric: "currency",
+        description:
+          "Production and personalisation costs for assets, experiences, and creative tailored to target accounts.",
+      },
+      {
+        term: "Agency & partners",
+        metric: "currency",
+        description:
+          "Fees paid to external agencies or partners supporting the programme.",
+      },
+      {
+        term: "Other",
+        metric: "currency",
+        description:
+          "Any additional investments not captured above. Included in the total programme cost.",
+      },
+      {
+        term: "Budget capacity",
+        metric: "accounts",
+        description:
+          "Accounts the budget can fully treat at the tier's spend-per-account benchmark. Derived automatically when coverage is capped by budget.",
+      },
+      {
+        term: "Cap coverage by",
+        description:
+          "Dropdown that sets the primary constraint on how many accounts can be fully treated. Budget mode converts spend into account capacity using tier spend-per-account benchmarks; Team time mode uses available marketing and sales hours.",
+      },
+      {
+        term: "Marketers (FTE)",
+        metric: "FTE",
+        description:
+          "Full-time-equivalent marketers dedicated to the programme when capping by team time. Fractions are allowed to represent partial allocations.",
+      },
+      {
+        term: "Sellers (FTE)",
+        metric: "FTE",
+        description:
+          "Full-time-equivalent sellers covering the programme when team time is the constraint.",
+      },
+      {
+        term: "Marketing time available",
+        metric: "%",
+        description:
+          "Proportion of each marketer’s time available for this plan. Combined with marketing FTE to calculate total marketing hours.",
+      },
+      {
+        term: "Sales time available",
+        metric: "%",
+        description:
+          "Share of each seller’s time allocated to the programme. Works with sales FTE to determine sales coverage capacity.",
+      },
+      {
+        term: "Hours per treated account",
+        metric: "hours/account/month",
+        description:
+          "Effort required to fully run the ABM motion for one account each month. Defaults follow the selected tier and convert available hours into the number of accounts you can treat.",
+      },
+    ],
+  },
+  {
+    title: "Alignment & operating model",
+    entries: [
+      {
+        term: "Sales & marketing alignment",
+        description:
+          "Qualitative assessment of go-to-market coordination (Poor, Standard, Excellent). Sets multipliers that scale opportunity uplift, win-rate uplift, and sales-velocity reductions before the model runs.",
+      },
+      {
+        term: "Intensity multiplier",
+        description:
+          "Derived factor based on coverage saturation. Concentrated coverage (treating a smaller slice of the list) increases the multiplier applied to uplifts and sales cycle reductions.",
+      },
+      {
+        term: "Tier portfolio",
+        description:
+          "Runs 1:1, 1:few, and 1:many motions in one plan. Each tier has its own accounts, hours and budget per account, uplifts, and cycle reduction. Tiers share one team or budget pool, filled from 1:1 down, and results roll up into a single ROI.",
+      },
+      {
+        term: "Budget per account",
+        metric: "currency",
+        description:
+          "Benchmark spend per treated account in a portfolio tier. Caps how many accounts a budget-led tier can cover and sets that tier's share of the programme investment.",
+      },
+      {
+        term: "Efficient frontier",
+        metric: "currency",
+        description:
+          "The most incremental gross profit any tier split can earn at each budget level, tested in 5% steps of the total investment. Flattening means extra spend is buying little.",
+      },
+      {
+        term: "ROI on next unit of spend",
+        metric: "%",
+        description:
+          "Net return on the next increment of spend in a tier (at least one more account's budget), given the recommended split and the team hours left.",
+      },
+      {
+        term: "Dilution risk",
+        description:
+          "Guardrail shown when treated accounts and uplift assumptions suggest a spread-too-thin programme. Use it as a cue to tighten scope or revisit assumptions.",
+      },
+    ],
+  },
+  {
+    title: "Lifetime economics",
+    entries: [
+      {
+        term: "Lifetime mode",
+        description:
+          "Toggle that projects won revenue beyond the programme period using the retention, expansion, and discount settings below. When off, every output covers the programme period only.",
+      },
+      {
+        term: "Horizon",
+        metric: "years",
+        description:
+          "Number of years of revenue projected from ABM-won accounts when lifetime mode is on, including the programme year.",
+      },
+      {
+        term: "Gross retention",
+        metric: "%",
+        description:
+          "Share of won revenue that renews each year before any expansion. Applied to both ABM and baseline revenue so the lifetime view stays incremental.",
+      },
+      {
+        term: "Net expansion",
+        metric: "%",
+        description:
+          "Annual growth on retained revenue from upsell and cross-sell. Combined with gross retention to roll revenue into the next year.",
+      },
+      {
+        term: "Discount rate",
+        metric: "%",
+        description:
+          "Annual rate used to discount future incremental gross profit back to today for NPV and LTV:CAC.",
+      },
+      {
+        term: "NPV",
+        metric: "currency",
+        description:
+          "Discounted lifetime incremental gross profit minus programme cost, which is treated as spent up front.",
+      },
+      {
+        term: "IRR",
+        metric: "%",
+        description:
+          "Discount rate at which the NPV of the programme cost and lifetime incremental gross profit is zero. Blank when cash flows never turn positive.",
+      },
+      {
+        term: "LTV:CAC",
+        description:
+          "Discounted lifetime incremental gross profit ÷ programme cost. Values above 1× mean the programme pays for itself over the horizon.",
+      },
+    ],
+  },
+  {
+    title: "Sensitivity settings",
+    entries: [
+      {
+        term: "In-market range",
+        metric: "list of %",
+        description:
+          "Comma-separated in-market rates; the lowest and highest set the span of the in-market axis in the sensitivity grid.",
+      },
+      {
+        term: "Win uplift range",
+        metric: "list of percentage points",
+        description:
+          "Comma-separated win-rate uplifts (in percentage points); the lowest and highest set the span of the win-uplift axis in the sensitivity grid.",
+      },
+      {
+        term: "Resolution",
+        metric: "integer",
+        description:
+          "Number of steps (3–11) along each sensitivity grid axis, spaced evenly across the axis span.",
+      },
+      {
+        term: "Grid rows",
+        metric: "input",
+        description:
+          "Input flexed down the rows of the sensitivity grid. Inputs without a range list flex ±30% around their current value.",
+      },
+      {
+        term: "Grid columns",
+        metric: "input",
+        description: "Input flexed across the columns of the sensitivity grid; must differ from the row input.",
+      },
+      {
+        term: "Grid metric",
+        metric: "output",
+        description: "Output shown in each sensitivity grid cell: net ROI, gross ROI, payback, profit after spend, or incremental wins.",
+      },
+    ],
+  },
+  {
+    title: "Scoreboard & outputs",
+    entries: [
+      {
+        term: "Programme revenue",
+        metric: "currency",
+        description:
+          "ABM expected wins multiplied by the uplifted ACV.",
+      },
+      {
+        term: "Programme gross profit",
+        metric: "currency",
+        description:
+          "Programme revenue multiplied by the contribution margin.",
+      },
+      {
+        term: "Programme cost",
+        metric: "currency",
+        description:
+          "Total programme investment after applying the detailed cost breakdown or single-field budget.",
+      },
+      {
+        term: "Programme profit after spend",
+        metric: "currency",
+        description:
+          "Programme gross profit minus programme cost. Displayed as 'Profit after spend (this period)' in the headline KPIs.",
+      },
+      {
+        term: "Net ROI (incremental)",
+        description:
+          "(Incremental gross profit - programme cost) ÷ programme cost. Null when costs are zero.",
+      },
+      {
+        term: "Gross ROMI",
+        description:
+          "Incremental gross profit ÷ programme cost. Ignores the subtraction of cost and is useful for marketing mix comparisons.",
+      },
+      {
+        term: "Payback",
+        metric: "months",
+        description:
+          "Month in which the cumulative net position (incremental gross profit recognised so far minus spend to date) turns positive. Opportunities ramp in over the ramp-up period and close after the baseline or ABM sales cycle; if the curve never recovers, the run-rate estimate accelerated by sales-cycle velocity is shown instead.",
+      },
+      {
+        term: "Expected additional wins",
+        metric: "wins",
+        description:
+          "ABM expected wins minus baseline expected wins. Highlighted as 'ABM - baseline' in the scoreboard badges.",
+      },
+      {
+        term: "Break-even wins",
+        metric: "wins",
+        description:
+          "Number of ABM wins required for gross profit to cover programme cost. Derived from ACV, margin, and total spend.",
+      },
+      {
+        term: "Treated accounts",
+        metric: "accounts",
+        description:
+          "Number of accounts the model says you can fully cover based on the chosen constraint (budget or team time).",
+      },
+      {
+        term: "Coverage %",
+        metric: "%",
+        description:
+          "Treated accounts divided by total target accounts. Helps you gauge how concentrated the programme is.",
+      },
+      {
+        term: "Budget headroom / shortfall",
+        metric: "accounts",
+        description:
+          "Difference between capacity (budget-derived or team hours) and expected in-market accounts. Positive values indicate spare capacity; negative values signal a gap to close.",
+      },
+    ],
+  },
+];
+
+export const findGlossaryEntry = (term: string): GlossaryEntry | undefined =>
+  GLOSSARY_SECTIONS.flatMap((section) => section.entries).find((entry) => entry.term === term);
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { planScenario } from "@/lib/calculator/planner";
+import { DEFAULT_SCENARIO } from "@/lib/calculator/schema";
+import {
+  SCENARIO_FILE_VERSION,
+  parseScenarioFile,
+  scenarioFileName,
+  serializeScenarioFile,
+} from "./scenario-file";
+import { DEFAULT_PLANNER_SETTINGS, type ScenarioLinkState } from "./scenario-link";
+
+const STATE: ScenarioLinkState = {
+  inputs: {
+    ...DEFAULT_SCENARIO,
+    segments: {
+      enabled: true,
+      segments: [
+        {
+          name: "DACH",
+          targetAccounts: 40,
+          inMarketRate: 25,
+          baselineWinRate: 20,
+          baselineAcv: 90_000,
+          contributionMargin: 60,
+          salesCycleMonthsBaseline: 10,
+        },
+      ],
+    },
+  },
+  planner: { ...DEFAULT_PLANNER_SETTINGS, tier: "oneToOne" },
+};
+
+// The prototype model, before capacity and alignment replaced coverage.
+const PROTOTYPE_FILE = {
+  format: "abmroi",
+  schemaVersion: 1,
+  scenario: { name: "Prototype plan", client: "Acme" },
+  inputs: {
+    programme: { durationMonths: 12, rampMonths: 3, currency: "USD", numberFormatLocale: "en-US" },
+    market: {
+      targetAccounts: 150,
+      inMarketRate: 35,
+      qualifiedOppsPerAccount: 1,
+      baselineWinRate: 22,
+      baselineAcv: 65_000,
+      contributionMargin: 55,
+      salesCycleMonthsBaseline: 9,
+      salesCycleMonthsAbm: 6,
+    },
+    uplifts: { winRateUplift: 12, acvUplift: 18, opportunityRateUplift: 25 },
+    costs: { people: 220_000, media: 90_000, dataTech: 45_000, content: 60_000, agency: 40_000, other: 15_000 },
+    coverage: { tier: "1toMany", minBudgetPerAccount: 2_000, maxTreatedAccounts: 80, intensityExponent: 0.8 },
+    sensitivity: { inMarketRange: [25, 35, 45], winRateUpliftRange: [5, 10, 15], resolution: 5 },
+  },
+};
+
+describe("scenario files", () => {
+  it("round-trips the current version with its metadata", () => {
+    const text = serializeScenarioFile(STATE, { name: "Q3 plan", client: "Acme", owner: "Sam" });
+    const parsed = parseScenarioFile(text, "q3.abmroi.json");
+
+    expect(JSON.parse(text)).toMatchObject({ format: "abmroi", schemaVersion: SCENARIO_FILE_VERSION });
+    expect(parsed).toEqual({
+      success: true,
+      data: {
+        state: STATE,
+        metadata: { name: "Q3 plan", client: "Acme", owner: "Sam" },
+        fromVersion: SCENARIO_FILE_VERSION,
+        warnings: [],
+      },
+    });
+    expect(scenarioFileName(" Q3 plan: Acme / EMEA ")).toBe("q3-plan-acme-emea.abmroi.json");
+  });
+
+  it("upgrades prototype coverage settings to capacity, alignment and planner settings", () => {
+    const parsed = parseScenarioFile(JSON.stringify(PROTOTYPE_FILE), "old.abmroi.json");
+    if (!parsed.success) throw new Error(parsed.error);
+
+    const { state, metadata, fromVersion, warnings } = parsed.data;
+    expect(fromVersion).toBe(1);
+    expect(metadata).toEqual({ name: "Prototype plan", client: "Acme", owner: "" });
+    expect(state.inputs).not.toHaveProperty("coverage");
+    expect(state.inputs.capacity).toEqual(DEFAULT_SCENARIO.capacity);
+    expect(state.inputs.alignment.level).toBe("standard");
+    expect(state.inputs.market.inMarketRate).toBe(35);
+    expect(state.planner).toMatchObject({ tier: "oneToMany", inMarketAuto: false, cycleOverride: true });
+    expect(warnings).toHaveLength(3);
+    expect(warnings[1]).toContain("cap of 80 treated accounts");
+
+    // Planning sizes capacity from the budget, so the prototype's cap of 80 must not reappear here.
+    const plan = planScenario(state.inputs, state.planner);
+    expect(plan.inputs.capacity.budgetCapacityAccounts).toBe(61);
+    expect(plan.coverage).toMatchObject({ budgetCapacityAccounts: 61, treatedAccounts: 53 });
+  });
+
+  it("explains files it can't read or upgrade", () => {
+    const newer = { ...PROTOTYPE_FILE, schemaVersion: SCENARIO_FILE_VERSION + 1 };
+    const broken = {
+      ...PROTOTYPE_FILE,
+      inputs: { ...PROTOTYPE_FILE.inputs, market: { ...PROTOTYPE_FILE.inputs.market, baselineWinRate: 140 } },
+    };
+
+    expect(parseScenarioFile("{", "a.json")).toMatchObject({ success: false, error: "a.json isn’t valid JSON." });
+    expect(parseScenarioFile(JSON.stringify(DEFAULT_SCENARIO), "b.json").success).toBe(false);
+    expect(parseScenarioFile(JSON.stringify({ ...PROTOTYPE_FILE, schemaVersion: "1" }), "c.json")).toMatchObject({
+      error: "c.json has no valid schemaVersion, so it can’t be upgraded.",
+    });
+    expect(parseScenarioFile(JSON.stringify(newer), "d.json")).toMatchObject({
+      error: expect.stringContaining("newer version of the calculator"),
+    });
+
+    const result = parseScenarioFile(JSON.stringify(broken), "e.json");
+    expect(result).toMatchObject({
+      success: false,
+      error: "e.json was upgraded from schema version 1 but still has values the calculator can’t accept.",
+    });
+    expect(!result.success && result.issues[0]).toMatch(/^inputs\.market\.baselineWinRate: /);
+  });
+});
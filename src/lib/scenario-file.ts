@@ -0,0 +1,184 @@
+import { z } from "zod";
+
+import { DEFAULT_SCENARIO, plannerSettingsSchema, scenarioSchema } from "@/lib/calculator/schema";
+import { MAX_SCENARIO_TEXT_LENGTH, type ScenarioMetadata } from "@/lib/scenario-library";
+import { DEFAULT_PLANNER_SETTINGS, type ScenarioLinkState } from "@/lib/scenario-link";
+
+export const SCENARIO_FILE_FORMAT = "abmroi";
+export const SCENARIO_FILE_EXTENSION = ".abmroi.json";
+/**
+ * Bump with every change to the saved shape that older readers can't take as-is, and add the step that
+ * upgrades the previous version to MIGRATIONS. Optional fields the schema already tolerates need no bump.
+ *
+ * 1 – the original prototype model: coverage settings (tier, minimum budget and maximum treated accounts per
+ *     account, intensity exponent) and no planner settings.
+ * 2 – capacity and alignment inputs replace coverage; planner settings travel with the inputs.
+ */
+export const SCENARIO_FILE_VERSION = 2;
+
+type Payload = Record<string, unknown>;
+type Migration = (payload: Payload, warnings: string[]) => Payload;
+
+export interface ScenarioFileContents {
+  state: ScenarioLinkState;
+  metadata: ScenarioMetadata;
+  fromVersion: number;
+  warnings: string[];
+}
+
+export type ScenarioFileResult =
+  | { success: true; data: ScenarioFileContents }
+  | { success: false; error: string; issues: string[] };
+
+const isRecord = (value: unknown): value is Payload =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const PROTOTYPE_TIERS: Record<string, ScenarioLinkState["planner"]["tier"]> = {
+  "1to1": "oneToOne",
+  "1toFew": "oneToFew",
+  "1toMany": "oneToMany",
+};
+
+// Keyed by the version each step upgrades from; every step returns the next version's payload.
+const MIGRATIONS: Record<number, Migration> = {
+  1: (payload, warnings) => {
+    const inputs = isRecord(payload.inputs) ? payload.inputs : {};
+    const { coverage, ...rest } = inputs;
+    const settings = isRecord(coverage) ? coverage : {};
+    const maxTreated = typeof settings.maxTreatedAccounts === "number" ? settings.maxTreatedAccounts : 0;
+
+    if (Number(settings.minBudgetPerAccount) > 0 || settings.intensityExponent !== undefined) {
+      warnings.push(
+        "Dropped the minimum budget per account and intensity exponent; coverage now follows budget or team capacity.",
+      );
+    }
+    // Planning re-derives budget capacity from spend, so the old cap can't be carried over as an input.
+    if (maxTreated > 0) {
+      warnings.push(
+        `Dropped the cap of ${Math.round(maxTreated)} treated accounts; coverage now follows the budget, so check the treated count.`,
+      );
+    }
+    warnings.push("Set alignment to standard and team capacity to the defaults; the original file had neither.");
+
+    return {
+      ...payload,
+      inputs: {
+        ...rest,
+        capacity: DEFAULT_SCENARIO.capacity,
+        alignment: DEFAULT_SCENARIO.alignment,
+      },
+      // Keep the file's own in-market rate and ABM cycle rather than re-deriving them from the tier.
+      planner: {
+        ...DEFAULT_PLANNER_SETTINGS,
+        tier: PROTOTYPE_TIERS[String(settings.tier)] ?? DEFAULT_PLANNER_SETTINGS.tier,
+        inMarketAuto: false,
+        cycleOverride: true,
+      },
+    };
+  },
+};
+
+const metadataSchema = z.object({
+  name: z.string().trim().max(MAX_SCENARIO_TEXT_LENGTH).catch(""),
+  client: z.string().trim().max(MAX_SCENARIO_TEXT_LENGTH).catch(""),
+  owner: z.string().trim().max(MAX_SCENARIO_TEXT_LENGTH).catch(""),
+});
+
+const currentPayloadSchema = z.object({
+  inputs: scenarioSchema,
+  planner: plannerSettingsSchema,
+});
+
+export const scenarioFileName = (name: string): string => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "abm-roi-scenario"}${SCENARIO_FILE_EXTENSION}`;
+};
+
+export const serializeScenarioFile = (
+  { inputs, planner }: ScenarioLinkState,
+  metadata: ScenarioMetadata,
+  exportedAt: Date = new Date(),
+): string =>
+  JSON.stringify(
+    {
+      format: SCENARIO_FILE_FORMAT,
+      schemaVersion: SCENARIO_FILE_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      scenario: metadata,
+      inputs,
+      planner,
+    },
+    null,
+    2,
+  );
+
+/**
+ * Reads a scenario file of any supported version: the payload is stepped through MIGRATIONS up to the
+ * current version and only then checked against `scenarioSchema`, so an old file is judged by today's rules
+ * once, at the end. Anything that can't be read or upgraded comes back as an error with the failing fields.
+ */
+export const parseScenarioFile = (text: string, fileName: string): ScenarioFileResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { success: false, error: `${fileName} isn’t valid JSON.`, issues: [] };
+  }
+
+  if (!isRecord(raw) || raw.format !== SCENARIO_FILE_FORMAT) {
+    return { success: false, error: `${fileName} isn’t an ${SCENARIO_FILE_EXTENSION} scenario file.`, issues: [] };
+  }
+
+  const version = raw.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { success: false, error: `${fileName} has no valid schemaVersion, so it can’t be upgraded.`, issues: [] };
+  }
+
+  if (version > SCENARIO_FILE_VERSION) {
+    return {
+      success: false,
+      error: `${fileName} uses schema version ${version}, saved by a newer version of the calculator. Update to import it.`,
+      issues: [],
+    };
+  }
+
+  const warnings: string[] = [];
+  let payload: Payload = raw;
+  for (let step = version; step < SCENARIO_FILE_VERSION; step += 1) {
+    const migrate = MIGRATIONS[step];
+    if (!migrate) {
+      return {
+        success: false,
+        error: `${fileName} uses schema version ${version}, which is no longer supported.`,
+        issues: [],
+      };
+    }
+    payload = migrate(payload, warnings);
+  }
+
+  const parsed = currentPayloadSchema.safeParse({ inputs: payload.inputs, planner: payload.planner });
+  if (!parsed.success) {
+    return {
+      success: false,
+      error:
+        version < SCENARIO_FILE_VERSION
+          ? `${fileName} was upgraded from schema version ${version} but still has values the calculator can’t accept.`
+          : `${fileName} has values the calculator can’t accept.`,
+      issues: parsed.error.issues.map((issue) => `${issue.path.join(".") || "file"}: ${issue.message}`),
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      state: parsed.data,
+      metadata: metadataSchema.parse(isRecord(payload.scenario) ? payload.scenario : {}),
+      fromVersion: version,
+      warnings,
+    },
+  };
+};
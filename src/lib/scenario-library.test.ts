@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_SCENARIO } from "@/lib/calculator/schema";
+import { DEFAULT_PLANNER_SETTINGS, type ScenarioLinkState } from "./scenario-link";
+import {
+  SCENARIO_LIBRARY_KEY,
+  createScenarioLibrary,
+  searchScenarios,
+  type LibraryStorage,
+} from "./scenario-library";
+
+const memoryStorage = (): LibraryStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+const STATE: ScenarioLinkState = {
+  inputs: {
+    ...DEFAULT_SCENARIO,
+    accountList: {
+      fileName: "targets.csv",
+      importedAt: "2026-01-01T09:00:00.000Z",
+      accounts: [{ name: "Acme", tier: "oneToOne", estimatedAcv: 250_000 }],
+    },
+  },
+  planner: DEFAULT_PLANNER_SETTINGS,
+};
+
+const setup = () => {
+  const storage = memoryStorage();
+  let tick = 0;
+  let id = 0;
+  const library = createScenarioLibrary(storage, {
+    now: () => new Date(Date.UTC(2026, 0, 1, 9, tick++)),
+    createId: () => `id-${++id}`,
+  });
+  return { storage, library };
+};
+
+describe("scenario library", () => {
+  it("saves full scenarios with metadata and updates them in place", () => {
+    const { library } = setup();
+    const saved = library.save({ name: "  Q3 plan ", client: "Acme", owner: "Sam" }, STATE);
+    if (!saved.success) throw new Error(saved.error);
+
+    expect(saved.data).toMatchObject({ id: "id-1", name: "Q3 plan", client: "Acme", owner: "Sam" });
+    expect(library.get("id-1")?.state).toEqual(STATE);
+
+    const resaved = library.save({ name: "Q3 plan v2", client: "Acme", owner: "Sam" }, STATE, "id-1");
+    if (!resaved.success) throw new Error(resaved.error);
+
+    expect(library.list()).toHaveLength(1);
+    expect(resaved.data.createdAt).toBe(saved.data.createdAt);
+    expect(resaved.data.updatedAt > saved.data.updatedAt).toBe(true);
+    expect(library.save({ name: " ", client: "", owner: "" }, STATE)).toEqual({
+      success: false,
+      error: "Give the scenario a name before saving it.",
+    });
+  });
+
+  it("duplicates, renames and deletes, listing the most recently changed first", () => {
+    const { library } = setup();
+    library.save({ name: "Baseline", client: "Acme", owner: "Sam" }, STATE);
+    library.save({ name: "Stretch", client: "Globex", owner: "Ana" }, STATE);
+
+    const copy = library.duplicate("id-1");
+    expect(copy).toMatchObject({ success: true, data: { id: "id-3", name: "Baseline (copy)", client: "Acme" } });
+
+    library.rename("id-2", "Stretch case");
+    expect(library.list().map((scenario) => scenario.name)).toEqual(["Stretch case", "Baseline (copy)", "Baseline"]);
+    expect(searchScenarios(library.list(), "acme copy").map((scenario) => scenario.id)).toEqual(["id-3"]);
+
+    expect(library.remove("id-1")).toEqual({ success: true, data: "id-1" });
+    expect(library.remove("id-1").success).toBe(false);
+    expect(library.list()).toHaveLength(2);
+  });
+
+  it("keeps the working draft and skips stored entries the schema rejects", () => {
+    const { storage, library } = setup();
+    library.save({ name: "Valid", client: "", owner: "" }, STATE);
+    const stored = JSON.parse(storage.items.get(SCENARIO_LIBRARY_KEY)!);
+    storage.setItem(SCENARIO_LIBRARY_KEY, JSON.stringify([...stored, { id: "broken", name: "Broken" }]));
+
+    expect(library.list().map((scenario) => scenario.name)).toEqual(["Valid"]);
+    expect(library.readDraft()).toBeNull();
+
+    expect(library.writeDraft(STATE, "id-1")).toBe(true);
+    expect(library.readDraft()).toMatchObject({ scenarioId: "id-1", state: STATE });
+  });
+
+  it("reports a full store instead of throwing", () => {
+    const storage = memoryStorage();
+    const library = createScenarioLibrary({
+      ...storage,
+      setItem: () => {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      },
+    });
+
+    expect(library.save({ name: "Too big", client: "", owner: "" }, STATE)).toMatchObject({ success: false });
+    expect(library.writeDraft(STATE, null)).toBe(false);
+  });
+});
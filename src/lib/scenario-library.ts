@@ -0,0 +1,219 @@
+import { z } from "zod";
+
+import { plannerSettingsSchema, scenarioSchema } from "@/lib/calculator/schema";
+import type { ScenarioLinkState } from "@/lib/scenario-link";
+
+export const SCENARIO_LIBRARY_KEY = "sabm-scenario-library";
+export const SCENARIO_DRAFT_KEY = "sabm-scenario-draft";
+export const MAX_SCENARIO_TEXT_LENGTH = 120;
+
+export type LibraryStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface ScenarioMetadata {
+  name: string;
+  client: string;
+  owner: string;
+}
+
+export interface SavedScenario extends ScenarioMetadata {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  state: ScenarioLinkState;
+}
+
+export interface ScenarioDraft {
+  scenarioId: string | null;
+  updatedAt: string;
+  state: ScenarioLinkState;
+}
+
+export type ScenarioLibraryResult<T> = { success: true; data: T } | { success: false; error: string };
+
+const stateSchema = z.object({
+  inputs: scenarioSchema,
+  planner: plannerSettingsSchema,
+});
+
+const savedScenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  client: z.string(),
+  owner: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  state: stateSchema,
+});
+
+const draftSchema = z.object({
+  scenarioId: z.string().nullable(),
+  updatedAt: z.string(),
+  state: stateSchema,
+});
+
+const STORAGE_FULL_ERROR = "Browser storage is full. Delete scenarios you no longer need and save again.";
+
+const defaultCreateId = () =>
+  globalThis.crypto?.randomUUID?.() ?? `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const readJson = (storage: LibraryStorage, key: string): unknown => {
+  try {
+    const raw = storage.getItem(key);
+    return raw === null ? null : (JSON.parse(raw) as unknown);
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (storage: LibraryStorage, key: string, value: unknown): boolean => {
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const cleanMetadata = (metadata: ScenarioMetadata): ScenarioLibraryResult<ScenarioMetadata> => {
+  const cleaned = {
+    name: metadata.name.trim(),
+    client: metadata.client.trim(),
+    owner: metadata.owner.trim(),
+  };
+
+  if (!cleaned.name) {
+    return { success: false, error: "Give the scenario a name before saving it." };
+  }
+
+  const tooLong = (Object.keys(cleaned) as Array<keyof ScenarioMetadata>).find(
+    (key) => cleaned[key].length > MAX_SCENARIO_TEXT_LENGTH,
+  );
+  if (tooLong) {
+    return { success: false, error: `Keep the ${tooLong} to ${MAX_SCENARIO_TEXT_LENGTH} characters or fewer.` };
+  }
+
+  return { success: true, data: cleaned };
+};
+
+// Case-insensitive match on name, client or owner; every word of the query has to appear somewhere.
+export const searchScenarios = (scenarios: SavedScenario[], query: string): SavedScenario[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return scenarios;
+  }
+
+  return scenarios.filter((scenario) => {
+    const haystack = `${scenario.name} ${scenario.client} ${scenario.owner}`.toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+/**
+ * Named scenarios and the autosaved working draft, kept in browser storage. Unlike share links, entries
+ * hold the full inputs (account lists, budget lines, segments). Entries the current schema no longer
+ * accepts are skipped on read rather than failing the whole library.
+ */
+export const createScenarioLibrary = (
+  storage: LibraryStorage,
+  { now = () => new Date(), createId = defaultCreateId }: { now?: () => Date; createId?: () => string } = {},
+) => {
+  const read = (): SavedScenario[] => {
+    const stored = readJson(storage, SCENARIO_LIBRARY_KEY);
+    if (!Array.isArray(stored)) {
+      return [];
+    }
+
+    return stored.flatMap((entry) => {
+      const parsed = savedScenarioSchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  };
+
+  const write = (scenarios: SavedScenario[]): boolean => writeJson(storage, SCENARIO_LIBRARY_KEY, scenarios);
+
+  const list = (): SavedScenario[] =>
+    read().sort((left, right) => right.updatedAt.localeCompare(left.updatedAt) || left.name.localeCompare(right.name));
+
+  const get = (id: string): SavedScenario | null => read().find((scenario) => scenario.id === id) ?? null;
+
+  const update = (
+    id: string,
+    change: (scenario: SavedScenario, timestamp: string) => SavedScenario,
+  ): ScenarioLibraryResult<SavedScenario> => {
+    const scenarios = read();
+    const index = scenarios.findIndex((scenario) => scenario.id === id);
+    if (index === -1) {
+      return { success: false, error: "That scenario is no longer in the library." };
+    }
+
+    const updated = change(scenarios[index], now().toISOString());
+    scenarios[index] = updated;
+    return write(scenarios) ? { success: true, data: updated } : { success: false, error: STORAGE_FULL_ERROR };
+  };
+
+  // Saves over `id` when given and still present; otherwise files a new scenario.
+  const save = (
+    metadata: ScenarioMetadata,
+    state: ScenarioLinkState,
+    id?: string | null,
+  ): ScenarioLibraryResult<SavedScenario> => {
+    const cleaned = cleanMetadata(metadata);
+    if (!cleaned.success) {
+      return cleaned;
+    }
+
+    if (id && get(id)) {
+      return update(id, (scenario, timestamp) => ({ ...scenario, ...cleaned.data, state, updatedAt: timestamp }));
+    }
+
+    const timestamp = now().toISOString();
+    const created: SavedScenario = { id: createId(), ...cleaned.data, createdAt: timestamp, updatedAt: timestamp, state };
+    return write([...read(), created]) ? { success: true, data: created } : { success: false, error: STORAGE_FULL_ERROR };
+  };
+
+  const rename = (id: string, name: string): ScenarioLibraryResult<SavedScenario> => {
+    const existing = get(id);
+    if (!existing) {
+      return { success: false, error: "That scenario is no longer in the library." };
+    }
+
+    const cleaned = cleanMetadata({ ...existing, name });
+    return cleaned.success
+      ? update(id, (scenario, timestamp) => ({ ...scenario, name: cleaned.data.name, updatedAt: timestamp }))
+      : cleaned;
+  };
+
+  const duplicate = (id: string): ScenarioLibraryResult<SavedScenario> => {
+    const existing = get(id);
+    if (!existing) {
+      return { success: false, error: "That scenario is no longer in the library." };
+    }
+
+    const name = `${existing.name} (copy)`.slice(0, MAX_SCENARIO_TEXT_LENGTH);
+    return save({ name, client: existing.client, owner: existing.owner }, existing.state);
+  };
+
+  const remove = (id: string): ScenarioLibraryResult<string> => {
+    const scenarios = read();
+    if (!scenarios.some((scenario) => scenario.id === id)) {
+      return { success: false, error: "That scenario is no longer in the library." };
+    }
+
+    return write(scenarios.filter((scenario) => scenario.id !== id))
+      ? { success: true, data: id }
+      : { success: false, error: STORAGE_FULL_ERROR };
+  };
+
+  const readDraft = (): ScenarioDraft | null => {
+    const parsed = draftSchema.safeParse(readJson(storage, SCENARIO_DRAFT_KEY));
+    return parsed.success ? parsed.data : null;
+  };
+
+  // Best effort: a full store shouldn't interrupt editing, so a failed write is reported but not raised.
+  const writeDraft = (state: ScenarioLinkState, scenarioId: string | null): boolean =>
+    writeJson(storage, SCENARIO_DRAFT_KEY, { scenarioId, updatedAt: now().toISOString(), state } satisfies ScenarioDraft);
+
+  return { list, get, save, rename, duplicate, remove, readDraft, writeDraft };
+};
+
+export type ScenarioLibrary = ReturnType<typeof createScenarioLibrary>;
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_SCENARIO } from "@/lib/calculator/schema";
+import {
+  DEFAULT_PLANNER_SETTINGS,
+  SCENARIO_LINK_VERSION,
+  decodeScenarioLink,
+  encodeScenarioLink,
+} from "./scenario-link";
+
+const toLink = (payload: unknown, version = SCENARIO_LINK_VERSION) =>
+  `${version}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+
+describe("scenario links", () => {
+  it("round-trips scenario inputs and planner settings", () => {
+    const state = {
+      inputs: {
+        ...DEFAULT_SCENARIO,
+        market: { ...DEFAULT_SCENARIO.market, targetAccounts: 45, inMarketRate: 22.5 },
+        costs: { ...DEFAULT_SCENARIO.costs, totalOverride: 150_000 },
+      },
+      planner: { ...DEFAULT_PLANNER_SETTINGS, tier: "oneToMany" as const, preset: "stretch" as const },
+    };
+
+    const encoded = encodeScenarioLink(state);
+    const decoded = decodeScenarioLink(encoded);
+
+    expect(encoded.startsWith(`${SCENARIO_LINK_VERSION}.`)).toBe(true);
+    expect(encoded).toMatch(/^[0-9]+\.[A-Za-z0-9_-]+$/);
+    expect(decoded).toEqual({ success: true, data: state });
+  });
+
+  it("round-trips the account model and account list", () => {
+    const state = {
+      inputs: {
+        ...DEFAULT_SCENARIO,
+        accountModel: "perAccount" as const,
+        accountList: {
+          fileName: "targets.csv",
+          importedAt: "2026-10-19",
+          accounts: [
+            { name: "Acme, Inc.", tier: "oneToOne" as const, estimatedAcv: 150_000, inMarketProbability: 35 },
+            { name: "Globex", segment: "Enterprise", inMarket: false, treated: false },
+            { name: "Initech" },
+          ],
+        },
+      },
+      planner: DEFAULT_PLANNER_SETTINGS,
+    };
+
+    const encoded = encodeScenarioLink(state);
+
+    expect(decodeScenarioLink(encoded)).toEqual({ success: true, data: state });
+    expect(Buffer.from(encoded.split(".")[1], "base64url").toString()).toContain('["Initech"]');
+
+    const plain = decodeScenarioLink(encodeScenarioLink({ inputs: DEFAULT_SCENARIO, planner: DEFAULT_PLANNER_SETTINGS }));
+    expect(plain.success && plain.data.inputs).not.toHaveProperty("accountList");
+  });
+
+  it("round-trips budget line items", () => {
+    const state = {
+      inputs: {
+        ...DEFAULT_SCENARIO,
+        costs: {
+          ...DEFAULT_SCENARIO.costs,
+          lines: [
+            { label: "Intent data", category: "dataTech" as const, amount: 24_000, startMonth: 1, endMonth: 12 },
+            { label: "Launch event", category: "media" as const, amount: 12_500.5, startMonth: 2, endMonth: 2 },
+          ],
+        },
+      },
+      planner: DEFAULT_PLANNER_SETTINGS,
+    };
+
+    expect(decodeScenarioLink(encodeScenarioLink(state))).toEqual({ success: true, data: state });
+  });
+
+  it("round-trips market segments alongside the other list-valued fields", () => {
+    const segment = {
+      targetAccounts: 40,
+      inMarketRate: 20,
+      baselineWinRate: 18,
+      contributionMargin: 70,
+      salesCycleMonthsBaseline: 9,
+    };
+    const state = {
+      inputs: {
+        ...DEFAULT_SCENARIO,
+        segments: {
+          enabled: true,
+          segments: [
+            { ...segment, name: "Enterprise", baselineAcv: 180_000 },
+            { ...segment, name: "Mid-market", baselineAcv: 45_000, targetAccounts: 160 },
+          ],
+        },
+        costs: {
+          ...DEFAULT_SCENARIO.costs,
+          lines: [{ label: "Agency retainer", category: "agency" as const, amount: 6_000, startMonth: 1, endMonth: 6 }],
+        },
+        accountModel: "averages" as const,
+        accountList: {
+          fileName: "targets.csv",
+          importedAt: "2026-10-19",
+          accounts: [{ name: "Acme", segment: "Enterprise", estimatedAcv: 200_000 }],
+        },
+      },
+      planner: DEFAULT_PLANNER_SETTINGS,
+    };
+
+    expect(decodeScenarioLink(encodeScenarioLink(state))).toEqual({ success: true, data: state });
+  });
+
+  it("fills fields missing from older links with defaults", () => {
+    const [inputValues, plannerValues] = JSON.parse(
+      Buffer.from(
+        encodeScenarioLink({ inputs: DEFAULT_SCENARIO, planner: DEFAULT_PLANNER_SETTINGS }).split(".")[1],
+        "base64url",
+      ).toString(),
+    );
+
+    const decoded = decodeScenarioLink(toLink([inputValues.slice(0, -5), plannerValues.slice(0, 3)]));
+
+    expect(decoded.success).toBe(true);
+    if (decoded.success) {
+      expect(decoded.data.inputs.lifetime).toEqual(DEFAULT_SCENARIO.lifetime);
+      expect(decoded.data.planner).toEqual(DEFAULT_PLANNER_SETTINGS);
+    }
+  });
+
+  it("rejects links from newer versions", () => {
+    const decoded = decodeScenarioLink(toLink([[], []], SCENARIO_LINK_VERSION + 1));
+
+    expect(decoded).toEqual({
+      success: false,
+      error: "This link was created by a newer version of the calculator.",
+    });
+  });
+
+  it("rejects tampered or out-of-range links", () => {
+    expect(decodeScenarioLink("not-a-link").success).toBe(false);
+    expect(decodeScenarioLink(`${SCENARIO_LINK_VERSION}.%%%`).success).toBe(false);
+    expect(decodeScenarioLink(toLink({ inputs: [] })).success).toBe(false);
+
+    const outOfRange = decodeScenarioLink(toLink([[12, 3, "GBP", "en-GB", 99_999], []]));
+    expect(outOfRange.success).toBe(false);
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  DEFAULT_SCENARIO,
+  plannerSettingsSchema,
+  scenarioSchema,
+} from "@/lib/calculator/schema";
+import type {
+  CostLineItem,
+  MarketSegment,
+  PlannerSettings,
+  ScenarioInputs,
+  TargetAccount,
+} from "@/lib/calculator/types";
+
+export const SCENARIO_LINK_PARAM = "s";
+export const SCENARIO_LINK_VERSION = 1;
+// Servers and chat apps commonly cut URLs past ~8 KB; larger scenarios travel as a scenario file instead.
+export const MAX_SCENARIO_LINK_LENGTH = 8_000;
+
+// Field order is part of the link format: append new fields, never reorder or remove.
+const INPUT_FIELDS = [
+  "programme.durationMonths",
+  "programme.rampMonths",
+  "programme.currency",
+  "programme.numberFormatLocale",
+  "market.targetAccounts",
+  "market.inMarketRate",
+  "market.qualifiedOppsPerAccount",
+  "market.baselineWinRate",
+  "market.baselineAcv",
+  "market.contributionMargin",
+  "market.salesCycleMonthsBaseline",
+  "market.salesCycleMonthsAbm",
+  "uplifts.winRateUplift",
+  "uplifts.acvUplift",
+  "uplifts.opportunityRateUplift",
+  "costs.people",
+  "costs.media",
+  "costs.dataTech",
+  "costs.content",
+  "costs.agency",
+  "costs.other",
+  "costs.totalOverride",
+  "capacity.source",
+  "capacity.marketingFte",
+  "capacity.salesFte",
+  "capacity.marketingUtilisation",
+  "capacity.salesUtilisation",
+  "capacity.hoursPerAccount",
+  "alignment.level",
+  "sensitivity.inMarketRange",
+  "sensitivity.winRateUpliftRange",
+  "sensitivity.resolution",
+  "lifetime.enabled",
+  "lifetime.years",
+  "lifetime.grossRetention",
+  "lifetime.netExpansion",
+  "lifetime.discountRate",
+  "sensitivity.rowAxis",
+  "sensitivity.columnAxis",
+  "sensitivity.metric",
+  "portfolio.enabled",
+  "portfolio.tiers.oneToOne.targetAccounts",
+  "portfolio.tiers.oneToOne.hoursPerAccount",
+  "portfolio.tiers.oneToOne.budgetPerAccount",
+  "portfolio.tiers.oneToOne.uplifts.winRateUplift",
+  "portfolio.tiers.oneToOne.uplifts.acvUplift",
+  "portfolio.tiers.oneToOne.uplifts.opportunityRateUplift",
+  "portfolio.tiers.oneToOne.cycleReduction",
+  "portfolio.tiers.oneToFew.targetAccounts",
+  "portfolio.tiers.oneToFew.hoursPerAccount",
+  "portfolio.tiers.oneToFew.budgetPerAccount",
+  "portfolio.tiers.oneToFew.uplifts.winRateUplift",
+  "portfolio.tiers.oneToFew.uplifts.acvUplift",
+  "portfolio.tiers.oneToFew.uplifts.opportunityRateUplift",
+  "portfolio.tiers.oneToFew.cycleReduction",
+  "portfolio.tiers.oneToMany.targetAccounts",
+  "portfolio.tiers.oneToMany.hoursPerAccount",
+  "portfolio.tiers.oneToMany.budgetPerAccount",
+  "portfolio.tiers.oneToMany.uplifts.winRateUplift",
+  "portfolio.tiers.oneToMany.uplifts.acvUplift",
+  "portfolio.tiers.oneToMany.uplifts.opportunityRateUplift",
+  "portfolio.tiers.oneToMany.cycleReduction",
+  "fx.base",
+  "fx.asOf",
+  "fx.rates.GBP",
+  "fx.rates.USD",
+  "fx.rates.EUR",
+  "fx.rates.CAD",
+  "fx.rates.AUD",
+  "fx.rates.NZD",
+  "fx.rates.CHF",
+  "fx.rates.SEK",
+  "fx.rates.NOK",
+  "fx.rates.DKK",
+  "fx.rates.PLN",
+  "fx.rates.SGD",
+  "fx.rates.HKD",
+  "fx.rates.ZAR",
+  "fx.rates.BRL",
+  "fx.rates.MXN",
+  "fx.rates.AED",
+  "benchmarks.id",
+  "benchmarks.version",
+  "accountModel",
+  "accountList.fileName",
+  "accountList.importedAt",
+  "accountList.accounts",
+  "costs.lines",
+  "segments.enabled",
+  "segments.segments",
+] as const;
+
+type InputField = (typeof INPUT_FIELDS)[number];
+
+// List items travel as rows of values in this order, with trailing blanks dropped; append, never reorder.
+const ACCOUNT_FIELDS = [
+  "name",
+  "tier",
+  "segment",
+  "estimatedAcv",
+  "inMarket",
+  "inMarketProbability",
+  "expectedOpps",
+  "treated",
+] as const satisfies ReadonlyArray<keyof TargetAccount>;
+
+const COST_LINE_FIELDS = [
+  "label",
+  "category",
+  "amount",
+  "startMonth",
+  "endMonth",
+] as const satisfies ReadonlyArray<keyof CostLineItem>;
+
+const SEGMENT_FIELDS = [
+  "name",
+  "targetAccounts",
+  "inMarketRate",
+  "baselineWinRate",
+  "baselineAcv",
+  "contributionMargin",
+  "salesCycleMonthsBaseline",
+] as const satisfies ReadonlyArray<keyof MarketSegment>;
+
+const LIST_FIELDS: Partial<Record<InputField, readonly string[]>> = {
+  "accountList.accounts": ACCOUNT_FIELDS,
+  "costs.lines": COST_LINE_FIELDS,
+  "segments.segments": SEGMENT_FIELDS,
+};
+
+const PLANNER_FIELDS = [
+  "tier",
+  "preset",
+  "cyclePreset",
+  "buyingWindowMonths",
+  "inMarketAuto",
+  "cycleOverride",
+  "flatBudget",
+] as const satisfies ReadonlyArray<keyof PlannerSettings>;
+
+export const DEFAULT_PLANNER_SETTINGS: PlannerSettings = {
+  tier: "oneToFew",
+  preset: "expected",
+  cyclePreset: "typical",
+  buyingWindowMonths: 3,
+  inMarketAuto: true,
+  cycleOverride: false,
+  flatBudget: 0,
+};
+
+export interface ScenarioLinkState {
+  inputs: ScenarioInputs;
+  planner: PlannerSettings;
+}
+
+export type ScenarioLinkDecodeResult =
+  | { success: true; data: ScenarioLinkState }
+  | { success: false; error: string };
+
+type LinkRow = Array<string | number | boolean | null>;
+type LinkValue = string | number | boolean | number[] | LinkRow[] | null;
+type LinkPayload = [LinkValue[], LinkValue[]];
+
+const readPath = (source: unknown, path: string): unknown =>
+  path.split(".").reduce<unknown>(
+    (node, key) => (node !== null && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined),
+    source,
+  );
+
+const writePath = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split(".");
+  const last = keys.pop() as string;
+  let node = target;
+
+  keys.forEach((key) => {
+    if (node[key] === null || typeof node[key] !== "object") {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  });
+
+  node[last] = value;
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const padded = encoded.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(encoded.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+
+  return new TextDecoder().decode(bytes);
+};
+
+const toRows = (items: unknown, fields: readonly string[]): LinkRow[] | null =>
+  Array.isArray(items)
+    ? items.map((item) => {
+        const row = fields.map((field) => (readPath(item, field) ?? null) as LinkRow[number]);
+        while (row.length > 0 && row[row.length - 1] === null) {
+          row.pop();
+        }
+        return row;
+      })
+    : null;
+
+// Anything that isn't a row is passed through so the schema check rejects it.
+const fromRows = (rows: unknown, fields: readonly string[]): unknown =>
+  Array.isArray(rows)
+    ? rows.map((row) =>
+        Array.isArray(row)
+          ? Object.fromEntries(fields.flatMap((field, index) => (row[index] == null ? [] : [[field, row[index]]])))
+          : row,
+      )
+    : rows;
+
+export const encodeScenarioLink = ({ inputs, planner }: ScenarioLinkState): string => {
+  const payload: LinkPayload = [
+    INPUT_FIELDS.map((path) => {
+      const value = readPath(inputs, path);
+      const fields = LIST_FIELDS[path];
+      return fields ? toRows(value, fields) : ((value ?? null) as LinkValue);
+    }),
+    PLANNER_FIELDS.map((key) => planner[key]),
+  ];
+
+  return `${SCENARIO_LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+const parsePayload = (body: string): LinkPayload | null => {
+  try {
+    const parsed: unknown = JSON.parse(fromBase64Url(body));
+    if (!Array.isArray(parsed) || !Array.isArray(parsed[0]) || !Array.isArray(parsed[1])) {
+      return null;
+    }
+
+    return parsed as LinkPayload;
+  } catch {
+    return null;
+  }
+};
+
+export const decodeScenarioLink = (value: string): ScenarioLinkDecodeResult => {
+  const separator = value.indexOf(".");
+  const version = Number(value.slice(0, separator));
+
+  if (separator <= 0 || !Number.isInteger(version)) {
+    return { success: false, error: "This link is not a valid scenario link." };
+  }
+
+  if (version > SCENARIO_LINK_VERSION) {
+    return { success: false, error: "This link was created by a newer version of the calculator." };
+  }
+
+  const payload = parsePayload(value.slice(separator + 1));
+  if (!payload) {
+    return { success: false, error: "This link is incomplete or has been modified." };
+  }
+
+  const [inputValues, plannerValues] = payload;
+  // Links created before a field existed carry fewer values; fill the gaps from defaults. Optional sections
+  // with no default (an account list, say) stay absent rather than half-built.
+  const inputs: Record<string, unknown> = {};
+  INPUT_FIELDS.forEach((path, index) => {
+    const encoded = inputValues[index];
+    const fields = LIST_FIELDS[path];
+    const value =
+      encoded === undefined || encoded === null
+        ? readPath(DEFAULT_SCENARIO, path)
+        : fields
+          ? fromRows(encoded, fields)
+          : encoded;
+    if (value !== undefined) {
+      writePath(inputs, path, value);
+    }
+  });
+
+  const planner: Record<string, unknown> = {};
+  PLANNER_FIELDS.forEach((key, index) => {
+    planner[key] = plannerValues[index] ?? DEFAULT_PLANNER_SETTINGS[key];
+  });
+
+  const parsedInputs = scenarioSchema.safeParse(inputs);
+  const parsedPlanner = plannerSettingsSchema.safeParse(planner);
+
+  if (!parsedInputs.success || !parsedPlanner.success) {
+    return { success: false, error: "This link contains values the calculator can’t accept." };
+  }
+
+  return {
+    success: true,
+    data: {
+      inputs: parsedInputs.data,
+      planner: parsedPlanner.data,
+    },
+  };
+};
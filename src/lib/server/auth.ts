@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+import { hashPassword, verifyPassword } from "./crypto";
+import type { ScenarioStore, StoreResult, StoredUser } from "./scenario-store";
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+const passwordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, { message: `Use at least ${MIN_PASSWORD_LENGTH} characters.` })
+  .max(200);
+
+export const credentialsSchema = z.object({
+  email: z.email({ message: "Enter a valid email address." }).max(254),
+  password: passwordSchema,
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().max(200),
+  password: passwordSchema,
+});
+
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
+
+// Checked against a throwaway hash when the email is unknown, so a miss takes as long as a wrong password.
+let decoyHash: Promise<string> | null = null;
+
+export const signIn = async (store: ScenarioStore, { email, password }: Credentials): Promise<StoredUser | null> => {
+  const user = await store.findUser(email);
+  decoyHash ??= hashPassword("decoy-password-for-timing");
+  const matches = await verifyPassword(password, user?.passwordHash ?? (await decoyHash));
+  return user && matches ? user : null;
+};
+
+export const register = async (store: ScenarioStore, { email, password }: Credentials) =>
+  store.createUser(email, await hashPassword(password));
+
+// A new password also revokes the user's other sessions; the caller re-issues its own cookie.
+export const changePassword = async (
+  store: ScenarioStore,
+  user: StoredUser,
+  { currentPassword, password }: PasswordChange,
+): Promise<StoreResult<StoredUser>> =>
+  (await verifyPassword(currentPassword, user.passwordHash))
+    ? store.updatePassword(user.id, await hashPassword(password))
+    : { success: false, error: "Your current password doesn't match.", status: 403 };
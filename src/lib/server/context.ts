@@ -0,0 +1,49 @@
+import path from "node:path";
+
+import { createPayloadCipher, parseEncryptionKey } from "./crypto";
+import { createScenarioStore, type ScenarioStore } from "./scenario-store";
+
+export const SESSION_COOKIE = "abm_session";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_SESSION_SECRET_LENGTH = 32;
+
+export interface ServerContext {
+  store: ScenarioStore;
+  sessionSecret: string;
+  signupsOpen: boolean;
+}
+
+export type ServerContextResult = { success: true; data: ServerContext } | { success: false; error: string };
+
+let cached: { signature: string; context: ServerContext } | null = null;
+
+/**
+ * Builds the store from the environment. Saving stays off until both secrets are set, so a deployment can't
+ * quietly write unencrypted or unsigned data; the store is reused across requests while the settings hold.
+ */
+export const resolveServerContext = (env: NodeJS.ProcessEnv = process.env): ServerContextResult => {
+  const key = parseEncryptionKey(env.SCENARIO_ENCRYPTION_KEY);
+  const sessionSecret = env.SCENARIO_SESSION_SECRET ?? "";
+
+  if (!key || sessionSecret.length < MIN_SESSION_SECRET_LENGTH) {
+    return {
+      success: false,
+      error:
+        "Scenario saving isn't configured on this server. Set SCENARIO_ENCRYPTION_KEY (32 bytes, base64) and " +
+        `SCENARIO_SESSION_SECRET (${MIN_SESSION_SECRET_LENGTH}+ characters).`,
+    };
+  }
+
+  const filePath = path.join(env.SCENARIO_DATA_DIR || path.join(process.cwd(), ".data"), "scenarios.json");
+  const signupsOpen = env.SCENARIO_SIGNUPS !== "closed";
+  const signature = [filePath, key.toString("base64"), sessionSecret, signupsOpen].join("|");
+
+  if (cached?.signature !== signature) {
+    cached = {
+      signature,
+      context: { store: createScenarioStore(filePath, createPayloadCipher(key)), sessionSecret, signupsOpen },
+    };
+  }
+
+  return { success: true, data: cached.context };
+};
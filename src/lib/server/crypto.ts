@@ -0,0 +1,105 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+const CIPHER = "aes-256-gcm";
+const PAYLOAD_VERSION = "v1";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const SALT_BYTES = 16;
+const PASSWORD_KEY_BYTES = 64;
+
+const toBase64Url = (buffer: Buffer) => buffer.toString("base64url");
+const fromBase64Url = (value: string) => Buffer.from(value, "base64url");
+
+const safeEqual = (left: Buffer, right: Buffer) => left.length === right.length && timingSafeEqual(left, right);
+
+export interface PayloadCipher {
+  encrypt: (plaintext: string) => string;
+  decrypt: (sealed: string) => string | null;
+}
+
+// Keys are 32 random bytes, base64-encoded, e.g. `openssl rand -base64 32`.
+export const parseEncryptionKey = (encoded: string | undefined): Buffer | null => {
+  if (!encoded) {
+    return null;
+  }
+
+  const key = Buffer.from(encoded, "base64");
+  return key.length === KEY_BYTES ? key : null;
+};
+
+/**
+ * AES-256-GCM with a fresh IV per payload. Sealed values carry a version prefix so a later key rotation can
+ * tell old payloads from new; a tampered or foreign payload fails authentication and decrypts to null.
+ */
+export const createPayloadCipher = (key: Buffer): PayloadCipher => ({
+  encrypt: (plaintext) => {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return [PAYLOAD_VERSION, toBase64Url(iv), toBase64Url(cipher.getAuthTag()), toBase64Url(ciphertext)].join(".");
+  },
+  decrypt: (sealed) => {
+    const [version, iv, tag, ciphertext] = sealed.split(".");
+    if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+      return null;
+    }
+
+    try {
+      const decipher = createDecipheriv(CIPHER, key, fromBase64Url(iv));
+      decipher.setAuthTag(fromBase64Url(tag));
+      return Buffer.concat([decipher.update(fromBase64Url(ciphertext)), decipher.final()]).toString("utf8");
+    } catch {
+      return null;
+    }
+  },
+});
+
+const deriveKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password.normalize("NFKC"), salt, PASSWORD_KEY_BYTES, (error, key) => (error ? reject(error) : resolve(key))),
+  );
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES);
+  return ["scrypt", toBase64Url(salt), toBase64Url(await deriveKey(password, salt))].join("$");
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  return safeEqual(await deriveKey(password, fromBase64Url(salt)), fromBase64Url(hash));
+};
+
+const sign = (value: string, secret: string) => toBase64Url(createHmac("sha256", secret).update(value).digest());
+
+export interface SessionClaims {
+  userId: string;
+  sessionVersion: number;
+}
+
+/**
+ * Signed session: `<userId>.<session version>.<expiry ms>.<HMAC>`. The version must still match the user's
+ * record, so signing out or changing the password revokes every token issued before it.
+ */
+export const signSessionToken = (
+  { userId, sessionVersion }: SessionClaims,
+  expiresAt: number,
+  secret: string,
+): string => {
+  const body = `${userId}.${sessionVersion}.${expiresAt}`;
+  return `${body}.${sign(body, secret)}`;
+};
+
+export const verifySessionToken = (token: string, secret: string, now = Date.now()): SessionClaims | null => {
+  const [userId, sessionVersion, expiresAt, signature] = token.split(".");
+  if (!userId || !sessionVersion || !expiresAt || !signature) {
+    return null;
+  }
+
+  const body = `${userId}.${sessionVersion}.${expiresAt}`;
+  const valid = safeEqual(fromBase64Url(signature), fromBase64Url(sign(body, secret)));
+  return valid && Number(expiresAt) > now ? { userId, sessionVersion: Number(sessionVersion) } : null;
+};
@@ -0,0 +1,82 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { z } from "zod";
+
+import { SESSION_COOKIE, SESSION_TTL_MS, resolveServerContext, type ServerContext } from "./context";
+import { signSessionToken, verifySessionToken } from "./crypto";
+import type { StoredUser } from "./scenario-store";
+
+export const jsonError = (status: number, error: string, issues?: Array<{ path: string; message: string }>) =>
+  NextResponse.json(issues ? { error, issues } : { error }, { status });
+
+// Writes must be JSON, which also keeps plain cross-site form posts out.
+export const readJsonBody = async <Schema extends z.ZodType>(
+  request: NextRequest,
+  schema: Schema,
+): Promise<{ success: true; data: z.infer<Schema> } | { success: false; response: NextResponse }> => {
+  if (!request.headers.get("content-type")?.toLowerCase().startsWith("application/json")) {
+    return { success: false, response: jsonError(415, "Send the request body as application/json.") };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { success: false, response: jsonError(400, "The request body isn't valid JSON.") };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      success: false,
+      response: jsonError(
+        422,
+        "Some values can't be accepted.",
+        parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      ),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+};
+
+export const setSessionCookie = (response: NextResponse, user: StoredUser, context: ServerContext) => {
+  const token = signSessionToken(
+    { userId: user.id, sessionVersion: user.sessionVersion ?? 0 },
+    Date.now() + SESSION_TTL_MS,
+    context.sessionSecret,
+  );
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+  return response;
+};
+
+export const clearSessionCookie = (response: NextResponse) => {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+  return response;
+};
+
+export const withContext = async (
+  handler: (context: ServerContext) => Promise<NextResponse>,
+): Promise<NextResponse> => {
+  const context = resolveServerContext();
+  return context.success ? handler(context.data) : jsonError(503, context.error);
+};
+
+// Resolves the signed-in user, answering 401 when the cookie is missing, expired, tampered, revoked or orphaned.
+export const withUser = (
+  request: NextRequest,
+  handler: (user: StoredUser, context: ServerContext) => Promise<NextResponse>,
+): Promise<NextResponse> =>
+  withContext(async (context) => {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    const claims = token ? verifySessionToken(token, context.sessionSecret) : null;
+    const user = claims ? await context.store.getUser(claims.userId) : null;
+    return user && (user.sessionVersion ?? 0) === claims?.sessionVersion
+      ? handler(user, context)
+      : clearSessionCookie(jsonError(401, "Sign in to use saved scenarios."));
+  });
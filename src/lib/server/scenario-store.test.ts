@@ -0,0 +1,195 @@
+import { randomBytes } from "node:crypto";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_SCENARIO } from "@/lib/calculator/schema";
+import { DEFAULT_PLANNER_SETTINGS } from "@/lib/scenario-link";
+import { PUT as changePassword } from "@/app/api/auth/password/route";
+import { POST as signUp } from "@/app/api/auth/register/route";
+import { DELETE as signOut, GET as getSession, POST as signInRoute } from "@/app/api/auth/session/route";
+import { POST as createScenario } from "@/app/api/scenarios/route";
+import { DELETE as deleteScenario, GET as getScenario } from "@/app/api/scenarios/[id]/route";
+import {
+  createPayloadCipher,
+  hashPassword,
+  signSessionToken,
+  verifyPassword,
+  verifySessionToken,
+} from "./crypto";
+import { createScenarioStore } from "./scenario-store";
+
+const KEY = randomBytes(32);
+const WRITE = {
+  name: "Q3 plan",
+  client: "Acme Industrial",
+  state: { inputs: DEFAULT_SCENARIO, planner: DEFAULT_PLANNER_SETTINGS },
+};
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "abm-store-"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("server crypto", () => {
+  it("seals payloads, rejects tampering and checks passwords and session tokens", async () => {
+    const cipher = createPayloadCipher(KEY);
+    const sealed = cipher.encrypt("Acme Industrial");
+    const [version, iv, tag, body] = sealed.split(".");
+
+    expect(cipher.decrypt(sealed)).toBe("Acme Industrial");
+    expect(cipher.encrypt("Acme Industrial")).not.toBe(sealed);
+    expect(cipher.decrypt([version, iv, tag, `A${body.slice(1)}`].join("."))).toBeNull();
+    expect(createPayloadCipher(randomBytes(32)).decrypt(sealed)).toBeNull();
+
+    const hash = await hashPassword("correct horse battery");
+    expect(await verifyPassword("correct horse battery", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse battery", hash)).toBe(false);
+
+    const token = signSessionToken({ userId: "user-1", sessionVersion: 2 }, 2_000, "s".repeat(32));
+    expect(verifySessionToken(token, "s".repeat(32), 1_000)).toEqual({ userId: "user-1", sessionVersion: 2 });
+    expect(verifySessionToken(token, "s".repeat(32), 3_000)).toBeNull();
+    expect(verifySessionToken(token.replace("user-1", "user-2"), "s".repeat(32), 1_000)).toBeNull();
+    expect(verifySessionToken(token.replace("user-1.2.", "user-1.3."), "s".repeat(32), 1_000)).toBeNull();
+  });
+});
+
+describe("scenario store", () => {
+  it("encrypts payloads at rest and scopes scenarios to their owner", async () => {
+    const filePath = path.join(directory, "scenarios.json");
+    const store = createScenarioStore(filePath, createPayloadCipher(KEY));
+    const owner = await store.createUser("Sam@Example.com", "hash");
+    const other = await store.createUser("ana@example.com", "hash");
+    if (!owner.success || !other.success) throw new Error("Could not create users.");
+
+    const created = await store.create(owner.data, WRITE);
+    if (!created.success) throw new Error(created.error);
+
+    const onDisk = await readFile(filePath, "utf8");
+    expect(onDisk).not.toContain("Acme Industrial");
+    expect(onDisk).not.toContain("Q3 plan");
+    expect(created.data).toMatchObject({ name: "Q3 plan", owner: "sam@example.com", deletedAt: null });
+    expect((await store.get(owner.data, created.data.id)).success).toBe(true);
+    expect(await store.get(other.data, created.data.id)).toMatchObject({ success: false, status: 404 });
+    expect((await store.update(other.data, created.data.id, WRITE)).success).toBe(false);
+    expect(await store.list(other.data)).toEqual([]);
+    expect(await store.createUser("sam@example.com", "hash")).toMatchObject({ success: false, status: 409 });
+  });
+
+  it("soft-deletes, restores and purges on request", async () => {
+    const store = createScenarioStore(path.join(directory, "scenarios.json"), createPayloadCipher(KEY));
+    const user = await store.createUser("sam@example.com", "hash");
+    if (!user.success) throw new Error(user.error);
+    const created = await store.create(user.data, WRITE);
+    if (!created.success) throw new Error(created.error);
+    const { id } = created.data;
+
+    await store.remove(user.data, id);
+    expect(await store.list(user.data)).toEqual([]);
+    expect((await store.list(user.data, { includeDeleted: true }))[0].deletedAt).not.toBeNull();
+    expect((await store.get(user.data, id)).success).toBe(false);
+
+    expect((await store.restore(user.data, id)).success).toBe(true);
+    expect(await store.list(user.data)).toHaveLength(1);
+
+    await store.remove(user.data, id, { purge: true });
+    expect(await store.list(user.data, { includeDeleted: true })).toEqual([]);
+    expect((await store.restore(user.data, id)).success).toBe(false);
+  });
+
+  it("refuses a store file from another version instead of starting over", async () => {
+    const filePath = path.join(directory, "scenarios.json");
+    const future = JSON.stringify({ version: 2, users: [], scenarios: [], keep: "me" });
+    await writeFile(filePath, future);
+    const store = createScenarioStore(filePath, createPayloadCipher(KEY));
+
+    await expect(store.findUser("sam@example.com")).rejects.toThrow(/store version 2/);
+    await expect(store.createUser("sam@example.com", "hash")).rejects.toThrow(/store version 2/);
+    expect(await readFile(filePath, "utf8")).toBe(future);
+  });
+});
+
+describe("scenario API", () => {
+  const request = (url: string, init: { method?: string; body?: unknown; cookie?: string } = {}) =>
+    new NextRequest(new URL(url, "http://localhost"), {
+      method: init.method ?? "GET",
+      headers: {
+        "content-type": "application/json",
+        ...(init.cookie ? { cookie: init.cookie } : {}),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+  const sessionOf = (response: Response) => response.headers.get("set-cookie")?.split(";")[0] ?? "";
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  it("requires configuration and a session, validates writes and hides other users' scenarios", async () => {
+    const signUpBody = { email: "sam@example.com", password: "correct horse battery" };
+    expect((await signUp(request("/api/auth/register", { method: "POST", body: signUpBody }))).status).toBe(503);
+
+    vi.stubEnv("SCENARIO_DATA_DIR", directory);
+    vi.stubEnv("SCENARIO_ENCRYPTION_KEY", KEY.toString("base64"));
+    vi.stubEnv("SCENARIO_SESSION_SECRET", "s".repeat(32));
+
+    expect((await createScenario(request("/api/scenarios", { method: "POST", body: WRITE }))).status).toBe(401);
+
+    const sam = sessionOf(await signUp(request("/api/auth/register", { method: "POST", body: signUpBody })));
+    const ana = sessionOf(
+      await signUp(request("/api/auth/register", { method: "POST", body: { ...signUpBody, email: "ana@example.com" } })),
+    );
+
+    const impossible = { ...DEFAULT_SCENARIO, market: { ...DEFAULT_SCENARIO.market, baselineWinRate: 140 } };
+    const invalid = await createScenario(
+      request("/api/scenarios", { method: "POST", cookie: sam, body: { ...WRITE, state: { ...WRITE.state, inputs: impossible } } }),
+    );
+    expect(invalid.status).toBe(422);
+
+    const created = await createScenario(request("/api/scenarios", { method: "POST", cookie: sam, body: WRITE }));
+    const { scenario } = (await created.json()) as { scenario: { id: string } };
+    expect(created.status).toBe(201);
+
+    const read = (cookie: string) => getScenario(request(`/api/scenarios/${scenario.id}`, { cookie }), params(scenario.id));
+    expect((await read(ana)).status).toBe(404);
+    expect((await read(sam)).status).toBe(200);
+
+    const purge = request(`/api/scenarios/${scenario.id}?purge=true`, { method: "DELETE", cookie: sam });
+    expect((await deleteScenario(purge, params(scenario.id))).status).toBe(204);
+    expect((await read(sam)).status).toBe(404);
+  });
+
+  it("revokes earlier sessions on sign-out and on a password change", async () => {
+    vi.stubEnv("SCENARIO_DATA_DIR", directory);
+    vi.stubEnv("SCENARIO_ENCRYPTION_KEY", KEY.toString("base64"));
+    vi.stubEnv("SCENARIO_SESSION_SECRET", "s".repeat(32));
+
+    const credentials = { email: "sam@example.com", password: "correct horse battery" };
+    const laptop = sessionOf(await signUp(request("/api/auth/register", { method: "POST", body: credentials })));
+    const signInAgain = async (password = credentials.password) =>
+      sessionOf(await signInRoute(request("/api/auth/session", { method: "POST", body: { ...credentials, password } })));
+    const whoAmI = async (cookie: string) => (await getSession(request("/api/auth/session", { cookie }))).status;
+
+    const phone = await signInAgain();
+    expect(await whoAmI(laptop)).toBe(200);
+    expect((await signOut(request("/api/auth/session", { method: "DELETE", cookie: phone }))).status).toBe(204);
+    expect(await whoAmI(laptop)).toBe(401);
+    expect(await whoAmI(phone)).toBe(401);
+
+    const tablet = await signInAgain();
+    const other = await signInAgain();
+    const change = (body: unknown) => changePassword(request("/api/auth/password", { method: "PUT", cookie: tablet, body }));
+    expect((await change({ currentPassword: "wrong horse battery", password: "staple battery horse" })).status).toBe(403);
+    const changed = await change({ currentPassword: credentials.password, password: "staple battery horse" });
+    expect(changed.status).toBe(200);
+    expect(await whoAmI(other)).toBe(401);
+    expect(await whoAmI(sessionOf(changed))).toBe(200);
+    expect(await whoAmI(await signInAgain("staple battery horse"))).toBe(200);
+  });
+});
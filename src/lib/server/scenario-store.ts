@@ -0,0 +1,274 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import { z } from "zod";
+
+import { plannerSettingsSchema, scenarioSchema } from "@/lib/calculator/schema";
+import { MAX_SCENARIO_TEXT_LENGTH } from "@/lib/scenario-library";
+import type { ScenarioLinkState } from "@/lib/scenario-link";
+
+import type { PayloadCipher } from "./crypto";
+
+const STORE_VERSION = 1;
+
+export const scenarioWriteSchema = z.object({
+  name: z.string().trim().min(1, { message: "Give the scenario a name." }).max(MAX_SCENARIO_TEXT_LENGTH),
+  client: z.string().trim().max(MAX_SCENARIO_TEXT_LENGTH).default(""),
+  state: z.object({
+    inputs: scenarioSchema,
+    planner: plannerSettingsSchema,
+  }),
+});
+
+export type ScenarioWrite = z.infer<typeof scenarioWriteSchema>;
+
+export interface StoredUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  createdAt: string;
+  // Bumped to revoke every session issued so far; users saved before it existed read as 0.
+  sessionVersion?: number;
+}
+
+// Only ids, ownership and timestamps are kept in the clear; name, client and inputs live in the sealed payload.
+interface StoredScenario {
+  id: string;
+  ownerId: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+  payload: string;
+}
+
+interface StoreFile {
+  version: number;
+  users: StoredUser[];
+  scenarios: StoredScenario[];
+}
+
+export interface ServerScenario {
+  id: string;
+  name: string;
+  client: string;
+  owner: string;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+  state: ScenarioLinkState;
+}
+
+export type StoreResult<T> = { success: true; data: T } | { success: false; error: string; status: number };
+
+const NOT_FOUND: StoreResult<never> = { success: false, error: "Scenario not found.", status: 404 };
+const USER_NOT_FOUND: StoreResult<never> = { success: false, error: "Account not found.", status: 404 };
+
+const EMPTY_STORE: StoreFile = { version: STORE_VERSION, users: [], scenarios: [] };
+
+/**
+ * An embedded single-file store: the whole file is read per request and replaced atomically (write, then
+ * rename) on change, with writes queued so concurrent requests in one server process can't interleave.
+ * Sized for a team's saved scenarios, not a multi-instance deployment.
+ */
+export const createScenarioStore = (
+  filePath: string,
+  cipher: PayloadCipher,
+  { now = () => new Date(), createId = randomUUID }: { now?: () => Date; createId?: () => string } = {},
+) => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<StoreFile> => {
+    try {
+      const parsed = JSON.parse(await readFile(filePath, "utf8")) as StoreFile;
+      if (parsed.version !== STORE_VERSION) {
+        // Refuse rather than start empty, which the next write would persist over every saved scenario.
+        throw new Error(`${filePath} is store version ${parsed.version}; this server reads version ${STORE_VERSION}.`);
+      }
+      return parsed;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return EMPTY_STORE;
+      }
+      throw error;
+    }
+  };
+
+  const persist = async (data: StoreFile) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(data), { encoding: "utf8", mode: 0o600 });
+    await rename(temporary, filePath);
+  };
+
+  const transact = <T>(change: (data: StoreFile) => { data: StoreFile | null; result: T }): Promise<T> => {
+    const run = queue.then(async () => {
+      const { data, result } = change(await load());
+      if (data) {
+        await persist(data);
+      }
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const toScenario = (
+    { id, createdAt, updatedAt, deletedAt }: StoredScenario,
+    write: ScenarioWrite,
+    owner: StoredUser,
+  ): ServerScenario => ({
+    id,
+    ...write,
+    owner: owner.email,
+    createdAt,
+    updatedAt,
+    deletedAt,
+  });
+
+  // Payloads that fail to decrypt (wrong key) or no longer validate are left out rather than failing the list.
+  const open = (record: StoredScenario, owner: StoredUser): ServerScenario | null => {
+    const plaintext = cipher.decrypt(record.payload);
+    const parsed = plaintext === null ? null : scenarioWriteSchema.safeParse(JSON.parse(plaintext));
+    return parsed?.success ? toScenario(record, parsed.data, owner) : null;
+  };
+
+  const findOwned = (data: StoreFile, userId: string, id: string) =>
+    data.scenarios.findIndex((scenario) => scenario.id === id && scenario.ownerId === userId);
+
+  const findUser = async (email: string): Promise<StoredUser | null> => {
+    const key = email.trim().toLowerCase();
+    return (await load()).users.find((user) => user.email === key) ?? null;
+  };
+
+  const getUser = async (id: string): Promise<StoredUser | null> =>
+    (await load()).users.find((user) => user.id === id) ?? null;
+
+  const createUser = (email: string, passwordHash: string): Promise<StoreResult<StoredUser>> =>
+    transact<StoreResult<StoredUser>>((data) => {
+      const key = email.trim().toLowerCase();
+      if (data.users.some((user) => user.email === key)) {
+        return { data: null, result: { success: false, error: "That email already has an account.", status: 409 } };
+      }
+
+      const user: StoredUser = {
+        id: createId(),
+        email: key,
+        passwordHash,
+        createdAt: now().toISOString(),
+        sessionVersion: 0,
+      };
+      return { data: { ...data, users: [...data.users, user] }, result: { success: true, data: user } };
+    });
+
+  const changeUser = (id: string, change: (user: StoredUser) => StoredUser): Promise<StoreResult<StoredUser>> =>
+    transact<StoreResult<StoredUser>>((data) => {
+      const existing = data.users.find((user) => user.id === id);
+      if (!existing) {
+        return { data: null, result: USER_NOT_FOUND };
+      }
+
+      const updated = change(existing);
+      const users = data.users.map((user) => (user === existing ? updated : user));
+      return { data: { ...data, users }, result: { success: true, data: updated } };
+    });
+
+  const nextSessionVersion = (user: StoredUser) => (user.sessionVersion ?? 0) + 1;
+
+  // Signing out everywhere: tokens signed with the old version stop verifying.
+  const revokeSessions = (id: string): Promise<StoreResult<StoredUser>> =>
+    changeUser(id, (user) => ({ ...user, sessionVersion: nextSessionVersion(user) }));
+
+  const updatePassword = (id: string, passwordHash: string): Promise<StoreResult<StoredUser>> =>
+    changeUser(id, (user) => ({ ...user, passwordHash, sessionVersion: nextSessionVersion(user) }));
+
+  const list = async (user: StoredUser, { includeDeleted = false } = {}): Promise<ServerScenario[]> =>
+    (await load()).scenarios
+      .filter((scenario) => scenario.ownerId === user.id && (includeDeleted || scenario.deletedAt === null))
+      .flatMap((scenario) => open(scenario, user) ?? [])
+      .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+
+  const get = async (user: StoredUser, id: string): Promise<StoreResult<ServerScenario>> => {
+    const data = await load();
+    const record = data.scenarios[findOwned(data, user.id, id)];
+    const scenario = record && record.deletedAt === null ? open(record, user) : null;
+    return scenario ? { success: true, data: scenario } : NOT_FOUND;
+  };
+
+  const create = (user: StoredUser, write: ScenarioWrite): Promise<StoreResult<ServerScenario>> =>
+    transact<StoreResult<ServerScenario>>((data) => {
+      const timestamp = now().toISOString();
+      const record: StoredScenario = {
+        id: createId(),
+        ownerId: user.id,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        deletedAt: null,
+        payload: cipher.encrypt(JSON.stringify(write)),
+      };
+      return {
+        data: { ...data, scenarios: [...data.scenarios, record] },
+        result: { success: true, data: toScenario(record, write, user) },
+      };
+    });
+
+  const update = (user: StoredUser, id: string, write: ScenarioWrite): Promise<StoreResult<ServerScenario>> =>
+    transact<StoreResult<ServerScenario>>((data) => {
+      const index = findOwned(data, user.id, id);
+      const existing = data.scenarios[index];
+      if (!existing || existing.deletedAt !== null) {
+        return { data: null, result: NOT_FOUND };
+      }
+
+      const record = { ...existing, updatedAt: now().toISOString(), payload: cipher.encrypt(JSON.stringify(write)) };
+      const scenarios = data.scenarios.map((scenario, position) => (position === index ? record : scenario));
+      return { data: { ...data, scenarios }, result: { success: true, data: toScenario(record, write, user) } };
+    });
+
+  // Soft delete hides the scenario but keeps it recoverable; purge removes the record and its payload for good.
+  const remove = (user: StoredUser, id: string, { purge = false } = {}): Promise<StoreResult<string>> =>
+    transact<StoreResult<string>>((data) => {
+      const index = findOwned(data, user.id, id);
+      const existing = data.scenarios[index];
+      if (!existing || (!purge && existing.deletedAt !== null)) {
+        return { data: null, result: NOT_FOUND };
+      }
+
+      const scenarios = purge
+        ? data.scenarios.filter((_, position) => position !== index)
+        : data.scenarios.map((scenario, position) =>
+            position === index ? { ...scenario, deletedAt: now().toISOString() } : scenario,
+          );
+      return { data: { ...data, scenarios }, result: { success: true, data: id } };
+    });
+
+  const restore = (user: StoredUser, id: string): Promise<StoreResult<ServerScenario>> =>
+    transact<StoreResult<ServerScenario>>((data) => {
+      const index = findOwned(data, user.id, id);
+      const existing = data.scenarios[index];
+      const record = existing ? { ...existing, deletedAt: null, updatedAt: now().toISOString() } : null;
+      const scenario = record ? open(record, user) : null;
+      if (!existing || existing.deletedAt === null || !record || !scenario) {
+        return { data: null, result: NOT_FOUND };
+      }
+
+      const scenarios = data.scenarios.map((entry, position) => (position === index ? record : entry));
+      return { data: { ...data, scenarios }, result: { success: true, data: scenario } };
+    });
+
+  return {
+    findUser,
+    getUser,
+    createUser,
+    revokeSessions,
+    updatePassword,
+    list,
+    get,
+    create,
+    update,
+    remove,
+    restore,
+  };
+};
+
+export type ScenarioStore = ReturnType<typeof createScenarioStore>;